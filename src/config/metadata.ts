@@ -66,42 +66,217 @@ export const toolsMetadata = {
     name: 'workspace_metadata',
     title: 'Discover IDs (Use First)',
     description:
-      "Use this to discover workspace entities and canonical IDs (viewer, teams, workflow states, labels, projects, favorites). Use this FIRST whenever you don't know ids. Inputs: include? (profile|teams|workflow_states|labels|projects|favorites), teamIds?, project_limit?, label_limit?.\nReturns: viewer, teams[] (with estimation settings and cyclesEnabled), workflowStatesByTeam, labelsByTeam, projects[], favorites?. Next: Use teamId/projectId to filter 'list_issues'; use workflowStatesByTeam[teamId][].id as stateId for 'update_issues'; use labelsByTeam ids for label operations. If a team has cyclesEnabled=false, avoid cycle-related tools.",
+      "Use this to discover workspace entities and canonical IDs (viewer, teams, workflow states, labels, projects, initiatives, favorites). Use this FIRST whenever you don't know ids. Inputs: include? (profile|teams|workflow_states|labels|projects|favorites|initiatives), teamIds?, project_limit?, label_limit?.\nReturns: viewer, teams[] (with estimation settings and cyclesEnabled), workflowStatesByTeam, labelsByTeam, projects[], initiatives?[] (with projectIds), favorites?. Next: Use teamId/projectId to filter 'list_issues'; use workflowStatesByTeam[teamId][].id as stateId for 'update_issues'; use labelsByTeam ids for label operations. If a team has cyclesEnabled=false, avoid cycle-related tools.",
   },
 
   list_issues: {
     name: 'list_issues',
     title: 'List Issues',
     description:
-      'List issues with filtering. Inputs: teamId?, projectId?, filter?, q?, keywords?, matchMode?, includeArchived?, orderBy?(updatedAt|createdAt), detail?(minimal|standard|full), limit?, cursor?, assignedToMe?.\n\n⚠️ orderBy only supports updatedAt or createdAt. DO NOT use orderBy:"priority" - use filter instead!\n\nKEYWORD SEARCH (q/keywords):\n- q: Extract 2-4 significant keywords from user intent. Avoid short/common words.\n- matchMode: \'all\' (default, precise) requires ALL tokens; \'any\' (broad) requires at least ONE.\n- Example: user says "find cursor workshop task" → q: "cursor workshop"\n\nFILTERING:\n- High priority: filter: { priority: { lte: 2 } } (1=Urgent, 2=High, 3=Medium, 4=Low)\n- Active issues: filter: { state: { type: { neq: \'completed\' } } }\n- In progress: filter: { state: { type: { eq: \'started\' } } }\n- My issues: assignedToMe: true\n\nDETAIL LEVELS: minimal (id,title,state), standard (default, +priority,assignee,project), full (+labels,description).\n\nReturns: { items[], pagination, meta }.',
+      'List issues with filtering. Inputs: teamId?, projectId?, viewId?|viewName? (saved custom view), filter?, q?, keywords?, matchMode?, includeArchived?, orderBy?(updatedAt|createdAt), detail?(minimal|standard|full), limit?, cursor?, assignedToMe?, includeCustomers?.\n\n⚠️ orderBy only supports updatedAt or createdAt. DO NOT use orderBy:"priority" - use filter instead!\n\nKEYWORD SEARCH (q/keywords):\n- q: Extract 2-4 significant keywords from user intent. Avoid short/common words.\n- matchMode: \'all\' (default, precise) requires ALL tokens; \'any\' (broad) requires at least ONE.\n- Example: user says "find cursor workshop task" → q: "cursor workshop"\n\nFILTERING:\n- High priority: filter: { priority: { lte: 2 } } (1=Urgent, 2=High, 3=Medium, 4=Low)\n- Active issues: filter: { state: { type: { neq: \'completed\' } } }\n- In progress: filter: { state: { type: { eq: \'started\' } } }\n- My issues: assignedToMe: true\n- Saved view: viewName: "Bugs Triage" (see list_custom_views); other filters narrow the view further\n\nDETAIL LEVELS: minimal (id,title,state), standard (default, +priority,assignee,project,customers), full (+labels,description).\n\nReturns: { items[], pagination, meta }. With includeCustomers: true, items include customerCount? and customerRequestCount? when customers have asked for the issue (see add_customer_requests); customerCountTruncated marks counts that are lower bounds (more than 50 requests).',
   },
 
   get_issues: {
     name: 'get_issues',
     title: 'Get Issues (Batch)',
     description:
-      "Fetch detailed issues in batch by ids (UUIDs or short ids like ENG-123). Inputs: { ids: string[] }.\nReturns: { results: Array<{ index, ok, id?, identifier?, issue? }>, summary }. Each issue includes assignee, state, project, labels, attachments, and branchName when available. Next: Call 'update_issues' to modify fields or 'list_issues' to discover more.",
+      "Fetch detailed issues in batch by ids (UUIDs or short ids like ENG-123). Inputs: { ids: string[] }.\nReturns: { results: Array<{ index, ok, id?, identifier?, issue? }>, summary }. Each issue includes assignee, state, project, labels, attachments (id, title, subtitle?, url, sourceType?), relations (blocks/blocked_by/duplicate_of/duplicated_by/related; relationsError instead if they could not be loaded), subscribers (id, name?), and branchName when available. Next: Call 'update_issues' to modify fields, 'manage_issue_relations' to link issues, or 'list_issues' to discover more.",
+  },
+
+  get_issue_tree: {
+    name: 'get_issue_tree',
+    title: 'Get Issue Tree',
+    description:
+      "Fetch an issue with its sub-issues recursively (parent/child hierarchy). Inputs: { id: string (UUID or ENG-123); maxDepth?: 1-5 (default 3); maxNodes?: 1-500 (default 250); includeArchived? }.\nReturns: { root, nodes: Array<{ id, identifier, title, parentId, depth, stateName, stateType, estimate, childCount, rollup? }>, rollup: { total, completed, byStateType, estimateTotal, estimateCompleted }, truncated }. Rollups count all fetched descendants. Next: 'get_issues' for details, 'create_issues' with parentIndex to add sub-issues.",
+  },
+
+  get_issue_history: {
+    name: 'get_issue_history',
+    title: 'Get Issue History',
+    description:
+      "Fetch the activity timeline of one issue: state transitions, assignee, project, priority, estimate, title and due date changes, label adds/removes, archive events — with who made each change and when. Inputs: { id: string (UUID or ENG-123); limit?: 1-100 (default 50); cursor? }.\nReturns: { issue, items: Array<{ id, createdAt, actorName?, changes: { state?: { before, after }, assignee?, priority?, estimate?, labels?: { added, removed }, ... } }>, pagination } newest first. Use to answer 'when did this move to In Progress and who moved it'. Next: pass nextCursor for older entries; 'get_issues' for the current snapshot.",
   },
 
   create_issues: {
     name: 'create_issues',
     title: 'Create Issues (Batch)',
     description:
-      "Create multiple issues in one call. Inputs: { items: Array<{ teamId: string; title: string; description?; stateId?; stateName?; stateType?; labelIds?; labelNames?; assigneeId?; assigneeName?; assigneeEmail?; projectId?; projectName?; priority?; estimate?; dueDate?; parentId?; allowZeroEstimate? }>; parallel?; dry_run? }.\n\nHUMAN-READABLE INPUTS (use workspace_metadata to discover valid values):\n- priority: 0-4 or \"Urgent\"/\"High\"/\"Medium\"/\"Low\" (standardized)\n- stateType: \"completed\"/\"started\"/\"backlog\"/\"unstarted\"/\"canceled\" (standardized)\n- stateName/labelNames/assigneeName/projectName: workspace-specific\n\nBehavior: Only send fields you intend to set. If 'assigneeId' is omitted, defaults to current viewer. Invalid numbers are ignored (priority<0 dropped; estimate<=0 dropped unless allowZeroEstimate=true). Returns: per-item results with id/identifier. Next: verify with 'list_issues'.",
+      "Create multiple issues in one call. Inputs: { items: Array<{ teamId: string; title: string (optional with a template); templateId?; templateName?; description?; stateId?; stateName?; stateType?; labelIds?; labelNames?; assigneeId?; assigneeName?; assigneeEmail?; projectId?; projectName?; cycleId?; cycleName?; projectMilestoneId?; projectMilestoneName?; priority?; estimate?; dueDate?; parentId?; parentIndex?; allowZeroEstimate? }>; parallel?; dry_run?; createMissingLabels? }.\n\nHUMAN-READABLE INPUTS (use workspace_metadata to discover valid values):\n- priority: 0-4 or \"Urgent\"/\"High\"/\"Medium\"/\"Low\" (standardized)\n- stateType: \"completed\"/\"started\"/\"backlog\"/\"unstarted\"/\"canceled\" (standardized)\n- cycleName: \"current\"/\"next\"/\"previous\" or a cycle number (resolved per team)\n- stateName/labelNames/assigneeName/projectName/projectMilestoneName: workspace-specific (milestones resolve within the item's project)\n\nBehavior: Only send fields you intend to set. If 'assigneeId' is omitted, defaults to current viewer. Invalid numbers are ignored (priority<0 dropped; estimate<=0 dropped unless allowZeroEstimate=true). Unknown labelNames fail the item unless createMissingLabels=true, which creates them in the item's team.\n\nTEMPLATES: templateId/templateName (see list_issue_templates) pre-fill title, description, labels, priority and estimate; explicit fields on the item override template values. A template title ending in ':', ']' or '-' (e.g. '[Bug]') is kept as a prefix of the item title. Unknown templates fail the item with TEMPLATE_NOT_FOUND.\n\nDECOMPOSITION: Create a parent and its sub-issues in one call by setting parentIndex on a child to the index of an earlier item in the same batch; the created parent's id is used as parentId. Nest deeper by pointing at a child's index. If the parent fails, its children fail with PARENT_NOT_CREATED.\nExample: { items: [{ teamId, title: 'Epic' }, { teamId, title: 'Part A', parentIndex: 0 }, { teamId, title: 'Part A.1', parentIndex: 1 }] }.\nReturns: per-item results with id/identifier (same order as items). Next: verify with 'list_issues' or 'get_issue_tree'.",
   },
 
   update_issues: {
     name: 'update_issues',
     title: 'Update Issues (Batch)',
     description:
-      "Update issues in batch (state, labels, assignee, metadata). Supports up to 50 items per call — always batch all updates together. Inputs: { items: Array<{ id: string; title?; description?; stateId?; stateName?; stateType?; labelIds?; labelNames?; addLabelIds?; addLabelNames?; removeLabelIds?; removeLabelNames?; assigneeId?; assigneeName?; assigneeEmail?; projectId?; projectName?; priority?; estimate?; dueDate?; parentId?; archived?; allowZeroEstimate? }>; parallel?; dry_run? }.\n\nHUMAN-READABLE INPUTS (use workspace_metadata to discover valid values):\n- priority: 0-4 or \"Urgent\"/\"High\"/\"Medium\"/\"Low\" (standardized)\n- stateType: \"completed\"/\"started\"/\"canceled\" (standardized)\n- stateName/labelNames/assigneeName/projectName: workspace-specific\n\nBehavior: Only send fields you intend to change. Empty strings ignored; estimate<=0 ignored unless allowZeroEstimate=true. add/removeLabelIds/Names adjust labels incrementally.\nExample: { items: [{ id: 'ABC-123', stateType: 'completed', priority: 'High' }] }. Returns: per-item results. Next: 'get_issues' for verification.",
+      "Update issues in batch (state, labels, assignee, metadata). Supports up to 50 items per call — always batch all updates together. Inputs: { items: Array<{ id: string; title?; description?; stateId?; stateName?; stateType?; labelIds?; labelNames?; addLabelIds?; addLabelNames?; removeLabelIds?; removeLabelNames?; assigneeId?; assigneeName?; assigneeEmail?; projectId?; projectName?; cycleId?; cycleName?; projectMilestoneId?; projectMilestoneName?; priority?; estimate?; dueDate?; parentId?; archived?; allowZeroEstimate? }>; parallel?; dry_run?; createMissingLabels? }.\n\nHUMAN-READABLE INPUTS (use workspace_metadata to discover valid values):\n- priority: 0-4 or \"Urgent\"/\"High\"/\"Medium\"/\"Low\" (standardized)\n- stateType: \"completed\"/\"started\"/\"canceled\" (standardized)\n- cycleName: \"current\"/\"next\"/\"previous\" or a cycle number (resolved per team)\n- stateName/labelNames/assigneeName/projectName/projectMilestoneName: workspace-specific (milestones resolve within the item's project)\n\nBehavior: Only send fields you intend to change. Empty strings ignored; estimate<=0 ignored unless allowZeroEstimate=true. add/removeLabelIds/Names adjust labels incrementally. createMissingLabels=true creates unknown labelNames/addLabelNames in the issue's team (removeLabelNames never creates).\nExample: { items: [{ id: 'ABC-123', stateType: 'completed', priority: 'High' }] }. Returns: per-item results. Next: 'get_issues' for verification.",
+  },
+
+  manage_issue_relations: {
+    name: 'manage_issue_relations',
+    title: 'Manage Issue Relations (Batch)',
+    description:
+      "Add or remove issue relations in batch. Inputs: { items: Array<{ action: 'add'|'remove'; issueId: string; type: 'blocks'|'blocked_by'|'duplicate'|'related'; relatedIssueId: string }> }. Ids accept UUIDs or identifiers like ENG-123.\nSemantics: 'blocks' = issueId blocks relatedIssueId; 'blocked_by' = relatedIssueId blocks issueId; 'duplicate' = issueId is a duplicate of relatedIssueId.\nReturns: per-item results and a summary. Next: verify with 'get_issues' (relations field).",
+  },
+
+  list_attachments: {
+    name: 'list_attachments',
+    title: 'List Attachments',
+    description:
+      "List attachments (linked URLs such as PRs, Sentry events, Figma frames) on an issue. Inputs: { issueId (UUID or identifier like ENG-123), limit?, cursor? }.\nReturns: { issue{id,identifier?,title?,url?}, items: Array<{ id, title, subtitle?, url, sourceType?, createdAt?, creator?{id,name?} }>, cursor?, nextCursor?, limit? }. Next: Use 'link_attachments' to attach more URLs or 'remove_attachments' to detach.",
+  },
+
+  link_attachments: {
+    name: 'link_attachments',
+    title: 'Link Attachments (Batch)',
+    description:
+      "Attach URLs to issues in batch. Inputs: { items: Array<{ issueId: string; url: string; title?: string (defaults to the URL); subtitle?: string }> }. Linking the same URL to the same issue again updates the existing attachment.\nReturns: per-item results with attachment id and a summary. Next: verify with 'list_attachments' or 'get_issues'.",
+  },
+
+  remove_attachments: {
+    name: 'remove_attachments',
+    title: 'Remove Attachments (Batch)',
+    description:
+      "Remove attachments from issues by attachment id. Inputs: { ids: string[] }. Only the link is removed; the external resource is untouched.\nReturns: per-item results and a summary. Next: Use 'list_attachments' to find attachment ids.",
+  },
+
+  create_labels: {
+    name: 'create_labels',
+    title: 'Create Labels (Batch)',
+    description:
+      "Create issue labels in batch. Inputs: { items: Array<{ name: string; teamId?: string (omit for a workspace label); color?: '#rrggbb'; description?; isGroup?: boolean; parentId?; parentName? }> }. Set isGroup=true to create a label group; nest labels under it with parentId or parentName (groups created earlier in the same batch resolve by name).\nReturns: per-item results with label id and a summary. Next: use the names in create_issues/update_issues labelNames.",
+  },
+
+  update_labels: {
+    name: 'update_labels',
+    title: 'Update Labels (Batch)',
+    description:
+      "Rename, recolor, regroup or delete labels in batch. Inputs: { items: Array<{ id: string; name?; color?: '#rrggbb'; description?; parentId?; delete?: boolean }> }. delete=true permanently deletes the label (it is removed from every issue; this cannot be undone), must be sent alone and asks the user to confirm when the client supports it.\nReturns: per-item results and a summary. Next: verify with 'workspace_metadata' (labels).",
+  },
+
+  merge_labels: {
+    name: 'merge_labels',
+    title: 'Merge Labels (Batch)',
+    description:
+      "Merge one label into another: every issue with sourceLabelId gets targetLabelId instead, then the source is permanently deleted (cannot be undone). Asks the user to confirm when the client supports it. Inputs: { items: Array<{ sourceLabelId: string; targetLabelId: string; deleteSource?: boolean (default true) }> }. The source is kept if any issue could not be relabeled; call again to continue.\nReturns: per-item results with movedIssues, failedIssues and sourceDeleted. Next: verify with 'list_issues'.",
+  },
+
+  manage_workflow_states: {
+    name: 'manage_workflow_states',
+    title: 'Manage Workflow States (Batch)',
+    description:
+      "Create, rename, reorder or archive team workflow states in batch. Inputs: { items: Array<{ action: 'create'|'update'|'archive'; id? (update/archive); teamId? (create); name?; type?: 'backlog'|'unstarted'|'started'|'completed'|'canceled' (create only); color?: '#rrggbb'; description?; position?: number (lower sorts first within its type) }>; dry_run? }.\nArchive only succeeds for empty states: items with issues fail with STATE_NOT_EMPTY and report issueCount. Use dry_run=true to preview every change and the issue count of each state before archiving.\nReturns: per-item results (issueCount for archives), summary and dryRun. Next: move issues with 'update_issues', verify with 'workspace_metadata' (workflow_states).",
+  },
+
+  triage_queue: {
+    name: 'triage_queue',
+    title: 'Triage Queue',
+    description:
+      "List issues awaiting triage (state type 'triage'), grouped by team. Inputs: teamId? (omit for all teams), includeSnoozed? (default false), limit? (default 25), cursor?.\nSnoozed issues are hidden until their snooze ends (filtered server-side, so pages stay full).\nReturns: { items[] (id, identifier, title, priority?, team?, creator?, labels[], createdAt, snoozedUntilAt?, url?), pagination }. Next: decide with 'triage_issues', read details with 'get_issues'.",
+  },
+
+  triage_issues: {
+    name: 'triage_issues',
+    title: 'Triage Issues (Batch)',
+    description:
+      "Accept, decline, mark duplicate or snooze triage issues in batch. Inputs: { items: Array<{ id; action: 'accept'|'decline'|'duplicate'|'snooze'; stateId?|stateName?|stateType? (accept only; default: team default state); duplicateOfId? (required for duplicate); snoozeUntil? (ISO, required for snooze); assigneeId?|assigneeName?|assigneeEmail?; priority?; labelIds?|labelNames? (added); comment? }> }.\nDecline moves the issue to a canceled state. Duplicate links the issues and moves the issue to the team's duplicate state.\nReturns: per-item results and summary. Next: 'triage_queue' to see what is left.",
+  },
+
+  list_notifications: {
+    name: 'list_notifications',
+    title: 'List Notifications',
+    description:
+      "List the current user's inbox notifications (mentions, assignments, status changes, new comments), grouped by issue. Inputs: status?: 'unread'|'read'|'all' (default 'unread'), types?: string[] (e.g. 'issueMention', 'issueAssignedToYou'), includeArchived?, limit? (default 50), cursor?.\nRead state is filtered client-side over up to 5 requests, so a mostly-read inbox can still return fewer items than limit while nextCursor is set.\nReturns: { items[] (id, type, createdAt, readAt?, snoozedUntilAt?, actor?, issue?, comment?{ id, snippet }), groups[] (issue?, notificationIds, unread) }. Next: 'mark_notifications' to clear handled items, 'get_issues' for context.",
+  },
+
+  mark_notifications: {
+    name: 'mark_notifications',
+    title: 'Mark Notifications (Batch)',
+    description:
+      "Mark inbox notifications read, snoozed or archived in batch. Inputs: { items: Array<{ id; action: 'read'|'snooze'|'archive'; snoozeUntil? (ISO, required for snooze) }> }. Use notificationIds from list_notifications groups to clear a whole issue at once.\nReturns: per-item results and summary. Next: 'list_notifications' to see what is left.",
+  },
+
+  manage_issue_subscribers: {
+    name: 'manage_issue_subscribers',
+    title: 'Manage Issue Subscribers (Batch)',
+    description:
+      "Subscribe or unsubscribe users to issue notifications in batch. Inputs: { items: Array<{ action: 'subscribe'|'unsubscribe'; issueId: string; userId?|userName?|userEmail? }> }. Omit the user to (un)subscribe the current user. Ids accept UUIDs or identifiers like ENG-123.\nPrefer subscribing the right watchers over @mentioning everyone in comments.\nReturns: per-item results and a summary. Next: verify with 'get_issues' (subscribers field).",
+  },
+
+  manage_reactions: {
+    name: 'manage_reactions',
+    title: 'Manage Reactions (Batch)',
+    description:
+      "Add or remove your emoji reactions on issues and comments in batch. Inputs: { items: Array<{ action: 'add'|'remove'; issueId? | commentId? (exactly one); emoji: string (name like 'thumbsup', 'eyes') }> }.\nAdding an emoji you already reacted with is reported as success; only your own reactions can be removed (REACTION_NOT_FOUND otherwise).\nReturns: per-item results and a summary. Next: 'list_comments' to find comment ids.",
+  },
+
+  list_custom_views: {
+    name: 'list_custom_views',
+    title: 'List Custom Views',
+    description:
+      "List saved custom views (workspace, team and personal). Inputs: teamId?, q? (name contains, case-insensitive), limit? (default 50), cursor?.\nOnly views with modelName 'Issue' can be applied to list_issues.\nReturns: { items[] (id, name, description?, modelName, shared, filterData, team?{ id, key }, owner?), pagination }. Next: 'list_issues' with viewId or viewName to run a view, 'update_custom_views' to edit one.",
+  },
+
+  create_custom_views: {
+    name: 'create_custom_views',
+    title: 'Create Custom Views (Batch)',
+    description:
+      'Save issue filters as custom views in batch. Inputs: { items: Array<{ name: string; filter: IssueFilter (same shape as list_issues filter); description?; teamId?; shared? (default false); icon?; color? }> }.\nFilters are validated and normalized like list_issues before saving (FILTER_INVALID otherwise); tip: run list_issues with the filter first to check the results.\nReturns: per-item results with the new view id and a summary. Next: \'list_issues\' with viewId.',
+  },
+
+  update_custom_views: {
+    name: 'update_custom_views',
+    title: 'Update Custom Views (Batch)',
+    description:
+      'Update saved custom views in batch. Inputs: { items: Array<{ id: string; name?; description?; shared?; filter? (replaces the saved filter); icon?; color? }> }.\nFilters are validated and normalized like list_issues. Items with nothing to change fail with VALIDATION_ERROR.\nReturns: per-item results and a summary. Next: \'list_custom_views\' to verify.',
+  },
+
+  list_issue_templates: {
+    name: 'list_issue_templates',
+    title: 'List Issue Templates',
+    description:
+      "List issue templates (workspace and team) with the fields each one pre-fills. Inputs: teamId? (team templates plus workspace templates), q? (name contains, case-insensitive).\nReturns: { items[] (id, name, description?, team?{ id, key }, defaults{ title?, description?, labelIds?, priority?, estimate? }) }. Next: 'create_issues' with templateId or templateName.",
+  },
+
+  move_issues: {
+    name: 'move_issues',
+    title: 'Move Issues (Batch)',
+    description:
+      "Move issues to another team in batch, remapping workflow state and labels. Inputs: { items: Array<{ id: string (UUID or identifier); teamId? | teamKey? (destination); stateId? | stateName? | stateType? (explicit target state) }>; createMissingLabels?; dry_run? }.\nWithout an explicit state, the issue keeps a state of the same type (same name preferred). Workspace labels are kept; team labels are matched by name in the destination team, created there with createMissingLabels=true, or dropped.\nReturns: per-item results with fromTeam, toTeam, state { from, to? }, labels { kept, remapped, created } and unmapped[] listing anything dropped. Next: run with dry_run first for reorgs; 'get_issues' to verify.",
+  },
+
+  delete_issues: {
+    name: 'delete_issues',
+    title: 'Delete Issues (Batch)',
+    description:
+      "Delete issues in batch (e.g. spam or test issues). Deleted issues move to the trash and can be restored for 30 days with 'restore_issues'. Inputs: { ids: string[] (UUIDs or identifiers like ENG-123) }.\nAsks the user to confirm first, listing the issues, when the client supports elicitation; if declined, nothing is deleted and items fail with code CANCELLED. To keep issues but hide them, use 'update_issues' with archived=true instead.\nReturns: per-item results and a summary. Next: 'restore_issues' to undo.",
+  },
+
+  restore_issues: {
+    name: 'restore_issues',
+    title: 'Restore Issues (Batch)',
+    description:
+      "Restore trashed (deleted) or archived issues in batch. Inputs: { ids: string[] (UUIDs or identifiers) }.\nReturns: per-item results and a summary. Next: Use get_issues to verify.",
+  },
+
+  list_customers: {
+    name: 'list_customers',
+    title: 'List Customers',
+    description:
+      "List customers tracked in Linear. Inputs: q? (name contains, case-insensitive), domain? (e.g. 'acme.com'), limit? (default 50), cursor?.\nReturns: { items[] (id, name, domains[], externalIds[], status?, tier?, revenue?, size?, requestCount, owner?), pagination }. Next: 'add_customer_requests' to link a customer to an issue, 'list_issues' for per-issue customer counts.",
+  },
+
+  add_customer_requests: {
+    name: 'add_customer_requests',
+    title: 'Add Customer Requests (Batch)',
+    description:
+      "Attach customer requests to issues in batch, recording which customer asked. Inputs: { items: Array<{ issueId: string (UUID or identifier); customerId? | customerName? | customerDomain? | customerExternalId?; body? (what they asked for); important? (boolean); attachmentUrl? (source, e.g. support ticket) }> }.\nReturns: per-item results and a summary. Next: 'list_issues' with includeCustomers: true shows customerCount per issue to prioritize by demand.",
   },
 
   list_projects: {
     name: 'list_projects',
     title: 'List Projects',
     description:
-      "List projects with filtering and pagination. Inputs: filter? (ProjectFilter: id/state/team/lead/targetDate), includeArchived?, limit?, cursor?. For a single project, set filter.id.eq and limit=1.\nReturns: { items[], cursor?, nextCursor?, limit? } where items include id, name, state, leadId?, teamId?, targetDate?, description?. Next: Use 'update_projects' to modify or 'list_issues' with projectId to find issues.",
+      "List projects with filtering and pagination. Inputs: filter? (ProjectFilter: id/state/team/lead/targetDate), includeArchived?, limit?, cursor?. For a single project, set filter.id.eq and limit=1.\nReturns: { items[], cursor?, nextCursor?, limit? } where items include id, name, state, leadId?, teamId?, targetDate?, description?, health? (latest update: onTrack/atRisk/offTrack), healthUpdatedAt?, milestones?[{ id, name, targetDate?, progress? }]. Next: Use 'update_projects' to modify, 'list_project_milestones' for milestone details, or 'list_issues' with projectId to find issues.",
   },
 
   create_projects: {
@@ -118,6 +293,55 @@ export const toolsMetadata = {
       "Update multiple projects in one call. Inputs: { items: Array<{ id: string; name?: string; description?: string; targetDate?: string; state?: string; leadId?: string; archived?: boolean }> }.\nReturns: per-item results and a summary. Next: verify with 'list_projects' (filter.id.eq, limit=1); discover via 'list_projects'.",
   },
 
+  list_project_milestones: {
+    name: 'list_project_milestones',
+    title: 'List Project Milestones',
+    description:
+      "List milestones for a project in roadmap order. Inputs: { projectId: string; limit?; cursor? }.\nReturns: { items: Array<{ id, name, description?, targetDate?, sortOrder?, progress? }>, cursor?, nextCursor?, limit? } where progress is 0-100 (% of milestone issues completed). Next: Use 'update_issues' with projectMilestoneName to plan issues into a milestone, or 'list_issues' with filter.projectMilestone.id.eq to see them.",
+  },
+
+  create_project_milestones: {
+    name: 'create_project_milestones',
+    title: 'Create Project Milestones (Batch)',
+    description:
+      "Create multiple project milestones in one call. Inputs: { items: Array<{ projectId: string; name: string; description?: string; targetDate?: string }> }.\nReturns: per-item results and a summary. Next: verify with 'list_project_milestones'.",
+  },
+
+  update_project_milestones: {
+    name: 'update_project_milestones',
+    title: 'Update Project Milestones (Batch)',
+    description:
+      "Update multiple project milestones in one call. Inputs: { items: Array<{ id: string; name?: string; description?: string; targetDate?: string }> }.\nReturns: per-item results and a summary. Next: verify with 'list_project_milestones'.",
+  },
+
+  list_project_updates: {
+    name: 'list_project_updates',
+    title: 'List Project Updates',
+    description:
+      "List status updates posted on a project, newest first. Inputs: { projectId: string; limit?; cursor? }.\nReturns: { project: { id, name?, health? }, items: Array<{ id, body, health?, createdAt, url?, user? }>, cursor?, nextCursor?, limit? }. Next: Use 'create_project_updates' to post the next update; compare with 'list_issues' (projectId) activity.",
+  },
+
+  create_project_updates: {
+    name: 'create_project_updates',
+    title: 'Create Project Updates (Batch)',
+    description:
+      "Post status updates on projects in one call. Inputs: { items: Array<{ projectId: string; body: string (markdown); health?: 'onTrack' | 'atRisk' | 'offTrack' }> }.\nBehavior: health becomes the project's current health shown in 'list_projects'. Updates notify project members, so draft the body first and post once. Returns: per-item results with update url and a summary. Next: verify with 'list_project_updates'.",
+  },
+
+  list_initiatives: {
+    name: 'list_initiatives',
+    title: 'List Initiatives',
+    description:
+      "List initiatives (roadmap level above projects) with the projects linked to each. Inputs: status? ('Planned'|'Active'|'Completed'), includeArchived?, projectLimit? (projects per initiative, default 25), limit?, cursor?.\nReturns: { items: Array<{ id, name, description?, status?, health?, targetDate?, url?, ownerId?, ownerName?, projects: Array<{ id, name, state?, health?, progress? }>, hasMoreProjects }>, cursor?, nextCursor?, limit? }. Next: Use 'manage_initiative_projects' to link/unlink projects, 'list_projects' (filter.id.eq) or 'list_project_updates' to drill into a project.",
+  },
+
+  manage_initiative_projects: {
+    name: 'manage_initiative_projects',
+    title: 'Manage Initiative Projects (Batch)',
+    description:
+      "Link or unlink projects to initiatives in batch. Inputs: { items: Array<{ action: 'link'|'unlink'; initiativeId: string; projectId: string }> }. A project can belong to several initiatives.\nReturns: per-item results and a summary. Next: verify with 'list_initiatives'.",
+  },
+
   list_teams: {
     name: 'list_teams',
     title: 'List Teams',
@@ -125,6 +349,27 @@ export const toolsMetadata = {
       "List teams in the workspace. Inputs: limit?, cursor?.\nReturns: { items: Array<{ id, key?, name }>, cursor?, nextCursor?, limit? }. Next: Use team ids with 'workspace_metadata' (workflowStatesByTeam) and 'list_issues'.",
   },
 
+  list_team_members: {
+    name: 'list_team_members',
+    title: 'List Team Members',
+    description:
+      "List the members of a team with their roles. Inputs: { teamId? | teamKey?; includeInactive?; limit?; cursor? }.\nReturns: { items: Array<{ membershipId, user { id, name?, displayName?, email? }, role: 'owner'|'member' (team), workspaceRole: 'admin'|'member'|'guest', active?, joinedAt? }>, nextCursor? }. Deactivated users are hidden unless includeInactive=true. Next: 'manage_team_members' to add or remove members.",
+  },
+
+  manage_team_members: {
+    name: 'manage_team_members',
+    title: 'Manage Team Members (Batch)',
+    description:
+      "Add users to teams or remove them, in batch (e.g. onboard an engineer to several teams at once). Inputs: { items: Array<{ action: 'add'|'remove'; teamId? | teamKey?; userId? | userName? | userEmail?; owner?: boolean (add only) }> }.\nAdding an existing member only changes the owner flag when owner is set; removing a non-member succeeds without changes.\nReturns: per-item results and a summary. Next: verify with 'list_team_members'.",
+  },
+
+  update_teams: {
+    name: 'update_teams',
+    title: 'Update Teams (Batch)',
+    description:
+      "Update team settings in batch. Inputs: { items: Array<{ teamId? | teamKey?; name?; description?; timezone?; triageEnabled?; cyclesEnabled?; cycleDuration? (weeks 1-8); cycleCooldownTime? (weeks); cycleStartDay? (0=Sunday..6); upcomingCycleCount?; cycleIssueAutoAssignStarted?; cycleIssueAutoAssignCompleted?; issueEstimationType?: 'notUsed'|'exponential'|'fibonacci'|'linear'|'tShirt'; issueEstimationAllowZero?; issueEstimationExtended?; defaultIssueEstimate? }> }.\nReturns: per-item results and a summary listing the changed settings. Next: verify with 'workspace_metadata' include=['teams'].",
+  },
+
   list_users: {
     name: 'list_users',
     title: 'List Users',
@@ -150,7 +395,42 @@ export const toolsMetadata = {
     name: 'update_comments',
     title: 'Update Comments (Batch)',
     description:
-      'Update existing comment bodies. Cannot delete comments (by design). Inputs: { items: Array<{ id: string; body: string }> }.\nReturns: per-item results and a summary. Next: Use list_comments to verify changes.',
+      'Update existing comment bodies. To remove comments use delete_comments. Inputs: { items: Array<{ id: string; body: string }> }.\nReturns: per-item results and a summary. Next: Use list_comments to verify changes.',
+  },
+
+  delete_comments: {
+    name: 'delete_comments',
+    title: 'Delete Comments (Batch)',
+    description:
+      "Permanently delete comments in batch. Inputs: { ids: string[] (comment IDs from list_comments) }.\nAsks the user to confirm first when the client supports elicitation; if declined, nothing is deleted and items fail with code CANCELLED.\nReturns: per-item results and a summary. Next: Use list_comments to verify.",
+  },
+
+  list_documents: {
+    name: 'list_documents',
+    title: 'List Documents',
+    description:
+      'List Linear documents (specs, PRDs, notes), most recently updated first. Inputs: { projectId?, query? (title contains, case-insensitive), limit?, cursor? }.\nReturns: { items: Array<{ id, title, url?, icon?, project?{id,name?}, creator?{id,name?}, createdAt, updatedAt? }>, cursor?, nextCursor?, limit? }. Content is not included. Next: Use get_documents to read the markdown before creating issues from a spec.',
+  },
+
+  get_documents: {
+    name: 'get_documents',
+    title: 'Get Documents (Batch)',
+    description:
+      "Fetch documents with their markdown content. Inputs: { ids: string[] (UUID or slug id from the URL), maxChars? (per document, default 20000), offset? (start position, default 0) }.\nReturns: per-document results { requestedId, success, document?{ id, title, url?, project?, content, contentLength, offset, truncated, nextOffset? }, error? }. Long documents are truncated; call again with offset=nextOffset to continue reading. Next: Use create_issues to turn the spec into work items.",
+  },
+
+  create_documents: {
+    name: 'create_documents',
+    title: 'Create Documents (Batch)',
+    description:
+      'Create documents in a project. Inputs: { items: Array<{ projectId: string; title: string; content?: string (markdown); icon?: string }> }.\nReturns: per-item results with id, url and a summary. Next: Use get_documents to verify content.',
+  },
+
+  update_documents: {
+    name: 'update_documents',
+    title: 'Update Documents (Batch)',
+    description:
+      'Update document title or content, or move a document to another project. Content replaces the whole body. Inputs: { items: Array<{ id: string; title?: string; content?: string (markdown); projectId?: string }> }.\nReturns: per-item results and a summary. Next: Use get_documents to verify changes.',
   },
 
   list_cycles: {
@@ -159,6 +439,51 @@ export const toolsMetadata = {
     description:
       "List cycles for a team (only if team.cyclesEnabled=true). Inputs: { teamId, includeArchived?, orderBy?(updatedAt|createdAt), limit?, cursor? }.\nReturns: { items[], cursor?, nextCursor?, limit? } where items include id, name?, number?, startsAt?, endsAt?, completedAt?, teamId, status?. Next: Use teamId from 'workspace_metadata' to target the right team; avoid this tool if cyclesEnabled=false.",
   },
+
+  create_cycles: {
+    name: 'create_cycles',
+    title: 'Create Cycles (Batch)',
+    description:
+      "Create cycles (sprints) in batch. Inputs: { items: Array<{ teamId: string; startsAt: string; endsAt: string; name?; description? }> } (dates YYYY-MM-DD or ISO). Team must have cyclesEnabled=true.\nReturns: per-item results with cycle id and number. Next: assign issues with 'update_issues' using cycleName ('current', 'next', a number) or cycleId.",
+  },
+
+  update_cycles: {
+    name: 'update_cycles',
+    title: 'Update Cycles (Batch)',
+    description:
+      "Update cycles in batch (name, description, dates, completion). Inputs: { items: Array<{ id: string; name?; description?; startsAt?; endsAt?; completedAt? }> }.\nReturns: per-item results. Next: verify with 'list_cycles'.",
+  },
+
+  cycle_report: {
+    name: 'cycle_report',
+    title: 'Cycle Report (Velocity & Burndown)',
+    description:
+      "Sprint numbers for one team cycle: scope, completed points, carry-over, scope creep (issues added after the cycle started), canceled work, a daily burndown series and the rolling average velocity of the last closed cycles. Inputs: teamId? | teamKey?, cycle? ('current' (default), 'previous', 'next', cycle number or name), velocityCycles? (1-12, default 3).\nPoints are issue estimates (unestimated issues count 0 and are reported). Burndown days are UTC.\nReturns: { team, cycle{ number, status active|completed|upcoming, ... }, scope, completed, completionRate, carryOver{ items[] }, scopeCreep{ items[] }, canceled, burndown[]{ date, scope, completed, remaining, ideal }, velocity{ cycles[], averagePoints, averageIssues } }. Next: 'get_issues' on carried-over issues, 'list_cycles' for other cycles.",
+  },
+  flow_metrics: {
+    name: 'flow_metrics',
+    title: 'Flow Metrics (Lead Time, Cycle Time, WIP Aging)',
+    description:
+      "Delivery flow for a team and/or project over a date range: lead time (created → completed), cycle time (started → completed), weekly throughput and an aging report of in-progress issues. Inputs: teamId? | teamKey?, projectId?, from? (ISO date, default 8 weeks before 'to'), to? (ISO date, default now; a date-only value includes that whole day), maxIssues? (1-5000, default 2000).\nIssues are selected by completion date. Durations are in days; percentiles are nearest-rank. Weeks start on Monday (UTC); averagePerWeek is completed issues over the range length in weeks. In-progress issues are flagged when older than the p50/p85/p95 cycle time.\nReturns: { query, completedCount, leadTime{ count, average, p50, p85, p95 }, cycleTime{...}, throughput{ weeks[]{ weekStart, completed, points }, averagePerWeek }, aging{ thresholds, items[]{ identifier, stateName, assigneeName, ageDays, above } }, truncated }. Next: 'get_issues' on the oldest in-progress issues, 'cycle_report' for sprint-level numbers.",
+  },
+  workload_overview: {
+    name: 'workload_overview',
+    title: 'Workload Overview (Capacity)',
+    description:
+      "Who is overloaded? Groups open issues (triage, backlog, unstarted, started) by assignee with issue counts and estimate sums per state type and priority, flags people above a threshold and lists unassigned Urgent/High work. Inputs: teamId? | teamKey?, projectId?, maxIssuesPerPerson? (default 10), maxPointsPerPerson?, maxIssues? (1-5000, default 2000).\nActive members of the team (or, with no scope, active workspace users; apps excluded) without open issues are included so spare capacity is visible. Overloaded people come with reassignment candidates (not yet started, least urgent first).\nReturns: { totals, people[]{ id, name, openIssues, points, byStateType, byPriority, overloaded, issues? }, unassigned{ issues, points, highPriority[] }, truncated }. Next: propose reassignments and apply them with 'update_issues' (assigneeId).",
+  },
+  standup_digest: {
+    name: 'standup_digest',
+    title: 'Standup Digest',
+    description:
+      "Async standup for a user or a team, grouped Yesterday / Today / Blocked. Yesterday: issues that changed state, were commented on or newly assigned in the window. Today: issues in progress. Blocked: open issues blocked by unfinished issues. Inputs: userId? | userName? | userEmail? (default: you), teamId? | teamKey? (alone: the whole team), since?, until? (ISO; default from the start of the previous workday, Friday on Mondays, until now), timezone? (IANA; default the viewer timezone from 'workspace_metadata' profile), maxIssues?.\nReturns: { scope, window{ since, until, timezone }, yesterday[]{ stateChanges[], comments, assignedAt? }, today[], blocked[]{ blockedBy[] }, markdown, truncated }. Next: post 'markdown' with 'add_comments' or 'create_project_updates'.",
+  },
+  generate_changelog: {
+    name: 'generate_changelog',
+    title: 'Generate Changelog',
+    description:
+      "Markdown release notes from completed issues, grouped by label into Features / Bug fixes / Improvements / Other changes, each entry linked with its identifier. Scope: teamId? | teamKey?, projectId?, cycle? ('current' | 'previous' | number | name; needs a team), from?, to? (ISO, on completedAt; default the last 14 days when no cycle or project is given). Inputs: title? (release title), rewrite? (ask the client's LLM to rewrite titles for users; needs sampling, otherwise original titles are kept), maxIssues?.\nReturns: { query, title, sections[]{ heading, items[]{ identifier, title, userFacingTitle?, url, labels[] } }, totalIssues, markdown, rewrite{ requested, applied, reason? }, truncated }. Next: publish 'markdown' with 'create_documents' or 'create_project_updates'.",
+  },
 } as const satisfies Record<string, ToolMetadata>;
 
 /**
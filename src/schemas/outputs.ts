@@ -72,6 +72,11 @@ export const IssueItemSchema = z
     dueDate: z.string().optional(),
     url: z.string().optional(),
     labels: z.array(z.object({ id: z.string(), name: z.string() })).default([]),
+    // Distinct customers that requested the issue, and their total requests
+    customerCount: z.number().optional(),
+    customerRequestCount: z.number().optional(),
+    // Set when the issue has more requests than were read; counts are lower bounds
+    customerCountTruncated: z.boolean().optional(),
   })
   .strict();
 
@@ -80,6 +85,8 @@ export const ListIssuesQuerySchema = z
     filter: z.record(z.unknown()).optional(),
     teamId: z.string().optional(),
     projectId: z.string().optional(),
+    // Custom view whose filter was applied (viewId/viewName)
+    view: z.object({ id: z.string(), name: z.string() }).strict().optional(),
     assignedToMe: z.boolean().optional(),
     keywords: z.array(z.string()).optional(),
     matchMode: z.enum(['all', 'any']).optional(),
@@ -103,6 +110,30 @@ export const ListIssuesOutputSchema = z
   .strict();
 export type ListIssuesOutput = z.infer<typeof ListIssuesOutputSchema>;
 
+export const IssueRelationItemSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(['blocks', 'blocked_by', 'duplicate_of', 'duplicated_by', 'related']),
+    issueId: z.string(),
+    identifier: z.string().optional(),
+    title: z.string().optional(),
+    url: z.string().optional(),
+  })
+  .strict();
+
+export const AttachmentItemSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    subtitle: z.string().optional(),
+    url: z.string(),
+    // e.g. github, sentry, figma
+    sourceType: z.string().optional(),
+    createdAt: z.string().optional(),
+    creator: z.object({ id: z.string(), name: z.string().optional() }).optional(),
+  })
+  .strict();
+
 export const GetIssueOutputSchema = z
   .object({
     id: z.string(),
@@ -117,7 +148,13 @@ export const GetIssueOutputSchema = z
     project: z.object({ id: z.string(), name: z.string().optional() }).optional(),
     labels: z.array(z.object({ id: z.string(), name: z.string() })).default([]),
     branchName: z.string().optional(),
-    attachments: z.array(z.unknown()).optional(),
+    attachments: z.array(AttachmentItemSchema).optional(),
+    relations: z.array(IssueRelationItemSchema).optional(),
+    // Set when the relations query failed; relations is then omitted
+    relationsError: z.string().optional(),
+    subscribers: z
+      .array(z.object({ id: z.string(), name: z.string().optional() }).strict())
+      .optional(),
   })
   .strict();
 export type GetIssueOutput = z.infer<typeof GetIssueOutputSchema>;
@@ -140,6 +177,101 @@ export const GetIssuesOutputSchema = z
   .strict();
 export type GetIssuesOutput = z.infer<typeof GetIssuesOutputSchema>;
 
+export const IssueTreeRollupSchema = z
+  .object({
+    total: z.number(),
+    completed: z.number(),
+    byStateType: z.record(z.number()),
+    estimateTotal: z.number(),
+    estimateCompleted: z.number(),
+  })
+  .strict();
+
+export const IssueTreeNodeSchema = z
+  .object({
+    id: z.string(),
+    identifier: z.string().optional(),
+    title: z.string(),
+    url: z.string().optional(),
+    parentId: z.string().optional(),
+    depth: z.number(),
+    stateName: z.string().optional(),
+    stateType: z.string().optional(),
+    estimate: z.number().optional(),
+    assigneeName: z.string().optional(),
+    childCount: z.number(),
+    // Rollup of all fetched descendants (only for nodes with sub-issues)
+    rollup: IssueTreeRollupSchema.optional(),
+  })
+  .strict();
+
+export const GetIssueTreeOutputSchema = z
+  .object({
+    root: IssueTreeNodeSchema,
+    nodes: z.array(IssueTreeNodeSchema),
+    rollup: IssueTreeRollupSchema,
+    maxDepth: z.number(),
+    truncated: z.boolean(),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type GetIssueTreeOutput = z.infer<typeof GetIssueTreeOutputSchema>;
+
+const ChangeSchema = z
+  .object({
+    before: z.union([z.string(), z.number()]),
+    after: z.union([z.string(), z.number()]),
+  })
+  .strict();
+
+export const FieldChangesSchema = z
+  .object({
+    title: ChangeSchema.optional(),
+    state: ChangeSchema.optional(),
+    assignee: ChangeSchema.optional(),
+    project: ChangeSchema.optional(),
+    priority: ChangeSchema.optional(),
+    estimate: ChangeSchema.optional(),
+    dueDate: ChangeSchema.optional(),
+    labels: z
+      .object({ added: z.array(z.string()), removed: z.array(z.string()) })
+      .strict()
+      .optional(),
+    archived: z.object({ before: z.boolean(), after: z.boolean() }).strict().optional(),
+  })
+  .strict();
+
+export const IssueHistoryEntrySchema = z
+  .object({
+    id: z.string(),
+    createdAt: z.string(),
+    actorId: z.string().optional(),
+    actorName: z.string().optional(),
+    changes: FieldChangesSchema,
+  })
+  .strict();
+
+export const GetIssueHistoryOutputSchema = z
+  .object({
+    issue: z
+      .object({
+        id: z.string(),
+        identifier: z.string().optional(),
+        title: z.string(),
+        url: z.string().optional(),
+      })
+      .strict(),
+    items: z.array(IssueHistoryEntrySchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type GetIssueHistoryOutput = z.infer<typeof GetIssueHistoryOutputSchema>;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Batch Result Schemas (Create/Update)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -183,10 +315,67 @@ export type CreateIssuesOutput = z.infer<typeof CreateIssuesOutputSchema>;
 export const UpdateIssuesOutputSchema = CreateIssuesOutputSchema;
 export type UpdateIssuesOutput = z.infer<typeof UpdateIssuesOutputSchema>;
 
+export const ManageIssueRelationsOutputSchema = CreateIssuesOutputSchema;
+export type ManageIssueRelationsOutput = z.infer<
+  typeof ManageIssueRelationsOutputSchema
+>;
+
+export const MoveIssuesResultSchema = BatchResultSchema.extend({
+  fromTeam: z.string().optional(),
+  toTeam: z.string().optional(),
+  // State names before and after; `to` is omitted when no state of the same type exists
+  state: z.object({ from: z.string(), to: z.string().optional() }).strict().optional(),
+  // Label names: workspace labels kept, team labels matched or created in the destination
+  labels: z
+    .object({
+      kept: z.array(z.string()),
+      remapped: z.array(z.string()),
+      created: z.array(z.string()),
+    })
+    .strict()
+    .optional(),
+  // Anything dropped by the move, e.g. 'label "Frontend"'
+  unmapped: z.array(z.string()).optional(),
+}).strict();
+
+export const MoveIssuesOutputSchema = z
+  .object({
+    results: z.array(MoveIssuesResultSchema),
+    summary: BatchSummarySchema,
+    dryRun: z.boolean(),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type MoveIssuesOutput = z.infer<typeof MoveIssuesOutputSchema>;
+
+export const DeleteIssuesOutputSchema = CreateIssuesOutputSchema;
+export type DeleteIssuesOutput = z.infer<typeof DeleteIssuesOutputSchema>;
+
+export const RestoreIssuesOutputSchema = CreateIssuesOutputSchema;
+export type RestoreIssuesOutput = z.infer<typeof RestoreIssuesOutputSchema>;
+
+export const ManageIssueSubscribersOutputSchema = CreateIssuesOutputSchema;
+export type ManageIssueSubscribersOutput = z.infer<
+  typeof ManageIssueSubscribersOutputSchema
+>;
+
+export const ManageReactionsOutputSchema = CreateIssuesOutputSchema;
+export type ManageReactionsOutput = z.infer<typeof ManageReactionsOutputSchema>;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Project Schemas
 // ─────────────────────────────────────────────────────────────────────────────
 
+export const ProjectMilestoneSummarySchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    targetDate: z.string().optional(),
+    // 0-100, share of milestone issues completed
+    progress: z.number().optional(),
+  })
+  .strict();
+
 export const ProjectItemSchema = z
   .object({
     id: z.string(),
@@ -197,6 +386,10 @@ export const ProjectItemSchema = z
     targetDate: z.string().optional(),
     description: z.string().optional(),
     url: z.string().optional(),
+    // Latest project update health: onTrack | atRisk | offTrack
+    health: z.string().optional(),
+    healthUpdatedAt: z.string().optional(),
+    milestones: z.array(ProjectMilestoneSummarySchema).optional(),
   })
   .strict();
 
@@ -251,35 +444,30 @@ export const UpdateProjectsOutputSchema = CreateProjectsOutputSchema;
 export type UpdateProjectsOutput = z.infer<typeof UpdateProjectsOutputSchema>;
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Cycle Schemas
+// Project Milestone Schemas
 // ─────────────────────────────────────────────────────────────────────────────
 
-export const CycleItemSchema = z
+export const ProjectMilestoneItemSchema = z
   .object({
     id: z.string(),
-    name: z.string().optional(),
-    number: z.number().optional(),
-    startsAt: z.string().optional(),
-    endsAt: z.string().optional(),
-    completedAt: z.string().optional(),
-    teamId: z.string(),
-    status: z.string().optional(),
-  })
-  .strict();
-
-export const ListCyclesQuerySchema = z
-  .object({
-    teamId: z.string(),
-    includeArchived: z.boolean().optional(),
-    orderBy: z.string().optional(),
-    limit: z.number(),
+    name: z.string(),
+    description: z.string().optional(),
+    targetDate: z.string().optional(),
+    sortOrder: z.number().optional(),
+    // 0-100, share of milestone issues completed
+    progress: z.number().optional(),
   })
   .strict();
 
-export const ListCyclesOutputSchema = z
+export const ListProjectMilestonesOutputSchema = z
   .object({
-    query: ListCyclesQuerySchema.optional(),
-    items: z.array(CycleItemSchema),
+    project: z
+      .object({
+        id: z.string(),
+        name: z.string().optional(),
+      })
+      .strict(),
+    items: z.array(ProjectMilestoneItemSchema),
     pagination: PaginationSchema.optional(),
     meta: MetaSchema.optional(),
     // Legacy
@@ -288,23 +476,57 @@ export const ListCyclesOutputSchema = z
     limit: z.number().optional(),
   })
   .strict();
-export type ListCyclesOutput = z.infer<typeof ListCyclesOutputSchema>;
+export type ListProjectMilestonesOutput = z.infer<
+  typeof ListProjectMilestonesOutputSchema
+>;
+
+export const CreateProjectMilestonesOutputSchema = z
+  .object({
+    results: z.array(BatchResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type CreateProjectMilestonesOutput = z.infer<
+  typeof CreateProjectMilestonesOutputSchema
+>;
+
+export const UpdateProjectMilestonesOutputSchema = CreateProjectMilestonesOutputSchema;
+export type UpdateProjectMilestonesOutput = z.infer<
+  typeof UpdateProjectMilestonesOutputSchema
+>;
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Team Schemas
+// Project Update Schemas
 // ─────────────────────────────────────────────────────────────────────────────
 
-export const TeamItemSchema = z
+export const ProjectUpdateItemSchema = z
   .object({
     id: z.string(),
-    key: z.string().optional(),
-    name: z.string(),
+    body: z.string(),
+    health: z.string().optional(),
+    createdAt: z.string(),
+    url: z.string().optional(),
+    user: z
+      .object({
+        id: z.string(),
+        name: z.string().optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict();
 
-export const ListTeamsOutputSchema = z
+export const ListProjectUpdatesOutputSchema = z
   .object({
-    items: z.array(TeamItemSchema),
+    project: z
+      .object({
+        id: z.string(),
+        name: z.string().optional(),
+        health: z.string().optional(),
+      })
+      .strict(),
+    items: z.array(ProjectUpdateItemSchema),
     pagination: PaginationSchema.optional(),
     meta: MetaSchema.optional(),
     // Legacy
@@ -313,25 +535,64 @@ export const ListTeamsOutputSchema = z
     limit: z.number().optional(),
   })
   .strict();
-export type ListTeamsOutput = z.infer<typeof ListTeamsOutputSchema>;
+export type ListProjectUpdatesOutput = z.infer<typeof ListProjectUpdatesOutputSchema>;
+
+export const CreateProjectUpdatesOutputSchema = z
+  .object({
+    results: z.array(BatchResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type CreateProjectUpdatesOutput = z.infer<
+  typeof CreateProjectUpdatesOutputSchema
+>;
 
 // ─────────────────────────────────────────────────────────────────────────────
-// User Schemas
+// Initiative Schemas
 // ─────────────────────────────────────────────────────────────────────────────
 
-export const UserItemSchema = z
+export const InitiativeProjectSchema = z
   .object({
     id: z.string(),
-    name: z.string().optional(),
-    email: z.string().optional(),
-    displayName: z.string().optional(),
-    avatarUrl: z.string().optional(),
+    name: z.string(),
+    state: z.string().optional(),
+    health: z.string().optional(),
+    // 0-100
+    progress: z.number().optional(),
   })
   .strict();
 
-export const ListUsersOutputSchema = z
+export const InitiativeItemSchema = z
   .object({
-    items: z.array(UserItemSchema),
+    id: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    // Planned | Active | Completed
+    status: z.string().optional(),
+    health: z.string().optional(),
+    targetDate: z.string().optional(),
+    url: z.string().optional(),
+    ownerId: z.string().optional(),
+    ownerName: z.string().optional(),
+    projects: z.array(InitiativeProjectSchema),
+    hasMoreProjects: z.boolean(),
+  })
+  .strict();
+
+export const ListInitiativesQuerySchema = z
+  .object({
+    status: z.string().optional(),
+    includeArchived: z.boolean().optional(),
+    projectLimit: z.number(),
+    limit: z.number(),
+  })
+  .strict();
+
+export const ListInitiativesOutputSchema = z
+  .object({
+    query: ListInitiativesQuerySchema.optional(),
+    items: z.array(InitiativeItemSchema),
     pagination: PaginationSchema.optional(),
     meta: MetaSchema.optional(),
     // Legacy
@@ -340,34 +601,49 @@ export const ListUsersOutputSchema = z
     limit: z.number().optional(),
   })
   .strict();
-export type ListUsersOutput = z.infer<typeof ListUsersOutputSchema>;
+export type ListInitiativesOutput = z.infer<typeof ListInitiativesOutputSchema>;
+
+export const ManageInitiativeProjectsOutputSchema = z
+  .object({
+    results: z.array(BatchResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type ManageInitiativeProjectsOutput = z.infer<
+  typeof ManageInitiativeProjectsOutputSchema
+>;
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Comment Schemas
+// Cycle Schemas
 // ─────────────────────────────────────────────────────────────────────────────
 
-export const CommentItemSchema = z
+export const CycleItemSchema = z
   .object({
     id: z.string(),
-    body: z.string().optional(),
-    url: z.string().optional(),
-    createdAt: z.string(),
-    updatedAt: z.string().optional(),
-    user: z.object({ id: z.string(), name: z.string().optional() }).optional(),
+    name: z.string().optional(),
+    number: z.number().optional(),
+    startsAt: z.string().optional(),
+    endsAt: z.string().optional(),
+    completedAt: z.string().optional(),
+    teamId: z.string(),
+    status: z.string().optional(),
   })
   .strict();
 
-export const ListCommentsQuerySchema = z
+export const ListCyclesQuerySchema = z
   .object({
-    issueId: z.string(),
+    teamId: z.string(),
+    includeArchived: z.boolean().optional(),
+    orderBy: z.string().optional(),
     limit: z.number(),
   })
   .strict();
 
-export const ListCommentsOutputSchema = z
+export const ListCyclesOutputSchema = z
   .object({
-    query: ListCommentsQuerySchema.optional(),
-    items: z.array(CommentItemSchema),
+    query: ListCyclesQuerySchema.optional(),
+    items: z.array(CycleItemSchema),
     pagination: PaginationSchema.optional(),
     meta: MetaSchema.optional(),
     // Legacy
@@ -376,60 +652,969 @@ export const ListCommentsOutputSchema = z
     limit: z.number().optional(),
   })
   .strict();
-export type ListCommentsOutput = z.infer<typeof ListCommentsOutputSchema>;
+export type ListCyclesOutput = z.infer<typeof ListCyclesOutputSchema>;
 
-export const AddCommentsOutputSchema = z
+export const CreateCyclesOutputSchema = z
   .object({
     results: z.array(BatchResultSchema),
     summary: BatchSummarySchema,
     meta: MetaSchema.optional(),
   })
   .strict();
-export type AddCommentsOutput = z.infer<typeof AddCommentsOutputSchema>;
+export type CreateCyclesOutput = z.infer<typeof CreateCyclesOutputSchema>;
 
-export const UpdateCommentsOutputSchema = AddCommentsOutputSchema;
-export type UpdateCommentsOutput = z.infer<typeof UpdateCommentsOutputSchema>;
+export const UpdateCyclesOutputSchema = CreateCyclesOutputSchema;
+export type UpdateCyclesOutput = z.infer<typeof UpdateCyclesOutputSchema>;
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Workspace Metadata (Account) Schema
-// ─────────────────────────────────────────────────────────────────────────────
+const CycleReportTallySchema = z
+  .object({
+    issues: z.number(),
+    points: z.number(),
+  })
+  .strict();
 
-export const QuickLookupSchema = z
+const CycleReportIssueSchema = z
   .object({
-    viewerId: z.string().optional(),
-    viewerName: z.string().optional(),
-    viewerEmail: z.string().optional(),
-    teamIds: z.array(z.string()).optional(),
-    teamByKey: z.record(z.string()).optional(),
-    teamByName: z.record(z.string()).optional(),
-    stateIdByName: z.record(z.string()).optional(),
-    labelIdByName: z.record(z.string()).optional(),
-    projectIdByName: z.record(z.string()).optional(),
+    id: z.string(),
+    identifier: z.string().optional(),
+    title: z.string(),
+    url: z.string().optional(),
+    estimate: z.number().optional(),
   })
   .strict();
 
-export const AccountOutputSchema = z
+export const CycleReportOutputSchema = z
   .object({
-    // Quick lookups for common operations
-    quickLookup: QuickLookupSchema.optional(),
-    viewer: z
+    team: z.object({ id: z.string(), key: z.string() }).strict(),
+    cycle: z
       .object({
         id: z.string(),
+        number: z.number(),
         name: z.string().optional(),
-        email: z.string().optional(),
-        displayName: z.string().optional(),
-        avatarUrl: z.string().optional(),
-        timezone: z.string().optional(),
-        createdAt: z.string().optional(),
+        startsAt: z.string(),
+        endsAt: z.string(),
+        completedAt: z.string().optional(),
+        status: z.enum(['active', 'completed', 'upcoming']),
       })
-      .strict()
-      .optional(),
-    teams: z
-      .array(
-        z
-          .object({
-            id: z.string(),
-            key: z.string().optional(),
+      .strict(),
+    // Canceled issues are excluded from scope
+    scope: CycleReportTallySchema.extend({ unestimated: z.number() }),
+    completed: CycleReportTallySchema,
+    completionRate: z.number(),
+    // Carried over when the cycle closed, or still open for active cycles
+    carryOver: CycleReportTallySchema.extend({
+      items: z.array(CycleReportIssueSchema),
+    }),
+    // Issues added after the cycle started
+    scopeCreep: CycleReportTallySchema.extend({
+      items: z.array(CycleReportIssueSchema),
+    }),
+    canceled: CycleReportTallySchema,
+    burndown: z.array(
+      z
+        .object({
+          date: z.string(),
+          scope: z.number(),
+          completed: z.number(),
+          remaining: z.number(),
+          ideal: z.number(),
+        })
+        .strict(),
+    ),
+    velocity: z
+      .object({
+        cycles: z.array(
+          z
+            .object({
+              id: z.string(),
+              number: z.number(),
+              name: z.string().optional(),
+              completedPoints: z.number(),
+              completedIssues: z.number(),
+            })
+            .strict(),
+        ),
+        averagePoints: z.number(),
+        averageIssues: z.number(),
+      })
+      .strict(),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type CycleReportOutput = z.infer<typeof CycleReportOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Flow Metrics Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Durations in days; percentiles are nearest-rank
+const FlowStatsSchema = z
+  .object({
+    count: z.number(),
+    average: z.number().optional(),
+    p50: z.number().optional(),
+    p85: z.number().optional(),
+    p95: z.number().optional(),
+  })
+  .strict();
+
+export const FlowMetricsOutputSchema = z
+  .object({
+    query: z
+      .object({
+        teamId: z.string().optional(),
+        teamKey: z.string().optional(),
+        projectId: z.string().optional(),
+        from: z.string(),
+        to: z.string(),
+      })
+      .strict(),
+    completedCount: z.number(),
+    leadTime: FlowStatsSchema,
+    cycleTime: FlowStatsSchema,
+    throughput: z
+      .object({
+        weeks: z.array(
+          z
+            .object({
+              weekStart: z.string(),
+              completed: z.number(),
+              points: z.number(),
+            })
+            .strict(),
+        ),
+        averagePerWeek: z.number(),
+      })
+      .strict(),
+    aging: z
+      .object({
+        // Cycle-time percentiles that in-progress issues are compared against
+        thresholds: z
+          .object({
+            p50: z.number().optional(),
+            p85: z.number().optional(),
+            p95: z.number().optional(),
+          })
+          .strict(),
+        items: z.array(
+          z
+            .object({
+              id: z.string(),
+              identifier: z.string().optional(),
+              title: z.string(),
+              url: z.string().optional(),
+              stateName: z.string().optional(),
+              assigneeName: z.string().optional(),
+              startedAt: z.string(),
+              ageDays: z.number(),
+              above: z.enum(['p50', 'p85', 'p95']).optional(),
+            })
+            .strict(),
+        ),
+      })
+      .strict(),
+    // True when maxIssues was reached before all pages were read
+    truncated: z.boolean(),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type FlowMetricsOutput = z.infer<typeof FlowMetricsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Workload Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+const WorkloadTallySchema = z
+  .object({
+    issues: z.number(),
+    points: z.number(),
+  })
+  .strict();
+
+const WorkloadIssueSchema = z
+  .object({
+    id: z.string(),
+    identifier: z.string().optional(),
+    title: z.string(),
+    url: z.string().optional(),
+    priority: z.number().optional(),
+    estimate: z.number().optional(),
+    stateName: z.string().optional(),
+    stateType: z.string().optional(),
+  })
+  .strict();
+
+export const WorkloadOverviewOutputSchema = z
+  .object({
+    query: z
+      .object({
+        teamId: z.string().optional(),
+        teamKey: z.string().optional(),
+        projectId: z.string().optional(),
+        maxIssuesPerPerson: z.number(),
+        maxPointsPerPerson: z.number().optional(),
+      })
+      .strict(),
+    totals: WorkloadTallySchema.extend({ unestimated: z.number() }),
+    // Heaviest first; includes active users without open issues
+    people: z.array(
+      z
+        .object({
+          id: z.string(),
+          name: z.string(),
+          email: z.string().optional(),
+          openIssues: z.number(),
+          points: z.number(),
+          // Keyed by state type (started, unstarted, backlog, triage)
+          byStateType: z.record(WorkloadTallySchema),
+          // Keyed by urgent, high, medium, low, none
+          byPriority: z.record(WorkloadTallySchema),
+          overloaded: z.boolean(),
+          // Reassignment candidates, only for overloaded people
+          issues: z.array(WorkloadIssueSchema).optional(),
+        })
+        .strict(),
+    ),
+    unassigned: WorkloadTallySchema.extend({
+      highPriority: z.array(WorkloadIssueSchema),
+    }),
+    truncated: z.boolean(),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type WorkloadOverviewOutput = z.infer<typeof WorkloadOverviewOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Standup Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const StandupDigestOutputSchema = z
+  .object({
+    scope: z
+      .object({
+        userId: z.string().optional(),
+        userName: z.string().optional(),
+        teamId: z.string().optional(),
+        teamKey: z.string().optional(),
+      })
+      .strict(),
+    window: z
+      .object({
+        since: z.string(),
+        until: z.string(),
+        timezone: z.string(),
+      })
+      .strict(),
+    // Issues with state changes, comments or new assignments in the window
+    yesterday: z.array(
+      z
+        .object({
+          id: z.string(),
+          identifier: z.string().optional(),
+          title: z.string(),
+          url: z.string().optional(),
+          stateName: z.string().optional(),
+          stateChanges: z.array(
+            z
+              .object({ at: z.string(), from: z.string().optional(), to: z.string() })
+              .strict(),
+          ),
+          comments: z.number(),
+          assignedAt: z.string().optional(),
+        })
+        .strict(),
+    ),
+    // In progress and not blocked
+    today: z.array(
+      z
+        .object({
+          id: z.string(),
+          identifier: z.string().optional(),
+          title: z.string(),
+          url: z.string().optional(),
+          stateName: z.string().optional(),
+          assigneeName: z.string().optional(),
+          priority: z.number().optional(),
+        })
+        .strict(),
+    ),
+    blocked: z.array(
+      z
+        .object({
+          id: z.string(),
+          identifier: z.string().optional(),
+          title: z.string(),
+          url: z.string().optional(),
+          stateName: z.string().optional(),
+          assigneeName: z.string().optional(),
+          blockedBy: z.array(
+            z
+              .object({
+                id: z.string(),
+                identifier: z.string().optional(),
+                title: z.string(),
+                url: z.string().optional(),
+                stateName: z.string().optional(),
+              })
+              .strict(),
+          ),
+        })
+        .strict(),
+    ),
+    // Yesterday / Today / Blocked sections, ready to post as a comment or update
+    markdown: z.string(),
+    truncated: z.boolean(),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type StandupDigestOutput = z.infer<typeof StandupDigestOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Changelog Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const GenerateChangelogOutputSchema = z
+  .object({
+    query: z
+      .object({
+        teamId: z.string().optional(),
+        teamKey: z.string().optional(),
+        projectId: z.string().optional(),
+        cycleId: z.string().optional(),
+        from: z.string().optional(),
+        to: z.string().optional(),
+      })
+      .strict(),
+    title: z.string(),
+    // Features / Bug fixes / Improvements / Other changes, empty sections omitted
+    sections: z.array(
+      z
+        .object({
+          heading: z.string(),
+          items: z.array(
+            z
+              .object({
+                id: z.string(),
+                identifier: z.string(),
+                title: z.string(),
+                userFacingTitle: z.string().optional(),
+                url: z.string().optional(),
+                labels: z.array(z.string()),
+                completedAt: z.string().optional(),
+              })
+              .strict(),
+          ),
+        })
+        .strict(),
+    ),
+    totalIssues: z.number(),
+    markdown: z.string(),
+    rewrite: z
+      .object({
+        requested: z.boolean(),
+        applied: z.boolean(),
+        reason: z.string().optional(),
+      })
+      .strict(),
+    truncated: z.boolean(),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type GenerateChangelogOutput = z.infer<typeof GenerateChangelogOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Team Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TeamItemSchema = z
+  .object({
+    id: z.string(),
+    key: z.string().optional(),
+    name: z.string(),
+  })
+  .strict();
+
+export const ListTeamsOutputSchema = z
+  .object({
+    items: z.array(TeamItemSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type ListTeamsOutput = z.infer<typeof ListTeamsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// User Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const UserItemSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().optional(),
+    email: z.string().optional(),
+    displayName: z.string().optional(),
+    avatarUrl: z.string().optional(),
+  })
+  .strict();
+
+export const ListUsersOutputSchema = z
+  .object({
+    items: z.array(UserItemSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type ListUsersOutput = z.infer<typeof ListUsersOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Comment Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CommentItemSchema = z
+  .object({
+    id: z.string(),
+    body: z.string().optional(),
+    url: z.string().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string().optional(),
+    user: z.object({ id: z.string(), name: z.string().optional() }).optional(),
+  })
+  .strict();
+
+export const ListCommentsQuerySchema = z
+  .object({
+    issueId: z.string(),
+    limit: z.number(),
+  })
+  .strict();
+
+export const ListCommentsOutputSchema = z
+  .object({
+    query: ListCommentsQuerySchema.optional(),
+    items: z.array(CommentItemSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type ListCommentsOutput = z.infer<typeof ListCommentsOutputSchema>;
+
+export const AddCommentsOutputSchema = z
+  .object({
+    results: z.array(BatchResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type AddCommentsOutput = z.infer<typeof AddCommentsOutputSchema>;
+
+export const UpdateCommentsOutputSchema = AddCommentsOutputSchema;
+export type UpdateCommentsOutput = z.infer<typeof UpdateCommentsOutputSchema>;
+
+export const DeleteCommentsOutputSchema = AddCommentsOutputSchema;
+export type DeleteCommentsOutput = z.infer<typeof DeleteCommentsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Document Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DocumentItemSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    url: z.string().optional(),
+    icon: z.string().optional(),
+    project: z.object({ id: z.string(), name: z.string().optional() }).optional(),
+    creator: z.object({ id: z.string(), name: z.string().optional() }).optional(),
+    createdAt: z.string(),
+    updatedAt: z.string().optional(),
+  })
+  .strict();
+
+export const ListDocumentsQuerySchema = z
+  .object({
+    projectId: z.string().optional(),
+    query: z.string().optional(),
+    limit: z.number(),
+  })
+  .strict();
+
+export const ListDocumentsOutputSchema = z
+  .object({
+    query: ListDocumentsQuerySchema.optional(),
+    items: z.array(DocumentItemSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type ListDocumentsOutput = z.infer<typeof ListDocumentsOutputSchema>;
+
+export const GetDocumentOutputSchema = DocumentItemSchema.extend({
+  // Markdown slice starting at offset
+  content: z.string(),
+  contentLength: z.number(),
+  offset: z.number(),
+  truncated: z.boolean(),
+  nextOffset: z.number().optional(),
+}).strict();
+export type GetDocumentOutput = z.infer<typeof GetDocumentOutputSchema>;
+
+export const GetDocumentsResultSchema = z
+  .object({
+    requestedId: z.string(),
+    success: z.boolean(),
+    document: GetDocumentOutputSchema.optional(),
+    error: StructuredErrorSchema.optional(),
+  })
+  .strict();
+
+export const GetDocumentsOutputSchema = z
+  .object({
+    results: z.array(GetDocumentsResultSchema).min(1),
+    summary: z.object({ succeeded: z.number(), failed: z.number() }).strict(),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type GetDocumentsOutput = z.infer<typeof GetDocumentsOutputSchema>;
+
+export const CreateDocumentsOutputSchema = z
+  .object({
+    results: z.array(BatchResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type CreateDocumentsOutput = z.infer<typeof CreateDocumentsOutputSchema>;
+
+export const UpdateDocumentsOutputSchema = CreateDocumentsOutputSchema;
+export type UpdateDocumentsOutput = z.infer<typeof UpdateDocumentsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Attachment Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const ListAttachmentsOutputSchema = z
+  .object({
+    issue: z
+      .object({
+        id: z.string(),
+        identifier: z.string().optional(),
+        title: z.string().optional(),
+        url: z.string().optional(),
+      })
+      .strict(),
+    items: z.array(AttachmentItemSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type ListAttachmentsOutput = z.infer<typeof ListAttachmentsOutputSchema>;
+
+export const LinkAttachmentsOutputSchema = z
+  .object({
+    results: z.array(BatchResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type LinkAttachmentsOutput = z.infer<typeof LinkAttachmentsOutputSchema>;
+
+export const RemoveAttachmentsOutputSchema = LinkAttachmentsOutputSchema;
+export type RemoveAttachmentsOutput = z.infer<typeof RemoveAttachmentsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Label Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CreateLabelsOutputSchema = z
+  .object({
+    results: z.array(BatchResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type CreateLabelsOutput = z.infer<typeof CreateLabelsOutputSchema>;
+
+export const UpdateLabelsOutputSchema = CreateLabelsOutputSchema;
+export type UpdateLabelsOutput = z.infer<typeof UpdateLabelsOutputSchema>;
+
+export const MergeLabelsResultSchema = BatchResultSchema.extend({
+  // Issues relabeled from source to target
+  movedIssues: z.number().optional(),
+  // Identifiers of issues that could not be relabeled
+  failedIssues: z.array(z.string()).optional(),
+  sourceDeleted: z.boolean().optional(),
+}).strict();
+
+export const MergeLabelsOutputSchema = z
+  .object({
+    results: z.array(MergeLabelsResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type MergeLabelsOutput = z.infer<typeof MergeLabelsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Workflow State Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const ManageWorkflowStatesResultSchema = BatchResultSchema.extend({
+  action: z.enum(['create', 'update', 'archive']),
+  // Issues in the state (archive only)
+  issueCount: z.number().optional(),
+  issueCountCapped: z.boolean().optional(),
+}).strict();
+
+export const ManageWorkflowStatesOutputSchema = z
+  .object({
+    results: z.array(ManageWorkflowStatesResultSchema),
+    summary: BatchSummarySchema,
+    dryRun: z.boolean(),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type ManageWorkflowStatesOutput = z.infer<
+  typeof ManageWorkflowStatesOutputSchema
+>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Triage Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TriageIssueItemSchema = z
+  .object({
+    id: z.string(),
+    identifier: z.string().optional(),
+    title: z.string(),
+    priority: z.number().optional(),
+    team: z
+      .object({
+        id: z.string(),
+        key: z.string().optional(),
+        name: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    creator: z
+      .object({ id: z.string(), name: z.string().optional() })
+      .strict()
+      .optional(),
+    labels: z.array(z.object({ id: z.string(), name: z.string() }).strict()),
+    createdAt: z.string(),
+    snoozedUntilAt: z.string().optional(),
+    url: z.string().optional(),
+  })
+  .strict();
+
+export const TriageQueueOutputSchema = z
+  .object({
+    query: z.record(z.unknown()).optional(),
+    items: z.array(TriageIssueItemSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type TriageQueueOutput = z.infer<typeof TriageQueueOutputSchema>;
+
+export const TriageIssuesOutputSchema = z
+  .object({
+    results: z.array(BatchResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type TriageIssuesOutput = z.infer<typeof TriageIssuesOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Notification Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const NotificationIssueRefSchema = z
+  .object({
+    id: z.string(),
+    identifier: z.string().optional(),
+    title: z.string().optional(),
+    url: z.string().optional(),
+  })
+  .strict();
+
+export const NotificationItemSchema = z
+  .object({
+    id: z.string(),
+    type: z.string(),
+    createdAt: z.string(),
+    readAt: z.string().optional(),
+    snoozedUntilAt: z.string().optional(),
+    archivedAt: z.string().optional(),
+    actor: z
+      .object({ id: z.string(), name: z.string().optional() })
+      .strict()
+      .optional(),
+    issue: NotificationIssueRefSchema.optional(),
+    // First line of the triggering comment, truncated
+    comment: z.object({ id: z.string(), snippet: z.string() }).strict().optional(),
+  })
+  .strict();
+
+export const NotificationGroupSchema = z
+  .object({
+    // Omitted for notifications not tied to an issue
+    issue: NotificationIssueRefSchema.optional(),
+    notificationIds: z.array(z.string()),
+    unread: z.number(),
+  })
+  .strict();
+
+export const ListNotificationsOutputSchema = z
+  .object({
+    query: z.record(z.unknown()).optional(),
+    items: z.array(NotificationItemSchema),
+    groups: z.array(NotificationGroupSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type ListNotificationsOutput = z.infer<typeof ListNotificationsOutputSchema>;
+
+export const MarkNotificationsOutputSchema = z
+  .object({
+    results: z.array(BatchResultSchema),
+    summary: BatchSummarySchema,
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type MarkNotificationsOutput = z.infer<typeof MarkNotificationsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Custom View Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CustomViewItemSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    // 'Issue' views can be applied to list_issues via viewId/viewName
+    modelName: z.string().optional(),
+    shared: z.boolean().optional(),
+    icon: z.string().optional(),
+    color: z.string().optional(),
+    filterData: z.record(z.unknown()).optional(),
+    team: z.object({ id: z.string(), key: z.string().optional() }).strict().optional(),
+    owner: z
+      .object({ id: z.string(), name: z.string().optional() })
+      .strict()
+      .optional(),
+    updatedAt: z.string().optional(),
+  })
+  .strict();
+
+export const ListCustomViewsOutputSchema = z
+  .object({
+    query: z.record(z.unknown()).optional(),
+    items: z.array(CustomViewItemSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type ListCustomViewsOutput = z.infer<typeof ListCustomViewsOutputSchema>;
+
+export const CreateCustomViewsOutputSchema = CreateIssuesOutputSchema;
+export type CreateCustomViewsOutput = z.infer<typeof CreateCustomViewsOutputSchema>;
+
+export const UpdateCustomViewsOutputSchema = CreateIssuesOutputSchema;
+export type UpdateCustomViewsOutput = z.infer<typeof UpdateCustomViewsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Issue Template Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const IssueTemplateItemSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    // Omitted for workspace-level templates
+    team: z.object({ id: z.string(), key: z.string().optional() }).strict().optional(),
+    // Fields create_issues pre-fills from the template
+    defaults: z
+      .object({
+        title: z.string().optional(),
+        description: z.string().optional(),
+        labelIds: z.array(z.string()).optional(),
+        priority: z.number().optional(),
+        estimate: z.number().optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+export const ListIssueTemplatesOutputSchema = z
+  .object({
+    query: z.record(z.unknown()).optional(),
+    items: z.array(IssueTemplateItemSchema),
+    meta: MetaSchema.optional(),
+  })
+  .strict();
+export type ListIssueTemplatesOutput = z.infer<typeof ListIssueTemplatesOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Team Member Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TeamMemberItemSchema = z
+  .object({
+    membershipId: z.string(),
+    user: z
+      .object({
+        id: z.string(),
+        name: z.string().optional(),
+        displayName: z.string().optional(),
+        email: z.string().optional(),
+      })
+      .strict(),
+    // Role within the team
+    role: z.enum(['owner', 'member']),
+    // Role within the workspace
+    workspaceRole: z.enum(['admin', 'member', 'guest']),
+    active: z.boolean().optional(),
+    joinedAt: z.string().optional(),
+  })
+  .strict();
+
+export const ListTeamMembersOutputSchema = z
+  .object({
+    query: z.record(z.unknown()).optional(),
+    items: z.array(TeamMemberItemSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type ListTeamMembersOutput = z.infer<typeof ListTeamMembersOutputSchema>;
+
+export const ManageTeamMembersOutputSchema = CreateIssuesOutputSchema;
+export type ManageTeamMembersOutput = z.infer<typeof ManageTeamMembersOutputSchema>;
+
+export const UpdateTeamsOutputSchema = CreateIssuesOutputSchema;
+export type UpdateTeamsOutput = z.infer<typeof UpdateTeamsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Customer Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CustomerItemSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    domains: z.array(z.string()).default([]),
+    externalIds: z.array(z.string()).default([]),
+    status: z.string().optional(),
+    tier: z.string().optional(),
+    revenue: z.number().optional(),
+    size: z.number().optional(),
+    // Approximate number of customer requests (needs) across issues and projects
+    requestCount: z.number(),
+    owner: z
+      .object({ id: z.string(), name: z.string().optional() })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const ListCustomersOutputSchema = z
+  .object({
+    query: z.record(z.unknown()).optional(),
+    items: z.array(CustomerItemSchema),
+    pagination: PaginationSchema.optional(),
+    meta: MetaSchema.optional(),
+    // Legacy
+    cursor: z.string().optional(),
+    nextCursor: z.string().optional(),
+    limit: z.number().optional(),
+  })
+  .strict();
+export type ListCustomersOutput = z.infer<typeof ListCustomersOutputSchema>;
+
+export const AddCustomerRequestsOutputSchema = CreateIssuesOutputSchema;
+export type AddCustomerRequestsOutput = z.infer<typeof AddCustomerRequestsOutputSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Workspace Metadata (Account) Schema
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const QuickLookupSchema = z
+  .object({
+    viewerId: z.string().optional(),
+    viewerName: z.string().optional(),
+    viewerEmail: z.string().optional(),
+    teamIds: z.array(z.string()).optional(),
+    teamByKey: z.record(z.string()).optional(),
+    teamByName: z.record(z.string()).optional(),
+    stateIdByName: z.record(z.string()).optional(),
+    labelIdByName: z.record(z.string()).optional(),
+    projectIdByName: z.record(z.string()).optional(),
+    initiativeIdByName: z.record(z.string()).optional(),
+  })
+  .strict();
+
+export const AccountOutputSchema = z
+  .object({
+    // Quick lookups for common operations
+    quickLookup: QuickLookupSchema.optional(),
+    viewer: z
+      .object({
+        id: z.string(),
+        name: z.string().optional(),
+        email: z.string().optional(),
+        displayName: z.string().optional(),
+        avatarUrl: z.string().optional(),
+        timezone: z.string().optional(),
+        createdAt: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    teams: z
+      .array(
+        z
+          .object({
+            id: z.string(),
+            key: z.string().optional(),
             name: z.string(),
             description: z.string().optional(),
             defaultIssueEstimate: z.number().optional(),
@@ -477,6 +1662,22 @@ export const AccountOutputSchema = z
           .strict(),
       )
       .optional(),
+    initiatives: z
+      .array(
+        z
+          .object({
+            id: z.string(),
+            name: z.string(),
+            status: z.string().optional(),
+            health: z.string().optional(),
+            targetDate: z.string().optional(),
+            projectIds: z.array(z.string()),
+            // More projects exist than project_limit
+            projectsTruncated: z.boolean().optional(),
+          })
+          .strict(),
+      )
+      .optional(),
     favorites: z.unknown().optional(),
     summary: z
       .object({
@@ -484,6 +1685,7 @@ export const AccountOutputSchema = z
         stateCount: z.number(),
         labelCount: z.number(),
         projectCount: z.number(),
+        initiativeCount: z.number().optional(),
       })
       .strict(),
     meta: MetaSchema.optional(),
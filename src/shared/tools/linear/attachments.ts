@@ -0,0 +1,473 @@
+/**
+ * Attachments tools - list, link and remove URL attachments (PRs, crash reports, designs) on issues.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  LinkAttachmentsOutputSchema,
+  ListAttachmentsOutputSchema,
+  RemoveAttachmentsOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { createToolError, formatErrorMessage } from '../../../utils/errors.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { mapAttachmentNode } from '../../../utils/mappers.js';
+import {
+  previewLinesFromItems,
+  summarizeBatch,
+  summarizeList,
+} from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  identifier?: string;
+  url?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+// List Attachments
+const ListAttachmentsInputSchema = z.object({
+  issueId: z.string().describe('Issue UUID or identifier (e.g. ENG-123).'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Max results. Default: 50.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+const LIST_QUERY = `
+  query IssueAttachments($id: String!, $first: Int!, $after: String) {
+    issue(id: $id) {
+      id
+      identifier
+      title
+      url
+      attachments(first: $first, after: $after) {
+        nodes {
+          id
+          title
+          subtitle
+          url
+          sourceType
+          createdAt
+          creator { id name }
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+type AttachmentNode = {
+  id: string;
+  title: string;
+  subtitle?: string | null;
+  url: string;
+  sourceType?: string | null;
+  createdAt?: string | null;
+  creator?: { id: string; name?: string | null } | null;
+};
+
+export const listAttachmentsTool = defineTool({
+  name: toolsMetadata.list_attachments.name,
+  title: toolsMetadata.list_attachments.title,
+  description: toolsMetadata.list_attachments.description,
+  inputSchema: ListAttachmentsInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const first = args.limit ?? 50;
+
+    const resp = await client.client.rawRequest(LIST_QUERY, {
+      id: args.issueId,
+      first,
+      after: args.cursor,
+    });
+    const issue = (
+      resp as unknown as {
+        data?: {
+          issue?: {
+            id: string;
+            identifier?: string;
+            title?: string;
+            url?: string;
+            attachments?: {
+              nodes?: AttachmentNode[];
+              pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+            };
+          } | null;
+        };
+      }
+    ).data?.issue;
+
+    if (!issue) {
+      const error = createToolError(
+        'ISSUE_NOT_FOUND',
+        `Issue "${args.issueId}" not found`,
+      );
+      return {
+        isError: true,
+        content: [{ type: 'text', text: formatErrorMessage(error) }],
+        structuredContent: {
+          error: error.code,
+          message: error.message,
+          hint: error.hint,
+        },
+      };
+    }
+
+    const items = (issue.attachments?.nodes ?? []).map((a) => ({
+      ...mapAttachmentNode(a),
+      creator: a.creator
+        ? { id: a.creator.id, name: a.creator.name ?? undefined }
+        : undefined,
+    }));
+
+    const pageInfo = issue.attachments?.pageInfo ?? {};
+    const hasMore = pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (pageInfo.endCursor ?? undefined) : undefined;
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit: first,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
+        'Use link_attachments to attach more URLs.',
+        'Use remove_attachments with attachment ids to detach.',
+      ],
+      relatedTools: ['link_attachments', 'remove_attachments', 'get_issues'],
+    };
+
+    const structured = ListAttachmentsOutputSchema.parse({
+      issue: {
+        id: issue.id,
+        identifier: issue.identifier ?? undefined,
+        title: issue.title ?? undefined,
+        url: issue.url ?? undefined,
+      },
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit: first,
+    });
+
+    const preview = previewLinesFromItems(
+      items as unknown as Record<string, unknown>[],
+      (a) => {
+        const source = a.sourceType ? ` [${String(a.sourceType)}]` : '';
+        const subtitle = a.subtitle ? ` — ${String(a.subtitle)}` : '';
+        return `[${String(a.title)}](${String(a.url)})${source}${subtitle} (${String(a.id)})`;
+      },
+    );
+
+    const message = summarizeList({
+      subject: `Attachments on ${issue.identifier ?? issue.id}`,
+      count: items.length,
+      limit: first,
+      nextCursor,
+      previewLines: preview,
+      zeroReasonHints: ['no URLs have been linked yet (use link_attachments)'],
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [
+      { type: 'text', text: message },
+    ];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Link Attachments
+const LinkAttachmentsInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        issueId: z
+          .string()
+          .describe('Issue UUID or identifier (e.g. ENG-123). Required.'),
+        url: z
+          .string()
+          .url()
+          .describe('URL to attach (PR, Sentry event, Figma frame...).'),
+        title: z.string().optional().describe('Attachment title. Defaults to the URL.'),
+        subtitle: z
+          .string()
+          .optional()
+          .describe('Secondary line, e.g. "TypeError in checkout".'),
+      }),
+    )
+    .min(1)
+    .max(50)
+    .describe('URLs to attach.'),
+});
+
+export const linkAttachmentsTool = defineTool({
+  name: toolsMetadata.link_attachments.name,
+  title: toolsMetadata.link_attachments.title,
+  description: toolsMetadata.link_attachments.description,
+  inputSchema: LinkAttachmentsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { issueId: it.issueId, url: it.url, title: it.title };
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const call = () =>
+          client.createAttachment({
+            issueId: it.issueId,
+            url: it.url,
+            title: it.title ?? it.url,
+            subtitle: it.subtitle,
+          });
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+        const attachment = (await payload.attachment) as { id?: string } | undefined;
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: attachment?.id,
+          identifier: it.issueId,
+          url: it.url,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('link_attachments', {
+          message: 'Failed to link attachment',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_CREATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify issueId with list_issues or get_issues.'],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use list_attachments or get_issues to verify.'],
+      relatedTools: ['list_attachments', 'remove_attachments', 'get_issues'],
+    };
+
+    const structured = LinkAttachmentsOutputSchema.parse({ results, summary, meta });
+
+    const okIds = results.filter((r) => r.ok).map((r) => `${r.identifier} ← ${r.url}`);
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.issueId),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Linked attachments',
+      ok: succeeded,
+      total: args.items.length,
+      okIdentifiers: okIds,
+      failures,
+      nextSteps:
+        succeeded > 0
+          ? ['Use list_attachments to verify.']
+          : ['Check issueId values with list_issues.'],
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Remove Attachments
+const RemoveAttachmentsInputSchema = z.object({
+  ids: z
+    .array(z.string())
+    .min(1)
+    .max(50)
+    .describe('Attachment ids to remove. Use list_attachments to find them.'),
+});
+
+export const removeAttachmentsTool = defineTool({
+  name: toolsMetadata.remove_attachments.name,
+  title: toolsMetadata.remove_attachments.title,
+  description: toolsMetadata.remove_attachments.description,
+  inputSchema: RemoveAttachmentsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+
+    for (let i = 0; i < args.ids.length; i++) {
+      const id = args.ids[i] as string;
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const call = () => client.deleteAttachment(id);
+
+        const payload = await withRetry(
+          () => (args.ids.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input: { id },
+          success: payload.success ?? true,
+          id,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('remove_attachments', {
+          message: 'Failed to remove attachment',
+          id,
+          error: (error as Error).message,
+        });
+        results.push({
+          input: { id },
+          success: false,
+          id,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify attachment ids with list_attachments.'],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.ids.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use list_attachments to verify.'],
+      relatedTools: ['list_attachments', 'link_attachments'],
+    };
+
+    const structured = RemoveAttachmentsOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Removed attachments',
+      ok: succeeded,
+      total: args.ids.length,
+      okIdentifiers: results.filter((r) => r.ok).map((r) => r.id ?? ''),
+      failures,
+      nextSteps: ['Use list_attachments to verify.'],
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
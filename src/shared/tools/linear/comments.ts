@@ -1,5 +1,5 @@
 /**
- * Comments tools - list and add comments on issues.
+ * Comments tools - list, add, edit and delete comments on issues.
  */
 
 import { z } from 'zod';
@@ -7,6 +7,7 @@ import { toolsMetadata } from '../../../config/metadata.js';
 import { config } from '../../../config/env.js';
 import {
   AddCommentsOutputSchema,
+  DeleteCommentsOutputSchema,
   ListCommentsOutputSchema,
   UpdateCommentsOutputSchema,
 } from '../../../schemas/outputs.js';
@@ -16,6 +17,7 @@ import { logger } from '../../../utils/logger.js';
 import { mapCommentNodeToListItem } from '../../../utils/mappers.js';
 import { summarizeBatch, summarizeList, previewLinesFromItems } from '../../../utils/messages.js';
 import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { confirmDestructiveAction } from './shared/index.js';
 
 // List Comments
 const ListCommentsInputSchema = z.object({
@@ -381,5 +383,151 @@ export const updateCommentsTool = defineTool({
   },
 });
 
+// Delete Comments
+const DeleteCommentsInputSchema = z.object({
+  ids: z.array(z.string()).min(1).max(50).describe('Comment IDs to delete.'),
+});
+
+export const deleteCommentsTool = defineTool({
+  name: toolsMetadata.delete_comments.name,
+  title: toolsMetadata.delete_comments.title,
+  description: toolsMetadata.delete_comments.description,
+  inputSchema: DeleteCommentsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const outcome = await confirmDestructiveAction(
+      context,
+      `Permanently delete ${args.ids.length} comment(s)? This cannot be undone.`,
+      'Delete comments',
+    );
+    const declined = outcome === 'declined';
+
+    const results: {
+      input: Record<string, unknown>;
+      success: boolean;
+      id?: string;
+      error?: { code: string; message: string; suggestions?: string[] };
+      index: number;
+      ok: boolean;
+    }[] = [];
+
+    for (let i = 0; i < args.ids.length; i++) {
+      const id = args.ids[i];
+
+      if (declined) {
+        results.push({
+          input: { id },
+          success: false,
+          id,
+          error: {
+            code: 'CANCELLED',
+            message: 'Deletion was not confirmed',
+            suggestions: ['Nothing was deleted. Call again and confirm to proceed.'],
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const payload = await withRetry(
+          () => gate(() => client.deleteComment(id)),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input: { id },
+          success: payload.success ?? true,
+          id,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('delete_comments', {
+          message: 'Failed to delete comment',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input: { id },
+          success: false,
+          id,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify comment ID with list_comments. Only the author or an admin can delete a comment.'],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.ids.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: declined
+        ? ['Deletion was cancelled; nothing was deleted.']
+        : ['Use list_comments to verify.'],
+      relatedTools: ['list_comments', 'update_comments'],
+    };
+
+    const structured = DeleteCommentsOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    // Don't show comment UUIDs (not helpful), just the count
+    const text = summarizeBatch({
+      action: 'Deleted comments',
+      ok: succeeded,
+      total: args.ids.length,
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
 
 
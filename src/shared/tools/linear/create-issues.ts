@@ -11,13 +11,40 @@ import { makeConcurrencyGate, withRetry, delay } from '../../../utils/limits.js'
 import { logger } from '../../../utils/logger.js';
 import { summarizeBatch } from '../../../utils/messages.js';
 import { resolveAssignee } from '../../../utils/user-resolver.js';
-import { resolvePriority, resolveState, resolveLabels, resolveProject } from '../../../utils/resolvers.js';
+import {
+  resolvePriority,
+  resolveState,
+  resolveLabels,
+  resolveProject,
+  resolveCycle,
+  resolveProjectMilestone,
+} from '../../../utils/resolvers.js';
 import { defineTool, type ToolContext, type ToolResult } from '../types.js';
-import { createTeamSettingsCache, validateEstimate, validatePriority } from './shared/index.js';
+import {
+  applyTemplateTitle,
+  createTeamSettingsCache,
+  fetchIssueTemplates,
+  findIssueTemplate,
+  type IssueTemplateSummary,
+  validateEstimate,
+  validatePriority,
+} from './shared/index.js';
 
 const IssueCreateItem = z.object({
   teamId: z.string().describe('Team UUID. Required.'),
-  title: z.string().describe('Issue title. Required.'),
+  title: z
+    .string()
+    .optional()
+    .describe('Issue title. Required unless the template provides one.'),
+  // Template - UUID or name; explicit fields below override template values
+  templateId: z
+    .string()
+    .optional()
+    .describe('Issue template UUID. Pre-fills title, description, labels, priority, estimate.'),
+  templateName: z
+    .string()
+    .optional()
+    .describe('Issue template name (case-insensitive). Use list_issue_templates to see templates.'),
   description: z.string().optional().describe('Markdown description.'),
   // State - UUID or human-readable
   stateId: z
@@ -57,6 +84,18 @@ const IssueCreateItem = z.object({
     .string()
     .optional()
     .describe('Project name. Resolved to projectId automatically.'),
+  // Project milestone - UUID or name (within the issue's project)
+  projectMilestoneId: z.string().optional().describe('Project milestone UUID.'),
+  projectMilestoneName: z
+    .string()
+    .optional()
+    .describe('Milestone name in the project (requires projectId or projectName).'),
+  // Cycle - UUID or relative/number/name
+  cycleId: z.string().optional().describe('Cycle UUID. Or use cycleName for lookup.'),
+  cycleName: z
+    .union([z.number().int(), z.string()])
+    .optional()
+    .describe('Cycle in the team: "current", "next", "previous", a cycle number, or cycle name.'),
   // Priority - number or string
   priority: z
     .union([
@@ -72,14 +111,47 @@ const IssueCreateItem = z.object({
     .describe('If true and estimate=0, sends 0. Otherwise zero is omitted.'),
   dueDate: z.string().optional().describe('Due date (YYYY-MM-DD).'),
   parentId: z.string().optional().describe('Parent issue UUID for sub-issues.'),
+  parentIndex: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      'Index of an earlier item in this batch to use as parent. Its created id becomes parentId (decomposition).',
+    ),
+}).refine((it) => it.title !== undefined || it.templateId || it.templateName, {
+  message: 'title is required unless templateId or templateName is set',
+  path: ['title'],
 });
 
 const InputSchema = z.object({
   items: z.array(IssueCreateItem).min(1).max(50).describe('Issues to create.'),
   parallel: z.boolean().optional().describe('Run in parallel. Default: sequential.'),
   dry_run: z.boolean().optional().describe('If true, validate but do not create.'),
+  createMissingLabels: z
+    .boolean()
+    .optional()
+    .describe('If true, label names that do not exist in the team are created instead of failing.'),
 });
 
+/**
+ * Check that parentIndex points at an earlier item and is not combined with parentId.
+ * Returns an error message, or undefined when valid.
+ */
+function validateParentIndex(
+  it: z.infer<typeof IssueCreateItem>,
+  index: number,
+): string | undefined {
+  if (it.parentIndex === undefined) return undefined;
+  if (it.parentId) {
+    return 'Use either parentId or parentIndex, not both';
+  }
+  if (it.parentIndex >= index) {
+    return `parentIndex ${String(it.parentIndex)} must reference an earlier item (index < ${String(index)})`;
+  }
+  return undefined;
+}
+
 export const createIssuesTool = defineTool({
   name: toolsMetadata.create_issues.name,
   title: toolsMetadata.create_issues.title,
@@ -93,23 +165,35 @@ export const createIssuesTool = defineTool({
   handler: async (args, context: ToolContext): Promise<ToolResult> => {
     // Handle dry_run mode
     if (args.dry_run) {
-      const validated = args.items.map((it, index) => ({
-        index,
-        ok: true,
-        title: it.title,
-        teamId: it.teamId,
-        validated: true,
-      }));
+      const validated = args.items.map((it, index) => {
+        const parentError = validateParentIndex(it, index);
+        return {
+          index,
+          ok: !parentError,
+          title: it.title,
+          teamId: it.teamId,
+          parentIndex: it.parentIndex,
+          validated: !parentError,
+          error: parentError,
+        };
+      });
+      const validCount = validated.filter((v) => v.ok).length;
       return {
         content: [
           {
             type: 'text',
-            text: `Dry run: ${args.items.length} issue(s) validated successfully. No changes made.`,
+            text:
+              validCount === args.items.length
+                ? `Dry run: ${args.items.length} issue(s) validated successfully. No changes made.`
+                : `Dry run: ${validCount}/${args.items.length} issue(s) valid. ${validated
+                    .filter((v) => !v.ok)
+                    .map((v) => `item[${v.index}]: ${v.error}`)
+                    .join('; ')}. No changes made.`,
           },
         ],
         structuredContent: {
           results: validated,
-          summary: { ok: args.items.length, failed: 0 },
+          summary: { ok: validCount, failed: args.items.length - validCount },
           dry_run: true,
         },
       };
@@ -119,26 +203,102 @@ export const createIssuesTool = defineTool({
     const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
     const { items } = args;
     const teamAllowZeroCache = createTeamSettingsCache();
+    // Templates are fetched once, on first use
+    let templates: IssueTemplateSummary[] | undefined;
 
     const results: {
-      index: number;
-      ok: boolean;
+      input?: Record<string, unknown>;
+      success: boolean;
       id?: string;
       identifier?: string;
-      error?: string;
-      code?: string;
+      url?: string;
+      error?: { code: string; message: string; suggestions?: string[]; retryable?: boolean };
+      index: number;
+      ok: boolean;
     }[] = [];
 
     for (let i = 0; i < items.length; i++) {
       const it = items[i] as (typeof items)[number];
       try {
+        // Decomposition: resolve parentIndex to the id created earlier in this batch
+        let parentId = it.parentId;
+        if (it.parentIndex !== undefined) {
+          const parentError = validateParentIndex(it, i);
+          if (parentError) {
+            results.push({
+              input: { title: it.title, teamId: it.teamId, parentId: it.parentId, parentIndex: it.parentIndex },
+              success: false,
+              error: { code: 'VALIDATION_ERROR', message: parentError },
+              index: i,
+              ok: false,
+            });
+            continue;
+          }
+          const parentResult = results.find((r) => r.index === it.parentIndex);
+          if (!parentResult?.ok || !parentResult.id) {
+            results.push({
+              input: { title: it.title, teamId: it.teamId, parentIndex: it.parentIndex },
+              success: false,
+              error: {
+                code: 'PARENT_NOT_CREATED',
+                message: `Parent item[${String(it.parentIndex)}] was not created`,
+                suggestions: ['Fix the parent item and retry it together with its children.'],
+              },
+              index: i,
+              ok: false,
+            });
+            continue;
+          }
+          parentId = parentResult.id;
+        }
+
+        // Apply template defaults; explicit fields on the item take precedence
+        let template: IssueTemplateSummary | undefined;
+        if (it.templateId || it.templateName) {
+          templates ??= await fetchIssueTemplates(client);
+          const templateResult = findIssueTemplate(templates, {
+            templateId: it.templateId,
+            templateName: it.templateName,
+            teamId: it.teamId,
+          });
+          if (!templateResult.success) {
+            results.push({
+              input: { title: it.title, teamId: it.teamId, templateId: it.templateId, templateName: it.templateName },
+              success: false,
+              error: { code: 'TEMPLATE_NOT_FOUND', message: templateResult.error, suggestions: templateResult.suggestions },
+              index: i,
+              ok: false,
+            });
+            continue;
+          }
+          template = templateResult.value;
+        }
+        const defaults = template?.defaults ?? {};
+
+        const title = applyTemplateTitle(defaults.title, it.title);
+        if (!title || title.trim() === '') {
+          results.push({
+            input: { title: it.title, teamId: it.teamId, templateId: it.templateId, templateName: it.templateName },
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'title is required (the template has no title)',
+              suggestions: ['Provide a title for the item.'],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
         const payloadInput: Record<string, unknown> = {
           teamId: it.teamId,
-          title: it.title,
+          title,
         };
 
-        if (typeof it.description === 'string' && it.description.trim() !== '') {
-          payloadInput.description = it.description;
+        const description = it.description ?? defaults.description;
+        if (typeof description === 'string' && description.trim() !== '') {
+          payloadInput.description = description;
         }
 
         // Resolve state from ID, name, or type
@@ -166,7 +326,9 @@ export const createIssuesTool = defineTool({
         if (Array.isArray(it.labelIds) && it.labelIds.length > 0) {
           payloadInput.labelIds = it.labelIds;
         } else if (Array.isArray(it.labelNames) && it.labelNames.length > 0) {
-          const labelsResult = await resolveLabels(client, it.teamId, it.labelNames);
+          const labelsResult = await resolveLabels(client, it.teamId, it.labelNames, {
+            createMissing: args.createMissingLabels,
+          });
           if (!labelsResult.success) {
             results.push({
               input: { title: it.title, teamId: it.teamId, labelNames: it.labelNames },
@@ -178,6 +340,8 @@ export const createIssuesTool = defineTool({
             continue;
           }
           payloadInput.labelIds = labelsResult.value;
+        } else if (defaults.labelIds) {
+          payloadInput.labelIds = defaults.labelIds;
         }
 
         // Resolve project from ID or name
@@ -198,6 +362,49 @@ export const createIssuesTool = defineTool({
           payloadInput.projectId = projectResult.value;
         }
 
+        // Resolve cycle from ID, relative name, number, or name
+        if (it.cycleId) {
+          payloadInput.cycleId = it.cycleId;
+        } else if (it.cycleName !== undefined) {
+          const cycleResult = await resolveCycle(client, it.teamId, it.cycleName);
+          if (!cycleResult.success) {
+            results.push({
+              input: { title: it.title, teamId: it.teamId, cycleName: it.cycleName },
+              success: false,
+              error: { code: 'CYCLE_RESOLUTION_FAILED', message: cycleResult.error, suggestions: cycleResult.suggestions },
+              index: i,
+              ok: false,
+            });
+            continue;
+          }
+          payloadInput.cycleId = cycleResult.value;
+        }
+
+        // Resolve project milestone from ID or name (scoped to the project)
+        if (it.projectMilestoneId) {
+          payloadInput.projectMilestoneId = it.projectMilestoneId;
+        } else if (it.projectMilestoneName) {
+          const projectId = payloadInput.projectId as string | undefined;
+          const milestoneResult = projectId
+            ? await resolveProjectMilestone(client, projectId, it.projectMilestoneName)
+            : {
+                success: false as const,
+                error: 'projectMilestoneName requires projectId or projectName',
+                suggestions: ['Set projectId or projectName on the same item.'],
+              };
+          if (!milestoneResult.success) {
+            results.push({
+              input: { title: it.title, teamId: it.teamId, projectMilestoneName: it.projectMilestoneName },
+              success: false,
+              error: { code: 'MILESTONE_RESOLUTION_FAILED', message: milestoneResult.error, suggestions: milestoneResult.suggestions },
+              index: i,
+              ok: false,
+            });
+            continue;
+          }
+          payloadInput.projectMilestoneId = milestoneResult.value;
+        }
+
         // Resolve assignee from ID, name, or email
         const assigneeResult = await resolveAssignee(client, {
           assigneeId: it.assigneeId,
@@ -236,8 +443,9 @@ export const createIssuesTool = defineTool({
         }
 
         // Resolve priority from number or string
-        if (it.priority !== undefined) {
-          const priorityResult = resolvePriority(it.priority);
+        const priority = it.priority ?? defaults.priority;
+        if (priority !== undefined) {
+          const priorityResult = resolvePriority(priority);
           if (!priorityResult.success) {
             results.push({
               input: { title: it.title, teamId: it.teamId, priority: it.priority },
@@ -256,7 +464,7 @@ export const createIssuesTool = defineTool({
 
         // Use shared validation for estimate
         const estimate = await validateEstimate(
-          it.estimate,
+          it.estimate ?? defaults.estimate,
           it.teamId,
           teamAllowZeroCache,
           client,
@@ -270,8 +478,8 @@ export const createIssuesTool = defineTool({
           payloadInput.dueDate = it.dueDate;
         }
 
-        if (typeof it.parentId === 'string' && it.parentId) {
-          payloadInput.parentId = it.parentId;
+        if (typeof parentId === 'string' && parentId) {
+          payloadInput.parentId = parentId;
         }
 
         if (context.signal?.aborted) {
@@ -293,6 +501,8 @@ export const createIssuesTool = defineTool({
               labelIds?: string[];
               assigneeId?: string;
               projectId?: string;
+              cycleId?: string;
+              projectMilestoneId?: string;
               priority?: number;
               estimate?: number;
               dueDate?: string;
@@ -310,7 +520,7 @@ export const createIssuesTool = defineTool({
 
         results.push({
           // Echo input for context
-          input: { title: it.title, teamId: it.teamId, assigneeName: it.assigneeName, assigneeEmail: it.assigneeEmail },
+          input: { title, teamId: it.teamId, templateId: template?.id, assigneeName: it.assigneeName, assigneeEmail: it.assigneeEmail },
           success: payload.success ?? true,
           id: (issue as unknown as { id?: string })?.id,
           identifier: (issue as unknown as { identifier?: string })?.identifier,
@@ -380,7 +590,7 @@ export const createIssuesTool = defineTool({
 
     const failures = results
       .filter((r) => !r.ok)
-      .map((r) => ({ index: r.index, error: r.error ?? '', code: undefined }));
+      .map((r) => ({ index: r.index, error: r.error?.message ?? '', code: r.error?.code }));
 
     // Compose a richer message with links for created items
     const failureHints: string[] = [];
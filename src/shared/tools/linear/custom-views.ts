@@ -0,0 +1,544 @@
+/**
+ * Custom View tools - list saved Linear views and create/update them from validated filters.
+ */
+
+import type { LinearDocument } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  CreateCustomViewsOutputSchema,
+  ListCustomViewsOutputSchema,
+  UpdateCustomViewsOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { validateFilter } from '../../../utils/errors.js';
+import { normalizeIssueFilter } from '../../../utils/filters.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch, summarizeList } from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+/**
+ * Validate and normalize a view filter the same way list_issues does.
+ * Returns the error message when the filter cannot be used.
+ */
+function prepareViewFilter(
+  filter: Record<string, unknown>,
+): { filterData: Record<string, unknown> } | { error: string } {
+  const validation = validateFilter(filter);
+  if (!validation.valid) {
+    return { error: `Invalid filter: ${validation.errors.join('; ')}` };
+  }
+  return { filterData: normalizeIssueFilter(filter) ?? {} };
+}
+
+// List Custom Views
+const ListCustomViewsInputSchema = z.object({
+  teamId: z.string().optional().describe('Only views belonging to this team UUID.'),
+  q: z.string().optional().describe('Case-insensitive match on the view name.'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Max results. Default: 50.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+const LIST_QUERY = `
+  query ListCustomViews($first: Int!, $after: String, $filter: CustomViewFilter) {
+    customViews(first: $first, after: $after, filter: $filter) {
+      nodes {
+        id
+        name
+        description
+        modelName
+        shared
+        icon
+        color
+        filterData
+        updatedAt
+        team { id key }
+        owner { id name }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+export const listCustomViewsTool = defineTool({
+  name: toolsMetadata.list_custom_views.name,
+  title: toolsMetadata.list_custom_views.title,
+  description: toolsMetadata.list_custom_views.description,
+  inputSchema: ListCustomViewsInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const limit = args.limit ?? 50;
+
+    const filter: Record<string, unknown> = {};
+    if (args.teamId) {
+      filter.team = { id: { eq: args.teamId } };
+    }
+    if (args.q) {
+      filter.name = { containsIgnoreCase: args.q };
+    }
+
+    const resp = await client.client.rawRequest(LIST_QUERY, {
+      first: limit,
+      after: args.cursor,
+      filter: Object.keys(filter).length > 0 ? filter : undefined,
+    });
+    const conn = (
+      resp as unknown as {
+        data?: {
+          customViews?: {
+            nodes?: Array<Record<string, unknown>>;
+            pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+          };
+        };
+      }
+    ).data?.customViews ?? { nodes: [], pageInfo: {} };
+
+    const items = (conn.nodes ?? []).map((v) => {
+      const team = v.team as { id: string; key?: string } | null | undefined;
+      const owner = v.owner as { id: string; name?: string } | null | undefined;
+      return {
+        id: String(v.id ?? ''),
+        name: String(v.name ?? ''),
+        description: (v.description as string | null) ?? undefined,
+        modelName: (v.modelName as string | null) ?? undefined,
+        shared: (v.shared as boolean | null) ?? undefined,
+        icon: (v.icon as string | null) ?? undefined,
+        color: (v.color as string | null) ?? undefined,
+        filterData: (v.filterData as Record<string, unknown> | null) ?? undefined,
+        team: team ? { id: team.id, key: team.key ?? undefined } : undefined,
+        owner: owner ? { id: owner.id, name: owner.name ?? undefined } : undefined,
+        updatedAt: (v.updatedAt as string | null) ?? undefined,
+      };
+    });
+
+    const pageInfo = conn.pageInfo ?? {};
+    const hasMore = pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (pageInfo.endCursor ?? undefined) : undefined;
+
+    const query = {
+      teamId: args.teamId,
+      q: args.q,
+      limit,
+    };
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
+        'Use list_issues with viewId or viewName to run an issue view.',
+        'Use update_custom_views to change a view filter.',
+      ],
+      relatedTools: ['list_issues', 'create_custom_views', 'update_custom_views'],
+    };
+
+    const structured = ListCustomViewsOutputSchema.parse({
+      query,
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit,
+    });
+
+    const preview = items.map((v) => {
+      const kind =
+        !v.modelName || v.modelName === 'Issue' ? 'issues' : v.modelName.toLowerCase();
+      const scope = v.team?.key ? `team ${v.team.key}` : 'workspace';
+      const visibility = v.shared ? 'shared' : 'personal';
+      return `- ${v.name} (${kind}, ${scope}, ${visibility}) → ${v.id}`;
+    });
+
+    const text = summarizeList({
+      subject: 'Custom views',
+      count: items.length,
+      limit,
+      nextCursor,
+      previewLines: preview,
+      zeroReasonHints: [
+        ...(args.q ? ['no view name matches q'] : []),
+        ...(args.teamId
+          ? ['the team may have no views; omit teamId for workspace views']
+          : []),
+      ],
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Create Custom Views
+const CreateCustomViewsInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        name: z.string().min(1).describe('View name. Required.'),
+        description: z.string().optional().describe('View description.'),
+        teamId: z
+          .string()
+          .optional()
+          .describe('Team UUID. Omit for a workspace-level view.'),
+        shared: z
+          .boolean()
+          .optional()
+          .describe('Share with the workspace/team. Default: false (personal view).'),
+        filter: z
+          .record(z.unknown())
+          .describe(
+            'IssueFilter, same shape as list_issues filter, e.g. { labels: { name: { eq: "Bug" } }, state: { type: { eq: "triage" } } }.',
+          ),
+        icon: z.string().optional().describe('Icon name.'),
+        color: z.string().optional().describe('Hex color, e.g. #EB5757.'),
+      }),
+    )
+    .min(1)
+    .max(20)
+    .describe('Views to create.'),
+});
+
+export const createCustomViewsTool = defineTool({
+  name: toolsMetadata.create_custom_views.name,
+  title: toolsMetadata.create_custom_views.title,
+  description: toolsMetadata.create_custom_views.description,
+  inputSchema: CreateCustomViewsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { name: it.name, teamId: it.teamId, shared: it.shared };
+
+      const prepared = prepareViewFilter(it.filter);
+      if ('error' in prepared) {
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'FILTER_INVALID',
+            message: prepared.error,
+            suggestions: ['Wrap values in comparators like { eq: value }.'],
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const payload = await withRetry(
+          () =>
+            gate(() =>
+              client.createCustomView({
+                name: it.name,
+                description: it.description,
+                teamId: it.teamId,
+                shared: it.shared,
+                icon: it.icon,
+                color: it.color,
+                filterData: prepared.filterData as LinearDocument.IssueFilter,
+              }),
+            ),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: payload.customViewId,
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(
+          `- Created view "${it.name}" → ${payload.customViewId ?? '?'}`,
+        );
+      } catch (error) {
+        await logger.error('create_custom_views', {
+          message: 'Failed to create custom view',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_CREATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              'Verify teamId with list_teams and the filter fields with list_issues.',
+            ],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    return batchResult({
+      results,
+      detailLines,
+      total: args.items.length,
+      action: 'Created custom views',
+      schema: CreateCustomViewsOutputSchema,
+      idOf: (r) => String(r.input.name ?? ''),
+    });
+  },
+});
+
+// Update Custom Views
+const UpdateCustomViewsInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().describe('Custom view UUID from list_custom_views. Required.'),
+        name: z.string().optional().describe('New name.'),
+        description: z.string().optional().describe('New description.'),
+        shared: z.boolean().optional().describe('Share or unshare the view.'),
+        filter: z
+          .record(z.unknown())
+          .optional()
+          .describe('Replacement IssueFilter (replaces the saved filter entirely).'),
+        icon: z.string().optional().describe('Icon name.'),
+        color: z.string().optional().describe('Hex color.'),
+      }),
+    )
+    .min(1)
+    .max(20)
+    .describe('Views to update.'),
+});
+
+export const updateCustomViewsTool = defineTool({
+  name: toolsMetadata.update_custom_views.name,
+  title: toolsMetadata.update_custom_views.title,
+  description: toolsMetadata.update_custom_views.description,
+  inputSchema: UpdateCustomViewsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { id: it.id, name: it.name, shared: it.shared };
+
+      const update: Record<string, unknown> = {};
+      if (it.name !== undefined) update.name = it.name;
+      if (it.description !== undefined) update.description = it.description;
+      if (it.shared !== undefined) update.shared = it.shared;
+      if (it.icon !== undefined) update.icon = it.icon;
+      if (it.color !== undefined) update.color = it.color;
+
+      if (it.filter) {
+        const prepared = prepareViewFilter(it.filter);
+        if ('error' in prepared) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'FILTER_INVALID',
+              message: prepared.error,
+              suggestions: ['Wrap values in comparators like { eq: value }.'],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+        update.filterData = prepared.filterData;
+      }
+
+      if (Object.keys(update).length === 0) {
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'No fields to update',
+            suggestions: [
+              'Provide at least one of name, description, shared, filter, icon, color.',
+            ],
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const payload = await withRetry(
+          () =>
+            gate(() =>
+              client.updateCustomView(
+                it.id,
+                update as LinearDocument.CustomViewUpdateInput,
+              ),
+            ),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: it.id,
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(`- Updated view ${it.id}: ${Object.keys(update).join(', ')}`);
+      } catch (error) {
+        await logger.error('update_custom_views', {
+          message: 'Failed to update custom view',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify the view id with list_custom_views.'],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    return batchResult({
+      results,
+      detailLines,
+      total: args.items.length,
+      action: 'Updated custom views',
+      schema: UpdateCustomViewsOutputSchema,
+      idOf: (r) => String(r.input.id ?? ''),
+    });
+  },
+});
+
+function batchResult(opts: {
+  results: BatchResult[];
+  detailLines: string[];
+  total: number;
+  action: string;
+  schema: typeof CreateCustomViewsOutputSchema;
+  idOf: (r: BatchResult) => string;
+}): ToolResult {
+  const { results, detailLines, total } = opts;
+  const succeeded = results.filter((r) => r.success).length;
+  const failed = results.filter((r) => !r.success).length;
+
+  const summary = {
+    total,
+    succeeded,
+    failed,
+    // Legacy
+    ok: succeeded,
+  };
+
+  const meta = {
+    nextSteps: ['Use list_issues with viewId to check the view results.'],
+    relatedTools: ['list_custom_views', 'list_issues'],
+  };
+
+  const structured = opts.schema.parse({ results, summary, meta });
+
+  const failures = results
+    .filter((r) => !r.success)
+    .map((r) => ({
+      index: r.index,
+      id: opts.idOf(r),
+      error: r.error?.message ?? '',
+      code: r.error?.code,
+    }));
+
+  const summaryLine = summarizeBatch({
+    action: opts.action,
+    ok: succeeded,
+    total,
+    failures,
+    nextSteps: meta.nextSteps,
+  });
+
+  const textParts = [summaryLine];
+  if (detailLines.length > 0) {
+    textParts.push(detailLines.join('\n'));
+  }
+  const text = textParts.join('\n\n');
+
+  const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+  if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+    parts.push({ type: 'text', text: JSON.stringify(structured) });
+  }
+
+  return { content: parts, structuredContent: structured };
+}
@@ -0,0 +1,420 @@
+/**
+ * Customer tools - list customers and attach customer requests to issues.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  AddCustomerRequestsOutputSchema,
+  ListCustomersOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch, summarizeList } from '../../../utils/messages.js';
+import { type ResolverResult, resolveCustomer } from '../../../utils/resolvers.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  identifier?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+// List Customers
+const ListCustomersInputSchema = z.object({
+  q: z.string().optional().describe('Case-insensitive match on the customer name.'),
+  domain: z
+    .string()
+    .optional()
+    .describe('Only customers with this domain, e.g. "acme.com".'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Max results. Default: 50.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+const LIST_QUERY = `
+  query ListCustomers($first: Int!, $after: String, $filter: CustomerFilter) {
+    customers(first: $first, after: $after, filter: $filter) {
+      nodes {
+        id
+        name
+        domains
+        externalIds
+        revenue
+        size
+        approximateNeedCount
+        status { name displayName }
+        tier { name displayName }
+        owner { id name }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+export const listCustomersTool = defineTool({
+  name: toolsMetadata.list_customers.name,
+  title: toolsMetadata.list_customers.title,
+  description: toolsMetadata.list_customers.description,
+  inputSchema: ListCustomersInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const limit = args.limit ?? 50;
+
+    const filter: Record<string, unknown> = {};
+    if (args.q) {
+      filter.name = { containsIgnoreCase: args.q };
+    }
+    if (args.domain) {
+      filter.domains = { some: { eqIgnoreCase: args.domain } };
+    }
+
+    const resp = await client.client.rawRequest(LIST_QUERY, {
+      first: limit,
+      after: args.cursor,
+      filter: Object.keys(filter).length > 0 ? filter : undefined,
+    });
+    const conn = (
+      resp as unknown as {
+        data?: {
+          customers?: {
+            nodes?: Array<Record<string, unknown>>;
+            pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+          };
+        };
+      }
+    ).data?.customers ?? { nodes: [], pageInfo: {} };
+
+    const items = (conn.nodes ?? []).map((c) => {
+      const status = c.status as
+        | { name?: string; displayName?: string }
+        | null
+        | undefined;
+      const tier = c.tier as { name?: string; displayName?: string } | null | undefined;
+      const owner = c.owner as { id: string; name?: string } | null | undefined;
+      return {
+        id: String(c.id ?? ''),
+        name: String(c.name ?? ''),
+        domains: (c.domains as string[] | null) ?? [],
+        externalIds: (c.externalIds as string[] | null) ?? [],
+        status: status ? (status.displayName ?? status.name) : undefined,
+        tier: tier ? (tier.displayName ?? tier.name) : undefined,
+        revenue: (c.revenue as number | null) ?? undefined,
+        size: (c.size as number | null) ?? undefined,
+        requestCount: (c.approximateNeedCount as number | null) ?? 0,
+        owner: owner ? { id: owner.id, name: owner.name ?? undefined } : undefined,
+      };
+    });
+
+    const pageInfo = conn.pageInfo ?? {};
+    const hasMore = pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (pageInfo.endCursor ?? undefined) : undefined;
+
+    const query = {
+      q: args.q,
+      domain: args.domain,
+      limit,
+    };
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
+        'Use add_customer_requests to link a customer to an issue.',
+        'Use list_issues to see customer counts per issue.',
+      ],
+      relatedTools: ['add_customer_requests', 'list_issues'],
+    };
+
+    const structured = ListCustomersOutputSchema.parse({
+      query,
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit,
+    });
+
+    const preview = items.map((c) => {
+      const details = [
+        ...(c.domains.length > 0 ? [c.domains.join(', ')] : []),
+        ...(c.tier ? [`tier ${c.tier}`] : []),
+        ...(c.status ? [c.status] : []),
+        `${c.requestCount} request(s)`,
+      ];
+      return `- ${c.name} (${details.join('; ')}) → ${c.id}`;
+    });
+
+    const text = summarizeList({
+      subject: 'Customers',
+      count: items.length,
+      limit,
+      nextCursor,
+      previewLines: preview,
+      zeroReasonHints: [
+        ...(args.q ? ['no customer name matches q'] : []),
+        ...(args.domain ? ['no customer has this domain'] : []),
+        ...(!args.q && !args.domain
+          ? ['customers may not be enabled in this workspace']
+          : []),
+      ],
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Add Customer Requests
+const CustomerRequestItem = z.object({
+  issueId: z.string().describe('Issue UUID or identifier (e.g. ENG-123).'),
+  customerId: z
+    .string()
+    .optional()
+    .describe('Customer UUID. Or use another customer field.'),
+  customerName: z.string().optional().describe('Customer name (case-insensitive).'),
+  customerDomain: z.string().optional().describe('Customer domain, e.g. "acme.com".'),
+  customerExternalId: z
+    .string()
+    .optional()
+    .describe('Customer ID in an external system (CRM, billing).'),
+  body: z.string().optional().describe('What the customer asked for (markdown).'),
+  important: z.boolean().optional().describe('Mark the request as important.'),
+  attachmentUrl: z
+    .string()
+    .optional()
+    .describe('Source of the request, e.g. a support ticket or call notes URL.'),
+});
+
+const AddCustomerRequestsInputSchema = z.object({
+  items: z
+    .array(CustomerRequestItem)
+    .min(1)
+    .max(50)
+    .describe('Customer requests to attach.'),
+});
+
+export const addCustomerRequestsTool = defineTool({
+  name: toolsMetadata.add_customer_requests.name,
+  title: toolsMetadata.add_customer_requests.title,
+  description: toolsMetadata.add_customer_requests.description,
+  inputSchema: AddCustomerRequestsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    // Customers are resolved once per batch
+    const customerCache = new Map<
+      string,
+      ResolverResult<{ id: string; name: string }>
+    >();
+    const loadCustomer = async (
+      lookup: Parameters<typeof resolveCustomer>[1],
+    ): Promise<ResolverResult<{ id: string; name: string }>> => {
+      const key = JSON.stringify([
+        lookup.customerId,
+        lookup.customerName?.toLowerCase().trim(),
+        lookup.customerDomain?.toLowerCase().trim(),
+        lookup.customerExternalId,
+      ]);
+      const cached = customerCache.get(key);
+      if (cached) return cached;
+      const resolved = await gate(() => resolveCustomer(client, lookup));
+      customerCache.set(key, resolved);
+      return resolved;
+    };
+
+    const results: BatchResult[] = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input: Record<string, unknown> = {
+        issueId: it.issueId,
+        customerId: it.customerId,
+        customerName: it.customerName,
+        customerDomain: it.customerDomain,
+        customerExternalId: it.customerExternalId,
+        important: it.important,
+      };
+      const fail = (code: string, message: string, suggestions?: string[]) => {
+        results.push({
+          input,
+          success: false,
+          error: { code, message, suggestions },
+          index: i,
+          ok: false,
+        });
+      };
+
+      if (
+        !it.customerId &&
+        !it.customerName &&
+        !it.customerDomain &&
+        !it.customerExternalId
+      ) {
+        fail(
+          'VALIDATION_ERROR',
+          'Provide customerId, customerName, customerDomain or customerExternalId',
+        );
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const issue = await gate(() => client.issue(it.issueId)).catch(() => undefined);
+        if (!issue) {
+          fail('ISSUE_NOT_FOUND', `Issue "${it.issueId}" not found`, [
+            'Use list_issues or get_issues to verify identifiers.',
+          ]);
+          continue;
+        }
+        const identifier = issue.identifier ?? issue.id;
+
+        const customerResult = await loadCustomer({
+          customerId: it.customerId,
+          customerName: it.customerName,
+          customerDomain: it.customerDomain,
+          customerExternalId: it.customerExternalId,
+        });
+        if (!customerResult.success) {
+          fail('CUSTOMER_NOT_FOUND', customerResult.error, customerResult.suggestions);
+          continue;
+        }
+        const customer = customerResult.value;
+
+        const payload = await withRetry(
+          () =>
+            gate(() =>
+              client.createCustomerNeed({
+                customerId: customer.id,
+                issueId: issue.id,
+                ...(it.body ? { body: it.body } : {}),
+                ...(it.attachmentUrl ? { attachmentUrl: it.attachmentUrl } : {}),
+                // Linear uses 1 for important requests, 0 otherwise
+                priority: it.important ? 1 : 0,
+              }),
+            ),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+        const need = (await payload.need) as { id?: string } | undefined;
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: need?.id,
+          identifier,
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(
+          `- ${customer.name} → ${identifier}${it.important ? ' (important)' : ''}`,
+        );
+      } catch (error) {
+        await logger.error('add_customer_requests', {
+          message: 'Failed to add customer request',
+          index: i,
+          error: (error as Error).message,
+        });
+        fail('LINEAR_CREATE_ERROR', (error as Error).message, [
+          'Customer requests require the Customers feature to be enabled for the workspace.',
+        ]);
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use list_issues to see customer counts per issue.'],
+      relatedTools: ['list_customers', 'list_issues', 'get_issues'],
+    };
+
+    const structured = AddCustomerRequestsOutputSchema.parse({
+      results,
+      summary,
+      meta,
+    });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.issueId ?? ''),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Added customer requests',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
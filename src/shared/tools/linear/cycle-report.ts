@@ -0,0 +1,524 @@
+/**
+ * Cycle Report tool - scope, completion, carry-over, scope creep and a daily
+ * burndown for one cycle, plus the team's rolling velocity.
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { CycleReportOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { resolveCycle, resolveTeam } from '../../../utils/resolvers.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+const InputSchema = z.object({
+  teamId: z.string().optional().describe('Team UUID. Or use teamKey.'),
+  teamKey: z.string().optional().describe('Team key, e.g. "ENG".'),
+  cycle: z
+    .union([z.string(), z.number()])
+    .optional()
+    .describe(
+      'Cycle to report on: "current", "previous", "next", a cycle number (12) or name. Default: "current".',
+    ),
+  velocityCycles: z
+    .number()
+    .int()
+    .min(1)
+    .max(12)
+    .optional()
+    .describe('How many completed cycles to average for velocity. Default: 3.'),
+});
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  url
+  estimate
+  createdAt
+  addedToCycleAt
+  completedAt
+  canceledAt
+  state { type }
+`;
+
+const CYCLE_ISSUES_QUERY = `
+  query CycleReportIssues($id: String!, $first: Int!, $after: String) {
+    cycle(id: $id) {
+      id
+      number
+      name
+      startsAt
+      endsAt
+      completedAt
+      issues(first: $first, after: $after, includeArchived: true) {
+        nodes {
+          ${ISSUE_FIELDS}
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+// Issues still open when a cycle closed; Linear moves them out of the cycle
+const CARRY_OVER_QUERY = `
+  query CycleReportCarryOver($id: String!, $first: Int!, $after: String) {
+    cycle(id: $id) {
+      id
+      uncompletedIssuesUponClose(first: $first, after: $after, includeArchived: true) {
+        nodes {
+          ${ISSUE_FIELDS}
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+const VELOCITY_QUERY = `
+  query CycleReportVelocity($first: Int!, $filter: CycleFilter) {
+    cycles(first: $first, filter: $filter) {
+      nodes {
+        id
+        number
+        name
+        completedAt
+        completedScopeHistory
+        completedIssueCountHistory
+      }
+    }
+  }
+`;
+
+type RawIssue = {
+  id: string;
+  identifier?: string | null;
+  title?: string | null;
+  url?: string | null;
+  estimate?: number | null;
+  createdAt?: string | null;
+  addedToCycleAt?: string | null;
+  completedAt?: string | null;
+  canceledAt?: string | null;
+  state?: { type?: string } | null;
+};
+
+type RawCycle = {
+  id: string;
+  number: number;
+  name?: string | null;
+  startsAt: string;
+  endsAt: string;
+  completedAt?: string | null;
+};
+
+type IssueRef = {
+  id: string;
+  identifier?: string;
+  title: string;
+  url?: string;
+  estimate?: number;
+};
+
+type Tally = { issues: number; points: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toRef(raw: RawIssue): IssueRef {
+  return {
+    id: raw.id,
+    identifier: raw.identifier ?? undefined,
+    title: raw.title ?? '',
+    url: raw.url ?? undefined,
+    estimate: raw.estimate ?? undefined,
+  };
+}
+
+function tally(issues: RawIssue[]): Tally {
+  return {
+    issues: issues.length,
+    points: issues.reduce((sum, i) => sum + (i.estimate ?? 0), 0),
+  };
+}
+
+function time(value: string | null | undefined): number | undefined {
+  return value ? new Date(value).getTime() : undefined;
+}
+
+/**
+ * Page through one issue connection of a cycle (issues or uncompletedIssuesUponClose).
+ */
+async function fetchCycleIssues(
+  client: LinearClient,
+  query: string,
+  key: 'issues' | 'uncompletedIssuesUponClose',
+  cycleId: string,
+  signal?: AbortSignal,
+): Promise<{ cycle?: RawCycle; issues: RawIssue[] }> {
+  const issues: RawIssue[] = [];
+  let cycle: RawCycle | undefined;
+  let after: string | undefined;
+
+  do {
+    if (signal?.aborted) {
+      throw new Error('Operation aborted');
+    }
+
+    const resp = await client.client.rawRequest(query, {
+      id: cycleId,
+      first: 100,
+      after,
+    });
+    const data = (
+      resp as unknown as {
+        data?: { cycle?: (RawCycle & Record<string, unknown>) | null };
+      }
+    ).data?.cycle;
+    if (!data) break;
+
+    cycle = cycle ?? data;
+    const conn = data[key] as
+      | { nodes?: RawIssue[]; pageInfo?: { hasNextPage?: boolean; endCursor?: string } }
+      | undefined;
+    issues.push(...(conn?.nodes ?? []));
+    after = conn?.pageInfo?.hasNextPage ? conn.pageInfo.endCursor : undefined;
+  } while (after);
+
+  return { cycle, issues };
+}
+
+/**
+ * Daily burndown (UTC days) from cycle start until the cycle ends, closes or today.
+ * Scope counts an issue from the day it joined the cycle until it was canceled.
+ * Carried-over issues count from the start: their addedToCycleAt points at the
+ * cycle they rolled into.
+ */
+function buildBurndown(
+  cycle: RawCycle,
+  issues: RawIssue[],
+  carriedIds: Set<string>,
+  now: number,
+): Array<{
+  date: string;
+  scope: number;
+  completed: number;
+  remaining: number;
+  ideal: number;
+}> {
+  const start = new Date(cycle.startsAt);
+  const firstDay = Date.UTC(
+    start.getUTCFullYear(),
+    start.getUTCMonth(),
+    start.getUTCDate(),
+  );
+  const endsAt = new Date(cycle.endsAt).getTime();
+  const lastDay = Math.min(endsAt, time(cycle.completedAt) ?? endsAt, now);
+  const totalDays = Math.max(1, Math.ceil((endsAt - firstDay) / DAY_MS));
+
+  const series: Array<{
+    date: string;
+    scope: number;
+    completed: number;
+    remaining: number;
+    ideal: number;
+  }> = [];
+  let initialScope: number | undefined;
+
+  for (let day = firstDay, n = 0; day <= lastDay; day += DAY_MS, n++) {
+    const dayEnd = day + DAY_MS - 1;
+    let scope = 0;
+    let completed = 0;
+    for (const issue of issues) {
+      const added = carriedIds.has(issue.id)
+        ? firstDay
+        : (time(issue.addedToCycleAt) ?? firstDay);
+      const canceled = time(issue.canceledAt);
+      if (added > dayEnd || (canceled !== undefined && canceled <= dayEnd)) continue;
+      const points = issue.estimate ?? 0;
+      scope += points;
+      const done = time(issue.completedAt);
+      if (done !== undefined && done <= dayEnd) completed += points;
+    }
+    initialScope = initialScope ?? scope;
+    series.push({
+      date: new Date(day).toISOString().slice(0, 10),
+      scope,
+      completed,
+      remaining: scope - completed,
+      ideal: Math.max(
+        0,
+        Math.round(initialScope * (1 - (n + 1) / totalDays) * 10) / 10,
+      ),
+    });
+  }
+
+  return series;
+}
+
+export const cycleReportTool = defineTool({
+  name: toolsMetadata.cycle_report.name,
+  title: toolsMetadata.cycle_report.title,
+  description: toolsMetadata.cycle_report.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const velocityCycles = args.velocityCycles ?? 3;
+
+    const teamResult = await resolveTeam(client, {
+      teamId: args.teamId,
+      teamKey: args.teamKey,
+    });
+    if (!teamResult.success) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `${teamResult.error}. ${
+              teamResult.suggestions?.join(' ') ?? 'Use list_teams to find the team.'
+            }`,
+          },
+        ],
+        structuredContent: {
+          error: 'TEAM_NOT_FOUND',
+          teamId: args.teamId,
+          teamKey: args.teamKey,
+          hint: 'Use list_teams to find the team id or key.',
+        },
+      };
+    }
+    const team = teamResult.value;
+
+    const cycleResult = await resolveCycle(client, team.id, args.cycle ?? 'current');
+    if (!cycleResult.success) {
+      const disabled = cycleResult.error.includes('disabled');
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `${cycleResult.error}. ${cycleResult.suggestions?.join(' ') ?? ''}`.trim(),
+          },
+        ],
+        structuredContent: {
+          error: disabled ? 'CYCLES_DISABLED' : 'NOT_FOUND',
+          teamKey: team.key,
+          cycle: args.cycle ?? 'current',
+          hint: disabled
+            ? 'Use workspace_metadata to find teams with cyclesEnabled=true.'
+            : 'Use list_cycles to see the team cycles.',
+        },
+      };
+    }
+
+    const { cycle, issues: cycleIssues } = await fetchCycleIssues(
+      client,
+      CYCLE_ISSUES_QUERY,
+      'issues',
+      cycleResult.value,
+      context.signal,
+    );
+    if (!cycle) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `Cycle "${cycleResult.value}" not found.` }],
+        structuredContent: {
+          error: 'NOT_FOUND',
+          teamKey: team.key,
+          hint: 'Use list_cycles to see the team cycles.',
+        },
+      };
+    }
+
+    const now = Date.now();
+    const status = cycle.completedAt
+      ? ('completed' as const)
+      : new Date(cycle.startsAt).getTime() > now
+        ? ('upcoming' as const)
+        : ('active' as const);
+
+    // A closed cycle no longer lists its unfinished issues; fetch them separately
+    const carried =
+      status === 'completed'
+        ? (
+            await fetchCycleIssues(
+              client,
+              CARRY_OVER_QUERY,
+              'uncompletedIssuesUponClose',
+              cycle.id,
+              context.signal,
+            )
+          ).issues
+        : [];
+
+    const seen = new Set(cycleIssues.map((i) => i.id));
+    const allIssues = [...cycleIssues, ...carried.filter((i) => !seen.has(i.id))];
+    const carriedIds = new Set(carried.map((i) => i.id));
+
+    const isCanceled = (i: RawIssue) => i.state?.type === 'canceled' || !!i.canceledAt;
+    const inScope = allIssues.filter((i) => !isCanceled(i));
+    const canceled = allIssues.filter(isCanceled);
+    const completed = inScope.filter((i) => !!i.completedAt && !carriedIds.has(i.id));
+    const unfinished = inScope.filter((i) => !completed.includes(i));
+    const startsAt = new Date(cycle.startsAt).getTime();
+    const added = inScope.filter(
+      (i) => !carriedIds.has(i.id) && (time(i.addedToCycleAt) ?? startsAt) > startsAt,
+    );
+
+    const scopeTally = tally(inScope);
+    const completedTally = tally(completed);
+    const completionRate =
+      scopeTally.points > 0
+        ? completedTally.points / scopeTally.points
+        : scopeTally.issues > 0
+          ? completedTally.issues / scopeTally.issues
+          : 0;
+
+    // Velocity: completed scope of the team's last closed cycles (up to this one)
+    const velocityResp = await client.client.rawRequest(VELOCITY_QUERY, {
+      first: velocityCycles + 1,
+      filter: {
+        team: { id: { eq: team.id } },
+        isPast: { eq: true },
+        number: { gt: cycle.number - velocityCycles - 1, lte: cycle.number },
+      },
+    });
+    const pastCycles = (
+      (
+        velocityResp as unknown as {
+          data?: {
+            cycles?: {
+              nodes?: Array<{
+                id: string;
+                number: number;
+                name?: string | null;
+                completedAt?: string | null;
+                completedScopeHistory?: number[] | null;
+                completedIssueCountHistory?: number[] | null;
+              }>;
+            };
+          };
+        }
+      ).data?.cycles?.nodes ?? []
+    )
+      .filter((c) => !!c.completedAt)
+      .sort((a, b) => b.number - a.number)
+      .slice(0, velocityCycles)
+      .map((c) => ({
+        id: c.id,
+        number: c.number,
+        name: c.name ?? undefined,
+        completedPoints: c.completedScopeHistory?.at(-1) ?? 0,
+        completedIssues: c.completedIssueCountHistory?.at(-1) ?? 0,
+      }));
+    const average = (values: number[]) =>
+      values.length > 0
+        ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10
+        : 0;
+    const velocity = {
+      cycles: pastCycles,
+      averagePoints: average(pastCycles.map((c) => c.completedPoints)),
+      averageIssues: average(pastCycles.map((c) => c.completedIssues)),
+    };
+
+    const burndown = buildBurndown(cycle, allIssues, carriedIds, now);
+
+    const meta = {
+      nextSteps: [
+        ...(status === 'completed' && unfinished.length > 0
+          ? ['Use get_issues on carried-over issues to review why they slipped.']
+          : []),
+        ...(status === 'active' && unfinished.length > 0
+          ? ['Use list_issues with a cycle filter to triage open work.']
+          : []),
+        'Use cycle_report with cycle="previous" to compare with the last sprint.',
+      ],
+      relatedTools: ['list_cycles', 'list_issues', 'get_issues'],
+    };
+
+    const structured = CycleReportOutputSchema.parse({
+      team,
+      cycle: {
+        id: cycle.id,
+        number: cycle.number,
+        name: cycle.name ?? undefined,
+        startsAt: cycle.startsAt,
+        endsAt: cycle.endsAt,
+        completedAt: cycle.completedAt ?? undefined,
+        status,
+      },
+      scope: {
+        ...scopeTally,
+        unestimated: inScope.filter((i) => i.estimate == null).length,
+      },
+      completed: completedTally,
+      completionRate: Math.round(completionRate * 100) / 100,
+      carryOver: { ...tally(unfinished), items: unfinished.map(toRef) },
+      scopeCreep: { ...tally(added), items: added.map(toRef) },
+      canceled: tally(canceled),
+      burndown,
+      velocity,
+      meta,
+    });
+
+    const cycleLabel = `${team.key} cycle #${cycle.number}${cycle.name ? ` (${cycle.name})` : ''}`;
+    const pct = Math.round(completionRate * 100);
+    const lines = [
+      `Cycle report for ${cycleLabel}, ${status}: ${cycle.startsAt.slice(0, 10)} → ${cycle.endsAt.slice(0, 10)}.`,
+      `- Scope: ${scopeTally.points} pts across ${scopeTally.issues} issue(s)${
+        structured.scope.unestimated > 0
+          ? ` (${structured.scope.unestimated} unestimated)`
+          : ''
+      }`,
+      `- Completed: ${completedTally.points} pts, ${completedTally.issues} issue(s) (${pct}%)`,
+      `- ${status === 'completed' ? 'Carried over' : 'Open'}: ${structured.carryOver.points} pts, ${structured.carryOver.issues} issue(s)`,
+      `- Scope creep: ${structured.scopeCreep.points} pts, ${structured.scopeCreep.issues} issue(s) added after start`,
+    ];
+    if (canceled.length > 0) {
+      lines.push(`- Canceled: ${canceled.length} issue(s)`);
+    }
+    lines.push(
+      velocity.cycles.length > 0
+        ? `- Velocity (last ${velocity.cycles.length} closed cycle(s)): ${velocity.averagePoints} pts, ${velocity.averageIssues} issue(s) on average — ${velocity.cycles
+            .map((c) => `#${c.number}: ${c.completedPoints}`)
+            .join(', ')}`
+        : '- Velocity: no closed cycles yet',
+    );
+
+    const textParts = [lines.join('\n')];
+    if (structured.scopeCreep.items.length > 0) {
+      textParts.push(
+        `Added after start:\n${structured.scopeCreep.items
+          .slice(0, 10)
+          .map(
+            (i) =>
+              `- ${i.identifier ?? i.id} ${i.title}${i.estimate != null ? ` (${i.estimate} pts)` : ''}`,
+          )
+          .join('\n')}`,
+      );
+    }
+    if (burndown.length > 0) {
+      textParts.push(
+        `Burndown (remaining / scope pts):\n${burndown
+          .map((d) => `${d.date}: ${d.remaining} / ${d.scope}`)
+          .join('\n')}`,
+      );
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -1,14 +1,20 @@
 /**
- * List Cycles tool - fetch cycles for a team.
+ * Cycles tools - list, create, and update cycles.
  */
 
 import { LinearDocument } from '@linear/sdk';
 import { z } from 'zod';
 import { toolsMetadata } from '../../../config/metadata.js';
 import { config } from '../../../config/env.js';
-import { ListCyclesOutputSchema } from '../../../schemas/outputs.js';
+import {
+  CreateCyclesOutputSchema,
+  ListCyclesOutputSchema,
+  UpdateCyclesOutputSchema,
+} from '../../../schemas/outputs.js';
 import { getLinearClient } from '../../../services/linear/client.js';
-import { summarizeList, previewLinesFromItems } from '../../../utils/messages.js';
+import { makeConcurrencyGate, withRetry, delay } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch, summarizeList, previewLinesFromItems } from '../../../utils/messages.js';
 import { defineTool, type ToolContext, type ToolResult } from '../types.js';
 
 const InputSchema = z.object({
@@ -156,27 +162,402 @@ export const listCyclesTool = defineTool({
   },
 });
 
+/**
+ * Parse a YYYY-MM-DD or ISO date input; undefined when invalid
+ */
+function parseDateInput(value: string): Date | undefined {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// Create Cycles
+const CreateCyclesInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        teamId: z.string().describe('Team UUID. Required. Team must have cycles enabled.'),
+        startsAt: z.string().describe('Start date (YYYY-MM-DD or ISO). Required.'),
+        endsAt: z.string().describe('End date (YYYY-MM-DD or ISO). Required.'),
+        name: z.string().optional().describe('Custom cycle name. Defaults to the cycle number.'),
+        description: z.string().optional().describe('Cycle description.'),
+      }),
+    )
+    .min(1)
+    .max(50)
+    .describe('Cycles to create.'),
+});
 
+export const createCyclesTool = defineTool({
+  name: toolsMetadata.create_cycles.name,
+  title: toolsMetadata.create_cycles.title,
+  description: toolsMetadata.create_cycles.description,
+  inputSchema: CreateCyclesInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
 
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+    const cyclesEnabledByTeam = new Map<string, boolean>();
+
+    const results: {
+      input: Record<string, unknown>;
+      success: boolean;
+      id?: string;
+      identifier?: string;
+      error?: { code: string; message: string; suggestions?: string[] };
+      index: number;
+      ok: boolean;
+    }[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { teamId: it.teamId, name: it.name, startsAt: it.startsAt, endsAt: it.endsAt };
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        const startsAt = parseDateInput(it.startsAt);
+        const endsAt = parseDateInput(it.endsAt);
+        if (!startsAt || !endsAt || endsAt <= startsAt) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: !startsAt || !endsAt ? 'Invalid startsAt/endsAt date' : 'endsAt must be after startsAt',
+              suggestions: ['Use YYYY-MM-DD dates, e.g. startsAt: "2025-01-06", endsAt: "2025-01-19".'],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        // Check cycles are enabled once per team
+        if (!cyclesEnabledByTeam.has(it.teamId)) {
+          const team = await gate(() => client.team(it.teamId));
+          cyclesEnabledByTeam.set(
+            it.teamId,
+            (team as unknown as { cyclesEnabled?: boolean } | null)?.cyclesEnabled === true,
+          );
+        }
+        if (!cyclesEnabledByTeam.get(it.teamId)) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'CYCLES_DISABLED',
+              message: `Cycles are disabled for team ${it.teamId}`,
+              suggestions: ['Use workspace_metadata to find teams with cyclesEnabled=true.'],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const call = () =>
+          client.createCycle({
+            teamId: it.teamId,
+            startsAt,
+            endsAt,
+            name: it.name,
+            description: it.description,
+          });
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+        const cycle = (await payload.cycle) as { id?: string; number?: number; name?: string } | undefined;
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: cycle?.id,
+          identifier:
+            cycle?.number !== undefined
+              ? `#${cycle.number}${cycle.name ? ` ${cycle.name}` : ''}`
+              : cycle?.name ?? undefined,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('create_cycles', {
+          message: 'Failed to create cycle',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_CREATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              'Verify teamId with workspace_metadata.',
+              'Check that the dates do not overlap an existing cycle (list_cycles).',
+            ],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
 
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
 
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
 
+    const meta = {
+      nextSteps: [
+        'Use list_cycles to verify.',
+        "Use update_issues with cycleName ('current', 'next' or a number) to plan work into cycles.",
+      ],
+      relatedTools: ['list_cycles', 'update_cycles', 'update_issues'],
+    };
 
+    const structured = CreateCyclesOutputSchema.parse({ results, summary, meta });
+
+    const okIds = results
+      .filter((r) => r.ok)
+      .map((r) => r.identifier ?? r.id ?? `item[${String(r.index)}]`);
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Created cycles',
+      ok: summary.ok,
+      total: args.items.length,
+      okIdentifiers: okIds,
+      failures,
+      nextSteps: ['Use list_cycles to verify; update_issues with cycleName to assign issues.'],
+    });
 
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
 
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
 
+    return { content: parts, structuredContent: structured };
+  },
+});
 
+// Update Cycles
+const UpdateCyclesInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().describe('Cycle UUID. Required.'),
+        name: z.string().optional().describe('New cycle name.'),
+        description: z
+          .string()
+          .optional()
+          .describe('New description. Empty string clears it.'),
+        startsAt: z.string().optional().describe('New start date (YYYY-MM-DD or ISO).'),
+        endsAt: z.string().optional().describe('New end date (YYYY-MM-DD or ISO).'),
+        completedAt: z
+          .string()
+          .optional()
+          .describe('Completion date (YYYY-MM-DD or ISO) to mark the cycle completed.'),
+      }),
+    )
+    .min(1)
+    .max(50)
+    .describe('Cycles to update.'),
+});
 
+export const updateCyclesTool = defineTool({
+  name: toolsMetadata.update_cycles.name,
+  title: toolsMetadata.update_cycles.title,
+  description: toolsMetadata.update_cycles.description,
+  inputSchema: UpdateCyclesInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
 
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: {
+      input: Record<string, unknown>;
+      success: boolean;
+      id?: string;
+      error?: { code: string; message: string; suggestions?: string[] };
+      index: number;
+      ok: boolean;
+    }[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { id: it.id, name: it.name, startsAt: it.startsAt, endsAt: it.endsAt };
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        const updatePayload: Record<string, unknown> = {};
+        if (it.name) updatePayload.name = it.name;
+        if (it.description !== undefined) updatePayload.description = it.description;
+
+        const invalidDates: string[] = [];
+        for (const field of ['startsAt', 'endsAt', 'completedAt'] as const) {
+          const value = it[field];
+          if (!value) continue;
+          const date = parseDateInput(value);
+          if (date) {
+            updatePayload[field] = date;
+          } else {
+            invalidDates.push(field);
+          }
+        }
+        if (invalidDates.length > 0) {
+          results.push({
+            input,
+            success: false,
+            id: it.id,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: `Invalid date for ${invalidDates.join(', ')}`,
+              suggestions: ['Use YYYY-MM-DD or ISO 8601 dates.'],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        if (Object.keys(updatePayload).length === 0) {
+          results.push({
+            input,
+            success: false,
+            id: it.id,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'No fields to update',
+              suggestions: [
+                'Provide at least one of name, description, startsAt, endsAt, completedAt.',
+              ],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const call = () => client.updateCycle(it.id, updatePayload);
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: it.id,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('update_cycles', {
+          message: 'Failed to update cycle',
+          id: it.id,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          id: it.id,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify cycle ID with list_cycles.'],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
 
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
 
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
 
+    const meta = {
+      nextSteps: ['Use list_cycles to verify changes.'],
+      relatedTools: ['list_cycles', 'list_issues', 'update_issues'],
+    };
 
+    const structured = UpdateCyclesOutputSchema.parse({ results, summary, meta });
+
+    const okIds = results
+      .filter((r) => r.ok)
+      .map((r) => r.id ?? `item[${String(r.index)}]`);
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Updated cycles',
+      ok: summary.ok,
+      total: args.items.length,
+      okIdentifiers: okIds,
+      failures,
+      nextSteps: ['Call list_cycles to verify changes.'],
+    });
 
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
 
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
 
-
-
-
-
-
+    return { content: parts, structuredContent: structured };
+  },
+});
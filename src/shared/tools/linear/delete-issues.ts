@@ -0,0 +1,344 @@
+/**
+ * Delete Issues tools - move issues to the trash (with confirmation) and restore them.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  DeleteIssuesOutputSchema,
+  RestoreIssuesOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch } from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { confirmDestructiveAction } from './shared/index.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  identifier?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+// Issues listed by name in the confirmation message
+const CONFIRM_PREVIEW_LIMIT = 10;
+
+// Delete Issues
+const DeleteIssuesInputSchema = z.object({
+  ids: z
+    .array(z.string())
+    .min(1)
+    .max(50)
+    .describe('Issue UUIDs or identifiers (e.g. ENG-123) to delete.'),
+});
+
+export const deleteIssuesTool = defineTool({
+  name: toolsMetadata.delete_issues.name,
+  title: toolsMetadata.delete_issues.title,
+  description: toolsMetadata.delete_issues.description,
+  inputSchema: DeleteIssuesInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+    const found: Array<{
+      index: number;
+      id: string;
+      identifier: string;
+      title: string;
+    }> = [];
+
+    // Look up every issue first so the confirmation names what will be deleted
+    for (let i = 0; i < args.ids.length; i++) {
+      const id = args.ids[i];
+      try {
+        const issue = await gate(() => client.issue(id));
+        if (!issue) {
+          throw new Error(`Issue "${id}" not found`);
+        }
+        found.push({
+          index: i,
+          id: issue.id,
+          identifier: issue.identifier ?? issue.id,
+          title: issue.title,
+        });
+      } catch (error) {
+        results.push({
+          input: { id },
+          success: false,
+          id,
+          error: {
+            code: 'ISSUE_NOT_FOUND',
+            message: (error as Error).message,
+            suggestions: ['Use list_issues or get_issues to verify identifiers.'],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    let declined = false;
+    if (found.length > 0) {
+      const preview = found
+        .slice(0, CONFIRM_PREVIEW_LIMIT)
+        .map((f) => `- ${f.identifier}: ${f.title}`);
+      if (found.length > CONFIRM_PREVIEW_LIMIT) {
+        preview.push(`- …and ${found.length - CONFIRM_PREVIEW_LIMIT} more`);
+      }
+      const outcome = await confirmDestructiveAction(
+        context,
+        `Delete ${found.length} issue(s)? They move to the trash and can be restored with restore_issues.\n${preview.join('\n')}`,
+        'Delete issues',
+      );
+      declined = outcome === 'declined';
+    }
+
+    for (let n = 0; n < found.length; n++) {
+      const f = found[n];
+      if (declined) {
+        results.push({
+          input: { id: args.ids[f.index] },
+          success: false,
+          id: f.id,
+          identifier: f.identifier,
+          error: {
+            code: 'CANCELLED',
+            message: 'Deletion was not confirmed',
+            suggestions: ['Nothing was deleted. Call again and confirm to proceed.'],
+          },
+          index: f.index,
+          ok: false,
+        });
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (n > 0) {
+          await delay(100);
+        }
+
+        const payload = await withRetry(() => gate(() => client.deleteIssue(f.id)), {
+          maxRetries: 3,
+          baseDelayMs: 500,
+        });
+
+        results.push({
+          input: { id: args.ids[f.index] },
+          success: payload.success ?? true,
+          id: f.id,
+          identifier: f.identifier,
+          // Legacy
+          index: f.index,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('delete_issues', {
+          message: 'Failed to delete issue',
+          index: f.index,
+          error: (error as Error).message,
+        });
+        results.push({
+          input: { id: args.ids[f.index] },
+          success: false,
+          id: f.id,
+          identifier: f.identifier,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Deleting issues may require admin or creator permissions.'],
+          },
+          // Legacy
+          index: f.index,
+          ok: false,
+        });
+      }
+    }
+
+    results.sort((a, b) => a.index - b.index);
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.ids.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: declined
+        ? ['Deletion was cancelled; nothing was deleted.']
+        : ['Use restore_issues with the same ids to undo.'],
+      relatedTools: ['restore_issues', 'list_issues', 'update_issues'],
+    };
+
+    const structured = DeleteIssuesOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: r.identifier ?? r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Deleted issues',
+      ok: succeeded,
+      total: args.ids.length,
+      okIdentifiers: results.filter((r) => r.success).map((r) => r.identifier ?? ''),
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Restore Issues
+const RestoreIssuesInputSchema = z.object({
+  ids: z
+    .array(z.string())
+    .min(1)
+    .max(50)
+    .describe('UUIDs or identifiers of trashed or archived issues.'),
+});
+
+export const restoreIssuesTool = defineTool({
+  name: toolsMetadata.restore_issues.name,
+  title: toolsMetadata.restore_issues.title,
+  description: toolsMetadata.restore_issues.description,
+  inputSchema: RestoreIssuesInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+
+    for (let i = 0; i < args.ids.length; i++) {
+      const id = args.ids[i];
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const payload = await withRetry(() => gate(() => client.unarchiveIssue(id)), {
+          maxRetries: 3,
+          baseDelayMs: 500,
+        });
+
+        results.push({
+          input: { id },
+          success: payload.success ?? true,
+          id: payload.entityId ?? id,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('restore_issues', {
+          message: 'Failed to restore issue',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input: { id },
+          success: false,
+          id,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              'Trashed issues can be restored for 30 days; permanently deleted issues cannot.',
+            ],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.ids.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use get_issues to verify the restored issues.'],
+      relatedTools: ['get_issues', 'delete_issues', 'list_issues'],
+    };
+
+    const structured = RestoreIssuesOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Restored issues',
+      ok: succeeded,
+      total: args.ids.length,
+      okIdentifiers: results.filter((r) => r.success).map((r) => String(r.input.id)),
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,684 @@
+/**
+ * Documents tools - list, read, create and update Linear documents (specs, PRDs).
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  CreateDocumentsOutputSchema,
+  type GetDocumentOutput,
+  GetDocumentOutputSchema,
+  GetDocumentsOutputSchema,
+  ListDocumentsOutputSchema,
+  UpdateDocumentsOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import {
+  previewLinesFromItems,
+  summarizeBatch,
+  summarizeList,
+} from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  identifier?: string;
+  url?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+type DocumentNode = {
+  id: string;
+  title: string;
+  url?: string | null;
+  icon?: string | null;
+  content?: string | null;
+  createdAt: string;
+  updatedAt?: string | null;
+  project?: { id: string; name?: string | null } | null;
+  creator?: { id: string; name?: string | null } | null;
+};
+
+const DOCUMENT_FIELDS = `
+  id
+  title
+  url
+  icon
+  createdAt
+  updatedAt
+  project { id name }
+  creator { id name }
+`;
+
+function mapDocumentNode(d: DocumentNode) {
+  return {
+    id: d.id,
+    title: d.title,
+    url: d.url ?? undefined,
+    icon: d.icon ?? undefined,
+    project: d.project
+      ? { id: d.project.id, name: d.project.name ?? undefined }
+      : undefined,
+    creator: d.creator
+      ? { id: d.creator.id, name: d.creator.name ?? undefined }
+      : undefined,
+    createdAt: String(d.createdAt),
+    updatedAt: d.updatedAt ? String(d.updatedAt) : undefined,
+  };
+}
+
+// List Documents
+const ListDocumentsInputSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Only documents in this project. Use list_projects to find it.'),
+  query: z.string().optional().describe('Title contains (case-insensitive).'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Max results. Default: 20.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+const LIST_QUERY = `
+  query Documents($first: Int!, $after: String, $filter: DocumentFilter) {
+    documents(first: $first, after: $after, filter: $filter, orderBy: updatedAt) {
+      nodes {
+        ${DOCUMENT_FIELDS}
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+export const listDocumentsTool = defineTool({
+  name: toolsMetadata.list_documents.name,
+  title: toolsMetadata.list_documents.title,
+  description: toolsMetadata.list_documents.description,
+  inputSchema: ListDocumentsInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const first = args.limit ?? 20;
+
+    const filter: Record<string, unknown> = {};
+    if (args.projectId) {
+      filter.project = { id: { eq: args.projectId } };
+    }
+    if (args.query) {
+      filter.title = { containsIgnoreCase: args.query };
+    }
+
+    const resp = await client.client.rawRequest(LIST_QUERY, {
+      first,
+      after: args.cursor,
+      filter: Object.keys(filter).length > 0 ? filter : undefined,
+    });
+    const conn = (
+      resp as unknown as {
+        data?: {
+          documents?: {
+            nodes?: DocumentNode[];
+            pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+          };
+        };
+      }
+    ).data?.documents;
+
+    const items = (conn?.nodes ?? []).map(mapDocumentNode);
+
+    const pageInfo = conn?.pageInfo ?? {};
+    const hasMore = pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (pageInfo.endCursor ?? undefined) : undefined;
+
+    const query = {
+      projectId: args.projectId,
+      query: args.query,
+      limit: first,
+    };
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit: first,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
+        'Use get_documents to read the content before creating issues from a spec.',
+      ],
+      relatedTools: ['get_documents', 'create_documents', 'create_issues'],
+    };
+
+    const structured = ListDocumentsOutputSchema.parse({
+      query,
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit: first,
+    });
+
+    const preview = previewLinesFromItems(
+      items as unknown as Record<string, unknown>[],
+      (d) => {
+        const title = d.url
+          ? `[${String(d.title)}](${String(d.url)})`
+          : String(d.title);
+        const project = (d.project as { name?: string } | undefined)?.name;
+        const updated = String(d.updatedAt ?? d.createdAt).slice(0, 10);
+        return `${title} (${String(d.id)})${project ? ` — project ${project}` : ''} — updated ${updated}`;
+      },
+    );
+
+    const message = summarizeList({
+      subject: 'Documents',
+      count: items.length,
+      limit: first,
+      nextCursor,
+      previewLines: preview,
+      zeroReasonHints: [
+        ...(args.projectId ? ['the project may have no documents yet'] : []),
+        ...(args.query ? [`no document title contains "${args.query}"`] : []),
+      ],
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [
+      { type: 'text', text: message },
+    ];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Get Documents
+const GetDocumentsInputSchema = z.object({
+  ids: z
+    .array(z.string())
+    .min(1)
+    .max(20)
+    .describe('Document UUIDs or slug ids (last part of the document URL).'),
+  maxChars: z
+    .number()
+    .int()
+    .min(500)
+    .max(100000)
+    .optional()
+    .describe('Max characters of content returned per document. Default: 20000.'),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Character offset to start reading from (use nextOffset). Default: 0.'),
+});
+
+const GET_QUERY = `
+  query Document($id: String!) {
+    document(id: $id) {
+      ${DOCUMENT_FIELDS}
+      content
+    }
+  }
+`;
+
+export const getDocumentsTool = defineTool({
+  name: toolsMetadata.get_documents.name,
+  title: toolsMetadata.get_documents.title,
+  description: toolsMetadata.get_documents.description,
+  inputSchema: GetDocumentsInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(3);
+    const maxChars = args.maxChars ?? 20000;
+    const offset = args.offset ?? 0;
+
+    const results: Array<{
+      requestedId: string;
+      success: boolean;
+      document?: GetDocumentOutput;
+      error?: { code: string; message: string; suggestions?: string[] };
+    }> = [];
+
+    for (const id of args.ids) {
+      try {
+        const resp = await gate(() => client.client.rawRequest(GET_QUERY, { id }));
+        const doc = (resp as unknown as { data?: { document?: DocumentNode | null } })
+          .data?.document;
+        if (!doc) {
+          throw new Error(`Document "${id}" not found`);
+        }
+
+        const content = doc.content ?? '';
+        const slice = content.slice(offset, offset + maxChars);
+        const end = offset + slice.length;
+        const truncated = end < content.length;
+
+        results.push({
+          requestedId: id,
+          success: true,
+          document: GetDocumentOutputSchema.parse({
+            ...mapDocumentNode(doc),
+            content: slice,
+            contentLength: content.length,
+            offset,
+            truncated,
+            nextOffset: truncated ? end : undefined,
+          }),
+        });
+      } catch (error) {
+        await logger.error('get_documents', {
+          message: 'Failed to fetch document',
+          id,
+          error: (error as Error).message,
+        });
+        results.push({
+          requestedId: id,
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: (error as Error).message,
+            suggestions: [
+              'Verify the document ID or slug id from the document URL.',
+              'Use list_documents to find valid document IDs.',
+            ],
+          },
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      succeeded,
+      failed,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(results.some((r) => r.document?.truncated)
+          ? [
+              'Call again with offset=nextOffset to continue reading truncated documents.',
+            ]
+          : []),
+        'Use create_issues to turn the spec into work items.',
+      ],
+      relatedTools: ['list_documents', 'update_documents', 'create_issues'],
+    };
+
+    const structuredBatch = GetDocumentsOutputSchema.parse({ results, summary, meta });
+
+    const summaryLine = summarizeBatch({
+      action: 'Fetched documents',
+      ok: succeeded,
+      total: args.ids.length,
+      okIdentifiers: results
+        .filter((r) => r.success)
+        .map((r) => r.document?.title ?? r.requestedId),
+      failures: results
+        .filter((r) => !r.success)
+        .map((r, idx) => ({
+          index: idx,
+          id: r.requestedId,
+          error: r.error?.message ?? '',
+        })),
+    });
+
+    // Content goes into the text so agents can read the spec directly
+    const documentBlocks = results
+      .filter((r) => r.success && r.document)
+      .map((r) => {
+        const d = r.document as GetDocumentOutput;
+        const heading = d.url ? `## [${d.title}](${d.url})` : `## ${d.title}`;
+        const range = `Characters ${d.offset}–${d.offset + d.content.length} of ${d.contentLength}`;
+        const footer = d.truncated
+          ? `\n\n[Truncated. ${range}. Call get_documents with offset=${d.nextOffset} to continue.]`
+          : '';
+        return `${heading}\n\n${d.content || '(empty document)'}${footer}`;
+      });
+
+    const textParts = [summaryLine, ...documentBlocks];
+    const fullMessage = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [
+      { type: 'text', text: fullMessage },
+    ];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structuredBatch) });
+    }
+
+    return { content: parts, structuredContent: structuredBatch };
+  },
+});
+
+// Create Documents
+const CreateDocumentsInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        projectId: z
+          .string()
+          .describe('Project UUID the document belongs to. Required.'),
+        title: z.string().min(1).describe('Document title. Required.'),
+        content: z.string().optional().describe('Document body in markdown.'),
+        icon: z.string().optional().describe('Emoji icon, e.g. ":memo:".'),
+      }),
+    )
+    .min(1)
+    .max(20)
+    .describe('Documents to create.'),
+});
+
+export const createDocumentsTool = defineTool({
+  name: toolsMetadata.create_documents.name,
+  title: toolsMetadata.create_documents.title,
+  description: toolsMetadata.create_documents.description,
+  inputSchema: CreateDocumentsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { projectId: it.projectId, title: it.title };
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const call = () =>
+          client.createDocument({
+            projectId: it.projectId,
+            title: it.title,
+            content: it.content,
+            icon: it.icon,
+          });
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+        const document = (await payload.document) as
+          | { id?: string; title?: string; url?: string }
+          | undefined;
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: document?.id,
+          identifier: document?.title ?? it.title,
+          url: document?.url,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('create_documents', {
+          message: 'Failed to create document',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_CREATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify projectId with list_projects.'],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use get_documents to verify content.'],
+      relatedTools: ['get_documents', 'update_documents', 'list_documents'],
+    };
+
+    const structured = CreateDocumentsOutputSchema.parse({ results, summary, meta });
+
+    const okIds = results
+      .filter((r) => r.ok)
+      .map((r) =>
+        r.url ? `[${r.identifier}](${r.url})` : (r.identifier ?? r.id ?? ''),
+      );
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Created documents',
+      ok: succeeded,
+      total: args.items.length,
+      okIdentifiers: okIds,
+      failures,
+      nextSteps:
+        succeeded > 0
+          ? ['Use get_documents to verify content.']
+          : ['Check projectId values with list_projects.'],
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Update Documents
+const UpdateDocumentsInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().describe('Document UUID or slug id. Required.'),
+        title: z.string().min(1).optional().describe('New title.'),
+        content: z
+          .string()
+          .optional()
+          .describe('New markdown body. Replaces the whole content.'),
+        projectId: z.string().optional().describe('Move the document to this project.'),
+      }),
+    )
+    .min(1)
+    .max(20)
+    .describe('Documents to update.'),
+});
+
+export const updateDocumentsTool = defineTool({
+  name: toolsMetadata.update_documents.name,
+  title: toolsMetadata.update_documents.title,
+  description: toolsMetadata.update_documents.description,
+  inputSchema: UpdateDocumentsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { id: it.id, title: it.title, projectId: it.projectId };
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const updatePayload: Record<string, unknown> = {};
+        if (it.title) updatePayload.title = it.title;
+        if (it.content !== undefined) updatePayload.content = it.content;
+        if (it.projectId) updatePayload.projectId = it.projectId;
+
+        if (Object.keys(updatePayload).length === 0) {
+          results.push({
+            input,
+            success: false,
+            id: it.id,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Nothing to update: provide title, content or projectId',
+            },
+            // Legacy
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        const call = () => client.updateDocument(it.id, updatePayload);
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: it.id,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('update_documents', {
+          message: 'Failed to update document',
+          id: it.id,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          id: it.id,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify document ID with list_documents.'],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use get_documents to verify changes.'],
+      relatedTools: ['get_documents', 'list_documents'],
+    };
+
+    const structured = UpdateDocumentsOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Updated documents',
+      ok: succeeded,
+      total: args.items.length,
+      okIdentifiers: results.filter((r) => r.ok).map((r) => r.id ?? ''),
+      failures,
+      nextSteps:
+        succeeded > 0
+          ? ['Use get_documents to verify changes.']
+          : ['Check document IDs with list_documents first.'],
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
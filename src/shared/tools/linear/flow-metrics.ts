@@ -0,0 +1,360 @@
+/**
+ * Flow Metrics tool - lead time, cycle time, weekly throughput and WIP aging
+ * for a team or project over a date range.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { FlowMetricsOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { resolveTeam } from '../../../utils/resolvers.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { fetchAllIssues, rangeEnd } from './shared/index.js';
+
+const InputSchema = z.object({
+  teamId: z.string().optional().describe('Team UUID. Or use teamKey.'),
+  teamKey: z.string().optional().describe('Team key, e.g. "ENG".'),
+  projectId: z.string().optional().describe('Only issues in this project.'),
+  from: z
+    .string()
+    .optional()
+    .describe(
+      'Start of the range (ISO date), by completion date. Default: 8 weeks ago.',
+    ),
+  to: z
+    .string()
+    .optional()
+    .describe(
+      'End of the range (ISO date; a date-only value includes that day). Default: now.',
+    ),
+  maxIssues: z
+    .number()
+    .int()
+    .min(1)
+    .max(5000)
+    .optional()
+    .describe('Max completed issues to analyze. Default: 2000.'),
+});
+
+const COMPLETED_FIELDS = `
+  id
+  identifier
+  estimate
+  createdAt
+  startedAt
+  completedAt
+`;
+
+const WIP_FIELDS = `
+  id
+  identifier
+  title
+  url
+  createdAt
+  startedAt
+  state { name }
+  assignee { name }
+`;
+
+type CompletedNode = {
+  id: string;
+  identifier?: string;
+  estimate?: number | null;
+  createdAt: string;
+  startedAt?: string | null;
+  completedAt: string;
+};
+
+type WipNode = {
+  id: string;
+  identifier?: string;
+  title?: string;
+  url?: string | null;
+  createdAt: string;
+  startedAt?: string | null;
+  state?: { name?: string } | null;
+  assignee?: { name?: string } | null;
+};
+
+type FlowStats = {
+  count: number;
+  average?: number;
+  p50?: number;
+  p85?: number;
+  p95?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 56;
+
+function toDays(ms: number): number {
+  return Math.round((ms / DAY_MS) * 10) / 10;
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.max(1, Math.ceil((p / 100) * sorted.length));
+  return sorted[rank - 1] as number;
+}
+
+function flowStats(values: number[]): FlowStats {
+  if (values.length === 0) {
+    return { count: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((a, b) => a + b, 0);
+  return {
+    count: sorted.length,
+    average: Math.round((sum / sorted.length) * 10) / 10,
+    p50: percentile(sorted, 50),
+    p85: percentile(sorted, 85),
+    p95: percentile(sorted, 95),
+  };
+}
+
+/**
+ * Monday 00:00 UTC of the week containing the timestamp
+ */
+function weekStart(ms: number): number {
+  const d = new Date(ms);
+  const day = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+  const offset = (d.getUTCDay() + 6) % 7;
+  return day - offset * DAY_MS;
+}
+
+function formatStats(stats: FlowStats): string {
+  if (stats.count === 0) return 'no data';
+  return `median ${stats.p50}d, p85 ${stats.p85}d, p95 ${stats.p95}d (avg ${stats.average}d, n=${stats.count})`;
+}
+
+export const flowMetricsTool = defineTool({
+  name: toolsMetadata.flow_metrics.name,
+  title: toolsMetadata.flow_metrics.title,
+  description: toolsMetadata.flow_metrics.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const maxIssues = args.maxIssues ?? 2000;
+
+    const now = Date.now();
+    const to = args.to ? rangeEnd(args.to) : now;
+    const from = args.from
+      ? new Date(args.from).getTime()
+      : to - DEFAULT_RANGE_DAYS * DAY_MS;
+    if (Number.isNaN(from) || Number.isNaN(to) || from >= to) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `Invalid date range: from=${args.from ?? '(default)'}, to=${args.to ?? '(now)'}.`,
+          },
+        ],
+        structuredContent: {
+          error: 'VALIDATION_ERROR',
+          from: args.from,
+          to: args.to,
+          hint: 'Pass ISO dates such as "2025-01-01", with from before to.',
+        },
+      };
+    }
+
+    const scope: Record<string, unknown> = {};
+    let team: { id: string; key: string } | undefined;
+    if (args.teamId || args.teamKey) {
+      const teamResult = await resolveTeam(client, {
+        teamId: args.teamId,
+        teamKey: args.teamKey,
+      });
+      if (!teamResult.success) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: `${teamResult.error}. ${
+                teamResult.suggestions?.join(' ') ?? 'Use list_teams to find the team.'
+              }`,
+            },
+          ],
+          structuredContent: {
+            error: 'TEAM_NOT_FOUND',
+            teamId: args.teamId,
+            teamKey: args.teamKey,
+            hint: 'Use list_teams to find the team id or key.',
+          },
+        };
+      }
+      team = teamResult.value;
+      scope.team = { id: { eq: team.id } };
+    }
+    if (args.projectId) {
+      scope.project = { id: { eq: args.projectId } };
+    }
+
+    const fromIso = new Date(from).toISOString();
+    const toIso = new Date(to).toISOString();
+
+    const completed = await fetchAllIssues<CompletedNode>(client, {
+      fields: COMPLETED_FIELDS,
+      filter: { ...scope, completedAt: { gte: fromIso, lte: toIso } },
+      includeArchived: true,
+      maxIssues,
+      signal: context.signal,
+    });
+    const wip = await fetchAllIssues<WipNode>(client, {
+      fields: WIP_FIELDS,
+      filter: { ...scope, state: { type: { eq: 'started' } } },
+      maxIssues,
+      signal: context.signal,
+    });
+
+    // Lead time: created → completed; cycle time: started → completed
+    const leadTimes: number[] = [];
+    const cycleTimes: number[] = [];
+    for (const issue of completed.nodes) {
+      const done = new Date(issue.completedAt).getTime();
+      leadTimes.push(toDays(done - new Date(issue.createdAt).getTime()));
+      if (issue.startedAt) {
+        cycleTimes.push(toDays(done - new Date(issue.startedAt).getTime()));
+      }
+    }
+    const leadTime = flowStats(leadTimes);
+    const cycleTime = flowStats(cycleTimes);
+
+    // Throughput per week (Monday-start, UTC), including empty weeks
+    const weeks = new Map<number, { completed: number; points: number }>();
+    for (let w = weekStart(from); w <= weekStart(to); w += 7 * DAY_MS) {
+      weeks.set(w, { completed: 0, points: 0 });
+    }
+    for (const issue of completed.nodes) {
+      const bucket = weeks.get(weekStart(new Date(issue.completedAt).getTime()));
+      if (!bucket) continue;
+      bucket.completed += 1;
+      bucket.points += issue.estimate ?? 0;
+    }
+    const throughputWeeks = [...weeks.entries()].map(([w, counts]) => ({
+      weekStart: new Date(w).toISOString().slice(0, 10),
+      ...counts,
+    }));
+    // Averaged over the range length, so partial first and last weeks don't drag it down
+    const rangeWeeks = (to - from) / (7 * DAY_MS);
+    const averagePerWeek = Math.round((completed.nodes.length / rangeWeeks) * 10) / 10;
+
+    // WIP aging against cycle-time percentiles
+    const thresholds = { p50: cycleTime.p50, p85: cycleTime.p85, p95: cycleTime.p95 };
+    const agingItems = wip.nodes
+      .map((issue) => {
+        const started = issue.startedAt ?? issue.createdAt;
+        const ageDays = toDays(now - new Date(started).getTime());
+        const above =
+          thresholds.p95 !== undefined && ageDays > thresholds.p95
+            ? ('p95' as const)
+            : thresholds.p85 !== undefined && ageDays > thresholds.p85
+              ? ('p85' as const)
+              : thresholds.p50 !== undefined && ageDays > thresholds.p50
+                ? ('p50' as const)
+                : undefined;
+        return {
+          id: issue.id,
+          identifier: issue.identifier ?? undefined,
+          title: issue.title ?? '',
+          url: issue.url ?? undefined,
+          stateName: issue.state?.name ?? undefined,
+          assigneeName: issue.assignee?.name ?? undefined,
+          startedAt: started,
+          ageDays,
+          above,
+        };
+      })
+      .sort((a, b) => b.ageDays - a.ageDays);
+
+    const truncated = completed.truncated || wip.truncated;
+
+    const meta = {
+      nextSteps: [
+        ...(truncated
+          ? [
+              'Narrow the date range or scope, or raise maxIssues, for complete numbers.',
+            ]
+          : []),
+        ...(agingItems.some((i) => i.above === 'p85' || i.above === 'p95')
+          ? ['Use get_issues on the oldest in-progress issues to find blockers.']
+          : []),
+        'Use cycle_report for sprint-level scope and burndown.',
+      ],
+      relatedTools: ['get_issues', 'list_issues', 'cycle_report'],
+    };
+
+    const structured = FlowMetricsOutputSchema.parse({
+      query: {
+        teamId: team?.id,
+        teamKey: team?.key,
+        projectId: args.projectId,
+        from: fromIso,
+        to: toIso,
+      },
+      completedCount: completed.nodes.length,
+      leadTime,
+      cycleTime,
+      throughput: { weeks: throughputWeeks, averagePerWeek },
+      aging: { thresholds, items: agingItems },
+      truncated,
+      meta,
+    });
+
+    const scopeLabel = [
+      ...(team ? [team.key] : []),
+      ...(args.projectId ? [`project ${args.projectId}`] : []),
+    ];
+    const header = `Flow metrics for ${
+      scopeLabel.length > 0 ? scopeLabel.join(', ') : 'the workspace'
+    }, ${fromIso.slice(0, 10)} → ${toIso.slice(0, 10)}: ${completed.nodes.length} completed issue(s)${
+      truncated ? ` (truncated at ${maxIssues})` : ''
+    }.`;
+    const summaryLines = [
+      header,
+      `- Lead time (created → completed): ${formatStats(leadTime)}`,
+      `- Cycle time (started → completed): ${formatStats(cycleTime)}`,
+      `- Throughput: ${averagePerWeek} issue(s)/week on average`,
+      `- Work in progress: ${agingItems.length} issue(s)`,
+    ];
+
+    const textParts = [summaryLines.join('\n')];
+    textParts.push(
+      `Weekly throughput:\n${throughputWeeks
+        .map((w) => `${w.weekStart}: ${w.completed} issue(s), ${w.points} pts`)
+        .join('\n')}`,
+    );
+    if (agingItems.length > 0) {
+      const thresholdText =
+        cycleTime.count > 0
+          ? ` (cycle time p50 ${thresholds.p50}d / p85 ${thresholds.p85}d / p95 ${thresholds.p95}d)`
+          : '';
+      const oldest = agingItems.slice(0, 10).map((i) => {
+        const bits = [`${i.ageDays}d in ${i.stateName ?? 'progress'}`];
+        if (i.assigneeName) bits.push(`assignee ${i.assigneeName}`);
+        if (i.above) bits.push(`above ${i.above}`);
+        return `- ${i.identifier ?? i.id} ${i.title} — ${bits.join('; ')}`;
+      });
+      textParts.push(`WIP aging, oldest first${thresholdText}:\n${oldest.join('\n')}`);
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,404 @@
+/**
+ * Generate Changelog tool - markdown release notes from completed issues,
+ * grouped by label, with optional user-facing rewrites via client sampling.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { GenerateChangelogOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { createToolError, formatErrorMessage } from '../../../utils/errors.js';
+import { logger } from '../../../utils/logger.js';
+import { resolveCycle, resolveTeam } from '../../../utils/resolvers.js';
+import {
+  clientSupportsSampling,
+  requestTextCompletion,
+} from '../../../utils/sampling.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { fetchAllIssues, formatIssueLink, rangeEnd } from './shared/index.js';
+
+const InputSchema = z.object({
+  teamId: z.string().optional().describe('Team UUID. Or use teamKey.'),
+  teamKey: z.string().optional().describe('Team key, e.g. "ENG".'),
+  projectId: z.string().optional().describe('Only issues in this project.'),
+  cycle: z
+    .union([z.string(), z.number()])
+    .optional()
+    .describe(
+      "Only issues in this cycle of the team: 'current', 'previous', 'next', a number or a name.",
+    ),
+  from: z
+    .string()
+    .optional()
+    .describe(
+      'Completed on or after (ISO date). Default without cycle/project: 14 days ago.',
+    ),
+  to: z
+    .string()
+    .optional()
+    .describe('Completed on or before (ISO date). Default: now.'),
+  title: z.string().optional().describe('Release title, e.g. "v2.4.0".'),
+  rewrite: z
+    .boolean()
+    .optional()
+    .describe(
+      "Ask the client's LLM to rewrite titles for users (needs sampling support).",
+    ),
+  maxIssues: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe('Max completed issues to include. Default: 500.'),
+});
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  url
+  completedAt
+  labels { nodes { name } }
+  project { id name }
+  cycle { id number name }
+`;
+
+type CompletedNode = {
+  id: string;
+  identifier?: string;
+  title?: string;
+  url?: string | null;
+  completedAt?: string | null;
+  labels?: { nodes?: Array<{ name: string }> } | null;
+  project?: { id: string; name?: string } | null;
+  cycle?: { id: string; number?: number; name?: string | null } | null;
+};
+
+// Label names (lowercase) that place an issue in a section; the first match wins
+const SECTIONS: Array<{ heading: string; labels: string[] }> = [
+  { heading: 'Features', labels: ['feature', 'feat', 'new feature'] },
+  { heading: 'Bug fixes', labels: ['bug', 'bugfix', 'fix', 'defect'] },
+  {
+    heading: 'Improvements',
+    labels: ['improvement', 'enhancement', 'polish', 'performance'],
+  },
+];
+const OTHER_HEADING = 'Other changes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 14;
+// Titles per sampling request; a failed request only loses its own batch
+const REWRITE_BATCH_SIZE = 50;
+
+/**
+ * Ask the client's LLM for user-facing titles. Returns identifier → title;
+ * entries it leaves out keep their original title.
+ */
+async function rewriteTitles(
+  context: ToolContext,
+  items: Array<{ identifier: string; title: string }>,
+): Promise<Record<string, string>> {
+  if (!context.server) return {};
+  const prompt = [
+    'Rewrite these issue titles as short release note entries for end users.',
+    'Keep the meaning, use plain language and drop internal jargon, component names and ticket prefixes.',
+    'Reply with only a JSON object that maps each identifier to its rewritten text.',
+    '',
+    ...items.map((i) => `${i.identifier}: ${i.title}`),
+  ].join('\n');
+
+  const text = await requestTextCompletion(
+    context.server,
+    prompt,
+    Math.min(4000, 200 + items.length * 60),
+    { temperature: 0.2 },
+  );
+  const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  const parsed = JSON.parse(json) as Record<string, unknown>;
+
+  const known = new Set(items.map((i) => i.identifier));
+  const result: Record<string, string> = {};
+  for (const [identifier, value] of Object.entries(parsed)) {
+    if (known.has(identifier) && typeof value === 'string' && value.trim()) {
+      result[identifier] = value.trim();
+    }
+  }
+  return result;
+}
+
+export const generateChangelogTool = defineTool({
+  name: toolsMetadata.generate_changelog.name,
+  title: toolsMetadata.generate_changelog.title,
+  description: toolsMetadata.generate_changelog.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const maxIssues = args.maxIssues ?? 500;
+
+    const filter: Record<string, unknown> = {};
+
+    let team: { id: string; key: string } | undefined;
+    if (args.teamId || args.teamKey || args.cycle !== undefined) {
+      const teamResult = await resolveTeam(client, {
+        teamId: args.teamId,
+        teamKey: args.teamKey,
+      });
+      if (!teamResult.success) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: `${teamResult.error}. ${
+                teamResult.suggestions?.join(' ') ??
+                'Use list_teams to find the team. A cycle needs teamId or teamKey.'
+              }`,
+            },
+          ],
+          structuredContent: {
+            error: 'TEAM_NOT_FOUND',
+            teamId: args.teamId,
+            teamKey: args.teamKey,
+            hint: 'Use list_teams to find the team id or key.',
+          },
+        };
+      }
+      team = teamResult.value;
+      filter.team = { id: { eq: team.id } };
+    }
+
+    let cycleId: string | undefined;
+    if (team && args.cycle !== undefined) {
+      const cycleResult = await resolveCycle(client, team.id, args.cycle);
+      if (!cycleResult.success) {
+        const disabled = cycleResult.error.includes('disabled');
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: `${cycleResult.error}. ${cycleResult.suggestions?.join(' ') ?? ''}`.trim(),
+            },
+          ],
+          structuredContent: {
+            error: disabled ? 'CYCLES_DISABLED' : 'NOT_FOUND',
+            teamKey: team.key,
+            cycle: args.cycle,
+            hint: disabled
+              ? 'Use workspace_metadata to find teams with cyclesEnabled=true.'
+              : 'Use list_cycles to see the team cycles.',
+          },
+        };
+      }
+      cycleId = cycleResult.value;
+      filter.cycle = { id: { eq: cycleId } };
+    }
+
+    if (args.projectId) {
+      filter.project = { id: { eq: args.projectId } };
+    }
+
+    // A cycle or project bounds the release on its own; otherwise use a date range
+    let from: string | undefined;
+    let to: string | undefined;
+    if (args.from || args.to || (!cycleId && !args.projectId)) {
+      const toMs = args.to ? rangeEnd(args.to) : Date.now();
+      const fromMs = args.from
+        ? new Date(args.from).getTime()
+        : toMs - DEFAULT_RANGE_DAYS * DAY_MS;
+      if (Number.isNaN(fromMs) || Number.isNaN(toMs) || fromMs >= toMs) {
+        const error = createToolError(
+          'VALIDATION_ERROR',
+          `Invalid date range: from=${args.from ?? '(default)'}, to=${args.to ?? '(now)'}`,
+          'Pass ISO dates such as "2025-01-01", with from before to.',
+        );
+        return {
+          isError: true,
+          content: [{ type: 'text', text: formatErrorMessage(error) }],
+          structuredContent: {
+            error: error.code,
+            message: error.message,
+            hint: error.hint,
+          },
+        };
+      }
+      from = new Date(fromMs).toISOString();
+      to = new Date(toMs).toISOString();
+      filter.completedAt = { gte: from, lte: to };
+    } else {
+      filter.state = { type: { eq: 'completed' } };
+    }
+
+    // Completed issues are auto-archived after a while; include them
+    const completed = await fetchAllIssues<CompletedNode>(client, {
+      fields: ISSUE_FIELDS,
+      filter,
+      includeArchived: true,
+      maxIssues,
+      signal: context.signal,
+    });
+
+    const items = completed.nodes
+      .map((issue) => ({
+        id: issue.id,
+        identifier: issue.identifier ?? issue.id,
+        title: issue.title ?? '',
+        url: issue.url ?? undefined,
+        labels: (issue.labels?.nodes ?? []).map((l) => l.name),
+        completedAt: issue.completedAt ?? undefined,
+        userFacingTitle: undefined as string | undefined,
+      }))
+      .sort((a, b) => (a.completedAt ?? '').localeCompare(b.completedAt ?? ''));
+
+    // Optional rewrite through the client's LLM
+    const rewrite: { requested: boolean; applied: boolean; reason?: string } = {
+      requested: args.rewrite ?? false,
+      applied: false,
+    };
+    if (args.rewrite && items.length > 0) {
+      if (!context.server || !clientSupportsSampling(context.server)) {
+        rewrite.reason = 'The client does not support sampling; original titles kept.';
+      } else {
+        const rewritten: Record<string, string> = {};
+        const batches = Math.ceil(items.length / REWRITE_BATCH_SIZE);
+        const failures: string[] = [];
+        for (let b = 0; b < batches; b++) {
+          const batch = items.slice(
+            b * REWRITE_BATCH_SIZE,
+            (b + 1) * REWRITE_BATCH_SIZE,
+          );
+          try {
+            Object.assign(rewritten, await rewriteTitles(context, batch));
+          } catch (error) {
+            await logger.error('generate_changelog', {
+              message: 'Title rewrite failed',
+              batch: b,
+              error: (error as Error).message,
+            });
+            failures.push((error as Error).message);
+          }
+        }
+        for (const item of items) {
+          item.userFacingTitle = rewritten[item.identifier];
+        }
+        rewrite.applied = Object.keys(rewritten).length > 0;
+        if (failures.length === batches) {
+          rewrite.reason = `Rewrite failed (${failures[0]}); original titles kept.`;
+        } else if (failures.length > 0) {
+          rewrite.reason = `Rewrite failed for ${failures.length} of ${batches} batch(es) (${failures[0]}); their original titles kept.`;
+        } else if (!rewrite.applied) {
+          rewrite.reason =
+            'The client returned no usable titles; original titles kept.';
+        }
+      }
+    }
+
+    // Group by label
+    const grouped = new Map<string, typeof items>();
+    for (const section of [...SECTIONS.map((s) => s.heading), OTHER_HEADING]) {
+      grouped.set(section, []);
+    }
+    for (const item of items) {
+      const names = item.labels.map((l) => l.toLowerCase());
+      const section =
+        SECTIONS.find((s) => s.labels.some((l) => names.includes(l)))?.heading ??
+        OTHER_HEADING;
+      grouped.get(section)?.push(item);
+    }
+    const sections = [...grouped.entries()]
+      .filter(([, sectionItems]) => sectionItems.length > 0)
+      .map(([heading, sectionItems]) => ({ heading, items: sectionItems }));
+
+    // Release title
+    const cycleInfo = completed.nodes.find((i) => i.cycle?.id === cycleId)?.cycle;
+    const projectName = args.projectId
+      ? completed.nodes.find((i) => i.project?.id === args.projectId)?.project?.name
+      : undefined;
+    const scopeLabel = [
+      ...(projectName ? [projectName] : []),
+      ...(cycleId
+        ? [
+            cycleInfo?.number !== undefined
+              ? `cycle ${cycleInfo.number}${cycleInfo.name ? ` (${cycleInfo.name})` : ''}`
+              : `cycle ${args.cycle}`,
+          ]
+        : []),
+      ...(from && to ? [`${from.slice(0, 10)} → ${to.slice(0, 10)}`] : []),
+    ].join(', ');
+    const title = args.title ?? `Release notes — ${scopeLabel}`;
+
+    const markdown = [
+      `## ${title}`,
+      ...(sections.length > 0
+        ? sections.map(
+            (s) =>
+              `### ${s.heading}\n${s.items
+                .map(
+                  (i) =>
+                    `- ${formatIssueLink({
+                      id: i.id,
+                      identifier: i.identifier,
+                      title: i.userFacingTitle ?? i.title,
+                      url: i.url,
+                    })}`,
+                )
+                .join('\n')}`,
+          )
+        : ['No completed issues.']),
+    ].join('\n\n');
+
+    const meta = {
+      nextSteps: [
+        ...(completed.truncated ? ['Narrow the range or raise maxIssues.'] : []),
+        ...(args.rewrite && !rewrite.applied
+          ? ['Rewrite the titles yourself before publishing.']
+          : []),
+        'Publish the markdown with create_documents or create_project_updates.',
+      ],
+      relatedTools: ['create_documents', 'create_project_updates', 'list_issues'],
+    };
+
+    const structured = GenerateChangelogOutputSchema.parse({
+      query: {
+        teamId: team?.id,
+        teamKey: team?.key,
+        projectId: args.projectId,
+        cycleId,
+        from,
+        to,
+      },
+      title,
+      sections,
+      totalIssues: items.length,
+      markdown,
+      rewrite,
+      truncated: completed.truncated,
+      meta,
+    });
+
+    const summary = `${title}: ${items.length} completed issue(s)${
+      sections.length > 0
+        ? ` — ${sections.map((s) => `${s.heading} ${s.items.length}`).join(', ')}`
+        : ''
+    }${completed.truncated ? ` (truncated at ${maxIssues})` : ''}.${
+      rewrite.applied ? ' Titles rewritten for users.' : ''
+    }${rewrite.reason ? ` ${rewrite.reason}` : ''}`;
+
+    const text = [summary, markdown].join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
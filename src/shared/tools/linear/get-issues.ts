@@ -10,7 +10,13 @@ import { getLinearClient } from '../../../services/linear/client.js';
 import { summarizeBatch } from '../../../utils/messages.js';
 import { makeConcurrencyGate } from '../../../utils/limits.js';
 import { logger } from '../../../utils/logger.js';
+import { mapAttachmentNode } from '../../../utils/mappers.js';
 import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import {
+  fetchIssueRelations,
+  formatRelationsSummary,
+  type IssueRelationSummary,
+} from './shared/index.js';
 
 const InputSchema = z.object({
   ids: z
@@ -57,6 +63,23 @@ export const getIssuesTool = defineTool({
         const projectData = await issue.project;
 
         const issueUrl = (issue as unknown as { url?: string })?.url;
+        // Relations are best-effort: a failed relations query keeps the issue
+        let relations: IssueRelationSummary[] | undefined;
+        let relationsError: string | undefined;
+        try {
+          relations = await gate(() => fetchIssueRelations(client, issue.id));
+        } catch (error) {
+          relationsError = (error as Error).message;
+          await logger.error('get_issues', {
+            message: 'Failed to fetch issue relations',
+            id,
+            error: relationsError,
+          });
+        }
+        const subscribers = (await issue.subscribers()).nodes.map((u) => ({
+          id: u.id,
+          name: u.name ?? undefined,
+        }));
 
         const structured = GetIssueOutputSchema.parse({
           id: issue.id,
@@ -85,7 +108,10 @@ export const getIssuesTool = defineTool({
             : undefined,
           labels,
           branchName: issue.branchName ?? undefined,
-          attachments: (await issue.attachments()).nodes,
+          attachments: (await issue.attachments()).nodes.map(mapAttachmentNode),
+          relations,
+          relationsError,
+          subscribers,
         });
 
         results.push({
@@ -159,15 +185,26 @@ export const getIssuesTool = defineTool({
           state?: { name?: string };
           assignee?: { name?: string };
           title: string;
+          relations?: IssueRelationSummary[];
+          relationsError?: string;
+          attachments?: Array<{ title: string; url: string }>;
+          subscribers?: Array<{ id: string; name?: string }>;
         };
         const stateNm = it.state?.name as string | undefined;
         const assNm = it.assignee?.name as string | undefined;
         const prefix = it.url
           ? `[${it.identifier ?? it.id}](${it.url})`
           : it.identifier ?? it.id;
+        const relationBits = formatRelationsSummary(it.relations ?? []);
+        const attachmentLinks = (it.attachments ?? []).map((a) => `[${a.title}](${a.url})`);
+        const subscriberNames = (it.subscribers ?? []).map((u) => u.name ?? u.id);
         return `${prefix} '${it.title}'${
           stateNm ? ` — state ${stateNm}` : ''
-        }${assNm ? `, assignee ${assNm}` : ''}`;
+        }${assNm ? `, assignee ${assNm}` : ''}${
+          relationBits.length > 0 ? `; ${relationBits.join('; ')}` : ''
+        }${it.relationsError ? '; relations unavailable' : ''}${attachmentLinks.length > 0 ? `; attachments: ${attachmentLinks.join(', ')}` : ''}${
+          subscriberNames.length > 0 ? `; subscribers: ${subscriberNames.join(', ')}` : ''
+        }`;
       });
 
     // Compose: summary → preview → tip
@@ -6,21 +6,90 @@ export { workspaceMetadataTool } from './workspace-metadata.js';
 // Issues
 export { listIssuesTool } from './list-issues.js';
 export { getIssuesTool } from './get-issues.js';
+export { getIssueTreeTool } from './issue-tree.js';
+export { getIssueHistoryTool } from './issue-history.js';
 export { createIssuesTool } from './create-issues.js';
+export { listIssueTemplatesTool } from './issue-templates.js';
 export { updateIssuesTool } from './update-issues.js';
+export { manageIssueRelationsTool } from './relations.js';
+export { moveIssuesTool } from './move-issues.js';
+export { deleteIssuesTool, restoreIssuesTool } from './delete-issues.js';
+export {
+  listAttachmentsTool,
+  linkAttachmentsTool,
+  removeAttachmentsTool,
+} from './attachments.js';
+
+// Labels
+export { createLabelsTool, updateLabelsTool, mergeLabelsTool } from './labels.js';
+
+// Workflow States
+export { manageWorkflowStatesTool } from './workflow-states.js';
+
+// Triage
+export { triageQueueTool, triageIssuesTool } from './triage.js';
+
+// Notifications
+export { listNotificationsTool, markNotificationsTool } from './notifications.js';
+
+// Subscriptions & Reactions
+export { manageIssueSubscribersTool } from './subscriptions.js';
+export { manageReactionsTool } from './reactions.js';
+
+// Custom Views
+export {
+  listCustomViewsTool,
+  createCustomViewsTool,
+  updateCustomViewsTool,
+} from './custom-views.js';
+
+// Customers
+export { listCustomersTool, addCustomerRequestsTool } from './customers.js';
 
 // Teams & Users
 export { listTeamsTool } from './list-teams.js';
+export {
+  listTeamMembersTool,
+  manageTeamMembersTool,
+  updateTeamsTool,
+} from './teams.js';
 export { listUsersTool } from './list-users.js';
 
 // Comments
-export { listCommentsTool, addCommentsTool, updateCommentsTool } from './comments.js';
+export {
+  listCommentsTool,
+  addCommentsTool,
+  updateCommentsTool,
+  deleteCommentsTool,
+} from './comments.js';
+
+// Documents
+export {
+  listDocumentsTool,
+  getDocumentsTool,
+  createDocumentsTool,
+  updateDocumentsTool,
+} from './documents.js';
 
 // Cycles
-export { listCyclesTool } from './cycles.js';
+export { listCyclesTool, createCyclesTool, updateCyclesTool } from './cycles.js';
+export { cycleReportTool } from './cycle-report.js';
+export { flowMetricsTool } from './flow-metrics.js';
+export { workloadOverviewTool } from './workload-overview.js';
+export { standupDigestTool } from './standup-digest.js';
+export { generateChangelogTool } from './generate-changelog.js';
 
 // Projects
 export { listProjectsTool, createProjectsTool, updateProjectsTool } from './projects.js';
+export {
+  listProjectMilestonesTool,
+  createProjectMilestonesTool,
+  updateProjectMilestonesTool,
+} from './project-milestones.js';
+export { listProjectUpdatesTool, createProjectUpdatesTool } from './project-updates.js';
+
+// Initiatives
+export { listInitiativesTool, manageInitiativeProjectsTool } from './initiatives.js';
 
 // Shared utilities (for use in tools)
 export * from './shared/index.js';
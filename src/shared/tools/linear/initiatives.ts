@@ -0,0 +1,423 @@
+/**
+ * Initiatives tools - list initiatives with their projects and link/unlink projects.
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  ListInitiativesOutputSchema,
+  ManageInitiativeProjectsOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch, summarizeList } from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { fetchInitiatives, type InitiativeSummary } from './shared/index.js';
+
+// List Initiatives
+const ListInitiativesInputSchema = z.object({
+  status: z
+    .enum(['Planned', 'Active', 'Completed'])
+    .optional()
+    .describe('Filter by initiative status.'),
+  includeArchived: z.boolean().optional().describe('Include archived initiatives.'),
+  projectLimit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Max projects returned per initiative. Default: 25.'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Max results. Default: 20.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+/**
+ * Render an initiative with its projects indented below it
+ */
+function formatInitiativeBlock(i: InitiativeSummary): string {
+  const meta = [
+    i.status,
+    i.health ? `health ${i.health}` : undefined,
+    i.targetDate ? `target ${i.targetDate}` : undefined,
+    i.ownerName ? `owner ${i.ownerName}` : undefined,
+  ].filter(Boolean);
+  const header = `- ${i.name} (${i.id})${meta.length > 0 ? ` — ${meta.join(', ')}` : ''}`;
+
+  const projectLines = i.projects.map((p) => {
+    const bits = [
+      p.state,
+      p.health ? `health ${p.health}` : undefined,
+      typeof p.progress === 'number' ? `${p.progress}%` : undefined,
+    ].filter(Boolean);
+    return `  • ${p.name} (${p.id})${bits.length > 0 ? ` — ${bits.join(', ')}` : ''}`;
+  });
+  if (i.projects.length === 0) {
+    projectLines.push('  • no linked projects');
+  }
+  if (i.hasMoreProjects) {
+    projectLines.push('  • … more projects (raise projectLimit)');
+  }
+
+  return [header, ...projectLines].join('\n');
+}
+
+export const listInitiativesTool = defineTool({
+  name: toolsMetadata.list_initiatives.name,
+  title: toolsMetadata.list_initiatives.title,
+  description: toolsMetadata.list_initiatives.description,
+  inputSchema: ListInitiativesInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const first = args.limit ?? 20;
+    const projectLimit = args.projectLimit ?? 25;
+
+    const { items, hasMore, endCursor } = await fetchInitiatives(client, {
+      first,
+      after: args.cursor,
+      filter: args.status ? { status: { eq: args.status } } : undefined,
+      includeArchived: args.includeArchived,
+      projectLimit,
+    });
+
+    const nextCursor = hasMore ? endCursor : undefined;
+
+    const query = {
+      status: args.status,
+      includeArchived: args.includeArchived,
+      projectLimit,
+      limit: first,
+    };
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit: first,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
+        'Use manage_initiative_projects to link or unlink projects.',
+        'Use list_project_updates with a projectId to read the latest status updates.',
+      ],
+      relatedTools: [
+        'manage_initiative_projects',
+        'list_projects',
+        'list_project_updates',
+      ],
+    };
+
+    const structured = ListInitiativesOutputSchema.parse({
+      query,
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit: first,
+    });
+
+    const header = summarizeList({
+      subject: 'Initiatives',
+      count: items.length,
+      limit: first,
+      nextCursor,
+      zeroReasonHints: [
+        ...(args.status ? [`no initiatives with status ${args.status}`] : []),
+        'initiatives may not be enabled for this workspace',
+      ],
+      nextSteps: meta.nextSteps,
+    });
+    const textParts = [header];
+    if (items.length > 0) {
+      textParts.push(items.map(formatInitiativeBlock).join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Manage Initiative Projects
+const InitiativeProjectItem = z.object({
+  action: z
+    .enum(['link', 'unlink'])
+    .describe("'link' adds the project to the initiative, 'unlink' removes it."),
+  initiativeId: z
+    .string()
+    .describe('Initiative UUID. Use list_initiatives to find it.'),
+  projectId: z.string().describe('Project UUID. Use list_projects to find it.'),
+});
+
+const ManageInitiativeProjectsInputSchema = z.object({
+  items: z
+    .array(InitiativeProjectItem)
+    .min(1)
+    .max(50)
+    .describe('Project links to add or remove.'),
+});
+
+const LINKS_QUERY = `
+  query InitiativeToProjects($first: Int!, $after: String) {
+    initiativeToProjects(first: $first, after: $after) {
+      nodes {
+        id
+        initiative { id }
+        project { id }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+// Upper bound on pages scanned when looking up existing links (250 links/page)
+const MAX_LINK_PAGES = 20;
+
+/**
+ * Map "initiativeId:projectId" to the join record id needed for deletion
+ */
+async function fetchInitiativeProjectLinks(
+  client: LinearClient,
+): Promise<Map<string, string>> {
+  const links = new Map<string, string>();
+  let after: string | undefined;
+
+  for (let page = 0; page < MAX_LINK_PAGES; page++) {
+    const resp = await client.client.rawRequest(LINKS_QUERY, { first: 250, after });
+    const conn = (
+      resp as unknown as {
+        data?: {
+          initiativeToProjects?: {
+            nodes?: Array<{
+              id: string;
+              initiative?: { id: string } | null;
+              project?: { id: string } | null;
+            }>;
+            pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+          };
+        };
+      }
+    ).data?.initiativeToProjects;
+
+    for (const n of conn?.nodes ?? []) {
+      if (n.initiative?.id && n.project?.id) {
+        links.set(`${n.initiative.id}:${n.project.id}`, n.id);
+      }
+    }
+
+    if (!conn?.pageInfo?.hasNextPage || !conn.pageInfo.endCursor) {
+      break;
+    }
+    after = conn.pageInfo.endCursor;
+  }
+
+  return links;
+}
+
+export const manageInitiativeProjectsTool = defineTool({
+  name: toolsMetadata.manage_initiative_projects.name,
+  title: toolsMetadata.manage_initiative_projects.title,
+  description: toolsMetadata.manage_initiative_projects.description,
+  inputSchema: ManageInitiativeProjectsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    // Loaded on first unlink and shared by the rest of the batch
+    let links: Map<string, string> | undefined;
+
+    const results: Array<{
+      input: Record<string, unknown>;
+      success: boolean;
+      id?: string;
+      error?: { code: string; message: string; suggestions?: string[] };
+      index: number;
+      ok: boolean;
+    }> = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = {
+        action: it.action,
+        initiativeId: it.initiativeId,
+        projectId: it.projectId,
+      };
+      const phrase = `project ${it.projectId} ↔ initiative ${it.initiativeId}`;
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        if (it.action === 'link') {
+          const payload = await withRetry(
+            () =>
+              gate(() =>
+                client.createInitiativeToProject({
+                  initiativeId: it.initiativeId,
+                  projectId: it.projectId,
+                }),
+              ),
+            { maxRetries: 3, baseDelayMs: 500 },
+          );
+          const link = (await payload.initiativeToProject) as
+            | { id?: string }
+            | undefined;
+
+          results.push({
+            input,
+            success: payload.success ?? true,
+            id: link?.id,
+            index: i,
+            ok: payload.success ?? true,
+          });
+          if (links && link?.id) {
+            links.set(`${it.initiativeId}:${it.projectId}`, link.id);
+          }
+          detailLines.push(`- Linked: ${phrase}`);
+          continue;
+        }
+
+        links ??= await gate(() => fetchInitiativeProjectLinks(client));
+        const linkId = links.get(`${it.initiativeId}:${it.projectId}`);
+        if (!linkId) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'LINK_NOT_FOUND',
+              message: `No existing link: ${phrase}`,
+              suggestions: [
+                'Use list_initiatives to see the projects of each initiative.',
+              ],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        const payload = await withRetry(
+          () => gate(() => client.deleteInitiativeToProject(linkId)),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: linkId,
+          index: i,
+          ok: payload.success ?? true,
+        });
+        links.delete(`${it.initiativeId}:${it.projectId}`);
+        detailLines.push(`- Unlinked: ${phrase}`);
+      } catch (error) {
+        await logger.error('manage_initiative_projects', {
+          message: 'Failed to update initiative project link',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: it.action === 'link' ? 'LINEAR_CREATE_ERROR' : 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              'Verify initiativeId with list_initiatives and projectId with list_projects.',
+            ],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use list_initiatives to verify.'],
+      relatedTools: ['list_initiatives', 'list_projects'],
+    };
+
+    const structured = ManageInitiativeProjectsOutputSchema.parse({
+      results,
+      summary,
+      meta,
+    });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.projectId),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Updated initiative projects',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    textParts.push('Tip: Use list_initiatives to see the projects of each initiative.');
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
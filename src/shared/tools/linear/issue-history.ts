@@ -0,0 +1,256 @@
+/**
+ * Issue History tool - page through an issue's activity timeline.
+ * Uses raw GraphQL to avoid N+1 lazy loading of actors, states and labels.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { GetIssueHistoryOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { createToolError, formatErrorMessage } from '../../../utils/errors.js';
+import { summarizeList } from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { type FieldChanges, formatHistoryEntryLine } from './shared/index.js';
+
+const InputSchema = z.object({
+  id: z.string().describe('Issue UUID or identifier (e.g. ENG-123).'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Max history entries per page. Default: 50.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+const QUERY = `
+  query IssueHistory($id: String!, $first: Int!, $after: String) {
+    issue(id: $id) {
+      id
+      identifier
+      title
+      url
+      history(first: $first, after: $after) {
+        nodes {
+          id
+          createdAt
+          actor { id name }
+          botActor { name }
+          fromState { id name }
+          toState { id name }
+          fromAssignee { id name }
+          toAssignee { id name }
+          fromProject { id name }
+          toProject { id name }
+          fromPriority
+          toPriority
+          fromEstimate
+          toEstimate
+          fromTitle
+          toTitle
+          fromDueDate
+          toDueDate
+          addedLabels { id name }
+          removedLabels { id name }
+          archived
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+type Named = { id?: string; name?: string } | null | undefined;
+
+type HistoryNode = {
+  id: string;
+  createdAt: string;
+  actor?: Named;
+  botActor?: Named;
+  fromState?: Named;
+  toState?: Named;
+  fromAssignee?: Named;
+  toAssignee?: Named;
+  fromProject?: Named;
+  toProject?: Named;
+  fromPriority?: number | null;
+  toPriority?: number | null;
+  fromEstimate?: number | null;
+  toEstimate?: number | null;
+  fromTitle?: string | null;
+  toTitle?: string | null;
+  fromDueDate?: string | null;
+  toDueDate?: string | null;
+  addedLabels?: Array<{ id: string; name: string }> | null;
+  removedLabels?: Array<{ id: string; name: string }> | null;
+  archived?: boolean | null;
+};
+
+/**
+ * Map a Linear history record to the same FieldChanges shape used by update diffs.
+ * Only fields that actually changed in this record are set.
+ */
+function toFieldChanges(h: HistoryNode): FieldChanges {
+  const changes: FieldChanges = {};
+
+  if (h.fromTitle != null || h.toTitle != null) {
+    changes.title = { before: h.fromTitle ?? '—', after: h.toTitle ?? '—' };
+  }
+  if (h.fromState || h.toState) {
+    changes.state = { before: h.fromState?.name ?? '—', after: h.toState?.name ?? '—' };
+  }
+  if (h.fromAssignee || h.toAssignee) {
+    changes.assignee = {
+      before: h.fromAssignee?.name ?? '—',
+      after: h.toAssignee?.name ?? '—',
+    };
+  }
+  if (h.fromProject || h.toProject) {
+    changes.project = {
+      before: h.fromProject?.name ?? '—',
+      after: h.toProject?.name ?? '—',
+    };
+  }
+  if ((h.fromPriority ?? null) !== (h.toPriority ?? null)) {
+    changes.priority = { before: h.fromPriority ?? '—', after: h.toPriority ?? '—' };
+  }
+  if ((h.fromEstimate ?? null) !== (h.toEstimate ?? null)) {
+    changes.estimate = { before: h.fromEstimate ?? '—', after: h.toEstimate ?? '—' };
+  }
+  if ((h.fromDueDate ?? null) !== (h.toDueDate ?? null)) {
+    changes.dueDate = { before: h.fromDueDate ?? '—', after: h.toDueDate ?? '—' };
+  }
+  const added = (h.addedLabels ?? []).map((l) => l.name);
+  const removed = (h.removedLabels ?? []).map((l) => l.name);
+  if (added.length > 0 || removed.length > 0) {
+    changes.labels = { added, removed };
+  }
+  if (typeof h.archived === 'boolean') {
+    changes.archived = { before: !h.archived, after: h.archived };
+  }
+
+  return changes;
+}
+
+export const getIssueHistoryTool = defineTool({
+  name: toolsMetadata.get_issue_history.name,
+  title: toolsMetadata.get_issue_history.title,
+  description: toolsMetadata.get_issue_history.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const limit = args.limit ?? 50;
+
+    const resp = await client.client.rawRequest(QUERY, {
+      id: args.id,
+      first: limit,
+      after: args.cursor,
+    });
+    const issue = (
+      resp as unknown as {
+        data?: {
+          issue?: {
+            id: string;
+            identifier?: string;
+            title?: string;
+            url?: string;
+            history?: {
+              nodes?: HistoryNode[];
+              pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+            };
+          } | null;
+        };
+      }
+    ).data?.issue;
+
+    if (!issue) {
+      const error = createToolError('ISSUE_NOT_FOUND', `Issue "${args.id}" not found`);
+      return {
+        isError: true,
+        content: [{ type: 'text', text: formatErrorMessage(error) }],
+        structuredContent: {
+          error: error.code,
+          message: error.message,
+          hint: error.hint,
+        },
+      };
+    }
+
+    // Skip records for fields we do not track (e.g. description edits)
+    const items = (issue.history?.nodes ?? [])
+      .map((h) => ({
+        id: h.id,
+        createdAt: String(h.createdAt),
+        actorId: h.actor?.id ?? undefined,
+        actorName: h.actor?.name ?? h.botActor?.name ?? undefined,
+        changes: toFieldChanges(h),
+      }))
+      .filter((entry) => Object.keys(entry.changes).length > 0);
+
+    const pageInfo = issue.history?.pageInfo ?? {};
+    const hasMore = pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (pageInfo.endCursor ?? undefined) : undefined;
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore
+          ? [`Call again with cursor="${nextCursor}" to fetch older history.`]
+          : []),
+        'Use get_issues for the current state of the issue.',
+      ],
+      relatedTools: ['get_issues', 'list_comments', 'update_issues'],
+    };
+
+    const structured = GetIssueHistoryOutputSchema.parse({
+      issue: {
+        id: issue.id,
+        identifier: issue.identifier ?? undefined,
+        title: issue.title ?? '',
+        url: issue.url ?? undefined,
+      },
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit,
+    });
+
+    const idf = issue.identifier ?? issue.id;
+    const header = summarizeList({
+      subject: `History for ${idf} (newest first)`,
+      count: items.length,
+      limit,
+      nextCursor,
+      zeroReasonHints: ['the issue may have no tracked field changes yet'],
+    });
+    const textParts = [header];
+    if (items.length > 0) {
+      textParts.push(items.map(formatHistoryEntryLine).join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
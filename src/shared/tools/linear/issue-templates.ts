@@ -0,0 +1,106 @@
+/**
+ * Issue Templates tool - list issue templates and the fields they pre-fill.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { ListIssueTemplatesOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { summarizeList } from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { fetchIssueTemplates, type IssueTemplateSummary } from './shared/index.js';
+
+const InputSchema = z.object({
+  teamId: z
+    .string()
+    .optional()
+    .describe('Team UUID. Returns templates of that team plus workspace templates.'),
+  q: z.string().optional().describe('Case-insensitive match on the template name.'),
+});
+
+/**
+ * Describe what a template pre-fills, e.g. 'title "[Bug]", priority 2, 1 label, description'
+ */
+function describeDefaults(t: IssueTemplateSummary): string {
+  const d = t.defaults;
+  const bits = [
+    d.title ? `title "${d.title}"` : undefined,
+    typeof d.priority === 'number' ? `priority ${d.priority}` : undefined,
+    typeof d.estimate === 'number' ? `estimate ${d.estimate}` : undefined,
+    d.labelIds
+      ? `${d.labelIds.length} label${d.labelIds.length === 1 ? '' : 's'}`
+      : undefined,
+    d.description ? 'description' : undefined,
+  ].filter(Boolean);
+  return bits.length > 0 ? bits.join(', ') : 'nothing';
+}
+
+export const listIssueTemplatesTool = defineTool({
+  name: toolsMetadata.list_issue_templates.name,
+  title: toolsMetadata.list_issue_templates.title,
+  description: toolsMetadata.list_issue_templates.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const all = await fetchIssueTemplates(client);
+
+    const q = args.q?.toLowerCase().trim();
+    const templates = all.filter(
+      (t) =>
+        (!args.teamId || !t.teamId || t.teamId === args.teamId) &&
+        (!q || t.name.toLowerCase().includes(q)),
+    );
+
+    const items = templates.map((t) => ({
+      id: t.id,
+      name: t.name,
+      description: t.description,
+      team: t.teamId ? { id: t.teamId, key: t.teamKey } : undefined,
+      defaults: t.defaults,
+    }));
+
+    const query = {
+      teamId: args.teamId,
+      q: args.q,
+    };
+
+    const meta = {
+      nextSteps: [
+        'Use create_issues with templateId or templateName; explicit fields override the template.',
+      ],
+      relatedTools: ['create_issues', 'workspace_metadata'],
+    };
+
+    const structured = ListIssueTemplatesOutputSchema.parse({ query, items, meta });
+
+    const preview = templates.map((t) => {
+      const scope = t.teamKey ? `team ${t.teamKey}` : 'workspace';
+      return `- ${t.name} (${scope}) → ${t.id} — pre-fills ${describeDefaults(t)}`;
+    });
+
+    const text = summarizeList({
+      subject: 'Issue templates',
+      count: items.length,
+      previewLines: preview,
+      zeroReasonHints: [
+        ...(q ? ['no template name matches q'] : []),
+        'templates are managed in Linear settings',
+      ],
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
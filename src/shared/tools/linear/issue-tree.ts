@@ -0,0 +1,330 @@
+/**
+ * Issue Tree tool - fetch a parent issue with its sub-issues recursively.
+ * Walks one hierarchy level per query to avoid N+1 lazy loading of children.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { GetIssueTreeOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { createToolError, formatErrorMessage } from '../../../utils/errors.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+const InputSchema = z.object({
+  id: z.string().describe('Root issue UUID or identifier (e.g. ENG-123).'),
+  maxDepth: z
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .optional()
+    .describe('How many levels of sub-issues to walk. Default: 3.'),
+  maxNodes: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe('Max sub-issues to return across all levels. Default: 250.'),
+  includeArchived: z
+    .boolean()
+    .optional()
+    .describe('Include archived sub-issues. Default: false.'),
+});
+
+const NODE_FIELDS = `
+  id
+  identifier
+  title
+  url
+  estimate
+  state { id name type }
+  assignee { id name }
+`;
+
+const ROOT_QUERY = `
+  query IssueTreeRoot($id: String!) {
+    issue(id: $id) {
+      ${NODE_FIELDS}
+    }
+  }
+`;
+
+const CHILDREN_QUERY = `
+  query IssueTreeChildren(
+    $first: Int!,
+    $after: String,
+    $filter: IssueFilter,
+    $includeArchived: Boolean
+  ) {
+    issues(first: $first, after: $after, filter: $filter, includeArchived: $includeArchived) {
+      nodes {
+        ${NODE_FIELDS}
+        parent { id }
+        children(first: 1) { nodes { id } }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+type RawNode = {
+  id: string;
+  identifier?: string;
+  title?: string;
+  url?: string | null;
+  estimate?: number | null;
+  state?: { id?: string; name?: string; type?: string } | null;
+  assignee?: { id?: string; name?: string } | null;
+  parent?: { id?: string } | null;
+  children?: { nodes?: Array<{ id: string }> } | null;
+};
+
+type TreeRollup = {
+  total: number;
+  completed: number;
+  byStateType: Record<string, number>;
+  estimateTotal: number;
+  estimateCompleted: number;
+};
+
+type TreeNode = {
+  id: string;
+  identifier?: string;
+  title: string;
+  url?: string;
+  parentId?: string;
+  depth: number;
+  stateName?: string;
+  stateType?: string;
+  estimate?: number;
+  assigneeName?: string;
+  childCount: number;
+  rollup?: TreeRollup;
+};
+
+function toTreeNode(raw: RawNode, depth: number, parentId?: string): TreeNode {
+  return {
+    id: raw.id,
+    identifier: raw.identifier ?? undefined,
+    title: raw.title ?? '',
+    url: raw.url ?? undefined,
+    parentId,
+    depth,
+    stateName: raw.state?.name ?? undefined,
+    stateType: raw.state?.type ?? undefined,
+    estimate: raw.estimate ?? undefined,
+    assigneeName: raw.assignee?.name ?? undefined,
+    childCount: 0,
+  };
+}
+
+function emptyRollup(): TreeRollup {
+  return {
+    total: 0,
+    completed: 0,
+    byStateType: {},
+    estimateTotal: 0,
+    estimateCompleted: 0,
+  };
+}
+
+function addToRollup(rollup: TreeRollup, node: TreeNode): void {
+  const type = node.stateType ?? 'unknown';
+  rollup.total += 1;
+  rollup.byStateType[type] = (rollup.byStateType[type] ?? 0) + 1;
+  const estimate = node.estimate ?? 0;
+  rollup.estimateTotal += estimate;
+  if (type === 'completed') {
+    rollup.completed += 1;
+    rollup.estimateCompleted += estimate;
+  }
+}
+
+function formatRollup(rollup: TreeRollup): string {
+  const parts = [`${rollup.completed}/${rollup.total} done`];
+  if (rollup.estimateTotal > 0) {
+    parts.push(`${rollup.estimateCompleted}/${rollup.estimateTotal} pts`);
+  }
+  return parts.join(', ');
+}
+
+function formatTreeLine(node: TreeNode): string {
+  const idf = node.identifier ?? node.id;
+  const label = node.url ? `[${idf}](${node.url})` : idf;
+  const bits: string[] = [];
+  if (node.stateName) bits.push(`state ${node.stateName}`);
+  if (typeof node.estimate === 'number') bits.push(`estimate ${node.estimate}`);
+  if (node.assigneeName) bits.push(`assignee ${node.assigneeName}`);
+  if (node.rollup) bits.push(`sub-issues ${formatRollup(node.rollup)}`);
+  const indent = '  '.repeat(node.depth);
+  return `${indent}- ${label} ${node.title}${bits.length > 0 ? ` — ${bits.join('; ')}` : ''}`;
+}
+
+export const getIssueTreeTool = defineTool({
+  name: toolsMetadata.get_issue_tree.name,
+  title: toolsMetadata.get_issue_tree.title,
+  description: toolsMetadata.get_issue_tree.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const maxDepth = args.maxDepth ?? 3;
+    const maxNodes = args.maxNodes ?? 250;
+
+    const rootResp = await client.client.rawRequest(ROOT_QUERY, { id: args.id });
+    const rootRaw = (rootResp as unknown as { data?: { issue?: RawNode | null } }).data
+      ?.issue;
+
+    if (!rootRaw) {
+      const error = createToolError('ISSUE_NOT_FOUND', `Issue "${args.id}" not found`);
+      return {
+        isError: true,
+        content: [{ type: 'text', text: formatErrorMessage(error) }],
+        structuredContent: {
+          error: error.code,
+          message: error.message,
+          hint: error.hint,
+        },
+      };
+    }
+
+    const root = toTreeNode(rootRaw, 0);
+    const byId = new Map<string, TreeNode>([[root.id, root]]);
+    const descendants: TreeNode[] = [];
+    let truncated = false;
+    // Set when an issue on the deepest walked level has sub-issues of its own
+    let depthLimited = false;
+    let frontier = [root.id];
+
+    // Breadth-first: one paginated query per level, filtered by parent ids
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const nextFrontier: string[] = [];
+      let after: string | undefined;
+
+      do {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        const resp = await client.client.rawRequest(CHILDREN_QUERY, {
+          first: 100,
+          after,
+          filter: { parent: { id: { in: frontier } } },
+          includeArchived: args.includeArchived ?? false,
+        });
+        const conn = (
+          resp as unknown as {
+            data?: {
+              issues?: {
+                nodes?: RawNode[];
+                pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+              };
+            };
+          }
+        ).data?.issues;
+
+        for (const raw of conn?.nodes ?? []) {
+          if (descendants.length >= maxNodes) {
+            truncated = true;
+            break;
+          }
+          const parentId = raw.parent?.id;
+          const parent = parentId ? byId.get(parentId) : undefined;
+          if (!parent || byId.has(raw.id)) continue;
+
+          const node = toTreeNode(raw, depth, parent.id);
+          parent.childCount += 1;
+          byId.set(node.id, node);
+          descendants.push(node);
+          nextFrontier.push(node.id);
+          if (depth === maxDepth && (raw.children?.nodes?.length ?? 0) > 0) {
+            depthLimited = true;
+          }
+        }
+
+        after = conn?.pageInfo?.hasNextPage ? conn.pageInfo.endCursor : undefined;
+      } while (after && !truncated);
+
+      if (truncated) break;
+      frontier = nextFrontier;
+    }
+
+    // Roll up every descendant into each of its ancestors
+    for (const node of descendants) {
+      let parentId = node.parentId;
+      while (parentId) {
+        const ancestor = byId.get(parentId);
+        if (!ancestor) break;
+        ancestor.rollup = ancestor.rollup ?? emptyRollup();
+        addToRollup(ancestor.rollup, node);
+        parentId = ancestor.parentId;
+      }
+    }
+    const rollup = root.rollup ?? emptyRollup();
+
+    // Depth-first order for rendering so children follow their parent
+    const childrenOf = new Map<string, TreeNode[]>();
+    for (const node of descendants) {
+      const siblings = childrenOf.get(node.parentId as string) ?? [];
+      siblings.push(node);
+      childrenOf.set(node.parentId as string, siblings);
+    }
+    const ordered: TreeNode[] = [];
+    const visit = (node: TreeNode) => {
+      ordered.push(node);
+      for (const child of childrenOf.get(node.id) ?? []) visit(child);
+    };
+    visit(root);
+
+    const meta = {
+      nextSteps: [
+        ...(truncated
+          ? ['Increase maxNodes or fetch a sub-issue as the root to see more.']
+          : []),
+        ...(depthLimited && !truncated
+          ? ['Increase maxDepth to walk deeper sub-issues.']
+          : []),
+        'Use get_issues for full details of specific sub-issues.',
+        'Use create_issues with parentIndex to break an issue into sub-issues.',
+      ],
+      relatedTools: ['get_issues', 'create_issues', 'update_issues'],
+    };
+
+    const structured = GetIssueTreeOutputSchema.parse({
+      root,
+      nodes: descendants,
+      rollup,
+      maxDepth,
+      truncated,
+      meta,
+    });
+
+    const rootIdf = root.identifier ?? root.id;
+    const summaryLine =
+      descendants.length === 0
+        ? `Issue tree for ${rootIdf}: no sub-issues found.`
+        : `Issue tree for ${rootIdf}: ${descendants.length} sub-issue(s) across ${Math.max(
+            ...descendants.map((n) => n.depth),
+          )} level(s) — ${formatRollup(rollup)}.${truncated ? ` Truncated at ${maxNodes} sub-issues.` : ''}`;
+
+    const textParts = [summaryLine, ordered.map(formatTreeLine).join('\n')];
+    textParts.push(
+      'Tip: Use get_issues for full details, or update_issues to change sub-issues.',
+    );
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,728 @@
+/**
+ * Labels tools - create, update/delete and merge issue labels (workspace or team, with groups).
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  CreateLabelsOutputSchema,
+  MergeLabelsOutputSchema,
+  UpdateLabelsOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch } from '../../../utils/messages.js';
+import { resolveLabelGroup } from '../../../utils/resolvers.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { confirmDestructiveAction } from './shared/index.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  identifier?: string;
+  url?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+const HexColor = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex color like #ff0000')
+  .describe('Hex color, e.g. "#ff0000".');
+
+// Create Labels
+const CreateLabelsInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        name: z.string().min(1).describe('Label name. Required.'),
+        teamId: z
+          .string()
+          .optional()
+          .describe('Team UUID for a team label. Omit for a workspace label.'),
+        color: HexColor.optional(),
+        description: z.string().optional().describe('Label description.'),
+        isGroup: z
+          .boolean()
+          .optional()
+          .describe('Create a label group (parent) instead of an assignable label.'),
+        parentId: z.string().optional().describe('Label group UUID to nest under.'),
+        parentName: z
+          .string()
+          .optional()
+          .describe('Label group name to nest under (same scope as teamId).'),
+      }),
+    )
+    .min(1)
+    .max(50)
+    .describe(
+      'Labels to create. Groups listed earlier can be used as parentName later.',
+    ),
+});
+
+export const createLabelsTool = defineTool({
+  name: toolsMetadata.create_labels.name,
+  title: toolsMetadata.create_labels.title,
+  description: toolsMetadata.create_labels.description,
+  inputSchema: CreateLabelsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = {
+        name: it.name,
+        teamId: it.teamId,
+        isGroup: it.isGroup,
+        parentId: it.parentId,
+        parentName: it.parentName,
+      };
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        let parentId = it.parentId;
+        if (!parentId && it.parentName) {
+          const groupResult = await resolveLabelGroup(client, it.parentName, it.teamId);
+          if (!groupResult.success) {
+            results.push({
+              input,
+              success: false,
+              error: {
+                code: 'LABEL_GROUP_RESOLUTION_FAILED',
+                message: groupResult.error,
+                suggestions: groupResult.suggestions,
+              },
+              index: i,
+              ok: false,
+            });
+            continue;
+          }
+          parentId = groupResult.value;
+        }
+
+        const call = () =>
+          client.createIssueLabel({
+            name: it.name,
+            teamId: it.teamId,
+            color: it.color,
+            description: it.description,
+            isGroup: it.isGroup,
+            parentId,
+          });
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: payload.issueLabelId,
+          identifier: it.name,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('create_labels', {
+          message: 'Failed to create label',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_CREATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              'Label names must be unique within their team or workspace.',
+              'Verify teamId with list_teams.',
+            ],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ["Use workspace_metadata with include=['labels'] to verify."],
+      relatedTools: ['update_labels', 'merge_labels', 'workspace_metadata'],
+    };
+
+    const structured = CreateLabelsOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.name),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Created labels',
+      ok: succeeded,
+      total: args.items.length,
+      okIdentifiers: results
+        .filter((r) => r.ok)
+        .map((r) => `${r.identifier} (${r.id})`),
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Update Labels
+const UpdateLabelsInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().describe('Label UUID. Required.'),
+        name: z.string().min(1).optional().describe('New name (rename).'),
+        color: HexColor.optional(),
+        description: z.string().optional().describe('New description.'),
+        parentId: z
+          .string()
+          .optional()
+          .describe('Label group UUID to move the label into.'),
+        delete: z
+          .boolean()
+          .optional()
+          .describe(
+            'Permanently delete the label and remove it from its issues. Cannot be combined with other fields.',
+          ),
+      }),
+    )
+    .min(1)
+    .max(50)
+    .describe('Labels to update.'),
+});
+
+export const updateLabelsTool = defineTool({
+  name: toolsMetadata.update_labels.name,
+  title: toolsMetadata.update_labels.title,
+  description: toolsMetadata.update_labels.description,
+  inputSchema: UpdateLabelsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const deletions = args.items.filter((it) => it.delete).length;
+    const outcome =
+      deletions > 0
+        ? await confirmDestructiveAction(
+            context,
+            `Permanently delete ${deletions} label(s)? They are removed from every issue. This cannot be undone.`,
+            'Delete labels',
+          )
+        : 'not_asked';
+    const declined = outcome === 'declined';
+
+    const results: BatchResult[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input: Record<string, unknown> = {};
+      if (it.name !== undefined) input.name = it.name;
+      if (it.color !== undefined) input.color = it.color;
+      if (it.description !== undefined) input.description = it.description;
+      if (it.parentId !== undefined) input.parentId = it.parentId;
+
+      if (!it.delete && Object.keys(input).length === 0) {
+        results.push({
+          input: { id: it.id },
+          success: false,
+          id: it.id,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Nothing to update',
+            suggestions: ['Provide name, color, description, parentId or delete=true.'],
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      if (it.delete && Object.keys(input).length > 0) {
+        results.push({
+          input: { id: it.id, ...input, delete: true },
+          success: false,
+          id: it.id,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'delete cannot be combined with other fields',
+            suggestions: ['Send the update and the delete as separate items.'],
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      if (it.delete && declined) {
+        results.push({
+          input: { id: it.id, delete: true },
+          success: false,
+          id: it.id,
+          error: {
+            code: 'CANCELLED',
+            message: 'Deletion was not confirmed',
+            suggestions: ['The label was kept. Call again and confirm to proceed.'],
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const call = (): Promise<{ success?: boolean }> =>
+          it.delete
+            ? client.deleteIssueLabel(it.id)
+            : client.updateIssueLabel(it.id, input);
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input: { id: it.id, ...input, ...(it.delete ? { delete: true } : {}) },
+          success: payload.success ?? true,
+          id: it.id,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('update_labels', {
+          message: 'Failed to update label',
+          id: it.id,
+          error: (error as Error).message,
+        });
+        results.push({
+          input: { id: it.id, ...input },
+          success: false,
+          id: it.id,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              "Verify label ids with workspace_metadata include=['labels'].",
+            ],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ["Use workspace_metadata with include=['labels'] to verify."],
+      relatedTools: ['create_labels', 'merge_labels', 'workspace_metadata'],
+    };
+
+    const structured = UpdateLabelsOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Updated labels',
+      ok: succeeded,
+      total: args.items.length,
+      okIdentifiers: results
+        .filter((r) => r.ok)
+        .map((r) => (r.input.delete ? `${r.id} (deleted)` : (r.id ?? ''))),
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Merge Labels
+const MergeLabelsInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        sourceLabelId: z.string().describe('Label UUID to merge away.'),
+        targetLabelId: z
+          .string()
+          .describe('Label UUID that replaces it on every issue.'),
+        deleteSource: z
+          .boolean()
+          .optional()
+          .describe(
+            'Permanently delete the source label once all issues moved. Default: true.',
+          ),
+      }),
+    )
+    .min(1)
+    .max(10)
+    .describe('Label pairs to merge.'),
+});
+
+const LABEL_ISSUES_QUERY = `
+  query LabelIssues($filter: IssueFilter, $first: Int!, $after: String) {
+    issues(filter: $filter, first: $first, after: $after, includeArchived: true) {
+      nodes {
+        id
+        identifier
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+// Upper bound on pages scanned per source label (100 issues/page)
+const MAX_ISSUE_PAGES = 20;
+
+/**
+ * Collect every issue carrying a label. complete=false when the page cap was hit.
+ */
+async function fetchLabelIssues(
+  client: LinearClient,
+  labelId: string,
+): Promise<{ issues: Array<{ id: string; identifier?: string }>; complete: boolean }> {
+  const issues: Array<{ id: string; identifier?: string }> = [];
+  let after: string | undefined;
+
+  for (let page = 0; page < MAX_ISSUE_PAGES; page++) {
+    const resp = await client.client.rawRequest(LABEL_ISSUES_QUERY, {
+      filter: { labels: { id: { eq: labelId } } },
+      first: 100,
+      after,
+    });
+    const conn = (
+      resp as unknown as {
+        data?: {
+          issues?: {
+            nodes?: Array<{ id: string; identifier?: string }>;
+            pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+          };
+        };
+      }
+    ).data?.issues;
+
+    issues.push(...(conn?.nodes ?? []));
+
+    if (!conn?.pageInfo?.hasNextPage || !conn.pageInfo.endCursor) {
+      return { issues, complete: true };
+    }
+    after = conn.pageInfo.endCursor;
+  }
+
+  return { issues, complete: false };
+}
+
+export const mergeLabelsTool = defineTool({
+  name: toolsMetadata.merge_labels.name,
+  title: toolsMetadata.merge_labels.title,
+  description: toolsMetadata.merge_labels.description,
+  inputSchema: MergeLabelsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: Array<
+      BatchResult & {
+        movedIssues?: number;
+        failedIssues?: string[];
+        sourceDeleted?: boolean;
+      }
+    > = [];
+    const detailLines: string[] = [];
+
+    const outcome = await confirmDestructiveAction(
+      context,
+      `Merge ${args.items.length} label pair(s)? Issues move to the target label and source labels are permanently deleted unless deleteSource=false.`,
+      'Merge labels',
+    );
+    const declined = outcome === 'declined';
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = {
+        sourceLabelId: it.sourceLabelId,
+        targetLabelId: it.targetLabelId,
+        deleteSource: it.deleteSource ?? true,
+      };
+      const phrase = `${it.sourceLabelId} → ${it.targetLabelId}`;
+
+      if (declined) {
+        results.push({
+          input,
+          success: false,
+          id: it.targetLabelId,
+          error: {
+            code: 'CANCELLED',
+            message: 'Merge was not confirmed',
+            suggestions: ['Nothing was changed. Call again and confirm to proceed.'],
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      if (it.sourceLabelId === it.targetLabelId) {
+        results.push({
+          input,
+          success: false,
+          id: it.targetLabelId,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'sourceLabelId and targetLabelId must differ',
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        const { issues, complete } = await gate(() =>
+          fetchLabelIssues(client, it.sourceLabelId),
+        );
+
+        let moved = 0;
+        const failedIssues: string[] = [];
+
+        for (let j = 0; j < issues.length; j++) {
+          const issue = issues[j];
+          if (context.signal?.aborted) {
+            throw new Error('Operation aborted');
+          }
+
+          // Add small delay between requests to avoid rate limits
+          if (j > 0) {
+            await delay(100);
+          }
+
+          try {
+            const payload = await withRetry(
+              () =>
+                gate(() =>
+                  client.updateIssue(issue.id, {
+                    addedLabelIds: [it.targetLabelId],
+                    removedLabelIds: [it.sourceLabelId],
+                  }),
+                ),
+              { maxRetries: 3, baseDelayMs: 500 },
+            );
+            if (payload.success === false) {
+              failedIssues.push(issue.identifier ?? issue.id);
+            } else {
+              moved++;
+            }
+          } catch (error) {
+            await logger.error('merge_labels', {
+              message: 'Failed to relabel issue',
+              id: issue.id,
+              error: (error as Error).message,
+            });
+            failedIssues.push(issue.identifier ?? issue.id);
+          }
+        }
+
+        // Only delete once nothing is left on the source label
+        let sourceDeleted = false;
+        if (input.deleteSource && complete && failedIssues.length === 0) {
+          const payload = await withRetry(
+            () => gate(() => client.deleteIssueLabel(it.sourceLabelId)),
+            { maxRetries: 3, baseDelayMs: 500 },
+          );
+          sourceDeleted = payload.success ?? true;
+        }
+
+        const fullyMoved = complete && failedIssues.length === 0;
+        results.push({
+          input,
+          success: fullyMoved,
+          id: it.targetLabelId,
+          movedIssues: moved,
+          failedIssues: failedIssues.length > 0 ? failedIssues : undefined,
+          sourceDeleted,
+          error: fullyMoved
+            ? undefined
+            : {
+                code: 'PARTIAL_MERGE',
+                message: complete
+                  ? `${failedIssues.length} issue(s) could not be relabeled`
+                  : `Moved ${moved} issues; more issues still carry the source label`,
+                suggestions: [
+                  'Call merge_labels again with the same pair to continue.',
+                ],
+              },
+          index: i,
+          ok: fullyMoved,
+        });
+        detailLines.push(
+          `- ${phrase}: moved ${moved} issue(s)${sourceDeleted ? ', source deleted' : ''}${
+            failedIssues.length > 0 ? `; failed: ${failedIssues.join(', ')}` : ''
+          }`,
+        );
+      } catch (error) {
+        await logger.error('merge_labels', {
+          message: 'Failed to merge labels',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          id: it.targetLabelId,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              "Verify label ids with workspace_metadata include=['labels'].",
+            ],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use list_issues with the target label to verify.'],
+      relatedTools: ['list_issues', 'update_labels', 'workspace_metadata'],
+    };
+
+    const structured = MergeLabelsOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.sourceLabelId),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Merged labels',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -16,6 +16,7 @@ import {
 } from '../../../utils/errors.js';
 import { normalizeIssueFilter } from '../../../utils/filters.js';
 import { previewLinesFromItems, summarizeList } from '../../../utils/messages.js';
+import { type CustomViewInfo, resolveCustomView } from '../../../utils/resolvers.js';
 import { defineTool, type ToolContext, type ToolResult } from '../types.js';
 import type { DetailLevel, IssueListItem } from './shared/index.js';
 import { formatIssueDetails, formatIssuePreviewLine } from './shared/index.js';
@@ -43,6 +44,18 @@ const InputSchema = z.object({
     ),
   teamId: z.string().optional().describe('Filter by team UUID.'),
   projectId: z.string().optional().describe('Filter by project UUID.'),
+  viewId: z
+    .string()
+    .optional()
+    .describe(
+      'Custom view UUID. Applies the saved view filter, combined with any other filters.',
+    ),
+  viewName: z
+    .string()
+    .optional()
+    .describe(
+      'Custom view name (case-insensitive), e.g. "Bugs Triage". Alternative to viewId.',
+    ),
   includeArchived: z
     .boolean()
     .optional()
@@ -86,8 +99,17 @@ const InputSchema = z.object({
     .describe(
       'If true, only show issues assigned to the current viewer. Shortcut for filter.assignee.id.eq with viewer ID.',
     ),
+  includeCustomers: z
+    .boolean()
+    .optional()
+    .describe(
+      'Count customer requests per issue (customerCount, customerRequestCount). Default: false.',
+    ),
 });
 
+// Customer requests read per issue; more are flagged with customerCountTruncated
+const CUSTOMER_NEEDS_PAGE = 50;
+
 export const listIssuesTool = defineTool({
   name: toolsMetadata.list_issues.name,
   title: toolsMetadata.list_issues.title,
@@ -155,6 +177,38 @@ export const listIssuesTool = defineTool({
       }
     }
 
+    // Apply a saved custom view; its filter is ANDed with the filters above
+    let view: CustomViewInfo | undefined;
+    if (args.viewId || args.viewName) {
+      const viewResult = await resolveCustomView(client, {
+        viewId: args.viewId,
+        viewName: args.viewName,
+      });
+      if (!viewResult.success) {
+        const error = createToolError(
+          'NOT_FOUND',
+          viewResult.error,
+          viewResult.suggestions?.join(' ') ??
+            'Use list_custom_views to list available views.',
+        );
+        return {
+          isError: true,
+          content: [{ type: 'text', text: formatErrorMessage(error) }],
+          structuredContent: {
+            error: error.code,
+            message: error.message,
+            hint: error.hint,
+          },
+        };
+      }
+      view = viewResult.value;
+      const viewFilter = normalizeIssueFilter(view.filterData) ?? {};
+      if (Object.keys(viewFilter).length > 0) {
+        filter =
+          Object.keys(filter).length > 0 ? { and: [viewFilter, filter] } : viewFilter;
+      }
+    }
+
     // Use raw GraphQL to avoid N+1 query problem with SDK lazy loading
     const QUERY = `
       query ListIssues(
@@ -187,6 +241,11 @@ export const listIssuesTool = defineTool({
             dueDate
             url
             labels { nodes { id name } }
+            ${
+              args.includeCustomers
+                ? `needs(first: ${CUSTOMER_NEEDS_PAGE}) { nodes { customer { id } } pageInfo { hasNextPage } }`
+                : ''
+            }
           }
           pageInfo { hasNextPage endCursor }
         }
@@ -225,6 +284,17 @@ export const listIssuesTool = defineTool({
         | undefined;
       const labels = (labelsConn?.nodes ?? []).map((l) => ({ id: l.id, name: l.name }));
       const archivedAtRaw = (i.archivedAt as string | null | undefined) ?? undefined;
+      // Customer demand: requests (needs) and the distinct customers behind them
+      const needsConn = i.needs as
+        | {
+            nodes?: Array<{ customer?: { id: string } | null }>;
+            pageInfo?: { hasNextPage?: boolean };
+          }
+        | undefined;
+      const needs = needsConn?.nodes ?? [];
+      const customerIds = new Set(
+        needs.map((n) => n.customer?.id).filter((id): id is string => !!id),
+      );
 
       return {
         id: String(i.id ?? ''),
@@ -245,6 +315,10 @@ export const listIssuesTool = defineTool({
         dueDate: (i.dueDate as string) ?? undefined,
         url: (i.url as string) ?? undefined,
         labels,
+        customerCount: customerIds.size > 0 ? customerIds.size : undefined,
+        customerRequestCount: needs.length > 0 ? needs.length : undefined,
+        // Counts are lower bounds when the issue has more requests than one page
+        customerCountTruncated: needsConn?.pageInfo?.hasNextPage ? true : undefined,
       };
     });
 
@@ -257,6 +331,7 @@ export const listIssuesTool = defineTool({
       filter: Object.keys(filter).length > 0 ? filter : undefined,
       teamId: args.teamId,
       projectId: args.projectId,
+      view: view ? { id: view.id, name: view.name } : undefined,
       assignedToMe: args.assignedToMe,
       keywords: keywords.length > 0 ? keywords : undefined,
       matchMode: args.matchMode ?? 'all',
@@ -322,7 +397,7 @@ export const listIssuesTool = defineTool({
     );
 
     const text = summarizeList({
-      subject: 'Issues',
+      subject: view ? `Issues in view "${view.name}"` : 'Issues',
       count: items.length,
       limit,
       nextCursor,
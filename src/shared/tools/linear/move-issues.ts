@@ -0,0 +1,426 @@
+/**
+ * Move Issues tool - move issues to another team, remapping workflow state and labels.
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { MoveIssuesOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch } from '../../../utils/messages.js';
+import { resolveState, resolveTeam, type StateInfo } from '../../../utils/resolvers.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+const MoveItem = z.object({
+  id: z.string().describe('Issue UUID or identifier (e.g. ENG-123).'),
+  teamId: z.string().optional().describe('Destination team UUID. Or use teamKey.'),
+  teamKey: z.string().optional().describe('Destination team key, e.g. "OPS".'),
+  // Optional explicit target state; otherwise the state is remapped by type
+  stateId: z.string().optional().describe('Target state UUID in the destination team.'),
+  stateName: z
+    .string()
+    .optional()
+    .describe(
+      'Target state name in the destination team. Overrides remapping by type.',
+    ),
+  stateType: z
+    .enum(['backlog', 'unstarted', 'started', 'completed', 'canceled'])
+    .optional()
+    .describe(
+      'Target state type in the destination team. Overrides remapping by type.',
+    ),
+});
+
+const InputSchema = z.object({
+  items: z.array(MoveItem).min(1).max(50).describe('Issues to move.'),
+  createMissingLabels: z
+    .boolean()
+    .optional()
+    .describe(
+      'If true, team labels with no same-name label in the destination team are created there instead of dropped.',
+    ),
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe('If true, report the state and label mapping without moving anything.'),
+});
+
+type MoveResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  identifier?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+  fromTeam?: string;
+  toTeam?: string;
+  state?: { from: string; to?: string };
+  labels?: { kept: string[]; remapped: string[]; created: string[] };
+  unmapped?: string[];
+};
+
+type LabelNode = { id: string; name: string; teamId?: string };
+
+type DestinationTeam = {
+  id: string;
+  key: string;
+  states: StateInfo[];
+  labels: LabelNode[];
+};
+
+/**
+ * Every label the destination team can use (its own and workspace labels), all pages
+ */
+async function fetchTeamLabels(
+  client: LinearClient,
+  teamId: string,
+): Promise<LabelNode[]> {
+  const labels: LabelNode[] = [];
+  let after: string | undefined;
+  do {
+    const page = await client.issueLabels({
+      first: 250,
+      after,
+      filter: { or: [{ team: { id: { eq: teamId } } }, { team: { null: true } }] },
+    });
+    labels.push(...page.nodes.map((l) => ({ id: l.id, name: l.name })));
+    after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+  } while (after);
+  return labels;
+}
+
+/**
+ * Every label on the issue; the SDK's default page stops at 50
+ */
+async function fetchIssueLabels(issue: {
+  labels: (args?: { first?: number; after?: string }) => Promise<{
+    nodes: unknown[];
+    pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+  }>;
+}): Promise<LabelNode[]> {
+  const labels: LabelNode[] = [];
+  let after: string | undefined;
+  do {
+    const page = await issue.labels({ first: 250, after });
+    labels.push(...((page.nodes ?? []) as LabelNode[]));
+    after = page.pageInfo?.hasNextPage ? page.pageInfo.endCursor : undefined;
+  } while (after);
+  return labels;
+}
+
+/**
+ * Pick the destination state for the issue's current state:
+ * same name and type first, then the first state of the same type.
+ */
+function remapState(current: StateInfo, states: StateInfo[]): StateInfo | undefined {
+  const sameType = states.filter((s) => s.type === current.type);
+  return (
+    sameType.find((s) => s.name.toLowerCase() === current.name.toLowerCase()) ??
+    sameType[0]
+  );
+}
+
+export const moveIssuesTool = defineTool({
+  name: toolsMetadata.move_issues.name,
+  title: toolsMetadata.move_issues.title,
+  description: toolsMetadata.move_issues.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+    const dryRun = args.dry_run === true;
+
+    // Destination teams are loaded once per batch
+    const teamCache = new Map<string, DestinationTeam>();
+    const loadTeam = async (teamId: string, key: string): Promise<DestinationTeam> => {
+      const cached = teamCache.get(teamId);
+      if (cached) return cached;
+      const team = await gate(() => client.team(teamId));
+      const [states, labels] = await Promise.all([
+        team.states(),
+        gate(() => fetchTeamLabels(client, teamId)),
+      ]);
+      const loaded = {
+        id: teamId,
+        key,
+        states: states.nodes as StateInfo[],
+        labels,
+      };
+      teamCache.set(teamId, loaded);
+      return loaded;
+    };
+
+    const results: MoveResult[] = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input: Record<string, unknown> = {
+        id: it.id,
+        teamId: it.teamId,
+        teamKey: it.teamKey,
+        stateId: it.stateId,
+        stateName: it.stateName,
+        stateType: it.stateType,
+      };
+      const fail = (code: string, message: string, suggestions?: string[]) => {
+        results.push({
+          input,
+          success: false,
+          error: { code, message, suggestions },
+          index: i,
+          ok: false,
+        });
+      };
+
+      if (!it.teamId && !it.teamKey) {
+        fail('VALIDATION_ERROR', 'Provide teamId or teamKey for the destination team');
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const teamResult = await resolveTeam(client, {
+          teamId: it.teamId,
+          teamKey: it.teamKey,
+        });
+        if (!teamResult.success) {
+          fail('TEAM_NOT_FOUND', teamResult.error, teamResult.suggestions);
+          continue;
+        }
+
+        const issue = await gate(() => client.issue(it.id));
+        if (!issue) {
+          fail('ISSUE_NOT_FOUND', `Issue "${it.id}" not found`, [
+            'Use list_issues or get_issues to verify identifiers.',
+          ]);
+          continue;
+        }
+        const identifier = issue.identifier ?? issue.id;
+
+        const sourceTeam = (await issue.team) as
+          | { id: string; key?: string }
+          | undefined;
+        if (sourceTeam?.id === teamResult.value.id) {
+          fail(
+            'VALIDATION_ERROR',
+            `${identifier} is already in ${teamResult.value.key}`,
+          );
+          continue;
+        }
+
+        const dest = await loadTeam(teamResult.value.id, teamResult.value.key);
+        const unmapped: string[] = [];
+
+        // State: explicit target in the destination team, else remap by type
+        const currentState = (await issue.state) as StateInfo | undefined;
+        let targetState: StateInfo | undefined;
+        if (it.stateId) {
+          targetState = dest.states.find((s) => s.id === it.stateId);
+          if (!targetState) {
+            fail(
+              'STATE_RESOLUTION_FAILED',
+              `State ${it.stateId} is not in ${dest.key}`,
+            );
+            continue;
+          }
+        } else if (it.stateName || it.stateType) {
+          const stateResult = await resolveState(client, dest.id, {
+            stateName: it.stateName,
+            stateType: it.stateType,
+          });
+          if (!stateResult.success) {
+            fail('STATE_RESOLUTION_FAILED', stateResult.error, stateResult.suggestions);
+            continue;
+          }
+          targetState = dest.states.find((s) => s.id === stateResult.value);
+        } else if (currentState) {
+          targetState = remapState(currentState, dest.states);
+          if (!targetState) {
+            unmapped.push(`state "${currentState.name}" [${currentState.type}]`);
+          }
+        }
+
+        // Labels: workspace labels are kept, team labels are matched by name
+        const currentLabels = await fetchIssueLabels(issue);
+        const labelIds: string[] = [];
+        const labels = {
+          kept: [] as string[],
+          remapped: [] as string[],
+          created: [] as string[],
+        };
+        for (const label of currentLabels) {
+          if (!label.teamId) {
+            labelIds.push(label.id);
+            labels.kept.push(label.name);
+            continue;
+          }
+          const match = dest.labels.find(
+            (l) => l.name.toLowerCase() === label.name.toLowerCase(),
+          );
+          if (match) {
+            labelIds.push(match.id);
+            labels.remapped.push(label.name);
+            continue;
+          }
+          if (args.createMissingLabels && !dryRun) {
+            const created = await gate(() =>
+              client.createIssueLabel({ name: label.name, teamId: dest.id }),
+            );
+            if (created.issueLabelId) {
+              labelIds.push(created.issueLabelId);
+              labels.created.push(label.name);
+              // Later issues in the batch reuse the new label
+              dest.labels.push({ id: created.issueLabelId, name: label.name });
+              continue;
+            }
+          }
+          if (args.createMissingLabels && dryRun) {
+            labels.created.push(label.name);
+            continue;
+          }
+          unmapped.push(`label "${label.name}"`);
+        }
+
+        const result: MoveResult = {
+          input,
+          success: true,
+          id: issue.id,
+          identifier,
+          index: i,
+          ok: true,
+          fromTeam: sourceTeam?.key ?? sourceTeam?.id,
+          toTeam: dest.key,
+          state: currentState
+            ? { from: currentState.name, to: targetState?.name }
+            : undefined,
+          labels,
+          unmapped: unmapped.length > 0 ? unmapped : undefined,
+        };
+
+        const stateText = targetState
+          ? `${currentState?.name ?? '?'} → ${targetState.name}`
+          : 'team default state';
+        const unmappedText =
+          unmapped.length > 0 ? `; not mapped: ${unmapped.join(', ')}` : '';
+
+        if (dryRun) {
+          results.push(result);
+          detailLines.push(
+            `- Would move ${identifier} to ${dest.key} (${stateText})${unmappedText}`,
+          );
+          continue;
+        }
+
+        const payload = await withRetry(
+          () =>
+            gate(() =>
+              client.updateIssue(issue.id, {
+                teamId: dest.id,
+                ...(targetState ? { stateId: targetState.id } : {}),
+                labelIds,
+              }),
+            ),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        const moved = (await payload.issue) as { identifier?: string } | undefined;
+        result.success = payload.success ?? true;
+        result.ok = result.success;
+        results.push(result);
+        detailLines.push(
+          `- Moved ${identifier} → ${moved?.identifier ?? dest.key} (${stateText})${unmappedText}`,
+        );
+      } catch (error) {
+        await logger.error('move_issues', {
+          message: 'Failed to move issue',
+          index: i,
+          error: (error as Error).message,
+        });
+        fail('LINEAR_UPDATE_ERROR', (error as Error).message, [
+          'Verify the destination team with list_teams and the issue with get_issues.',
+        ]);
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+    const withUnmapped = results.filter((r) => r.unmapped).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(dryRun ? ['Call again without dry_run to apply.'] : []),
+        ...(withUnmapped > 0
+          ? [
+              'Set createMissingLabels=true to keep unmapped team labels, or add them with create_labels.',
+            ]
+          : []),
+        'Use get_issues to verify the moved issues.',
+      ],
+      relatedTools: ['get_issues', 'update_issues', 'list_teams', 'create_labels'],
+    };
+
+    const structured = MoveIssuesOutputSchema.parse({
+      results,
+      summary,
+      dryRun,
+      meta,
+    });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.id ?? ''),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: dryRun ? 'Dry run: moves' : 'Moved issues',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,484 @@
+/**
+ * Notification tools - read the viewer's inbox and mark notifications read, snoozed or archived.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  ListNotificationsOutputSchema,
+  MarkNotificationsOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { truncate } from '../../../utils/formatting.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch, summarizeList } from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+// List Notifications
+const ListNotificationsInputSchema = z.object({
+  status: z
+    .enum(['unread', 'read', 'all'])
+    .optional()
+    .describe("Which notifications to return. Default: 'unread'."),
+  types: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Notification types to include, e.g. ['issueMention', 'issueCommentMention', 'issueAssignedToYou', 'issueStatusChanged', 'issueNewComment'].",
+    ),
+  includeArchived: z
+    .boolean()
+    .optional()
+    .describe('Include archived notifications. Default: false.'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Max results. Default: 50.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+const LIST_QUERY = `
+  query ListNotifications(
+    $first: Int!,
+    $after: String,
+    $filter: NotificationFilter,
+    $includeArchived: Boolean
+  ) {
+    notifications(
+      first: $first,
+      after: $after,
+      filter: $filter,
+      includeArchived: $includeArchived,
+      orderBy: createdAt
+    ) {
+      nodes {
+        id
+        type
+        createdAt
+        readAt
+        snoozedUntilAt
+        archivedAt
+        actor { id name }
+        ... on IssueNotification {
+          issue { id identifier title url }
+          comment { id body }
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+const SNIPPET_LENGTH = 120;
+
+// Upper bound on requests spent filling one page when most notifications are filtered out
+const MAX_PAGES = 5;
+
+const TYPE_LABELS: Record<string, string> = {
+  issueAssignedToYou: 'assigned you',
+  issueUnassignedFromYou: 'unassigned you',
+  issueMention: 'mentioned you',
+  issueCommentMention: 'mentioned you in a comment',
+  issueNewComment: 'commented',
+  issueStatusChanged: 'changed the status',
+  issueCommentReaction: 'reacted to your comment',
+  issueEmojiReaction: 'reacted to the issue',
+  issueCreated: 'created the issue',
+  issueDue: 'due soon',
+  issuePriorityUrgent: 'marked urgent',
+  issueSubscribed: 'subscribed you',
+};
+
+type NotificationItem = {
+  id: string;
+  type: string;
+  createdAt: string;
+  readAt?: string;
+  snoozedUntilAt?: string;
+  archivedAt?: string;
+  actor?: { id: string; name?: string };
+  issue?: { id: string; identifier?: string; title?: string; url?: string };
+  comment?: { id: string; snippet: string };
+};
+
+function toNotificationItem(n: Record<string, unknown>): NotificationItem {
+  const actor = n.actor as { id: string; name?: string } | null | undefined;
+  const issue = n.issue as
+    | { id: string; identifier?: string; title?: string; url?: string }
+    | null
+    | undefined;
+  const comment = n.comment as { id: string; body?: string } | null | undefined;
+  const firstLine =
+    (comment?.body ?? '').split('\n').find((l) => l.trim() !== '') ?? '';
+  return {
+    id: String(n.id ?? ''),
+    type: String(n.type ?? ''),
+    createdAt: String(n.createdAt ?? ''),
+    readAt: (n.readAt as string | null) ?? undefined,
+    snoozedUntilAt: (n.snoozedUntilAt as string | null) ?? undefined,
+    archivedAt: (n.archivedAt as string | null) ?? undefined,
+    actor: actor ? { id: actor.id, name: actor.name ?? undefined } : undefined,
+    issue: issue
+      ? {
+          id: issue.id,
+          identifier: issue.identifier ?? undefined,
+          title: issue.title ?? undefined,
+          url: issue.url ?? undefined,
+        }
+      : undefined,
+    comment: comment
+      ? { id: comment.id, snippet: truncate(firstLine.trim(), SNIPPET_LENGTH) }
+      : undefined,
+  };
+}
+
+function formatNotificationLine(n: NotificationItem): string {
+  const who = n.actor?.name ?? 'Linear';
+  const what = TYPE_LABELS[n.type] ?? n.type;
+  const unread = n.readAt ? '' : ' [unread]';
+  const snippet = n.comment ? `: "${n.comment.snippet}"` : '';
+  return `  - ${n.createdAt.slice(0, 16).replace('T', ' ')} ${who} ${what}${snippet}${unread} (id ${n.id})`;
+}
+
+export const listNotificationsTool = defineTool({
+  name: toolsMetadata.list_notifications.name,
+  title: toolsMetadata.list_notifications.title,
+  description: toolsMetadata.list_notifications.description,
+  inputSchema: ListNotificationsInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const limit = args.limit ?? 50;
+    const status = args.status ?? 'unread';
+
+    const filter: Record<string, unknown> | undefined =
+      args.types && args.types.length > 0 ? { type: { in: args.types } } : undefined;
+
+    // NotificationFilter has no readAt comparator, so read state is filtered here.
+    // Keep reading pages, each sized to what is still missing so the cursor stays
+    // exact, until `limit` notifications match.
+    const matchesStatus = (n: NotificationItem): boolean =>
+      status === 'all' ? true : status === 'unread' ? !n.readAt : Boolean(n.readAt);
+    const items: NotificationItem[] = [];
+    let after = args.cursor;
+    let pageInfo: { hasNextPage?: boolean; endCursor?: string } = {};
+    for (let page = 0; page < MAX_PAGES && items.length < limit; page++) {
+      const resp = await client.client.rawRequest(LIST_QUERY, {
+        first: limit - items.length,
+        after,
+        filter,
+        includeArchived: args.includeArchived,
+      });
+      const conn = (
+        resp as unknown as {
+          data?: {
+            notifications?: {
+              nodes?: Array<Record<string, unknown>>;
+              pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+            };
+          };
+        }
+      ).data?.notifications ?? { nodes: [], pageInfo: {} };
+
+      items.push(...(conn.nodes ?? []).map(toNotificationItem).filter(matchesStatus));
+      pageInfo = conn.pageInfo ?? {};
+      if (!pageInfo.hasNextPage) break;
+      after = pageInfo.endCursor ?? undefined;
+    }
+
+    // Group by issue, keeping the newest-first order of each group's first notification
+    const groupMap = new Map<
+      string,
+      { issue?: NotificationItem['issue']; notifications: NotificationItem[] }
+    >();
+    for (const n of items) {
+      const key = n.issue?.id ?? '';
+      const group = groupMap.get(key) ?? { issue: n.issue, notifications: [] };
+      group.notifications.push(n);
+      groupMap.set(key, group);
+    }
+    const groups = [...groupMap.values()].map((g) => ({
+      issue: g.issue,
+      notificationIds: g.notifications.map((n) => n.id),
+      unread: g.notifications.filter((n) => !n.readAt).length,
+    }));
+
+    const hasMore = pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (pageInfo.endCursor ?? undefined) : undefined;
+
+    const query = {
+      status,
+      types: args.types,
+      includeArchived: args.includeArchived,
+      limit,
+    };
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
+        'Use mark_notifications to mark read, snooze or archive.',
+        'Use get_issues or list_comments for the full context.',
+      ],
+      relatedTools: ['mark_notifications', 'get_issues', 'list_comments'],
+    };
+
+    const structured = ListNotificationsOutputSchema.parse({
+      query,
+      items,
+      groups,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit,
+    });
+
+    const header = summarizeList({
+      subject:
+        status === 'all'
+          ? 'Notifications'
+          : `${status === 'unread' ? 'Unread' : 'Read'} notifications`,
+      count: items.length,
+      limit,
+      nextCursor,
+      zeroReasonHints: [
+        ...(status === 'unread'
+          ? ['the inbox may be fully read; try status="all"']
+          : []),
+        ...(args.types?.length ? ['the types filter may be too narrow'] : []),
+        ...(hasMore ? ['matching notifications may be on the next page'] : []),
+      ],
+      nextSteps: meta.nextSteps,
+    });
+
+    const textParts = [header];
+    for (const g of groupMap.values()) {
+      const heading = g.issue
+        ? g.issue.url
+          ? `[${g.issue.identifier ?? g.issue.id} — ${g.issue.title ?? ''}](${g.issue.url})`
+          : `${g.issue.identifier ?? g.issue.id} '${g.issue.title ?? ''}'`
+        : 'Other';
+      textParts.push(
+        `${heading}\n${g.notifications.map(formatNotificationLine).join('\n')}`,
+      );
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Mark Notifications
+const MarkNotificationsInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().describe('Notification UUID from list_notifications. Required.'),
+        action: z
+          .enum(['read', 'snooze', 'archive'])
+          .describe(
+            "'read' marks it read, 'snooze' hides it until snoozeUntil, 'archive' removes it from the inbox.",
+          ),
+        snoozeUntil: z
+          .string()
+          .optional()
+          .describe(
+            'snooze only: ISO date or datetime to resurface the notification. Required for snooze.',
+          ),
+      }),
+    )
+    .min(1)
+    .max(100)
+    .describe('Notifications to mark.'),
+});
+
+const ACTION_PAST_TENSE = {
+  read: 'marked read',
+  snooze: 'snoozed',
+  archive: 'archived',
+} as const;
+
+export const markNotificationsTool = defineTool({
+  name: toolsMetadata.mark_notifications.name,
+  title: toolsMetadata.mark_notifications.title,
+  description: toolsMetadata.mark_notifications.description,
+  inputSchema: MarkNotificationsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+    const counts = { read: 0, snooze: 0, archive: 0 };
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { id: it.id, action: it.action };
+
+      if (it.action === 'snooze') {
+        if (!it.snoozeUntil || Number.isNaN(new Date(it.snoozeUntil).getTime())) {
+          results.push({
+            input,
+            success: false,
+            id: it.id,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: it.snoozeUntil
+                ? `Invalid snoozeUntil: "${it.snoozeUntil}"`
+                : 'snooze requires snoozeUntil',
+              suggestions: [
+                "Pass an ISO date, e.g. '2025-01-20' or '2025-01-20T09:00:00Z'.",
+              ],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const call = (): Promise<{ success?: boolean }> =>
+          it.action === 'archive'
+            ? client.archiveNotification(it.id)
+            : client.updateNotification(
+                it.id,
+                it.action === 'read'
+                  ? { readAt: new Date() }
+                  : { snoozedUntilAt: new Date(it.snoozeUntil as string) },
+              );
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        const success = payload.success ?? true;
+        if (success) {
+          counts[it.action]++;
+        }
+        results.push({
+          input,
+          success,
+          id: it.id,
+          // Legacy
+          index: i,
+          ok: success,
+        });
+      } catch (error) {
+        await logger.error('mark_notifications', {
+          message: 'Failed to update notification',
+          id: it.id,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          id: it.id,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify the notification id with list_notifications.'],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use list_notifications to see what is left.'],
+      relatedTools: ['list_notifications'],
+    };
+
+    const structured = MarkNotificationsOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Updated notifications',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const breakdown = (Object.keys(counts) as Array<keyof typeof counts>)
+      .filter((k) => counts[k] > 0)
+      .map((k) => `${counts[k]} ${ACTION_PAST_TENSE[k]}`);
+
+    const text =
+      breakdown.length > 0 ? `${summaryLine}\n\n${breakdown.join(', ')}` : summaryLine;
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,479 @@
+/**
+ * Project Milestones tools - list, create, and update milestones within a project.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  CreateProjectMilestonesOutputSchema,
+  ListProjectMilestonesOutputSchema,
+  UpdateProjectMilestonesOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { createToolError, formatErrorMessage } from '../../../utils/errors.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { mapProjectMilestoneNode } from '../../../utils/mappers.js';
+import {
+  previewLinesFromItems,
+  summarizeBatch,
+  summarizeList,
+} from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  identifier?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+// List Project Milestones
+const ListProjectMilestonesInputSchema = z.object({
+  projectId: z.string().describe('Project UUID. Use list_projects to find it.'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Max results. Default: 50.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+const LIST_QUERY = `
+  query ProjectMilestones($projectId: String!, $first: Int!, $after: String) {
+    project(id: $projectId) {
+      id
+      name
+      projectMilestones(first: $first, after: $after) {
+        nodes { id name description targetDate sortOrder progress }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+export const listProjectMilestonesTool = defineTool({
+  name: toolsMetadata.list_project_milestones.name,
+  title: toolsMetadata.list_project_milestones.title,
+  description: toolsMetadata.list_project_milestones.description,
+  inputSchema: ListProjectMilestonesInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const first = args.limit ?? 50;
+
+    const resp = await client.client.rawRequest(LIST_QUERY, {
+      projectId: args.projectId,
+      first,
+      after: args.cursor,
+    });
+    const project = (
+      resp as unknown as {
+        data?: {
+          project?: {
+            id: string;
+            name?: string;
+            projectMilestones?: {
+              nodes?: unknown[];
+              pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+            };
+          } | null;
+        };
+      }
+    ).data?.project;
+
+    if (!project) {
+      const error = createToolError(
+        'PROJECT_NOT_FOUND',
+        `Project "${args.projectId}" not found`,
+      );
+      return {
+        isError: true,
+        content: [{ type: 'text', text: formatErrorMessage(error) }],
+        structuredContent: {
+          error: error.code,
+          message: error.message,
+          hint: error.hint,
+        },
+      };
+    }
+
+    // Roadmap order, as shown in Linear
+    const items = (project.projectMilestones?.nodes ?? [])
+      .map(mapProjectMilestoneNode)
+      .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+
+    const pageInfo = project.projectMilestones?.pageInfo ?? {};
+    const hasMore = pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (pageInfo.endCursor ?? undefined) : undefined;
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit: first,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
+        'Use update_issues with projectMilestoneName to plan issues into a milestone.',
+        'Use list_issues with filter.projectMilestone.id.eq to see milestone issues.',
+      ],
+      relatedTools: [
+        'create_project_milestones',
+        'update_project_milestones',
+        'list_issues',
+      ],
+    };
+
+    const structured = ListProjectMilestonesOutputSchema.parse({
+      project: { id: project.id, name: project.name ?? undefined },
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit: first,
+    });
+
+    const preview = previewLinesFromItems(
+      items as unknown as Record<string, unknown>[],
+      (m) => {
+        const target = m.targetDate ? ` — target ${String(m.targetDate)}` : '';
+        const progress =
+          m.progress !== undefined ? ` — ${String(m.progress)}% done` : '';
+        return `${String(m.name)} (${String(m.id)})${target}${progress}`;
+      },
+    );
+
+    const message = summarizeList({
+      subject: `Milestones in ${project.name ?? project.id}`,
+      count: items.length,
+      limit: first,
+      nextCursor,
+      previewLines: preview,
+      zeroReasonHints: [
+        'the project has no milestones yet (use create_project_milestones)',
+      ],
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [
+      { type: 'text', text: message },
+    ];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Create Project Milestones
+const CreateProjectMilestonesInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        projectId: z.string().describe('Project UUID. Required.'),
+        name: z.string().describe('Milestone name. Required.'),
+        description: z.string().optional().describe('Markdown description.'),
+        targetDate: z.string().optional().describe('Target date (YYYY-MM-DD).'),
+      }),
+    )
+    .min(1)
+    .max(50)
+    .describe('Milestones to create.'),
+});
+
+export const createProjectMilestonesTool = defineTool({
+  name: toolsMetadata.create_project_milestones.name,
+  title: toolsMetadata.create_project_milestones.title,
+  description: toolsMetadata.create_project_milestones.description,
+  inputSchema: CreateProjectMilestonesInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = {
+        projectId: it.projectId,
+        name: it.name,
+        targetDate: it.targetDate,
+      };
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const call = () =>
+          client.createProjectMilestone({
+            projectId: it.projectId,
+            name: it.name,
+            description: it.description,
+            targetDate: it.targetDate,
+          });
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+        const milestone = (await payload.projectMilestone) as
+          | { id?: string; name?: string }
+          | undefined;
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: milestone?.id,
+          identifier: milestone?.name,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('create_project_milestones', {
+          message: 'Failed to create project milestone',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_CREATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify projectId with list_projects.'],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: [
+        'Use list_project_milestones to verify.',
+        'Use update_issues with projectMilestoneName to plan issues into a milestone.',
+      ],
+      relatedTools: [
+        'list_project_milestones',
+        'update_project_milestones',
+        'update_issues',
+      ],
+    };
+
+    const structured = CreateProjectMilestonesOutputSchema.parse({
+      results,
+      summary,
+      meta,
+    });
+
+    const okIds = results
+      .filter((r) => r.ok)
+      .map((r) => r.identifier ?? r.id ?? `item[${String(r.index)}]`);
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Created project milestones',
+      ok: summary.ok,
+      total: args.items.length,
+      okIdentifiers: okIds,
+      failures,
+      nextSteps: [
+        'Use list_project_milestones to verify; update_project_milestones to modify.',
+      ],
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Update Project Milestones
+const UpdateProjectMilestonesInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().describe('Milestone UUID. Required.'),
+        name: z.string().optional().describe('New milestone name.'),
+        description: z.string().optional().describe('New markdown description.'),
+        targetDate: z.string().optional().describe('New target date (YYYY-MM-DD).'),
+      }),
+    )
+    .min(1)
+    .max(50)
+    .describe('Milestones to update.'),
+});
+
+export const updateProjectMilestonesTool = defineTool({
+  name: toolsMetadata.update_project_milestones.name,
+  title: toolsMetadata.update_project_milestones.title,
+  description: toolsMetadata.update_project_milestones.description,
+  inputSchema: UpdateProjectMilestonesInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { id: it.id, name: it.name, targetDate: it.targetDate };
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const updatePayload: Record<string, unknown> = {};
+        if (it.name) updatePayload.name = it.name;
+        if (it.description) updatePayload.description = it.description;
+        if (it.targetDate) updatePayload.targetDate = it.targetDate;
+
+        const call = () => client.updateProjectMilestone(it.id, updatePayload);
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: it.id,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('update_project_milestones', {
+          message: 'Failed to update project milestone',
+          id: it.id,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          id: it.id,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify milestone ID with list_project_milestones.'],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use list_project_milestones to verify changes.'],
+      relatedTools: ['list_project_milestones', 'list_projects'],
+    };
+
+    const structured = UpdateProjectMilestonesOutputSchema.parse({
+      results,
+      summary,
+      meta,
+    });
+
+    const okIds = results
+      .filter((r) => r.ok)
+      .map((r) => r.id ?? `item[${String(r.index)}]`);
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Updated project milestones',
+      ok: summary.ok,
+      total: args.items.length,
+      okIdentifiers: okIds,
+      failures,
+      nextSteps: ['Call list_project_milestones to verify changes.'],
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,364 @@
+/**
+ * Project Updates tools - list and post project status updates (health posts).
+ */
+
+import type { LinearDocument } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  CreateProjectUpdatesOutputSchema,
+  ListProjectUpdatesOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { createToolError, formatErrorMessage } from '../../../utils/errors.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import {
+  previewLinesFromItems,
+  summarizeBatch,
+  summarizeList,
+} from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+const HEALTH_VALUES = ['onTrack', 'atRisk', 'offTrack'] as const;
+
+const HEALTH_LABELS: Record<string, string> = {
+  onTrack: 'On track',
+  atRisk: 'At risk',
+  offTrack: 'Off track',
+};
+
+// List Project Updates
+const ListProjectUpdatesInputSchema = z.object({
+  projectId: z.string().describe('Project UUID. Use list_projects to find it.'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Max results. Default: 10.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+const LIST_QUERY = `
+  query ProjectUpdates($projectId: String!, $first: Int!, $after: String) {
+    project(id: $projectId) {
+      id
+      name
+      health
+      projectUpdates(first: $first, after: $after) {
+        nodes {
+          id
+          body
+          health
+          createdAt
+          url
+          user { id name }
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+type ProjectUpdateNode = {
+  id: string;
+  body?: string | null;
+  health?: string | null;
+  createdAt: string;
+  url?: string | null;
+  user?: { id: string; name?: string | null } | null;
+};
+
+export const listProjectUpdatesTool = defineTool({
+  name: toolsMetadata.list_project_updates.name,
+  title: toolsMetadata.list_project_updates.title,
+  description: toolsMetadata.list_project_updates.description,
+  inputSchema: ListProjectUpdatesInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const first = args.limit ?? 10;
+
+    const resp = await client.client.rawRequest(LIST_QUERY, {
+      projectId: args.projectId,
+      first,
+      after: args.cursor,
+    });
+    const project = (
+      resp as unknown as {
+        data?: {
+          project?: {
+            id: string;
+            name?: string;
+            health?: string | null;
+            projectUpdates?: {
+              nodes?: ProjectUpdateNode[];
+              pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+            };
+          } | null;
+        };
+      }
+    ).data?.project;
+
+    if (!project) {
+      const error = createToolError(
+        'PROJECT_NOT_FOUND',
+        `Project "${args.projectId}" not found`,
+      );
+      return {
+        isError: true,
+        content: [{ type: 'text', text: formatErrorMessage(error) }],
+        structuredContent: {
+          error: error.code,
+          message: error.message,
+          hint: error.hint,
+        },
+      };
+    }
+
+    const items = (project.projectUpdates?.nodes ?? []).map((u) => ({
+      id: u.id,
+      body: u.body ?? '',
+      health: u.health ?? undefined,
+      createdAt: String(u.createdAt),
+      url: u.url ?? undefined,
+      user: u.user ? { id: u.user.id, name: u.user.name ?? undefined } : undefined,
+    }));
+
+    const pageInfo = project.projectUpdates?.pageInfo ?? {};
+    const hasMore = pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (pageInfo.endCursor ?? undefined) : undefined;
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit: first,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore
+          ? [`Call again with cursor="${nextCursor}" for older updates.`]
+          : []),
+        'Use create_project_updates to post the next update.',
+        'Use list_issues with projectId to review activity since the last update.',
+      ],
+      relatedTools: ['create_project_updates', 'list_projects', 'list_issues'],
+    };
+
+    const structured = ListProjectUpdatesOutputSchema.parse({
+      project: {
+        id: project.id,
+        name: project.name ?? undefined,
+        health: project.health ?? undefined,
+      },
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit: first,
+    });
+
+    const preview = previewLinesFromItems(
+      items as unknown as Record<string, unknown>[],
+      (u) => {
+        const health = u.health
+          ? (HEALTH_LABELS[String(u.health)] ?? String(u.health))
+          : 'No health';
+        const author = (u.user as { name?: string } | undefined)?.name ?? 'Unknown';
+        const firstLine =
+          String(u.body)
+            .split('\n')
+            .find((l) => l.trim()) ?? '';
+        return `${String(u.createdAt).slice(0, 10)} — ${health} — ${author}: ${firstLine.slice(0, 120)}`;
+      },
+    );
+
+    const message = summarizeList({
+      subject: `Updates for ${project.name ?? project.id} (newest first)`,
+      count: items.length,
+      limit: first,
+      nextCursor,
+      previewLines: preview,
+      zeroReasonHints: [
+        'no status updates have been posted yet (use create_project_updates)',
+      ],
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [
+      { type: 'text', text: message },
+    ];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Create Project Updates
+const CreateProjectUpdatesInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        projectId: z.string().describe('Project UUID. Required.'),
+        body: z.string().min(1).describe('Update content in markdown. Required.'),
+        health: z
+          .enum(HEALTH_VALUES)
+          .optional()
+          .describe("Project health: 'onTrack', 'atRisk' or 'offTrack'."),
+      }),
+    )
+    .min(1)
+    .max(20)
+    .describe('Project updates to post.'),
+});
+
+export const createProjectUpdatesTool = defineTool({
+  name: toolsMetadata.create_project_updates.name,
+  title: toolsMetadata.create_project_updates.title,
+  description: toolsMetadata.create_project_updates.description,
+  inputSchema: CreateProjectUpdatesInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: {
+      input: Record<string, unknown>;
+      success: boolean;
+      id?: string;
+      url?: string;
+      error?: { code: string; message: string; suggestions?: string[] };
+      index: number;
+      ok: boolean;
+    }[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { projectId: it.projectId, health: it.health };
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const call = () =>
+          client.createProjectUpdate({
+            projectId: it.projectId,
+            body: it.body,
+            health: it.health as LinearDocument.ProjectUpdateHealthType | undefined,
+          });
+
+        const payload = await withRetry(
+          () => (args.items.length > 1 ? gate(call) : call()),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+        const update = (await payload.projectUpdate) as
+          | { id?: string; url?: string }
+          | undefined;
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: update?.id,
+          url: update?.url,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+      } catch (error) {
+        await logger.error('create_project_updates', {
+          message: 'Failed to create project update',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_CREATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify projectId with list_projects.'],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: [
+        'Use list_project_updates to verify.',
+        'Use list_projects to see current health.',
+      ],
+      relatedTools: ['list_project_updates', 'list_projects'],
+    };
+
+    const structured = CreateProjectUpdatesOutputSchema.parse({
+      results,
+      summary,
+      meta,
+    });
+
+    const okIds = results
+      .filter((r) => r.ok)
+      .map((r) => r.url ?? r.id ?? `item[${String(r.index)}]`);
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const text = summarizeBatch({
+      action: 'Posted project updates',
+      ok: summary.ok,
+      total: args.items.length,
+      okIdentifiers: okIds,
+      failures,
+      nextSteps: ['Use list_project_updates to verify.'],
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -2,6 +2,7 @@
  * Projects tools - list, create, and update projects.
  */
 
+import type { LinearClient } from '@linear/sdk';
 import { z } from 'zod';
 import { toolsMetadata } from '../../../config/metadata.js';
 import { config } from '../../../config/env.js';
@@ -13,10 +14,65 @@ import {
 import { getLinearClient } from '../../../services/linear/client.js';
 import { makeConcurrencyGate, withRetry, delay } from '../../../utils/limits.js';
 import { logger } from '../../../utils/logger.js';
-import { mapProjectNodeToListItem } from '../../../utils/mappers.js';
+import { mapProjectMilestoneNode, mapProjectNodeToListItem } from '../../../utils/mappers.js';
 import { summarizeBatch, summarizeList, previewLinesFromItems } from '../../../utils/messages.js';
 import { defineTool, type ToolContext, type ToolResult } from '../types.js';
 
+const PROJECT_MILESTONES_QUERY = `
+  query ProjectMilestonesByProject($ids: [ID!]) {
+    projects(filter: { id: { in: $ids } }, first: 100) {
+      nodes {
+        id
+        projectMilestones(first: 50) {
+          nodes { id name targetDate sortOrder progress }
+        }
+      }
+    }
+  }
+`;
+
+type MilestoneSummary = { id: string; name: string; targetDate?: string; progress?: number };
+
+/**
+ * Fetch milestones for a page of projects in one request (avoids N+1 lazy loading).
+ * Milestones are supplementary, so failures yield an empty map.
+ */
+async function fetchMilestonesByProject(
+  client: LinearClient,
+  projectIds: string[],
+): Promise<Map<string, MilestoneSummary[]>> {
+  const byProject = new Map<string, MilestoneSummary[]>();
+  if (projectIds.length === 0) {
+    return byProject;
+  }
+  try {
+    const resp = await client.client.rawRequest(PROJECT_MILESTONES_QUERY, { ids: projectIds });
+    const nodes =
+      (
+        resp as unknown as {
+          data?: {
+            projects?: {
+              nodes?: Array<{ id: string; projectMilestones?: { nodes?: unknown[] } }>;
+            };
+          };
+        }
+      ).data?.projects?.nodes ?? [];
+    for (const project of nodes) {
+      const milestones = (project.projectMilestones?.nodes ?? [])
+        .map(mapProjectMilestoneNode)
+        .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0))
+        .map(({ id, name, targetDate, progress }) => ({ id, name, targetDate, progress }));
+      byProject.set(project.id, milestones);
+    }
+  } catch (error) {
+    await logger.error('list_projects', {
+      message: 'Failed to fetch project milestones',
+      error: (error as Error).message,
+    });
+  }
+  return byProject;
+}
+
 // List Projects
 const ListProjectsInputSchema = z.object({
   limit: z
@@ -64,7 +120,13 @@ export const listProjectsTool = defineTool({
       includeArchived: args.includeArchived,
     });
     
-    const items = conn.nodes.map((p) => mapProjectNodeToListItem(p));
+    const milestonesByProject = await fetchMilestonesByProject(
+      client,
+      conn.nodes.map((p) => p.id),
+    );
+    const items = conn.nodes.map((p) =>
+      mapProjectNodeToListItem(p, milestonesByProject.get(p.id)),
+    );
     
     const pageInfo = conn.pageInfo;
     const hasMore = pageInfo?.hasNextPage ?? false;
@@ -90,9 +152,11 @@ export const listProjectsTool = defineTool({
       nextSteps: [
         ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
         'Use update_projects to modify state or details.',
+        'Use list_project_milestones for milestone details.',
+        'Use list_project_updates to read status updates behind the health value.',
         'Use list_issues with projectId to see project issues.',
       ],
-      relatedTools: ['update_projects', 'list_issues', 'create_projects'],
+      relatedTools: ['update_projects', 'list_issues', 'create_projects', 'list_project_milestones'],
     };
 
     const structured = ListProjectsOutputSchema.parse({
@@ -108,8 +172,17 @@ export const listProjectsTool = defineTool({
     
     const preview = previewLinesFromItems(
       items as unknown as Record<string, unknown>[],
-      (p) =>
-        `${String((p.name as string) ?? '')} (${p.id}) — state ${String((p.state as string) ?? '')}`,
+      (p) => {
+        const milestones = (p.milestones as MilestoneSummary[] | undefined) ?? [];
+        const milestoneText =
+          milestones.length > 0
+            ? ` — milestones: ${milestones
+                .map((m) => `${m.name}${m.progress !== undefined ? ` ${m.progress}%` : ''}`)
+                .join(', ')}`
+            : '';
+        const healthText = p.health ? ` — health ${String(p.health)}` : '';
+        return `${String((p.name as string) ?? '')} (${p.id}) — state ${String((p.state as string) ?? '')}${healthText}${milestoneText}`;
+      },
     );
     
     const message = summarizeList({
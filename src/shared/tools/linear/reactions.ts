@@ -0,0 +1,294 @@
+/**
+ * Reactions tool - add/remove emoji reactions on issues and comments in batch.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { ManageReactionsOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch } from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+const ReactionItem = z.object({
+  action: z
+    .enum(['add', 'remove'])
+    .describe("'add' reacts, 'remove' takes your reaction back."),
+  issueId: z
+    .string()
+    .optional()
+    .describe('Issue UUID or identifier (e.g. ENG-123). Provide issueId or commentId.'),
+  commentId: z
+    .string()
+    .optional()
+    .describe('Comment UUID. Provide issueId or commentId.'),
+  emoji: z
+    .string()
+    .min(1)
+    .describe(
+      "Emoji name, e.g. 'thumbsup', 'eyes', 'white_check_mark'. Surrounding colons are ignored.",
+    ),
+});
+
+const InputSchema = z.object({
+  items: z.array(ReactionItem).min(1).max(50).describe('Reactions to add or remove.'),
+});
+
+const REACTIONS_QUERY = `
+  query ReactionTarget($id: String!, $isComment: Boolean!) {
+    issue(id: $id) @skip(if: $isComment) {
+      id
+      identifier
+      reactions { id emoji user { id } }
+    }
+    comment(id: $id) @include(if: $isComment) {
+      id
+      reactions { id emoji user { id } }
+    }
+  }
+`;
+
+type ReactionTarget = {
+  id: string;
+  identifier?: string;
+  reactions?: Array<{ id: string; emoji: string; user?: { id: string } | null }>;
+};
+
+function normalizeEmoji(emoji: string): string {
+  return emoji.trim().replace(/^:+|:+$/g, '');
+}
+
+export const manageReactionsTool = defineTool({
+  name: toolsMetadata.manage_reactions.name,
+  title: toolsMetadata.manage_reactions.title,
+  description: toolsMetadata.manage_reactions.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: Array<{
+      input: Record<string, unknown>;
+      success: boolean;
+      id?: string;
+      error?: { code: string; message: string; suggestions?: string[] };
+      index: number;
+      ok: boolean;
+    }> = [];
+    const detailLines: string[] = [];
+
+    let viewerId: string | undefined;
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const emoji = normalizeEmoji(it.emoji);
+      const input = {
+        action: it.action,
+        issueId: it.issueId,
+        commentId: it.commentId,
+        emoji,
+      };
+
+      if (Boolean(it.issueId) === Boolean(it.commentId)) {
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Provide exactly one of issueId or commentId',
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const isComment = Boolean(it.commentId);
+        const resp = await gate(() =>
+          client.client.rawRequest(REACTIONS_QUERY, {
+            id: (it.commentId ?? it.issueId) as string,
+            isComment,
+          }),
+        );
+        const data = (
+          resp as unknown as {
+            data?: { issue?: ReactionTarget | null; comment?: ReactionTarget | null };
+          }
+        ).data;
+        const target = isComment ? data?.comment : data?.issue;
+        const targetLabel = isComment
+          ? `comment ${it.commentId}`
+          : (target?.identifier ?? it.issueId ?? '');
+
+        if (!target) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: isComment ? 'COMMENT_NOT_FOUND' : 'ISSUE_NOT_FOUND',
+              message: `${isComment ? 'Comment' : 'Issue'} "${it.commentId ?? it.issueId}" not found`,
+              suggestions: [
+                isComment
+                  ? 'Use list_comments to find comment ids.'
+                  : 'Use list_issues or get_issues to verify identifiers.',
+              ],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        if (!viewerId) {
+          viewerId = (await client.viewer).id;
+        }
+        const mine = (target.reactions ?? []).find(
+          (r) => r.emoji === emoji && r.user?.id === viewerId,
+        );
+
+        if (it.action === 'add') {
+          // Reacting twice with the same emoji is a no-op in Linear; report the existing one
+          if (mine) {
+            results.push({ input, success: true, id: mine.id, index: i, ok: true });
+            detailLines.push(`- Already reacted :${emoji}: on ${targetLabel}`);
+            continue;
+          }
+          const payload = await withRetry(
+            () =>
+              gate(() =>
+                client.createReaction(
+                  isComment
+                    ? { emoji, commentId: target.id }
+                    : { emoji, issueId: target.id },
+                ),
+              ),
+            { maxRetries: 3, baseDelayMs: 500 },
+          );
+          results.push({
+            input,
+            success: payload.success ?? true,
+            id: payload.reaction?.id,
+            index: i,
+            ok: payload.success ?? true,
+          });
+          detailLines.push(`- Added :${emoji}: on ${targetLabel}`);
+          continue;
+        }
+
+        if (!mine) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'REACTION_NOT_FOUND',
+              message: `You have no :${emoji}: reaction on ${targetLabel}`,
+              suggestions: ['Only your own reactions can be removed.'],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        const payload = await withRetry(
+          () => gate(() => client.deleteReaction(mine.id)),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: mine.id,
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(`- Removed :${emoji}: from ${targetLabel}`);
+      } catch (error) {
+        await logger.error('manage_reactions', {
+          message: 'Failed to update reaction',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: it.action === 'add' ? 'LINEAR_CREATE_ERROR' : 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Check the emoji name and the issue or comment id.'],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use list_comments to see comments and their ids.'],
+      relatedTools: ['list_comments', 'get_issues', 'add_comments'],
+    };
+
+    const structured = ManageReactionsOutputSchema.parse({
+      results,
+      summary,
+      meta,
+    });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.commentId ?? r.input.issueId ?? ''),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Updated reactions',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,287 @@
+/**
+ * Issue Relations tool - add/remove blocks, duplicate and related links in batch.
+ */
+
+import type { LinearDocument } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { ManageIssueRelationsOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch } from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { fetchIssueRelations, type IssueRelationKind } from './shared/index.js';
+
+const RelationItem = z.object({
+  action: z
+    .enum(['add', 'remove'])
+    .describe("'add' creates the relation, 'remove' deletes it."),
+  issueId: z.string().describe('Issue UUID or identifier (e.g. ENG-123).'),
+  type: z
+    .enum(['blocks', 'blocked_by', 'duplicate', 'related'])
+    .describe(
+      "Relation from issueId's point of view: 'blocks' (issueId blocks relatedIssueId), " +
+        "'blocked_by' (relatedIssueId blocks issueId), 'duplicate' (issueId is a duplicate of relatedIssueId), 'related'.",
+    ),
+  relatedIssueId: z.string().describe('Other issue UUID or identifier (e.g. ENG-456).'),
+});
+
+const InputSchema = z.object({
+  items: z.array(RelationItem).min(1).max(50).describe('Relations to add or remove.'),
+});
+
+type RelationInput = z.infer<typeof RelationItem>;
+
+/**
+ * Normalize an input relation to Linear's directed form.
+ * "blocked_by" is stored as the other issue blocking this one.
+ */
+function toDirectedRelation(it: RelationInput): {
+  sourceRef: string;
+  targetRef: string;
+  linearType: 'blocks' | 'duplicate' | 'related';
+  kind: IssueRelationKind;
+} {
+  if (it.type === 'blocked_by') {
+    return {
+      sourceRef: it.relatedIssueId,
+      targetRef: it.issueId,
+      linearType: 'blocks',
+      kind: 'blocks',
+    };
+  }
+  if (it.type === 'duplicate') {
+    return {
+      sourceRef: it.issueId,
+      targetRef: it.relatedIssueId,
+      linearType: 'duplicate',
+      kind: 'duplicate_of',
+    };
+  }
+  return {
+    sourceRef: it.issueId,
+    targetRef: it.relatedIssueId,
+    linearType: it.type,
+    kind: it.type,
+  };
+}
+
+export const manageIssueRelationsTool = defineTool({
+  name: toolsMetadata.manage_issue_relations.name,
+  title: toolsMetadata.manage_issue_relations.title,
+  description: toolsMetadata.manage_issue_relations.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: Array<{
+      input: Record<string, unknown>;
+      success: boolean;
+      id?: string;
+      error?: { code: string; message: string; suggestions?: string[] };
+      index: number;
+      ok: boolean;
+    }> = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i] as RelationInput;
+      const input = {
+        action: it.action,
+        issueId: it.issueId,
+        type: it.type,
+        relatedIssueId: it.relatedIssueId,
+      };
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const { sourceRef, targetRef, linearType, kind } = toDirectedRelation(it);
+
+        // Resolve identifiers (ENG-123) to issues so relations use UUIDs
+        const [source, target] = await Promise.all([
+          gate(() => client.issue(sourceRef)),
+          gate(() => client.issue(targetRef)),
+        ]);
+        if (!source || !target) {
+          const missing = !source ? sourceRef : targetRef;
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'ISSUE_NOT_FOUND',
+              message: `Issue "${missing}" not found`,
+              suggestions: ['Use list_issues or get_issues to verify identifiers.'],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+        if (source.id === target.id) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'An issue cannot be related to itself',
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        const sourceIdf = source.identifier ?? source.id;
+        const targetIdf = target.identifier ?? target.id;
+        const phrase =
+          linearType === 'duplicate'
+            ? `${sourceIdf} duplicate of ${targetIdf}`
+            : `${sourceIdf} ${linearType === 'blocks' ? 'blocks' : 'related to'} ${targetIdf}`;
+
+        if (it.action === 'add') {
+          const payload = await withRetry(
+            () =>
+              gate(() =>
+                client.createIssueRelation({
+                  issueId: source.id,
+                  relatedIssueId: target.id,
+                  type: linearType as LinearDocument.IssueRelationType,
+                }),
+              ),
+            { maxRetries: 3, baseDelayMs: 500 },
+          );
+          const relation = await payload.issueRelation;
+
+          results.push({
+            input,
+            success: payload.success ?? true,
+            id: relation?.id,
+            index: i,
+            ok: payload.success ?? true,
+          });
+          detailLines.push(`- Added: ${phrase}`);
+          continue;
+        }
+
+        // Remove: find the existing relation from the source issue's side
+        const existing = (
+          await gate(() => fetchIssueRelations(client, source.id))
+        ).find((r) => r.type === kind && r.issueId === target.id);
+        if (!existing) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'RELATION_NOT_FOUND',
+              message: `No existing relation: ${phrase}`,
+              suggestions: ['Use get_issues to see current relations of both issues.'],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        const payload = await withRetry(
+          () => gate(() => client.deleteIssueRelation(existing.id)),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: existing.id,
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(`- Removed: ${phrase}`);
+      } catch (error) {
+        await logger.error('manage_issue_relations', {
+          message: 'Failed to update issue relation',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: it.action === 'add' ? 'LINEAR_CREATE_ERROR' : 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: ['Verify both issue ids with get_issues.'],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use get_issues to verify relations.'],
+      relatedTools: ['get_issues', 'update_issues', 'list_issues'],
+    };
+
+    const structured = ManageIssueRelationsOutputSchema.parse({
+      results,
+      summary,
+      meta,
+    });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.issueId),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Updated relations',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    textParts.push('Tip: Use get_issues to see all relations of an issue.');
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,34 @@
+/**
+ * Confirmation for destructive tools (elicitation when the client supports it)
+ */
+
+import {
+  clientSupportsFormElicitation,
+  confirm,
+} from '../../../../utils/elicitation.js';
+import type { ToolContext } from '../../types.js';
+
+export type ConfirmationOutcome = 'confirmed' | 'declined' | 'not_asked';
+
+/**
+ * Ask the user to confirm a destructive action.
+ * Returns 'not_asked' when the client cannot be asked (no elicitation support, or
+ * the Workers runtime without a server); callers proceed in that case.
+ * A failed elicitation request counts as declined.
+ */
+export async function confirmDestructiveAction(
+  context: ToolContext,
+  message: string,
+  confirmLabel: string,
+): Promise<ConfirmationOutcome> {
+  const server = context.server;
+  if (!server || !clientSupportsFormElicitation(server)) {
+    return 'not_asked';
+  }
+  try {
+    const confirmed = await confirm(server, message, { confirmLabel });
+    return confirmed ? 'confirmed' : 'declined';
+  } catch {
+    return 'declined';
+  }
+}
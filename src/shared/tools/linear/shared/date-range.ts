@@ -0,0 +1,13 @@
+/**
+ * Date range helpers for report tools
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * End of a range in ms; a date-only value such as "2025-01-31" covers that whole day
+ */
+export function rangeEnd(value: string): number {
+  const ms = new Date(value).getTime();
+  return /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? ms + DAY_MS - 1 : ms;
+}
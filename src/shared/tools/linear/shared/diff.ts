@@ -154,6 +154,39 @@ export function formatDiffLine(issue: IssueSnapshot, changes: FieldChanges): str
 
   const header = `- ${title} (id ${issue.id})`;
 
+  const changeParts = formatChangeParts(changes);
+
+  if (changeParts.length === 0) {
+    return header;
+  }
+
+  return `${header}\n  ${changeParts.join('\n  ')}`;
+}
+
+/**
+ * Format an issue history entry: when and who, then before → after parts
+ */
+export function formatHistoryEntryLine(entry: {
+  createdAt: string;
+  actorName?: string;
+  changes: FieldChanges;
+}): string {
+  const when = entry.createdAt.replace('T', ' ').slice(0, 16);
+  const header = `- ${when} — ${entry.actorName ?? 'System'}`;
+
+  const changeParts = formatChangeParts(entry.changes);
+
+  if (changeParts.length === 0) {
+    return header;
+  }
+
+  return `${header}\n  ${changeParts.join('\n  ')}`;
+}
+
+/**
+ * Format field changes as "Field: before → after" parts
+ */
+export function formatChangeParts(changes: FieldChanges): string[] {
   const changeParts: string[] = [];
 
   if (changes.title) {
@@ -211,11 +244,7 @@ export function formatDiffLine(issue: IssueSnapshot, changes: FieldChanges): str
     );
   }
 
-  if (changeParts.length === 0) {
-    return header;
-  }
-
-  return `${header}\n  ${changeParts.join('\n  ')}`;
+  return changeParts;
 }
 
 
@@ -2,7 +2,13 @@
  * Shared formatting utilities for issue tools
  */
 
-import type { DetailLevel, FormattingOptions, IssueListItem } from './types.js';
+import type {
+  DetailLevel,
+  FormattingOptions,
+  IssueListItem,
+  IssueRelationKind,
+  IssueRelationSummary,
+} from './types.js';
 
 /**
  * Format priority as human-readable label
@@ -20,6 +26,19 @@ function formatPriority(priority: number | undefined): string | undefined {
   return labels[priority] ?? `P${priority}`;
 }
 
+/**
+ * Format an issue as a markdown link labelled with its identifier and title
+ * (plain text when the issue has no url)
+ */
+export function formatIssueLink(
+  issue: Pick<IssueListItem, 'id' | 'identifier' | 'title' | 'url'>,
+): string {
+  const idf = issue.identifier ?? issue.id;
+  return issue.url
+    ? `[${idf} — ${issue.title}](${issue.url})`
+    : `${idf} '${issue.title}'`;
+}
+
 /**
  * Format a single issue as a preview line with key metadata
  * Respects detail level:
@@ -31,10 +50,7 @@ export function formatIssuePreviewLine(
   issue: IssueListItem,
   detail: DetailLevel = 'standard',
 ): string {
-  const idf = issue.identifier ?? issue.id;
-  const title = issue.url
-    ? `[${idf} — ${issue.title}](${issue.url})`
-    : `${idf} '${issue.title}'`;
+  const title = formatIssueLink(issue);
 
   const parts: string[] = [];
   const state = issue.stateName ?? issue.stateId;
@@ -64,6 +80,12 @@ export function formatIssuePreviewLine(
     parts.push(`assignee ${assignee}`);
   }
 
+  if (issue.customerCount) {
+    parts.push(
+      `customers ${issue.customerCount}${issue.customerCountTruncated ? '+' : ''}`,
+    );
+  }
+
   // Full: add labels
   if (detail === 'full') {
     const labels = issue.labels
@@ -117,21 +139,49 @@ ${header}
 
   const due = issue.dueDate ? `\n  due: ${issue.dueDate}` : '';
 
-  // Full: + labels, description
+  // Full: + labels, relations, description
   let lab = '';
+  let rel = '';
   let desc = '';
   if (detail === 'full') {
     const labels = issue.labels.map((l) => l.name).join(', ');
     lab = labels ? `\n  labels: ${labels}` : '';
+    rel = formatRelationsSummary(issue.relations ?? [])
+      .map((line) => `\n  ${line}`)
+      .join('');
     desc = formatDescription(issue.description, options);
   }
 
   return `<ove id="${issue.id}" identifier="${idf}">
 ${header}
-  state: ${state} (${issue.stateId})${pri}${proj}${asg}${due}${lab}${desc}
+  state: ${state} (${issue.stateId})${pri}${proj}${asg}${due}${lab}${rel}${desc}
 </ove>`;
 }
 
+/**
+ * Group relations by kind, e.g. ["blocked by: ENG-1, ENG-2", "related to: ENG-9"]
+ */
+export function formatRelationsSummary(relations: IssueRelationSummary[]): string[] {
+  const kindLabels: Record<IssueRelationKind, string> = {
+    blocks: 'blocks',
+    blocked_by: 'blocked by',
+    duplicate_of: 'duplicate of',
+    duplicated_by: 'duplicated by',
+    related: 'related to',
+  };
+
+  const grouped = new Map<IssueRelationKind, string[]>();
+  for (const r of relations) {
+    const ids = grouped.get(r.type) ?? [];
+    ids.push(r.identifier ?? r.issueId);
+    grouped.set(r.type, ids);
+  }
+
+  return Array.from(grouped.entries()).map(
+    ([kind, ids]) => `${kindLabels[kind]}: ${ids.join(', ')}`,
+  );
+}
+
 /**
  * Format description based on options (full or snippet)
  */
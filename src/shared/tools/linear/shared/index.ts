@@ -4,6 +4,12 @@ export * from './cache.js';
 export * from './validation.js';
 export * from './diff.js';
 export * from './snapshots.js';
+export * from './relations.js';
+export * from './initiatives.js';
+export * from './templates.js';
+export * from './confirmation.js';
+export * from './issue-pages.js';
+export * from './date-range.js';
 
 
 
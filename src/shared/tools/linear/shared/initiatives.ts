@@ -0,0 +1,110 @@
+/**
+ * Initiative helpers (roadmap level above projects)
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import type { InitiativeSummary } from './types.js';
+
+// Projects are fetched inline to avoid N+1 lazy loading per initiative
+const INITIATIVES_QUERY = `
+  query Initiatives(
+    $first: Int!
+    $after: String
+    $filter: InitiativeFilter
+    $includeArchived: Boolean
+    $projectLimit: Int!
+  ) {
+    initiatives(first: $first, after: $after, filter: $filter, includeArchived: $includeArchived) {
+      nodes {
+        id
+        name
+        description
+        status
+        health
+        targetDate
+        url
+        owner { id name }
+        projects(first: $projectLimit) {
+          nodes { id name state health progress }
+          pageInfo { hasNextPage }
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+type InitiativeNode = {
+  id: string;
+  name: string;
+  description?: string | null;
+  status?: string | null;
+  health?: string | null;
+  targetDate?: string | null;
+  url?: string | null;
+  owner?: { id: string; name?: string | null } | null;
+  projects?: {
+    nodes?: Array<{
+      id: string;
+      name: string;
+      state?: string | null;
+      health?: string | null;
+      progress?: number | null;
+    }>;
+    pageInfo?: { hasNextPage?: boolean };
+  };
+};
+
+/**
+ * Fetch a page of initiatives with their projects in a single request
+ */
+export async function fetchInitiatives(
+  client: LinearClient,
+  params: {
+    first: number;
+    after?: string;
+    filter?: Record<string, unknown>;
+    includeArchived?: boolean;
+    projectLimit: number;
+  },
+): Promise<{ items: InitiativeSummary[]; hasMore: boolean; endCursor?: string }> {
+  const resp = await client.client.rawRequest(INITIATIVES_QUERY, params);
+  const conn = (
+    resp as unknown as {
+      data?: {
+        initiatives?: {
+          nodes?: InitiativeNode[];
+          pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+        };
+      };
+    }
+  ).data?.initiatives;
+
+  const items = (conn?.nodes ?? []).map((n) => ({
+    id: n.id,
+    name: n.name,
+    description: n.description ?? undefined,
+    status: n.status ?? undefined,
+    health: n.health ?? undefined,
+    targetDate: n.targetDate ?? undefined,
+    url: n.url ?? undefined,
+    ownerId: n.owner?.id ?? undefined,
+    ownerName: n.owner?.name ?? undefined,
+    projects: (n.projects?.nodes ?? []).map((p) => ({
+      id: p.id,
+      name: p.name,
+      state: p.state ?? undefined,
+      health: p.health ?? undefined,
+      // Linear reports progress as a 0-1 fraction
+      progress:
+        typeof p.progress === 'number' ? Math.round(p.progress * 100) : undefined,
+    })),
+    hasMoreProjects: n.projects?.pageInfo?.hasNextPage ?? false,
+  }));
+
+  return {
+    items,
+    hasMore: conn?.pageInfo?.hasNextPage ?? false,
+    endCursor: conn?.pageInfo?.endCursor ?? undefined,
+  };
+}
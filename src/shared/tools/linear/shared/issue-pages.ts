@@ -0,0 +1,84 @@
+/**
+ * Paginated issue fetching for report tools (same raw query shape as list_issues)
+ */
+
+import type { LinearClient } from '@linear/sdk';
+
+const PAGE_SIZE = 100;
+
+export interface FetchAllIssuesOptions {
+  /** GraphQL selection for each issue node */
+  fields: string;
+  filter?: Record<string, unknown>;
+  includeArchived?: boolean;
+  /** Stop after this many issues; the result is marked truncated */
+  maxIssues: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch every issue matching a filter, following pageInfo cursors until done
+ * or maxIssues is reached.
+ */
+export async function fetchAllIssues<T = Record<string, unknown>>(
+  client: LinearClient,
+  options: FetchAllIssuesOptions,
+): Promise<{ nodes: T[]; truncated: boolean }> {
+  const query = `
+    query PagedIssues(
+      $first: Int!,
+      $after: String,
+      $filter: IssueFilter,
+      $includeArchived: Boolean
+    ) {
+      issues(
+        first: $first,
+        after: $after,
+        filter: $filter,
+        includeArchived: $includeArchived
+      ) {
+        nodes {
+          ${options.fields}
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  `;
+
+  const nodes: T[] = [];
+  let after: string | undefined;
+  let truncated = false;
+
+  do {
+    if (options.signal?.aborted) {
+      throw new Error('Operation aborted');
+    }
+
+    const resp = await client.client.rawRequest(query, {
+      first: Math.min(PAGE_SIZE, options.maxIssues - nodes.length),
+      after,
+      filter: options.filter,
+      includeArchived: options.includeArchived ?? false,
+    });
+    const conn = (
+      resp as unknown as {
+        data?: {
+          issues?: {
+            nodes?: T[];
+            pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+          };
+        };
+      }
+    ).data?.issues;
+
+    nodes.push(...(conn?.nodes ?? []));
+    after = conn?.pageInfo?.hasNextPage ? conn.pageInfo.endCursor : undefined;
+
+    if (after && nodes.length >= options.maxIssues) {
+      truncated = true;
+      break;
+    }
+  } while (after);
+
+  return { nodes, truncated };
+}
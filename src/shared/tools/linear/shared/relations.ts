@@ -0,0 +1,85 @@
+/**
+ * Issue relation helpers (blocks, duplicates, related)
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import type { IssueRelationKind, IssueRelationSummary } from './types.js';
+
+// Single query for both directions to avoid N+1 lazy loading per relation
+const ISSUE_RELATIONS_QUERY = `
+  query IssueRelations($id: String!) {
+    issue(id: $id) {
+      id
+      relations(first: 100) {
+        nodes { id type relatedIssue { id identifier title url } }
+      }
+      inverseRelations(first: 100) {
+        nodes { id type issue { id identifier title url } }
+      }
+    }
+  }
+`;
+
+type RelatedIssueNode = {
+  id?: string;
+  identifier?: string;
+  title?: string;
+  url?: string;
+};
+
+/**
+ * Map a Linear relation type to the kind seen from the described issue
+ */
+function toRelationKind(type: string, inverse: boolean): IssueRelationKind {
+  if (type === 'blocks') return inverse ? 'blocked_by' : 'blocks';
+  if (type === 'duplicate') return inverse ? 'duplicated_by' : 'duplicate_of';
+  return 'related';
+}
+
+/**
+ * Fetch outgoing and inverse relations of an issue.
+ * Query failures propagate so callers can tell them apart from "no relations".
+ */
+export async function fetchIssueRelations(
+  client: LinearClient,
+  issueId: string,
+): Promise<IssueRelationSummary[]> {
+  const resp = await client.client.rawRequest(ISSUE_RELATIONS_QUERY, { id: issueId });
+  const issue = (
+    resp as unknown as {
+      data?: {
+        issue?: {
+          relations?: {
+            nodes?: Array<{
+              id: string;
+              type: string;
+              relatedIssue?: RelatedIssueNode;
+            }>;
+          };
+          inverseRelations?: {
+            nodes?: Array<{ id: string; type: string; issue?: RelatedIssueNode }>;
+          };
+        };
+      };
+    }
+  ).data?.issue;
+
+  const outgoing = (issue?.relations?.nodes ?? []).map((r) => ({
+    id: r.id,
+    type: toRelationKind(r.type, false),
+    issueId: r.relatedIssue?.id ?? '',
+    identifier: r.relatedIssue?.identifier,
+    title: r.relatedIssue?.title,
+    url: r.relatedIssue?.url,
+  }));
+  const incoming = (issue?.inverseRelations?.nodes ?? []).map((r) => ({
+    id: r.id,
+    type: toRelationKind(r.type, true),
+    issueId: r.issue?.id ?? '',
+    identifier: r.issue?.identifier,
+    title: r.issue?.title,
+    url: r.issue?.url,
+  }));
+
+  return [...outgoing, ...incoming];
+}
@@ -0,0 +1,138 @@
+/**
+ * Issue template helpers (pre-filled issue fields from Linear templates)
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import type { ResolverResult } from '../../../../utils/resolvers.js';
+import type { IssueTemplateDefaults, IssueTemplateSummary } from './types.js';
+
+// Templates are not paginated; the root query returns every template the viewer can use
+const TEMPLATES_QUERY = `
+  query IssueTemplates {
+    templates {
+      id
+      name
+      type
+      description
+      templateData
+      team { id key }
+    }
+  }
+`;
+
+type TemplateNode = {
+  id: string;
+  name: string;
+  type?: string | null;
+  description?: string | null;
+  templateData?: unknown;
+  team?: { id: string; key?: string | null } | null;
+};
+
+/**
+ * Pick the fields create_issues understands out of a template's templateData
+ */
+function parseTemplateDefaults(data: unknown): IssueTemplateDefaults {
+  if (!data || typeof data !== 'object') {
+    return {};
+  }
+  const d = data as Record<string, unknown>;
+  const labelIds = Array.isArray(d.labelIds)
+    ? d.labelIds.filter((id): id is string => typeof id === 'string')
+    : [];
+  return {
+    title: typeof d.title === 'string' && d.title.trim() !== '' ? d.title : undefined,
+    description:
+      typeof d.description === 'string' && d.description.trim() !== ''
+        ? d.description
+        : undefined,
+    labelIds: labelIds.length > 0 ? labelIds : undefined,
+    priority: typeof d.priority === 'number' ? d.priority : undefined,
+    estimate: typeof d.estimate === 'number' ? d.estimate : undefined,
+  };
+}
+
+/**
+ * Fetch all issue templates (workspace and team) in a single request
+ */
+export async function fetchIssueTemplates(
+  client: LinearClient,
+): Promise<IssueTemplateSummary[]> {
+  const resp = await client.client.rawRequest(TEMPLATES_QUERY, {});
+  const nodes =
+    (resp as unknown as { data?: { templates?: TemplateNode[] } }).data?.templates ??
+    [];
+
+  return nodes
+    .filter((t) => (t.type ?? 'issue') === 'issue')
+    .map((t) => ({
+      id: t.id,
+      name: t.name,
+      description: t.description ?? undefined,
+      teamId: t.team?.id,
+      teamKey: t.team?.key ?? undefined,
+      defaults: parseTemplateDefaults(t.templateData),
+    }));
+}
+
+/**
+ * Find a template by ID or name (case-insensitive) that can be used in the given team
+ */
+export function findIssueTemplate(
+  templates: IssueTemplateSummary[],
+  input: { templateId?: string; templateName?: string; teamId: string },
+): ResolverResult<IssueTemplateSummary> {
+  const normalized = input.templateName?.toLowerCase().trim();
+  const matches = templates.filter((t) =>
+    input.templateId ? t.id === input.templateId : t.name.toLowerCase() === normalized,
+  );
+
+  if (matches.length === 0) {
+    const similar = normalized
+      ? templates
+          .filter((t) => t.name.toLowerCase().includes(normalized))
+          .map((t) => t.name)
+          .slice(0, 5)
+      : [];
+    return {
+      success: false,
+      error: `Issue template "${input.templateId ?? input.templateName}" not found`,
+      suggestions:
+        similar.length > 0
+          ? [`Similar templates: ${similar.join(', ')}`]
+          : ['Use list_issue_templates to see available templates'],
+    };
+  }
+
+  // Prefer the team's own template over a workspace template with the same name
+  const usable =
+    matches.find((t) => t.teamId === input.teamId) ?? matches.find((t) => !t.teamId);
+  if (!usable) {
+    const template = matches[0] as IssueTemplateSummary;
+    return {
+      success: false,
+      error: `Template "${template.name}" belongs to team ${template.teamKey ?? template.teamId}`,
+      suggestions: ["Use a template from the issue's team or a workspace template"],
+    };
+  }
+
+  return { success: true, value: usable };
+}
+
+/**
+ * Combine a template title with an explicit title.
+ * Titles ending in ':', ']' or '-' (e.g. "[Bug]") act as a prefix; otherwise the explicit title wins.
+ */
+export function applyTemplateTitle(
+  templateTitle: string | undefined,
+  title: string | undefined,
+): string | undefined {
+  if (!title) {
+    return templateTitle;
+  }
+  const prefix = templateTitle?.trim();
+  if (!prefix || !/[:\]-]$/.test(prefix) || title.startsWith(prefix)) {
+    return title;
+  }
+  return `${prefix} ${title}`;
+}
@@ -48,6 +48,31 @@ export interface IssueListItem extends Record<string, unknown> {
   dueDate?: string;
   url?: string;
   labels: Array<{ id: string; name: string }>;
+  relations?: IssueRelationSummary[];
+  customerCount?: number;
+  customerRequestCount?: number;
+  customerCountTruncated?: boolean;
+}
+
+/**
+ * Relation kinds as seen from the issue being described.
+ * Linear stores a single directed relation, so "blocked_by" and
+ * "duplicated_by" are the inverse side of "blocks" and "duplicate_of".
+ */
+export type IssueRelationKind =
+  | 'blocks'
+  | 'blocked_by'
+  | 'duplicate_of'
+  | 'duplicated_by'
+  | 'related';
+
+export interface IssueRelationSummary {
+  id: string;
+  type: IssueRelationKind;
+  issueId: string;
+  identifier?: string;
+  title?: string;
+  url?: string;
 }
 
 export interface FieldChanges {
@@ -65,6 +90,47 @@ export interface FieldChanges {
   archived?: { before: boolean; after: boolean };
 }
 
+export interface InitiativeProjectSummary {
+  id: string;
+  name: string;
+  state?: string;
+  health?: string;
+  // 0-100
+  progress?: number;
+}
+
+export interface InitiativeSummary {
+  id: string;
+  name: string;
+  description?: string;
+  status?: string;
+  health?: string;
+  targetDate?: string;
+  url?: string;
+  ownerId?: string;
+  ownerName?: string;
+  projects: InitiativeProjectSummary[];
+  hasMoreProjects: boolean;
+}
+
+export interface IssueTemplateDefaults {
+  title?: string;
+  description?: string;
+  labelIds?: string[];
+  priority?: number;
+  estimate?: number;
+}
+
+export interface IssueTemplateSummary {
+  id: string;
+  name: string;
+  description?: string;
+  // Omitted for workspace-level templates
+  teamId?: string;
+  teamKey?: string;
+  defaults: IssueTemplateDefaults;
+}
+
 
 
 
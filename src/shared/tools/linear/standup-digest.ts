@@ -0,0 +1,563 @@
+/**
+ * Standup Digest tool - what changed since the last workday for a user or team,
+ * grouped as Yesterday / Today / Blocked in the viewer's timezone.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { StandupDigestOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { createToolError, formatErrorMessage } from '../../../utils/errors.js';
+import { resolveTeam } from '../../../utils/resolvers.js';
+import { resolveAssignee } from '../../../utils/user-resolver.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { fetchAllIssues } from './shared/index.js';
+
+const InputSchema = z.object({
+  userId: z.string().optional().describe('User UUID. Default: you (the viewer).'),
+  userName: z.string().optional().describe('User name (fuzzy match).'),
+  userEmail: z.string().optional().describe('User email.'),
+  teamId: z
+    .string()
+    .optional()
+    .describe('Team UUID. Without a user, the digest covers the whole team.'),
+  teamKey: z.string().optional().describe('Team key, e.g. "ENG".'),
+  since: z
+    .string()
+    .optional()
+    .describe('Start of the window (ISO). Default: start of the previous workday.'),
+  until: z.string().optional().describe('End of the window (ISO). Default: now.'),
+  timezone: z
+    .string()
+    .optional()
+    .describe('IANA timezone, e.g. "Europe/Berlin". Default: the viewer timezone.'),
+  maxIssues: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe('Max issues to scan per section. Default: 250.'),
+});
+
+const HISTORY_FIELDS = `
+  history(first: 50) {
+    nodes {
+      createdAt
+      fromState { name }
+      toState { name }
+      toAssignee { id name }
+    }
+  }
+`;
+
+const COMMENT_FIELDS = `
+  comments(first: 50) {
+    nodes {
+      createdAt
+      user { id name }
+    }
+  }
+`;
+
+const OPEN_FIELDS = `
+  id
+  identifier
+  title
+  url
+  priority
+  state { name type }
+  assignee { id name }
+  inverseRelations(first: 25) {
+    nodes {
+      type
+      issue { id identifier title url state { name type } }
+    }
+  }
+`;
+
+const USER_COMMENTS_QUERY = `
+  query StandupComments($first: Int!, $after: String, $filter: CommentFilter) {
+    comments(first: $first, after: $after, filter: $filter) {
+      nodes {
+        createdAt
+        issue { id identifier title url state { name } }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+type ActivityNode = {
+  id: string;
+  identifier?: string;
+  title?: string;
+  url?: string | null;
+  state?: { name?: string } | null;
+  history?: {
+    nodes?: Array<{
+      createdAt: string;
+      fromState?: { name?: string } | null;
+      toState?: { name?: string } | null;
+      toAssignee?: { id: string; name?: string } | null;
+    }>;
+  } | null;
+  comments?: {
+    nodes?: Array<{ createdAt: string; user?: { id: string; name?: string } | null }>;
+  } | null;
+};
+
+type OpenNode = {
+  id: string;
+  identifier?: string;
+  title?: string;
+  url?: string | null;
+  priority?: number | null;
+  state?: { name?: string; type?: string } | null;
+  assignee?: { id: string; name?: string } | null;
+  inverseRelations?: {
+    nodes?: Array<{
+      type: string;
+      issue?: {
+        id: string;
+        identifier?: string;
+        title?: string;
+        url?: string | null;
+        state?: { name?: string; type?: string } | null;
+      } | null;
+    }>;
+  } | null;
+};
+
+type YesterdayItem = {
+  id: string;
+  identifier?: string;
+  title: string;
+  url?: string;
+  stateName?: string;
+  stateChanges: Array<{ at: string; from?: string; to: string }>;
+  comments: number;
+  assignedAt?: string;
+};
+
+function zonedParts(ms: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(ms));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: get('weekday'),
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant
+ */
+function zoneOffsetMs(ms: number, timeZone: string): number {
+  const p = zonedParts(ms, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * Start of the previous workday (Friday on weekends and Mondays) in the timezone
+ */
+function previousWorkdayStart(now: number, timeZone: string): number {
+  const p = zonedParts(now, timeZone);
+  const daysBack = p.weekday === 'Mon' ? 3 : p.weekday === 'Sun' ? 2 : 1;
+  const localMidnight = Date.UTC(p.year, p.month - 1, p.day - daysBack);
+  const guess = localMidnight - zoneOffsetMs(localMidnight, timeZone);
+  return localMidnight - zoneOffsetMs(guess, timeZone);
+}
+
+function formatLocal(ms: number, timeZone: string): string {
+  const p = zonedParts(ms, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+function issueLink(issue: { identifier?: string; id: string; url?: string }): string {
+  const idf = issue.identifier ?? issue.id;
+  return issue.url ? `[${idf}](${issue.url})` : idf;
+}
+
+export const standupDigestTool = defineTool({
+  name: toolsMetadata.standup_digest.name,
+  title: toolsMetadata.standup_digest.title,
+  description: toolsMetadata.standup_digest.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const maxIssues = args.maxIssues ?? 250;
+
+    const viewer = await client.viewer;
+    const timezone = args.timezone ?? viewer.timezone ?? 'UTC';
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      const error = createToolError(
+        'VALIDATION_ERROR',
+        `Unknown timezone "${timezone}"`,
+        'Pass an IANA timezone such as "Europe/Berlin", or omit it to use the viewer timezone.',
+      );
+      return {
+        isError: true,
+        content: [{ type: 'text', text: formatErrorMessage(error) }],
+        structuredContent: {
+          error: error.code,
+          message: error.message,
+          hint: error.hint,
+        },
+      };
+    }
+
+    const now = Date.now();
+    const until = args.until ? new Date(args.until).getTime() : now;
+    const since = args.since
+      ? new Date(args.since).getTime()
+      : Number.isNaN(until)
+        ? Number.NaN
+        : previousWorkdayStart(until, timezone);
+    if (Number.isNaN(since) || Number.isNaN(until) || since >= until) {
+      const error = createToolError(
+        'VALIDATION_ERROR',
+        `Invalid window: since=${args.since ?? '(previous workday)'}, until=${args.until ?? '(now)'}`,
+        'Pass ISO timestamps with since before until.',
+      );
+      return {
+        isError: true,
+        content: [{ type: 'text', text: formatErrorMessage(error) }],
+        structuredContent: {
+          error: error.code,
+          message: error.message,
+          hint: error.hint,
+        },
+      };
+    }
+    const sinceIso = new Date(since).toISOString();
+    const untilIso = new Date(until).toISOString();
+    const inWindow = (at: string) => {
+      const t = new Date(at).getTime();
+      return t >= since && t <= until;
+    };
+
+    let team: { id: string; key: string } | undefined;
+    if (args.teamId || args.teamKey) {
+      const teamResult = await resolveTeam(client, {
+        teamId: args.teamId,
+        teamKey: args.teamKey,
+      });
+      if (!teamResult.success) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: `${teamResult.error}. ${
+                teamResult.suggestions?.join(' ') ?? 'Use list_teams to find the team.'
+              }`,
+            },
+          ],
+          structuredContent: {
+            error: 'TEAM_NOT_FOUND',
+            teamId: args.teamId,
+            teamKey: args.teamKey,
+            hint: 'Use list_teams to find the team id or key.',
+          },
+        };
+      }
+      team = teamResult.value;
+    }
+
+    // A team without a user covers the whole team; otherwise default to the viewer
+    let user: { id: string; name?: string } | undefined;
+    if (args.userId || args.userName || args.userEmail) {
+      const userResult = await resolveAssignee(client, {
+        assigneeId: args.userId,
+        assigneeName: args.userName,
+        assigneeEmail: args.userEmail,
+      });
+      if (!userResult.success || !userResult.user) {
+        const error =
+          userResult.error ?? createToolError('USER_NOT_FOUND', 'User not found');
+        return {
+          isError: true,
+          content: [{ type: 'text', text: formatErrorMessage(error) }],
+          structuredContent: {
+            error: error.code,
+            message: error.message,
+            hint: error.hint,
+          },
+        };
+      }
+      user = {
+        id: userResult.user.id,
+        name:
+          userResult.user.id === viewer.id
+            ? (viewer.name ?? undefined)
+            : (userResult.user.name ?? undefined),
+      };
+    } else if (!team) {
+      user = { id: viewer.id, name: viewer.name ?? undefined };
+    }
+
+    const scope: Record<string, unknown> = {};
+    if (team) scope.team = { id: { eq: team.id } };
+    if (user) scope.assignee = { id: { eq: user.id } };
+
+    // Yesterday: state changes, assignments and (team scope) comments in the window
+    const activity = await fetchAllIssues<ActivityNode>(client, {
+      fields: `id identifier title url state { name } ${HISTORY_FIELDS} ${user ? '' : COMMENT_FIELDS}`,
+      filter: { ...scope, updatedAt: { gte: sinceIso } },
+      maxIssues,
+      signal: context.signal,
+    });
+
+    const yesterday = new Map<string, YesterdayItem>();
+    const touch = (issue: {
+      id: string;
+      identifier?: string;
+      title?: string;
+      url?: string | null;
+      state?: { name?: string } | null;
+    }) => {
+      if (!yesterday.has(issue.id)) {
+        yesterday.set(issue.id, {
+          id: issue.id,
+          identifier: issue.identifier ?? undefined,
+          title: issue.title ?? '',
+          url: issue.url ?? undefined,
+          stateName: issue.state?.name ?? undefined,
+          stateChanges: [],
+          comments: 0,
+        });
+      }
+      return yesterday.get(issue.id) as YesterdayItem;
+    };
+
+    for (const issue of activity.nodes) {
+      for (const entry of issue.history?.nodes ?? []) {
+        if (!inWindow(entry.createdAt)) continue;
+        if (entry.toState?.name) {
+          touch(issue).stateChanges.push({
+            at: entry.createdAt,
+            from: entry.fromState?.name ?? undefined,
+            to: entry.toState.name,
+          });
+        }
+        if (entry.toAssignee && (!user || entry.toAssignee.id === user.id)) {
+          touch(issue).assignedAt = entry.createdAt;
+        }
+      }
+      for (const comment of issue.comments?.nodes ?? []) {
+        if (inWindow(comment.createdAt)) {
+          touch(issue).comments += 1;
+        }
+      }
+    }
+
+    // For a user, comments count wherever they were written, not only on their issues
+    let commentsTruncated = false;
+    if (user) {
+      let after: string | undefined;
+      let scanned = 0;
+      do {
+        const resp = await client.client.rawRequest(USER_COMMENTS_QUERY, {
+          first: 100,
+          after,
+          filter: {
+            user: { id: { eq: user.id } },
+            createdAt: { gte: sinceIso, lte: untilIso },
+          },
+        });
+        const conn = (
+          resp as unknown as {
+            data?: {
+              comments?: {
+                nodes?: Array<{
+                  createdAt: string;
+                  issue?: ActivityNode | null;
+                }>;
+                pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+              };
+            };
+          }
+        ).data?.comments;
+        for (const comment of conn?.nodes ?? []) {
+          if (comment.issue) touch(comment.issue).comments += 1;
+        }
+        scanned += conn?.nodes?.length ?? 0;
+        after = conn?.pageInfo?.hasNextPage ? conn.pageInfo.endCursor : undefined;
+        if (after && scanned >= maxIssues) {
+          commentsTruncated = true;
+          break;
+        }
+      } while (after);
+    }
+
+    // Today and Blocked: open work in scope
+    const open = await fetchAllIssues<OpenNode>(client, {
+      fields: OPEN_FIELDS,
+      filter: { ...scope, state: { type: { in: ['unstarted', 'started'] } } },
+      maxIssues,
+      signal: context.signal,
+    });
+
+    const blocked = open.nodes
+      .map((issue) => ({
+        issue,
+        blockers: (issue.inverseRelations?.nodes ?? [])
+          .filter(
+            (r) =>
+              r.type === 'blocks' &&
+              r.issue &&
+              r.issue.state?.type !== 'completed' &&
+              r.issue.state?.type !== 'canceled',
+          )
+          .map((r) => r.issue as NonNullable<typeof r.issue>),
+      }))
+      .filter((b) => b.blockers.length > 0)
+      .map(({ issue, blockers }) => ({
+        id: issue.id,
+        identifier: issue.identifier ?? undefined,
+        title: issue.title ?? '',
+        url: issue.url ?? undefined,
+        stateName: issue.state?.name ?? undefined,
+        assigneeName: issue.assignee?.name ?? undefined,
+        blockedBy: blockers.map((b) => ({
+          id: b.id,
+          identifier: b.identifier ?? undefined,
+          title: b.title ?? '',
+          url: b.url ?? undefined,
+          stateName: b.state?.name ?? undefined,
+        })),
+      }));
+    const blockedIds = new Set(blocked.map((b) => b.id));
+
+    // Urgent first; priority 0 (none) last
+    const today = open.nodes
+      .filter((issue) => issue.state?.type === 'started' && !blockedIds.has(issue.id))
+      .sort((a, b) => (a.priority || 5) - (b.priority || 5))
+      .map((issue) => ({
+        id: issue.id,
+        identifier: issue.identifier ?? undefined,
+        title: issue.title ?? '',
+        url: issue.url ?? undefined,
+        stateName: issue.state?.name ?? undefined,
+        assigneeName: issue.assignee?.name ?? undefined,
+        priority: issue.priority ?? undefined,
+      }));
+
+    const yesterdayItems = [...yesterday.values()].filter(
+      (i) => i.stateChanges.length > 0 || i.comments > 0 || i.assignedAt,
+    );
+
+    // Markdown body, ready for add_comments or create_project_updates
+    const showAssignee = !user;
+    const yesterdayLines = yesterdayItems.map((i) => {
+      const bits = [
+        ...i.stateChanges.map((c) => (c.from ? `${c.from} → ${c.to}` : `→ ${c.to}`)),
+        ...(i.comments > 0 ? [`${i.comments} comment(s)`] : []),
+        ...(i.assignedAt ? ['newly assigned'] : []),
+      ];
+      return `- ${issueLink(i)} ${i.title} — ${bits.join('; ')}`;
+    });
+    const todayLines = today.map(
+      (i) =>
+        `- ${issueLink(i)} ${i.title} (${[
+          i.stateName,
+          ...(showAssignee && i.assigneeName ? [i.assigneeName] : []),
+        ]
+          .filter(Boolean)
+          .join(', ')})`,
+    );
+    const blockedLines = blocked.map(
+      (i) =>
+        `- ${issueLink(i)} ${i.title}${
+          showAssignee && i.assigneeName ? ` (${i.assigneeName})` : ''
+        } — blocked by ${i.blockedBy
+          .map(
+            (b) =>
+              `${issueLink(b)} ${b.title}${b.stateName ? ` (${b.stateName})` : ''}`,
+          )
+          .join(', ')}`,
+    );
+    const section = (heading: string, lines: string[], empty: string) =>
+      `**${heading}**\n${lines.length > 0 ? lines.join('\n') : `- ${empty}`}`;
+    const markdown = [
+      section('Yesterday', yesterdayLines, 'No updates'),
+      section('Today', todayLines, 'Nothing in progress'),
+      section('Blocked', blockedLines, 'No blockers'),
+    ].join('\n\n');
+
+    const truncated = activity.truncated || open.truncated || commentsTruncated;
+
+    const meta = {
+      nextSteps: [
+        'Post the markdown with add_comments or create_project_updates.',
+        ...(blocked.length > 0
+          ? ['Use get_issues on the blocking issues to chase them.']
+          : []),
+        ...(truncated ? ['Narrow the window or scope, or raise maxIssues.'] : []),
+      ],
+      relatedTools: ['add_comments', 'create_project_updates', 'get_issues'],
+    };
+
+    const structured = StandupDigestOutputSchema.parse({
+      scope: {
+        userId: user?.id,
+        userName: user?.name,
+        teamId: team?.id,
+        teamKey: team?.key,
+      },
+      window: { since: sinceIso, until: untilIso, timezone },
+      yesterday: yesterdayItems,
+      today,
+      blocked,
+      markdown,
+      truncated,
+      meta,
+    });
+
+    const who = [
+      ...(user ? [user.name ?? user.id] : []),
+      ...(team ? [team.key] : []),
+    ].join(' in ');
+    const header = `Standup for ${who}: ${formatLocal(since, timezone)} → ${formatLocal(
+      until,
+      timezone,
+    )} (${timezone}). ${yesterdayItems.length} updated, ${today.length} in progress, ${
+      blocked.length
+    } blocked${truncated ? ' (truncated)' : ''}.`;
+
+    const text = [header, markdown].join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,226 @@
+/**
+ * Issue Subscribers tool - subscribe/unsubscribe users to issue notifications in batch.
+ */
+
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { ManageIssueSubscribersOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch } from '../../../utils/messages.js';
+import { resolveAssignee } from '../../../utils/user-resolver.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+const SubscriberItem = z.object({
+  action: z
+    .enum(['subscribe', 'unsubscribe'])
+    .describe("'subscribe' adds the user as a watcher, 'unsubscribe' removes them."),
+  issueId: z.string().describe('Issue UUID or identifier (e.g. ENG-123).'),
+  userId: z
+    .string()
+    .optional()
+    .describe('User UUID. Omit all user fields for the current user.'),
+  userName: z.string().optional().describe('User name (fuzzy match).'),
+  userEmail: z.string().optional().describe('User email.'),
+});
+
+const InputSchema = z.object({
+  items: z
+    .array(SubscriberItem)
+    .min(1)
+    .max(50)
+    .describe('Subscriptions to add or remove.'),
+});
+
+export const manageIssueSubscribersTool = defineTool({
+  name: toolsMetadata.manage_issue_subscribers.name,
+  title: toolsMetadata.manage_issue_subscribers.title,
+  description: toolsMetadata.manage_issue_subscribers.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: Array<{
+      input: Record<string, unknown>;
+      success: boolean;
+      id?: string;
+      identifier?: string;
+      error?: { code: string; message: string; suggestions?: string[] };
+      index: number;
+      ok: boolean;
+    }> = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = {
+        action: it.action,
+        issueId: it.issueId,
+        userId: it.userId,
+        userName: it.userName,
+        userEmail: it.userEmail,
+      };
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        // Without a user, Linear applies the change to the current user
+        let userId: string | undefined;
+        let userLabel = 'you';
+        if (it.userId || it.userName || it.userEmail) {
+          const userResult = await resolveAssignee(client, {
+            assigneeId: it.userId,
+            assigneeName: it.userName,
+            assigneeEmail: it.userEmail,
+          });
+          if (!userResult.success || !userResult.user) {
+            results.push({
+              input,
+              success: false,
+              error: {
+                code: userResult.error?.code ?? 'USER_NOT_FOUND',
+                message: userResult.error?.message ?? 'Could not resolve user',
+                suggestions: userResult.error?.hint
+                  ? [userResult.error.hint]
+                  : undefined,
+              },
+              index: i,
+              ok: false,
+            });
+            continue;
+          }
+          userId = userResult.user.id;
+          userLabel = userResult.user.name ?? userResult.user.id;
+        }
+
+        const issue = await gate(() => client.issue(it.issueId));
+        if (!issue) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'ISSUE_NOT_FOUND',
+              message: `Issue "${it.issueId}" not found`,
+              suggestions: ['Use list_issues or get_issues to verify identifiers.'],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        const variables = userId ? { userId } : undefined;
+        const payload = await withRetry(
+          () =>
+            gate(() =>
+              it.action === 'subscribe'
+                ? client.issueSubscribe(issue.id, variables)
+                : client.issueUnsubscribe(issue.id, variables),
+            ),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: issue.id,
+          identifier: issue.identifier,
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(
+          `- ${it.action === 'subscribe' ? 'Subscribed' : 'Unsubscribed'} ${userLabel} ${
+            it.action === 'subscribe' ? 'to' : 'from'
+          } ${issue.identifier ?? issue.id}`,
+        );
+      } catch (error) {
+        await logger.error('manage_issue_subscribers', {
+          message: 'Failed to update issue subscription',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              'Verify the issue id with get_issues and the user with list_users.',
+            ],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use get_issues to verify subscribers.'],
+      relatedTools: ['get_issues', 'list_users', 'add_comments'],
+    };
+
+    const structured = ManageIssueSubscribersOutputSchema.parse({
+      results,
+      summary,
+      meta,
+    });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.issueId),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Updated subscriptions',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    textParts.push('Tip: Use get_issues to see who is subscribed to an issue.');
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,719 @@
+/**
+ * Team tools - list team members with roles, add/remove members, and update team settings.
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  ListTeamMembersOutputSchema,
+  ManageTeamMembersOutputSchema,
+  UpdateTeamsOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch, summarizeList } from '../../../utils/messages.js';
+import { resolveTeam } from '../../../utils/resolvers.js';
+import { resolveAssignee } from '../../../utils/user-resolver.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+const MEMBERSHIPS_QUERY = `
+  query TeamMemberships($id: String!, $first: Int!, $after: String) {
+    team(id: $id) {
+      memberships(first: $first, after: $after) {
+        nodes {
+          id
+          owner
+          createdAt
+          user { id name displayName email admin guest active }
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+type MembershipNode = {
+  id: string;
+  owner?: boolean | null;
+  createdAt?: string | null;
+  user?: {
+    id: string;
+    name?: string | null;
+    displayName?: string | null;
+    email?: string | null;
+    admin?: boolean | null;
+    guest?: boolean | null;
+    active?: boolean | null;
+  } | null;
+};
+
+async function fetchTeamMemberships(
+  client: LinearClient,
+  teamId: string,
+  first: number,
+  after?: string,
+): Promise<{
+  nodes: MembershipNode[];
+  pageInfo: { hasNextPage?: boolean; endCursor?: string };
+}> {
+  const resp = await client.client.rawRequest(MEMBERSHIPS_QUERY, {
+    id: teamId,
+    first,
+    after,
+  });
+  const conn = (
+    resp as unknown as {
+      data?: {
+        team?: {
+          memberships?: {
+            nodes?: MembershipNode[];
+            pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+          };
+        };
+      };
+    }
+  ).data?.team?.memberships;
+  return { nodes: conn?.nodes ?? [], pageInfo: conn?.pageInfo ?? {} };
+}
+
+/**
+ * Find a user's membership in a team, paging through all memberships
+ */
+async function findTeamMembership(
+  client: LinearClient,
+  teamId: string,
+  userId: string,
+): Promise<MembershipNode | undefined> {
+  let after: string | undefined;
+  do {
+    const page = await fetchTeamMemberships(client, teamId, 250, after);
+    const match = page.nodes.find((m) => m.user?.id === userId);
+    if (match) return match;
+    after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+  } while (after);
+  return undefined;
+}
+
+// List Team Members
+const ListTeamMembersInputSchema = z.object({
+  teamId: z.string().optional().describe('Team UUID. Or use teamKey.'),
+  teamKey: z.string().optional().describe('Team key, e.g. "ENG".'),
+  includeInactive: z
+    .boolean()
+    .optional()
+    .describe('Include deactivated users. Default: false.'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(250)
+    .optional()
+    .describe('Max results. Default: 100.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+export const listTeamMembersTool = defineTool({
+  name: toolsMetadata.list_team_members.name,
+  title: toolsMetadata.list_team_members.title,
+  description: toolsMetadata.list_team_members.description,
+  inputSchema: ListTeamMembersInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const limit = args.limit ?? 100;
+
+    const teamResult = await resolveTeam(client, {
+      teamId: args.teamId,
+      teamKey: args.teamKey,
+    });
+    if (!teamResult.success) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `${teamResult.error}. ${
+              teamResult.suggestions?.join(' ') ?? 'Use list_teams to find the team.'
+            }`,
+          },
+        ],
+        structuredContent: {
+          error: 'TEAM_NOT_FOUND',
+          teamId: args.teamId,
+          teamKey: args.teamKey,
+          hint: 'Use list_teams to find the team id or key.',
+        },
+      };
+    }
+    const team = teamResult.value;
+
+    const conn = await fetchTeamMemberships(client, team.id, limit, args.cursor);
+
+    const items = conn.nodes
+      .filter((m) => m.user && (args.includeInactive || m.user.active !== false))
+      .map((m) => {
+        const user = m.user as NonNullable<MembershipNode['user']>;
+        return {
+          membershipId: m.id,
+          user: {
+            id: user.id,
+            name: user.name ?? undefined,
+            displayName: user.displayName ?? undefined,
+            email: user.email ?? undefined,
+          },
+          role: m.owner ? ('owner' as const) : ('member' as const),
+          workspaceRole: user.admin
+            ? ('admin' as const)
+            : user.guest
+              ? ('guest' as const)
+              : ('member' as const),
+          active: user.active ?? undefined,
+          joinedAt: m.createdAt ?? undefined,
+        };
+      });
+
+    const hasMore = conn.pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (conn.pageInfo.endCursor ?? undefined) : undefined;
+
+    const query = {
+      teamId: team.id,
+      teamKey: team.key,
+      includeInactive: args.includeInactive,
+      limit,
+    };
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
+        'Use manage_team_members to add or remove members, or to make someone a team owner.',
+      ],
+      relatedTools: ['manage_team_members', 'list_users', 'update_teams'],
+    };
+
+    const structured = ListTeamMembersOutputSchema.parse({
+      query,
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit,
+    });
+
+    const preview = items.map((m) => {
+      const roles = [
+        m.role === 'owner' ? 'team owner' : undefined,
+        m.workspaceRole !== 'member' ? `workspace ${m.workspaceRole}` : undefined,
+        m.active === false ? 'inactive' : undefined,
+      ].filter(Boolean);
+      return `- ${m.user.name ?? m.user.id}${m.user.email ? ` <${m.user.email}>` : ''}${
+        roles.length > 0 ? ` (${roles.join(', ')})` : ''
+      } → ${m.user.id}`;
+    });
+
+    const text = summarizeList({
+      subject: `Members of ${team.key}`,
+      count: items.length,
+      limit,
+      nextCursor,
+      previewLines: preview,
+      zeroReasonHints: args.includeInactive
+        ? []
+        : ['deactivated users are hidden; set includeInactive=true'],
+      nextSteps: meta.nextSteps,
+    });
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Manage Team Members
+const MemberItem = z.object({
+  action: z
+    .enum(['add', 'remove'])
+    .describe("'add' joins the user to the team, 'remove' takes them off it."),
+  teamId: z.string().optional().describe('Team UUID. Or use teamKey.'),
+  teamKey: z.string().optional().describe('Team key, e.g. "ENG".'),
+  userId: z.string().optional().describe('User UUID. Or use userName/userEmail.'),
+  userName: z.string().optional().describe('User name (fuzzy match).'),
+  userEmail: z.string().optional().describe('User email.'),
+  owner: z
+    .boolean()
+    .optional()
+    .describe('add only: make the user a team owner (true) or a plain member (false).'),
+});
+
+const ManageTeamMembersInputSchema = z.object({
+  items: z.array(MemberItem).min(1).max(50).describe('Memberships to add or remove.'),
+});
+
+export const manageTeamMembersTool = defineTool({
+  name: toolsMetadata.manage_team_members.name,
+  title: toolsMetadata.manage_team_members.title,
+  description: toolsMetadata.manage_team_members.description,
+  inputSchema: ManageTeamMembersInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input: Record<string, unknown> = {
+        action: it.action,
+        teamId: it.teamId,
+        teamKey: it.teamKey,
+        userId: it.userId,
+        userName: it.userName,
+        userEmail: it.userEmail,
+        owner: it.owner,
+      };
+      const fail = (code: string, message: string, suggestions?: string[]) => {
+        results.push({
+          input,
+          success: false,
+          error: { code, message, suggestions },
+          index: i,
+          ok: false,
+        });
+      };
+
+      if (!it.userId && !it.userName && !it.userEmail) {
+        fail('VALIDATION_ERROR', 'Provide userId, userName or userEmail');
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const teamResult = await resolveTeam(client, {
+          teamId: it.teamId,
+          teamKey: it.teamKey,
+        });
+        if (!teamResult.success) {
+          fail('TEAM_NOT_FOUND', teamResult.error, teamResult.suggestions);
+          continue;
+        }
+        const team = teamResult.value;
+
+        const userResult = await resolveAssignee(client, {
+          assigneeId: it.userId,
+          assigneeName: it.userName,
+          assigneeEmail: it.userEmail,
+        });
+        if (!userResult.success || !userResult.user) {
+          fail(
+            userResult.error?.code ?? 'USER_NOT_FOUND',
+            userResult.error?.message ?? 'Could not resolve user',
+            userResult.error?.hint ? [userResult.error.hint] : undefined,
+          );
+          continue;
+        }
+        const user = userResult.user;
+        const userLabel = user.name ?? user.id;
+
+        const existing = await gate(() => findTeamMembership(client, team.id, user.id));
+
+        if (it.action === 'remove') {
+          if (!existing) {
+            // Already off the team; nothing to do
+            results.push({ input, success: true, index: i, ok: true });
+            detailLines.push(`- ${userLabel} is not a member of ${team.key}`);
+            continue;
+          }
+          const payload = await withRetry(
+            () => gate(() => client.deleteTeamMembership(existing.id)),
+            { maxRetries: 3, baseDelayMs: 500 },
+          );
+          results.push({
+            input,
+            success: payload.success ?? true,
+            id: existing.id,
+            index: i,
+            ok: payload.success ?? true,
+          });
+          detailLines.push(`- Removed ${userLabel} from ${team.key}`);
+          continue;
+        }
+
+        const roleText = it.owner ? ' as owner' : '';
+
+        if (existing) {
+          // Adding an existing member only changes the owner flag, if requested
+          if (typeof it.owner === 'boolean' && it.owner !== (existing.owner ?? false)) {
+            const payload = await withRetry(
+              () =>
+                gate(() =>
+                  client.updateTeamMembership(existing.id, { owner: it.owner }),
+                ),
+              { maxRetries: 3, baseDelayMs: 500 },
+            );
+            results.push({
+              input,
+              success: payload.success ?? true,
+              id: existing.id,
+              index: i,
+              ok: payload.success ?? true,
+            });
+            detailLines.push(
+              `- ${userLabel} is now ${it.owner ? 'an owner' : 'a member'} of ${team.key}`,
+            );
+          } else {
+            results.push({ input, success: true, id: existing.id, index: i, ok: true });
+            detailLines.push(`- ${userLabel} is already in ${team.key}`);
+          }
+          continue;
+        }
+
+        const payload = await withRetry(
+          () =>
+            gate(() =>
+              client.createTeamMembership({
+                teamId: team.id,
+                userId: user.id,
+                ...(typeof it.owner === 'boolean' ? { owner: it.owner } : {}),
+              }),
+            ),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+        const membership = (await payload.teamMembership) as
+          | { id?: string }
+          | undefined;
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: membership?.id,
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(`- Added ${userLabel} to ${team.key}${roleText}`);
+      } catch (error) {
+        await logger.error('manage_team_members', {
+          message: 'Failed to update team membership',
+          index: i,
+          error: (error as Error).message,
+        });
+        fail('LINEAR_UPDATE_ERROR', (error as Error).message, [
+          'Managing members may require team owner or admin permissions. Verify with list_team_members.',
+        ]);
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use list_team_members to verify.'],
+      relatedTools: ['list_team_members', 'list_users', 'list_teams'],
+    };
+
+    const structured = ManageTeamMembersOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.userId ?? r.input.userName ?? r.input.userEmail ?? ''),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Updated team memberships',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Update Teams
+const TeamSettingsItem = z.object({
+  teamId: z.string().optional().describe('Team UUID. Or use teamKey.'),
+  teamKey: z.string().optional().describe('Team key, e.g. "ENG".'),
+  name: z.string().optional().describe('New team name.'),
+  description: z.string().optional().describe('New team description.'),
+  timezone: z.string().optional().describe('IANA timezone, e.g. "Europe/Berlin".'),
+  triageEnabled: z.boolean().optional().describe('Enable the triage inbox.'),
+  cyclesEnabled: z.boolean().optional().describe('Enable cycles (sprints).'),
+  cycleDuration: z
+    .number()
+    .int()
+    .min(1)
+    .max(8)
+    .optional()
+    .describe('Cycle length in weeks.'),
+  cycleCooldownTime: z
+    .number()
+    .int()
+    .min(0)
+    .max(8)
+    .optional()
+    .describe('Cooldown between cycles in weeks.'),
+  cycleStartDay: z
+    .number()
+    .int()
+    .min(0)
+    .max(6)
+    .optional()
+    .describe('Day cycles start: 0 = Sunday … 6 = Saturday.'),
+  upcomingCycleCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .describe('Number of upcoming cycles created ahead.'),
+  cycleIssueAutoAssignStarted: z
+    .boolean()
+    .optional()
+    .describe('Add issues to the current cycle when they are started.'),
+  cycleIssueAutoAssignCompleted: z
+    .boolean()
+    .optional()
+    .describe('Add issues to the current cycle when they are completed.'),
+  issueEstimationType: z
+    .enum(['notUsed', 'exponential', 'fibonacci', 'linear', 'tShirt'])
+    .optional()
+    .describe("Estimate scale; 'notUsed' turns estimates off."),
+  issueEstimationAllowZero: z.boolean().optional().describe('Allow 0 as an estimate.'),
+  issueEstimationExtended: z
+    .boolean()
+    .optional()
+    .describe('Use the extended estimate scale.'),
+  defaultIssueEstimate: z
+    .number()
+    .optional()
+    .describe('Estimate used when calculating velocity for unestimated issues.'),
+});
+
+const UpdateTeamsInputSchema = z.object({
+  items: z.array(TeamSettingsItem).min(1).max(20).describe('Teams to update.'),
+});
+
+export const updateTeamsTool = defineTool({
+  name: toolsMetadata.update_teams.name,
+  title: toolsMetadata.update_teams.title,
+  description: toolsMetadata.update_teams.description,
+  inputSchema: UpdateTeamsInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const { teamId, teamKey, ...settings } = args.items[i];
+      const update = Object.fromEntries(
+        Object.entries(settings).filter(([, v]) => v !== undefined),
+      );
+      const input: Record<string, unknown> = { teamId, teamKey, ...update };
+
+      if (Object.keys(update).length === 0) {
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Nothing to update',
+            suggestions: [
+              'Provide at least one setting, e.g. cyclesEnabled or issueEstimationType.',
+            ],
+          },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const teamResult = await resolveTeam(client, { teamId, teamKey });
+        if (!teamResult.success) {
+          results.push({
+            input,
+            success: false,
+            error: {
+              code: 'TEAM_NOT_FOUND',
+              message: teamResult.error,
+              suggestions: teamResult.suggestions,
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+        const team = teamResult.value;
+
+        const payload = await withRetry(
+          () => gate(() => client.updateTeam(team.id, update)),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: team.id,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(
+          `- Updated ${team.key}: ${Object.entries(update)
+            .map(([k, v]) => `${k}=${typeof v === 'string' ? `"${v}"` : String(v)}`)
+            .join(', ')}`,
+        );
+      } catch (error) {
+        await logger.error('update_teams', {
+          message: 'Failed to update team',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          error: {
+            code: 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              'Updating team settings requires team owner or admin permissions.',
+            ],
+          },
+          // Legacy
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ["Use workspace_metadata with include=['teams'] to verify settings."],
+      relatedTools: ['workspace_metadata', 'list_teams', 'list_cycles'],
+    };
+
+    const structured = UpdateTeamsOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: String(r.input.teamKey ?? r.input.teamId ?? ''),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Updated teams',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
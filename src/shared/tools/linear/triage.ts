@@ -0,0 +1,661 @@
+/**
+ * Triage tools - list issues awaiting triage and accept/decline/duplicate/snooze them in batch.
+ */
+
+import type { LinearClient, LinearDocument } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import {
+  TriageIssuesOutputSchema,
+  TriageQueueOutputSchema,
+} from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch, summarizeList } from '../../../utils/messages.js';
+import {
+  formatPriorityName,
+  type ResolverResult,
+  resolveLabels,
+  resolvePriority,
+  resolveState,
+} from '../../../utils/resolvers.js';
+import { resolveAssignee } from '../../../utils/user-resolver.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { validatePriority } from './shared/index.js';
+
+type BatchResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  identifier?: string;
+  url?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  index: number;
+  ok: boolean;
+};
+
+// Triage Queue
+const TriageQueueInputSchema = z.object({
+  teamId: z
+    .string()
+    .optional()
+    .describe('Team UUID. Omit to list triage across all teams with triage enabled.'),
+  includeSnoozed: z
+    .boolean()
+    .optional()
+    .describe('Include issues snoozed into the future. Default: false.'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Max results. Default: 25.'),
+  cursor: z.string().optional().describe('Pagination cursor from previous response.'),
+});
+
+const QUEUE_QUERY = `
+  query TriageQueue($first: Int!, $after: String, $filter: IssueFilter) {
+    issues(first: $first, after: $after, filter: $filter, orderBy: createdAt) {
+      nodes {
+        id
+        identifier
+        title
+        priority
+        createdAt
+        snoozedUntilAt
+        url
+        team { id key name }
+        creator { id name }
+        labels { nodes { id name } }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+type TriageItem = {
+  id: string;
+  identifier?: string;
+  title: string;
+  priority?: number;
+  team?: { id: string; key?: string; name?: string };
+  creator?: { id: string; name?: string };
+  labels: Array<{ id: string; name: string }>;
+  createdAt: string;
+  snoozedUntilAt?: string;
+  url?: string;
+};
+
+function formatTriageLine(it: TriageItem): string {
+  const idf = it.identifier ?? it.id;
+  const title = it.url ? `[${idf} — ${it.title}](${it.url})` : `${idf} '${it.title}'`;
+  const parts = [`opened ${it.createdAt.slice(0, 10)}`];
+  if (it.creator?.name) parts.push(`by ${it.creator.name}`);
+  if (typeof it.priority === 'number' && it.priority > 0) {
+    parts.push(`priority ${formatPriorityName(it.priority)}`);
+  }
+  if (it.labels.length > 0)
+    parts.push(`labels ${it.labels.map((l) => l.name).join(', ')}`);
+  if (it.snoozedUntilAt) parts.push(`snoozed until ${it.snoozedUntilAt.slice(0, 10)}`);
+  return `  - ${title} — ${parts.join('; ')}`;
+}
+
+export const triageQueueTool = defineTool({
+  name: toolsMetadata.triage_queue.name,
+  title: toolsMetadata.triage_queue.title,
+  description: toolsMetadata.triage_queue.description,
+  inputSchema: TriageQueueInputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const limit = args.limit ?? 25;
+
+    const filter: Record<string, unknown> = { state: { type: { eq: 'triage' } } };
+    if (args.teamId) {
+      filter.team = { id: { eq: args.teamId } };
+    }
+    // Snoozed issues stay in the triage state; hide them like Linear's inbox does.
+    // Filtered server-side so every page holds up to `limit` visible issues.
+    if (!args.includeSnoozed) {
+      filter.or = [
+        { snoozedUntilAt: { null: true } },
+        { snoozedUntilAt: { lt: new Date().toISOString() } },
+      ];
+    }
+
+    const resp = await client.client.rawRequest(QUEUE_QUERY, {
+      first: limit,
+      after: args.cursor,
+      filter,
+    });
+    const conn = (
+      resp as unknown as {
+        data?: {
+          issues?: {
+            nodes?: Array<Record<string, unknown>>;
+            pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+          };
+        };
+      }
+    ).data?.issues ?? { nodes: [], pageInfo: {} };
+
+    const items: TriageItem[] = (conn.nodes ?? []).map((n) => {
+      const team = n.team as
+        | { id: string; key?: string; name?: string }
+        | null
+        | undefined;
+      const creator = n.creator as { id: string; name?: string } | null | undefined;
+      const labelsConn = n.labels as
+        | { nodes?: Array<{ id: string; name: string }> }
+        | undefined;
+      return {
+        id: String(n.id ?? ''),
+        identifier: (n.identifier as string) ?? undefined,
+        title: String(n.title ?? ''),
+        priority: (n.priority as number | null) ?? undefined,
+        team: team
+          ? { id: team.id, key: team.key ?? undefined, name: team.name ?? undefined }
+          : undefined,
+        creator: creator
+          ? { id: creator.id, name: creator.name ?? undefined }
+          : undefined,
+        labels: (labelsConn?.nodes ?? []).map((l) => ({ id: l.id, name: l.name })),
+        createdAt: String(n.createdAt ?? ''),
+        snoozedUntilAt: (n.snoozedUntilAt as string | null) ?? undefined,
+        url: (n.url as string) ?? undefined,
+      };
+    });
+
+    const pageInfo = conn.pageInfo ?? {};
+    const hasMore = pageInfo.hasNextPage ?? false;
+    const nextCursor = hasMore ? (pageInfo.endCursor ?? undefined) : undefined;
+
+    const query = {
+      teamId: args.teamId,
+      includeSnoozed: args.includeSnoozed,
+      limit,
+    };
+
+    const pagination = {
+      hasMore,
+      nextCursor,
+      itemsReturned: items.length,
+      limit,
+    };
+
+    const meta = {
+      nextSteps: [
+        ...(hasMore ? [`Call again with cursor="${nextCursor}" for more.`] : []),
+        'Use triage_issues to accept, decline, mark duplicate or snooze.',
+        'Use get_issues for full descriptions before deciding.',
+      ],
+      relatedTools: ['triage_issues', 'get_issues', 'list_users'],
+    };
+
+    const structured = TriageQueueOutputSchema.parse({
+      query,
+      items,
+      pagination,
+      meta,
+      // Legacy
+      cursor: args.cursor,
+      nextCursor,
+      limit,
+    });
+
+    const header = summarizeList({
+      subject: 'Issues awaiting triage',
+      count: items.length,
+      limit,
+      nextCursor,
+      zeroReasonHints: [
+        'the triage inbox may be empty',
+        'triage may not be enabled for this team',
+        ...(args.includeSnoozed
+          ? []
+          : ['snoozed issues are hidden; pass includeSnoozed=true']),
+      ],
+      nextSteps: meta.nextSteps,
+    });
+
+    // Group by team so each rotation sees its own queue
+    const byTeam = new Map<string, TriageItem[]>();
+    for (const it of items) {
+      const key = it.team?.key ?? it.team?.id ?? 'Unknown team';
+      byTeam.set(key, [...(byTeam.get(key) ?? []), it]);
+    }
+
+    const textParts = [header];
+    for (const [teamKey, teamItems] of byTeam) {
+      textParts.push(
+        `${teamKey} (${teamItems.length}):\n${teamItems.map(formatTriageLine).join('\n')}`,
+      );
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
+
+// Triage Issues
+const TriageItemSchema = z.object({
+  id: z.string().describe('Issue UUID or identifier (e.g. ENG-123). Required.'),
+  action: z
+    .enum(['accept', 'decline', 'duplicate', 'snooze'])
+    .describe(
+      "'accept' moves the issue into the team workflow, 'decline' cancels it, " +
+        "'duplicate' marks it a duplicate of duplicateOfId, 'snooze' hides it until snoozeUntil.",
+    ),
+  stateId: z.string().optional().describe('accept only: target state UUID.'),
+  stateName: z.string().optional().describe('accept only: target state name.'),
+  stateType: z
+    .enum(['backlog', 'unstarted', 'started', 'completed', 'canceled'])
+    .optional()
+    .describe("accept only: target state type. Default: the team's default state."),
+  duplicateOfId: z
+    .string()
+    .optional()
+    .describe(
+      'duplicate only: canonical issue UUID or identifier. Required for duplicate.',
+    ),
+  snoozeUntil: z
+    .string()
+    .optional()
+    .describe(
+      'snooze only: ISO date or datetime to resurface the issue. Required for snooze.',
+    ),
+  assigneeId: z.string().optional().describe('Assignee user UUID.'),
+  assigneeName: z.string().optional().describe('Assignee name (fuzzy match).'),
+  assigneeEmail: z.string().optional().describe('Assignee email.'),
+  priority: z
+    .union([
+      z.number().int().min(0).max(4),
+      z.enum([
+        'None',
+        'Urgent',
+        'High',
+        'Medium',
+        'Normal',
+        'Low',
+        'none',
+        'urgent',
+        'high',
+        'medium',
+        'normal',
+        'low',
+      ]),
+    ])
+    .optional()
+    .describe('Priority: 0-4 or "None"/"Urgent"/"High"/"Medium"/"Low".'),
+  labelIds: z.array(z.string()).optional().describe('Label UUIDs to add.'),
+  labelNames: z
+    .array(z.string())
+    .optional()
+    .describe('Label names to add (resolved in the issue team).'),
+  comment: z
+    .string()
+    .optional()
+    .describe('Comment posted after the action, e.g. the reason for declining.'),
+});
+
+const TriageIssuesInputSchema = z.object({
+  items: z.array(TriageItemSchema).min(1).max(50).describe('Triage decisions.'),
+});
+
+type TriageDecision = z.infer<typeof TriageItemSchema>;
+
+type TeamInfo = {
+  id: string;
+  defaultIssueStateId?: string;
+  markedAsDuplicateWorkflowStateId?: string;
+  states: () => Promise<{ nodes: Array<{ id: string; name: string; type?: string }> }>;
+};
+
+/**
+ * Check the fields each action needs. Returns an error message, or undefined when valid.
+ */
+function validateDecision(it: TriageDecision): string | undefined {
+  if (it.action === 'duplicate' && !it.duplicateOfId) {
+    return 'duplicate requires duplicateOfId';
+  }
+  if (it.action === 'snooze') {
+    if (!it.snoozeUntil) {
+      return 'snooze requires snoozeUntil';
+    }
+    if (Number.isNaN(new Date(it.snoozeUntil).getTime())) {
+      return `Invalid snoozeUntil: "${it.snoozeUntil}"`;
+    }
+  }
+  if (it.action !== 'accept' && (it.stateId || it.stateName || it.stateType)) {
+    return 'stateId/stateName/stateType only apply to accept';
+  }
+  return undefined;
+}
+
+/**
+ * Pick a canceled state for declines, skipping the team's duplicate state when possible
+ */
+async function resolveCanceledState(team: TeamInfo): Promise<ResolverResult<string>> {
+  const states = await team.states();
+  const canceled = states.nodes.filter((s) => s.type === 'canceled');
+  const match =
+    canceled.find((s) => s.id !== team.markedAsDuplicateWorkflowStateId) ?? canceled[0];
+  if (!match) {
+    return { success: false, error: 'No canceled state found in team' };
+  }
+  return { success: true, value: match.id };
+}
+
+/**
+ * Target workflow state for a triage decision. undefined leaves the state unchanged (snooze).
+ */
+async function resolveTriageState(
+  client: LinearClient,
+  team: TeamInfo,
+  it: TriageDecision,
+): Promise<ResolverResult<string | undefined>> {
+  if (it.action === 'snooze') {
+    return { success: true, value: undefined };
+  }
+  if (it.action === 'decline') {
+    return resolveCanceledState(team);
+  }
+  if (it.action === 'duplicate') {
+    return team.markedAsDuplicateWorkflowStateId
+      ? { success: true, value: team.markedAsDuplicateWorkflowStateId }
+      : resolveCanceledState(team);
+  }
+  if (it.stateId) {
+    return { success: true, value: it.stateId };
+  }
+  if (it.stateName || it.stateType) {
+    return resolveState(client, team.id, {
+      stateName: it.stateName,
+      stateType: it.stateType,
+    });
+  }
+  if (team.defaultIssueStateId) {
+    return { success: true, value: team.defaultIssueStateId };
+  }
+  return resolveState(client, team.id, { stateType: 'unstarted' });
+}
+
+const ACTION_PAST_TENSE: Record<TriageDecision['action'], string> = {
+  accept: 'accepted',
+  decline: 'declined',
+  duplicate: 'marked duplicate',
+  snooze: 'snoozed',
+};
+
+export const triageIssuesTool = defineTool({
+  name: toolsMetadata.triage_issues.name,
+  title: toolsMetadata.triage_issues.title,
+  description: toolsMetadata.triage_issues.description,
+  inputSchema: TriageIssuesInputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+
+    const results: BatchResult[] = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input = { id: it.id, action: it.action };
+
+      const fail = (code: string, message: string, suggestions?: string[]) => {
+        results.push({
+          input,
+          success: false,
+          id: it.id,
+          error: { code, message, suggestions },
+          index: i,
+          ok: false,
+        });
+      };
+
+      const invalid = validateDecision(it);
+      if (invalid) {
+        fail('VALIDATION_ERROR', invalid);
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        const issue = await gate(() => client.issue(it.id));
+        if (!issue) {
+          fail('ISSUE_NOT_FOUND', `Issue ${it.id} not found`, [
+            'Verify the issue id with triage_queue.',
+          ]);
+          continue;
+        }
+        const teamRef = (await issue.team) as { id: string } | undefined;
+        if (!teamRef?.id) {
+          fail('TEAM_RESOLUTION_FAILED', `Cannot resolve team for ${it.id}`);
+          continue;
+        }
+        const team = (await gate(() => client.team(teamRef.id))) as unknown as TeamInfo;
+
+        const payloadInput: Record<string, unknown> = {};
+        const extras: string[] = [];
+
+        const stateResult = await resolveTriageState(client, team, it);
+        if (!stateResult.success) {
+          fail('STATE_RESOLUTION_FAILED', stateResult.error, stateResult.suggestions);
+          continue;
+        }
+        if (stateResult.value) {
+          payloadInput.stateId = stateResult.value;
+        }
+
+        if (it.action === 'snooze') {
+          payloadInput.snoozedUntilAt = new Date(it.snoozeUntil as string);
+          extras.push(`until ${it.snoozeUntil}`);
+        }
+
+        if (it.assigneeId || it.assigneeName || it.assigneeEmail) {
+          const assigneeResult = await resolveAssignee(client, {
+            assigneeId: it.assigneeId,
+            assigneeName: it.assigneeName,
+            assigneeEmail: it.assigneeEmail,
+          });
+          if (!assigneeResult.success && assigneeResult.error) {
+            fail(assigneeResult.error.code, assigneeResult.error.message, [
+              assigneeResult.error.hint,
+            ]);
+            continue;
+          }
+          if (assigneeResult.user?.id) {
+            payloadInput.assigneeId = assigneeResult.user.id;
+            extras.push(
+              `assigned ${assigneeResult.user.name ?? assigneeResult.user.id}`,
+            );
+          }
+        }
+
+        if (it.priority !== undefined) {
+          const priorityResult = resolvePriority(it.priority);
+          if (!priorityResult.success) {
+            fail('PRIORITY_INVALID', priorityResult.error, priorityResult.suggestions);
+            continue;
+          }
+          const validatedPriority = validatePriority(priorityResult.value);
+          if (validatedPriority !== undefined) {
+            payloadInput.priority = validatedPriority;
+            extras.push(`priority ${formatPriorityName(validatedPriority)}`);
+          }
+        }
+
+        if (Array.isArray(it.labelIds) && it.labelIds.length > 0) {
+          payloadInput.addedLabelIds = it.labelIds;
+        } else if (Array.isArray(it.labelNames) && it.labelNames.length > 0) {
+          const labelsResult = await resolveLabels(client, team.id, it.labelNames);
+          if (!labelsResult.success) {
+            fail(
+              'LABEL_RESOLUTION_FAILED',
+              labelsResult.error,
+              labelsResult.suggestions,
+            );
+            continue;
+          }
+          payloadInput.addedLabelIds = labelsResult.value;
+        }
+        if (Array.isArray(payloadInput.addedLabelIds)) {
+          extras.push(`+${payloadInput.addedLabelIds.length} label(s)`);
+        }
+
+        if (it.action === 'duplicate') {
+          const duplicateOf = await gate(() =>
+            client.issue(it.duplicateOfId as string),
+          );
+          await withRetry(
+            () =>
+              gate(() =>
+                client.createIssueRelation({
+                  issueId: issue.id,
+                  relatedIssueId: duplicateOf.id,
+                  type: 'duplicate' as LinearDocument.IssueRelationType,
+                }),
+              ),
+            { maxRetries: 3, baseDelayMs: 500 },
+          );
+          extras.push(`of ${duplicateOf.identifier ?? duplicateOf.id}`);
+        }
+
+        const payload = await withRetry(
+          () => gate(() => client.updateIssue(issue.id, payloadInput)),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        if (it.comment) {
+          try {
+            await withRetry(
+              () =>
+                gate(() =>
+                  client.createComment({
+                    issueId: issue.id,
+                    body: it.comment as string,
+                  }),
+                ),
+              { maxRetries: 3, baseDelayMs: 500 },
+            );
+            extras.push('commented');
+          } catch (error) {
+            results.push({
+              input,
+              success: false,
+              id: issue.id,
+              identifier: issue.identifier,
+              error: {
+                code: 'COMMENT_FAILED',
+                message: `Issue ${ACTION_PAST_TENSE[it.action]} but the comment failed: ${(error as Error).message}`,
+                suggestions: ['Post the comment with add_comments.'],
+              },
+              index: i,
+              ok: false,
+            });
+            continue;
+          }
+        }
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id: issue.id,
+          identifier: issue.identifier,
+          url: issue.url,
+          // Legacy
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(
+          `- ${issue.identifier ?? issue.id} ${ACTION_PAST_TENSE[it.action]}${extras.length > 0 ? ` (${extras.join(', ')})` : ''}`,
+        );
+      } catch (error) {
+        await logger.error('triage_issues', {
+          message: 'Failed to triage issue',
+          id: it.id,
+          error: (error as Error).message,
+        });
+        fail('LINEAR_UPDATE_ERROR', (error as Error).message, [
+          'Verify the issue id with triage_queue or get_issues.',
+        ]);
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: ['Use triage_queue to see what is left.'],
+      relatedTools: ['triage_queue', 'get_issues', 'update_issues'],
+    };
+
+    const structured = TriageIssuesOutputSchema.parse({ results, summary, meta });
+
+    const failures = results
+      .filter((r) => !r.ok)
+      .map((r) => ({
+        index: r.index,
+        id: r.identifier ?? r.id,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: 'Triaged issues',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -11,7 +11,16 @@ import { makeConcurrencyGate, withRetry, delay } from '../../../utils/limits.js'
 import { logger } from '../../../utils/logger.js';
 import { summarizeBatch } from '../../../utils/messages.js';
 import { resolveAssignee } from '../../../utils/user-resolver.js';
-import { resolvePriority, resolveState, resolveLabels, resolveProject, getIssueTeamId } from '../../../utils/resolvers.js';
+import {
+  resolvePriority,
+  resolveState,
+  resolveLabels,
+  resolveProject,
+  resolveCycle,
+  resolveProjectMilestone,
+  getIssueTeamId,
+  getIssueProjectId,
+} from '../../../utils/resolvers.js';
 import { defineTool, type ToolContext, type ToolResult } from '../types.js';
 import {
   createTeamSettingsCache,
@@ -62,6 +71,18 @@ const IssueUpdateItem = z.object({
   // Project - UUID or name
   projectId: z.string().optional().describe('New project UUID.'),
   projectName: z.string().optional().describe('Project name. Resolved to projectId.'),
+  // Project milestone - UUID or name (within the target or current project)
+  projectMilestoneId: z.string().optional().describe('New project milestone UUID.'),
+  projectMilestoneName: z
+    .string()
+    .optional()
+    .describe('Milestone name in the issue\'s project (or the projectId/projectName being set).'),
+  // Cycle - UUID or relative/number/name
+  cycleId: z.string().optional().describe('Cycle UUID. Or use cycleName for lookup.'),
+  cycleName: z
+    .union([z.number().int(), z.string()])
+    .optional()
+    .describe('Cycle in the issue\'s team: "current", "next", "previous", a cycle number, or cycle name.'),
   // Priority - number or string
   priority: z
     .union([
@@ -84,8 +105,41 @@ const InputSchema = z.object({
   items: z.array(IssueUpdateItem).min(1).max(50).describe('Issues to update. Batch up to 50.'),
   parallel: z.boolean().optional().describe('Run in parallel. Default: sequential.'),
   dry_run: z.boolean().optional().describe('If true, validate but do not update.'),
+  createMissingLabels: z
+    .boolean()
+    .optional()
+    .describe('If true, label names that do not exist in the team are created instead of failing.'),
 });
 
+type UpdateResult = {
+  input?: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  error?: { code: string; message: string; suggestions?: string[]; retryable?: boolean };
+  index: number;
+  ok: boolean;
+};
+
+/**
+ * Build a failed per-item result (input resolution errors)
+ */
+function failedResult(
+  id: string,
+  index: number,
+  code: string,
+  message: string,
+  suggestions?: string[],
+): UpdateResult {
+  return {
+    input: { id },
+    success: false,
+    id,
+    error: { code, message, suggestions },
+    index,
+    ok: false,
+  };
+}
+
 export const updateIssuesTool = defineTool({
   name: toolsMetadata.update_issues.name,
   title: toolsMetadata.update_issues.title,
@@ -124,13 +178,7 @@ export const updateIssuesTool = defineTool({
     const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
     const { items } = args;
 
-    const results: {
-      index: number;
-      ok: boolean;
-      id?: string;
-      error?: string;
-      code?: string;
-    }[] = [];
+    const results: UpdateResult[] = [];
 
     const teamAllowZeroCache = createTeamSettingsCache();
     const diffLines: string[] = [];
@@ -159,12 +207,7 @@ export const updateIssuesTool = defineTool({
           payloadInput.stateId = it.stateId;
         } else if (it.stateName || it.stateType) {
           if (!teamId) {
-            results.push({
-              index: i,
-              ok: false,
-              error: 'Cannot resolve state: failed to get issue team',
-              code: 'TEAM_RESOLUTION_FAILED',
-            });
+            results.push(failedResult(it.id, i, 'TEAM_RESOLUTION_FAILED', 'Cannot resolve state: failed to get issue team'));
             continue;
           }
           const stateResult = await resolveState(client, teamId, {
@@ -172,12 +215,7 @@ export const updateIssuesTool = defineTool({
             stateType: it.stateType,
           });
           if (!stateResult.success) {
-            results.push({
-              index: i,
-              ok: false,
-              error: stateResult.error,
-              code: 'STATE_RESOLUTION_FAILED',
-            });
+            results.push(failedResult(it.id, i, 'STATE_RESOLUTION_FAILED', stateResult.error, stateResult.suggestions));
             continue;
           }
           payloadInput.stateId = stateResult.value;
@@ -188,12 +226,14 @@ export const updateIssuesTool = defineTool({
           payloadInput.labelIds = it.labelIds;
         } else if (Array.isArray(it.labelNames) && it.labelNames.length > 0) {
           if (!teamId) {
-            results.push({ index: i, ok: false, error: 'Cannot resolve labels: failed to get issue team', code: 'TEAM_RESOLUTION_FAILED' });
+            results.push(failedResult(it.id, i, 'TEAM_RESOLUTION_FAILED', 'Cannot resolve labels: failed to get issue team'));
             continue;
           }
-          const labelsResult = await resolveLabels(client, teamId, it.labelNames);
+          const labelsResult = await resolveLabels(client, teamId, it.labelNames, {
+            createMissing: args.createMissingLabels,
+          });
           if (!labelsResult.success) {
-            results.push({ index: i, ok: false, error: labelsResult.error, code: 'LABEL_RESOLUTION_FAILED' });
+            results.push(failedResult(it.id, i, 'LABEL_RESOLUTION_FAILED', labelsResult.error, labelsResult.suggestions));
             continue;
           }
           payloadInput.labelIds = labelsResult.value;
@@ -204,28 +244,30 @@ export const updateIssuesTool = defineTool({
           payloadInput.addedLabelIds = it.addLabelIds;
         } else if (Array.isArray(it.addLabelNames) && it.addLabelNames.length > 0) {
           if (!teamId) {
-            results.push({ index: i, ok: false, error: 'Cannot resolve labels: failed to get issue team', code: 'TEAM_RESOLUTION_FAILED' });
+            results.push(failedResult(it.id, i, 'TEAM_RESOLUTION_FAILED', 'Cannot resolve labels: failed to get issue team'));
             continue;
           }
-          const addResult = await resolveLabels(client, teamId, it.addLabelNames);
+          const addResult = await resolveLabels(client, teamId, it.addLabelNames, {
+            createMissing: args.createMissingLabels,
+          });
           if (!addResult.success) {
-            results.push({ index: i, ok: false, error: addResult.error, code: 'LABEL_RESOLUTION_FAILED' });
+            results.push(failedResult(it.id, i, 'LABEL_RESOLUTION_FAILED', addResult.error, addResult.suggestions));
             continue;
           }
           payloadInput.addedLabelIds = addResult.value;
         }
 
-        // Resolve removeLabelNames
+        // Resolve removeLabelNames (never creates labels)
         if (Array.isArray(it.removeLabelIds) && it.removeLabelIds.length > 0) {
           payloadInput.removedLabelIds = it.removeLabelIds;
         } else if (Array.isArray(it.removeLabelNames) && it.removeLabelNames.length > 0) {
           if (!teamId) {
-            results.push({ index: i, ok: false, error: 'Cannot resolve labels: failed to get issue team', code: 'TEAM_RESOLUTION_FAILED' });
+            results.push(failedResult(it.id, i, 'TEAM_RESOLUTION_FAILED', 'Cannot resolve labels: failed to get issue team'));
             continue;
           }
           const removeResult = await resolveLabels(client, teamId, it.removeLabelNames);
           if (!removeResult.success) {
-            results.push({ index: i, ok: false, error: removeResult.error, code: 'LABEL_RESOLUTION_FAILED' });
+            results.push(failedResult(it.id, i, 'LABEL_RESOLUTION_FAILED', removeResult.error, removeResult.suggestions));
             continue;
           }
           payloadInput.removedLabelIds = removeResult.value;
@@ -240,12 +282,7 @@ export const updateIssuesTool = defineTool({
           });
 
           if (!assigneeResult.success && assigneeResult.error) {
-            results.push({
-              index: i,
-              ok: false,
-              error: assigneeResult.error.message,
-              code: assigneeResult.error.code,
-            });
+            results.push(failedResult(it.id, i, assigneeResult.error.code, assigneeResult.error.message, [assigneeResult.error.hint]));
             continue;
           }
 
@@ -260,17 +297,51 @@ export const updateIssuesTool = defineTool({
         } else if (it.projectName) {
           const projectResult = await resolveProject(client, it.projectName);
           if (!projectResult.success) {
-            results.push({ index: i, ok: false, error: projectResult.error, code: 'PROJECT_RESOLUTION_FAILED' });
+            results.push(failedResult(it.id, i, 'PROJECT_RESOLUTION_FAILED', projectResult.error, projectResult.suggestions));
             continue;
           }
           payloadInput.projectId = projectResult.value;
         }
 
+        // Resolve cycle from ID, relative name, number, or name
+        if (it.cycleId) {
+          payloadInput.cycleId = it.cycleId;
+        } else if (it.cycleName !== undefined) {
+          if (!teamId) {
+            results.push(failedResult(it.id, i, 'TEAM_RESOLUTION_FAILED', 'Cannot resolve cycle: failed to get issue team'));
+            continue;
+          }
+          const cycleResult = await resolveCycle(client, teamId, it.cycleName);
+          if (!cycleResult.success) {
+            results.push(failedResult(it.id, i, 'CYCLE_RESOLUTION_FAILED', cycleResult.error, cycleResult.suggestions));
+            continue;
+          }
+          payloadInput.cycleId = cycleResult.value;
+        }
+
+        // Resolve project milestone from ID or name (scoped to the new or current project)
+        if (it.projectMilestoneId) {
+          payloadInput.projectMilestoneId = it.projectMilestoneId;
+        } else if (it.projectMilestoneName) {
+          const projectId =
+            (payloadInput.projectId as string | undefined) ?? (await getIssueProjectId(client, it.id));
+          if (!projectId) {
+            results.push(failedResult(it.id, i, 'MILESTONE_RESOLUTION_FAILED', 'Cannot resolve milestone: issue has no project', ['Set projectId or projectName on the same item.']));
+            continue;
+          }
+          const milestoneResult = await resolveProjectMilestone(client, projectId, it.projectMilestoneName);
+          if (!milestoneResult.success) {
+            results.push(failedResult(it.id, i, 'MILESTONE_RESOLUTION_FAILED', milestoneResult.error, milestoneResult.suggestions));
+            continue;
+          }
+          payloadInput.projectMilestoneId = milestoneResult.value;
+        }
+
         // Resolve priority from number or string
         if (it.priority !== undefined) {
           const priorityResult = resolvePriority(it.priority);
           if (!priorityResult.success) {
-            results.push({ index: i, ok: false, error: priorityResult.error, code: 'PRIORITY_INVALID' });
+            results.push(failedResult(it.id, i, 'PRIORITY_INVALID', priorityResult.error, priorityResult.suggestions));
             continue;
           }
           const validatedPriority = validatePriority(priorityResult.value);
@@ -372,6 +443,10 @@ export const updateIssuesTool = defineTool({
         if (it.assigneeName) inputEcho.assigneeName = it.assigneeName;
         if (it.assigneeEmail) inputEcho.assigneeEmail = it.assigneeEmail;
         if (it.projectId) inputEcho.projectId = it.projectId;
+        if (it.cycleId) inputEcho.cycleId = it.cycleId;
+        if (it.cycleName !== undefined) inputEcho.cycleName = it.cycleName;
+        if (it.projectMilestoneId) inputEcho.projectMilestoneId = it.projectMilestoneId;
+        if (it.projectMilestoneName) inputEcho.projectMilestoneName = it.projectMilestoneName;
         if (it.addLabelIds) inputEcho.addLabelIds = it.addLabelIds;
         if (it.removeLabelIds) inputEcho.removeLabelIds = it.removeLabelIds;
 
@@ -467,8 +542,8 @@ export const updateIssuesTool = defineTool({
       .map((r) => ({
         index: r.index,
         id: r.id,
-        error: r.error ?? '',
-        code: undefined,
+        error: r.error?.message ?? '',
+        code: r.error?.code,
       }));
 
     const archivedRequested = items.some((x) => typeof x.archived === 'boolean');
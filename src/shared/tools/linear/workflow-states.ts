@@ -0,0 +1,537 @@
+/**
+ * Workflow States tool - create, rename, reorder and archive team workflow states in batch.
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { ManageWorkflowStatesOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { delay, makeConcurrencyGate, withRetry } from '../../../utils/limits.js';
+import { logger } from '../../../utils/logger.js';
+import { summarizeBatch } from '../../../utils/messages.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+
+const STATE_TYPES = [
+  'backlog',
+  'unstarted',
+  'started',
+  'completed',
+  'canceled',
+] as const;
+
+// Linear's default colors per state type, used when create omits color
+const DEFAULT_STATE_COLORS: Record<(typeof STATE_TYPES)[number], string> = {
+  backlog: '#bec2c8',
+  unstarted: '#e2e2e2',
+  started: '#f2c94c',
+  completed: '#5e6ad2',
+  canceled: '#95a2b3',
+};
+
+const WorkflowStateItem = z.object({
+  action: z
+    .enum(['create', 'update', 'archive'])
+    .describe(
+      "'create' adds a state to a team, 'update' renames/recolors/reorders, 'archive' removes it.",
+    ),
+  id: z.string().optional().describe('State UUID. Required for update and archive.'),
+  teamId: z.string().optional().describe('Team UUID. Required for create.'),
+  name: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('State name. Required for create; renames on update.'),
+  type: z
+    .enum(STATE_TYPES)
+    .optional()
+    .describe('State type. Required for create; cannot be changed later.'),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex color like #f2c94c')
+    .optional()
+    .describe('Hex color. Defaults to the usual color for the type on create.'),
+  description: z.string().optional().describe('State description.'),
+  position: z
+    .number()
+    .optional()
+    .describe('Sort position within the type column. Lower comes first.'),
+});
+
+const InputSchema = z.object({
+  items: z.array(WorkflowStateItem).min(1).max(50).describe('State changes to apply.'),
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe('If true, preview changes and issue counts without modifying anything.'),
+});
+
+type WorkflowStateInput = z.infer<typeof WorkflowStateItem>;
+
+type StateResult = {
+  input: Record<string, unknown>;
+  success: boolean;
+  id?: string;
+  error?: { code: string; message: string; suggestions?: string[] };
+  action: WorkflowStateInput['action'];
+  issueCount?: number;
+  issueCountCapped?: boolean;
+  index: number;
+  ok: boolean;
+};
+
+/**
+ * Check the fields each action needs. Returns an error message, or undefined when valid.
+ */
+function validateItem(it: WorkflowStateInput): string | undefined {
+  if (it.action === 'create') {
+    if (!it.teamId || !it.name || !it.type) {
+      return 'create requires teamId, name and type';
+    }
+    return undefined;
+  }
+  if (!it.id) {
+    return `${it.action} requires id`;
+  }
+  if (it.action === 'update') {
+    if (it.type) {
+      return 'State type cannot be changed; create a new state and archive this one';
+    }
+    if (
+      it.name === undefined &&
+      it.color === undefined &&
+      it.description === undefined &&
+      it.position === undefined
+    ) {
+      return 'Nothing to update';
+    }
+  }
+  return undefined;
+}
+
+const STATE_QUERY = `
+  query WorkflowStatePreview($id: String!) {
+    workflowState(id: $id) {
+      id
+      name
+      type
+      position
+      team { id key }
+    }
+  }
+`;
+
+const STATE_ISSUES_QUERY = `
+  query WorkflowStateIssues($filter: IssueFilter, $first: Int!, $after: String) {
+    issues(filter: $filter, first: $first, after: $after) {
+      nodes { id }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+// Upper bound on pages scanned when counting issues in a state (250 issues/page)
+const MAX_COUNT_PAGES = 20;
+
+type StateInfo = {
+  id: string;
+  name: string;
+  type: string;
+  position?: number;
+  team?: { id: string; key?: string } | null;
+};
+
+async function fetchState(
+  client: LinearClient,
+  id: string,
+): Promise<StateInfo | undefined> {
+  const resp = await client.client.rawRequest(STATE_QUERY, { id });
+  return (
+    (resp as unknown as { data?: { workflowState?: StateInfo | null } }).data
+      ?.workflowState ?? undefined
+  );
+}
+
+/**
+ * Count issues currently in a state. capped=true when the page limit was hit.
+ */
+async function countStateIssues(
+  client: LinearClient,
+  stateId: string,
+): Promise<{ count: number; capped: boolean }> {
+  let count = 0;
+  let after: string | undefined;
+
+  for (let page = 0; page < MAX_COUNT_PAGES; page++) {
+    const resp = await client.client.rawRequest(STATE_ISSUES_QUERY, {
+      filter: { state: { id: { eq: stateId } } },
+      first: 250,
+      after,
+    });
+    const conn = (
+      resp as unknown as {
+        data?: {
+          issues?: {
+            nodes?: Array<{ id: string }>;
+            pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+          };
+        };
+      }
+    ).data?.issues;
+
+    count += conn?.nodes?.length ?? 0;
+
+    if (!conn?.pageInfo?.hasNextPage || !conn.pageInfo.endCursor) {
+      return { count, capped: false };
+    }
+    after = conn.pageInfo.endCursor;
+  }
+
+  return { count, capped: true };
+}
+
+function describeState(s: StateInfo): string {
+  return `"${s.name}" [${s.type}]${s.team?.key ? ` in ${s.team.key}` : ''}`;
+}
+
+export const manageWorkflowStatesTool = defineTool({
+  name: toolsMetadata.manage_workflow_states.name,
+  title: toolsMetadata.manage_workflow_states.title,
+  description: toolsMetadata.manage_workflow_states.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const gate = makeConcurrencyGate(config.CONCURRENCY_LIMIT);
+    const dryRun = args.dry_run === true;
+
+    const results: StateResult[] = [];
+    const detailLines: string[] = [];
+
+    for (let i = 0; i < args.items.length; i++) {
+      const it = args.items[i];
+      const input: Record<string, unknown> = { action: it.action };
+      for (const key of [
+        'id',
+        'teamId',
+        'name',
+        'type',
+        'color',
+        'description',
+        'position',
+      ] as const) {
+        if (it[key] !== undefined) input[key] = it[key];
+      }
+
+      const invalid = validateItem(it);
+      if (invalid) {
+        results.push({
+          input,
+          success: false,
+          id: it.id,
+          action: it.action,
+          error: { code: 'VALIDATION_ERROR', message: invalid },
+          index: i,
+          ok: false,
+        });
+        continue;
+      }
+
+      try {
+        if (context.signal?.aborted) {
+          throw new Error('Operation aborted');
+        }
+
+        // Add small delay between requests to avoid rate limits
+        if (i > 0) {
+          await delay(100);
+        }
+
+        if (it.action === 'create') {
+          const teamId = it.teamId as string;
+          const name = it.name as string;
+          const type = it.type as (typeof STATE_TYPES)[number];
+
+          if (dryRun) {
+            const team = await gate(() => client.team(teamId));
+            const existing = (await team.states()).nodes.find(
+              (s) => s.name.toLowerCase() === name.toLowerCase(),
+            );
+            if (existing) {
+              results.push({
+                input,
+                success: false,
+                id: existing.id,
+                action: it.action,
+                error: {
+                  code: 'STATE_EXISTS',
+                  message: `State "${existing.name}" already exists in ${team.key}`,
+                  suggestions: [
+                    'Use action=update to rename or reorder the existing state.',
+                  ],
+                },
+                index: i,
+                ok: false,
+              });
+              continue;
+            }
+            results.push({
+              input,
+              success: true,
+              action: it.action,
+              index: i,
+              ok: true,
+            });
+            detailLines.push(`- Would create "${name}" [${type}] in ${team.key}`);
+            continue;
+          }
+
+          const payload = await withRetry(
+            () =>
+              gate(() =>
+                client.createWorkflowState({
+                  teamId,
+                  name,
+                  type,
+                  color: it.color ?? DEFAULT_STATE_COLORS[type],
+                  description: it.description,
+                  position: it.position,
+                }),
+              ),
+            { maxRetries: 3, baseDelayMs: 500 },
+          );
+
+          results.push({
+            input,
+            success: payload.success ?? true,
+            id: payload.workflowStateId,
+            action: it.action,
+            index: i,
+            ok: payload.success ?? true,
+          });
+          detailLines.push(
+            `- Created "${name}" [${type}] → ${payload.workflowStateId ?? 'unknown id'}`,
+          );
+          continue;
+        }
+
+        const id = it.id as string;
+        const state =
+          dryRun || it.action === 'archive'
+            ? await gate(() => fetchState(client, id))
+            : undefined;
+        if ((dryRun || it.action === 'archive') && !state) {
+          results.push({
+            input,
+            success: false,
+            id,
+            action: it.action,
+            error: {
+              code: 'STATE_NOT_FOUND',
+              message: `Workflow state not found: ${id}`,
+              suggestions: [
+                "Use workspace_metadata with include=['workflow_states'] to find state ids.",
+              ],
+            },
+            index: i,
+            ok: false,
+          });
+          continue;
+        }
+
+        if (it.action === 'update') {
+          const changes: Record<string, unknown> = {};
+          if (it.name !== undefined) changes.name = it.name;
+          if (it.color !== undefined) changes.color = it.color;
+          if (it.description !== undefined) changes.description = it.description;
+          if (it.position !== undefined) changes.position = it.position;
+
+          const changeText = [
+            it.name !== undefined ? `rename to "${it.name}"` : undefined,
+            it.position !== undefined
+              ? `position ${state?.position !== undefined ? `${String(state.position)} → ` : ''}${String(it.position)}`
+              : undefined,
+            it.color !== undefined ? `color ${it.color}` : undefined,
+            it.description !== undefined ? 'description' : undefined,
+          ]
+            .filter(Boolean)
+            .join(', ');
+
+          if (dryRun) {
+            results.push({
+              input,
+              success: true,
+              id,
+              action: it.action,
+              index: i,
+              ok: true,
+            });
+            detailLines.push(
+              `- Would update ${describeState(state as StateInfo)}: ${changeText}`,
+            );
+            continue;
+          }
+
+          const payload = await withRetry(
+            () => gate(() => client.updateWorkflowState(id, changes)),
+            { maxRetries: 3, baseDelayMs: 500 },
+          );
+
+          results.push({
+            input,
+            success: payload.success ?? true,
+            id,
+            action: it.action,
+            index: i,
+            ok: payload.success ?? true,
+          });
+          detailLines.push(`- Updated ${id}: ${changeText}`);
+          continue;
+        }
+
+        // Archive: Linear only archives empty states, so count first
+        const { count, capped } = await gate(() => countStateIssues(client, id));
+        const countText = `${count}${capped ? '+' : ''}`;
+
+        if (count > 0) {
+          results.push({
+            input,
+            success: false,
+            id,
+            action: it.action,
+            issueCount: count,
+            issueCountCapped: capped || undefined,
+            error: {
+              code: 'STATE_NOT_EMPTY',
+              message: `${countText} issue(s) are still in ${describeState(state as StateInfo)}`,
+              suggestions: [
+                'Move them with update_issues (stateId or stateName) first, then archive.',
+              ],
+            },
+            index: i,
+            ok: false,
+          });
+          detailLines.push(
+            `- ${dryRun ? 'Cannot archive' : 'Not archived'} ${describeState(state as StateInfo)}: ${countText} issue(s) still in it`,
+          );
+          continue;
+        }
+
+        if (dryRun) {
+          results.push({
+            input,
+            success: true,
+            id,
+            action: it.action,
+            issueCount: 0,
+            index: i,
+            ok: true,
+          });
+          detailLines.push(
+            `- Would archive ${describeState(state as StateInfo)} (no issues)`,
+          );
+          continue;
+        }
+
+        const payload = await withRetry(
+          () => gate(() => client.archiveWorkflowState(id)),
+          { maxRetries: 3, baseDelayMs: 500 },
+        );
+
+        results.push({
+          input,
+          success: payload.success ?? true,
+          id,
+          action: it.action,
+          issueCount: 0,
+          index: i,
+          ok: payload.success ?? true,
+        });
+        detailLines.push(`- Archived ${describeState(state as StateInfo)}`);
+      } catch (error) {
+        await logger.error('manage_workflow_states', {
+          message: 'Failed to apply workflow state change',
+          index: i,
+          error: (error as Error).message,
+        });
+        results.push({
+          input,
+          success: false,
+          id: it.id,
+          action: it.action,
+          error: {
+            code:
+              it.action === 'create' ? 'LINEAR_CREATE_ERROR' : 'LINEAR_UPDATE_ERROR',
+            message: (error as Error).message,
+            suggestions: [
+              "Verify teamId with list_teams and state ids with workspace_metadata include=['workflow_states'].",
+            ],
+          },
+          index: i,
+          ok: false,
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    const summary = {
+      total: args.items.length,
+      succeeded,
+      failed,
+      // Legacy
+      ok: succeeded,
+    };
+
+    const meta = {
+      nextSteps: dryRun
+        ? ['Call again without dry_run to apply.']
+        : ["Use workspace_metadata with include=['workflow_states'] to verify."],
+      relatedTools: ['workspace_metadata', 'update_issues', 'list_teams'],
+    };
+
+    const structured = ManageWorkflowStatesOutputSchema.parse({
+      results,
+      summary,
+      dryRun,
+      meta,
+    });
+
+    const failures = results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        index: r.index,
+        id: r.id ?? String(r.input.name ?? ''),
+        error: r.error?.message ?? '',
+        code: r.error?.code,
+      }));
+
+    const summaryLine = summarizeBatch({
+      action: dryRun ? 'Dry run: workflow state changes' : 'Updated workflow states',
+      ok: succeeded,
+      total: args.items.length,
+      failures,
+      nextSteps: meta.nextSteps,
+    });
+
+    const textParts = [summaryLine];
+    if (detailLines.length > 0) {
+      textParts.push(detailLines.join('\n'));
+    }
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
@@ -0,0 +1,450 @@
+/**
+ * Workload Overview tool - open issues grouped by assignee, with overload
+ * flags and unassigned high-priority work, for rebalancing.
+ */
+
+import type { LinearClient } from '@linear/sdk';
+import { z } from 'zod';
+import { config } from '../../../config/env.js';
+import { toolsMetadata } from '../../../config/metadata.js';
+import { WorkloadOverviewOutputSchema } from '../../../schemas/outputs.js';
+import { getLinearClient } from '../../../services/linear/client.js';
+import { resolveTeam } from '../../../utils/resolvers.js';
+import { defineTool, type ToolContext, type ToolResult } from '../types.js';
+import { fetchAllIssues } from './shared/index.js';
+
+const InputSchema = z.object({
+  teamId: z.string().optional().describe('Team UUID. Or use teamKey.'),
+  teamKey: z.string().optional().describe('Team key, e.g. "ENG".'),
+  projectId: z.string().optional().describe('Only issues in this project.'),
+  maxIssuesPerPerson: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Flag people with more open issues than this. Default: 10.'),
+  maxPointsPerPerson: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Also flag people whose open estimates sum above this.'),
+  maxIssues: z
+    .number()
+    .int()
+    .min(1)
+    .max(5000)
+    .optional()
+    .describe('Max open issues to analyze. Default: 2000.'),
+});
+
+// Everything not completed or canceled
+const OPEN_STATE_TYPES = ['triage', 'backlog', 'unstarted', 'started'];
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  url
+  priority
+  estimate
+  state { name type }
+  assignee { id name displayName email }
+`;
+
+type OpenIssueNode = {
+  id: string;
+  identifier?: string;
+  title?: string;
+  url?: string | null;
+  priority?: number | null;
+  estimate?: number | null;
+  state?: { name?: string; type?: string } | null;
+  assignee?: {
+    id: string;
+    name?: string | null;
+    displayName?: string | null;
+    email?: string | null;
+  } | null;
+};
+
+type Tally = { issues: number; points: number };
+
+type WorkloadIssue = {
+  id: string;
+  identifier?: string;
+  title: string;
+  url?: string;
+  priority?: number;
+  estimate?: number;
+  stateName?: string;
+  stateType?: string;
+};
+
+type Person = {
+  id: string;
+  name: string;
+  email?: string;
+  openIssues: number;
+  points: number;
+  byStateType: Record<string, Tally>;
+  byPriority: Record<string, Tally>;
+  items: WorkloadIssue[];
+};
+
+/**
+ * Linear priorities: 0=None, 1=Urgent, 2=High, 3=Medium, 4=Low
+ */
+const PRIORITY_KEYS: Record<number, string> = {
+  0: 'none',
+  1: 'urgent',
+  2: 'high',
+  3: 'medium',
+  4: 'low',
+};
+
+const PRIORITY_LABELS: Record<number, string> = {
+  1: 'Urgent',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low',
+};
+
+function addTo(tallies: Record<string, Tally>, key: string, points: number): void {
+  const tally = tallies[key] ?? { issues: 0, points: 0 };
+  tally.issues += 1;
+  tally.points += points;
+  tallies[key] = tally;
+}
+
+function toWorkloadIssue(issue: OpenIssueNode): WorkloadIssue {
+  return {
+    id: issue.id,
+    identifier: issue.identifier ?? undefined,
+    title: issue.title ?? '',
+    url: issue.url ?? undefined,
+    priority: issue.priority ?? undefined,
+    estimate: issue.estimate ?? undefined,
+    stateName: issue.state?.name ?? undefined,
+    stateType: issue.state?.type ?? undefined,
+  };
+}
+
+function formatWorkloadIssue(issue: WorkloadIssue): string {
+  const details = [
+    ...(issue.priority && PRIORITY_LABELS[issue.priority]
+      ? [PRIORITY_LABELS[issue.priority] as string]
+      : []),
+    ...(issue.estimate !== undefined ? [`${issue.estimate} pts`] : []),
+    ...(issue.stateName ? [issue.stateName] : []),
+  ];
+  const suffix = details.length > 0 ? ` (${details.join('; ')})` : '';
+  return `- ${issue.identifier ?? issue.id} ${issue.title}${suffix} → ${issue.id}`;
+}
+
+function formatTallies(tallies: Record<string, Tally>, order: string[]): string {
+  return order
+    .filter((key) => tallies[key])
+    .map((key) => `${key} ${tallies[key]?.issues}`)
+    .join(', ');
+}
+
+type Candidate = {
+  id: string;
+  name?: string | null;
+  displayName?: string | null;
+  email?: string | null;
+  active?: boolean | null;
+  app?: boolean | null;
+};
+
+/**
+ * Active, non-app members of the team, or of the workspace when no team is given
+ */
+async function fetchCandidates(
+  client: LinearClient,
+  teamId?: string,
+): Promise<Candidate[]> {
+  const team = teamId ? await client.team(teamId) : undefined;
+  const candidates: Candidate[] = [];
+  let after: string | undefined;
+
+  do {
+    const page = team
+      ? await team.members({ first: 250, after })
+      : await client.users({ first: 250, after });
+    candidates.push(...(page.nodes as Candidate[]));
+    after = page.pageInfo.hasNextPage
+      ? (page.pageInfo.endCursor ?? undefined)
+      : undefined;
+  } while (after);
+
+  return candidates.filter((u) => u.active !== false && !u.app);
+}
+
+export const workloadOverviewTool = defineTool({
+  name: toolsMetadata.workload_overview.name,
+  title: toolsMetadata.workload_overview.title,
+  description: toolsMetadata.workload_overview.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context: ToolContext): Promise<ToolResult> => {
+    const client = await getLinearClient(context);
+    const maxIssuesPerPerson = args.maxIssuesPerPerson ?? 10;
+    const maxIssues = args.maxIssues ?? 2000;
+
+    const filter: Record<string, unknown> = {
+      state: { type: { in: OPEN_STATE_TYPES } },
+    };
+    let team: { id: string; key: string } | undefined;
+    if (args.teamId || args.teamKey) {
+      const teamResult = await resolveTeam(client, {
+        teamId: args.teamId,
+        teamKey: args.teamKey,
+      });
+      if (!teamResult.success) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: `${teamResult.error}. ${
+                teamResult.suggestions?.join(' ') ?? 'Use list_teams to find the team.'
+              }`,
+            },
+          ],
+          structuredContent: {
+            error: 'TEAM_NOT_FOUND',
+            teamId: args.teamId,
+            teamKey: args.teamKey,
+            hint: 'Use list_teams to find the team id or key.',
+          },
+        };
+      }
+      team = teamResult.value;
+      filter.team = { id: { eq: team.id } };
+    }
+    if (args.projectId) {
+      filter.project = { id: { eq: args.projectId } };
+    }
+
+    const open = await fetchAllIssues<OpenIssueNode>(client, {
+      fields: ISSUE_FIELDS,
+      filter,
+      maxIssues,
+      signal: context.signal,
+    });
+
+    // People without open issues show spare capacity; a project alone has no roster
+    const candidates =
+      team || !args.projectId ? await fetchCandidates(client, team?.id) : [];
+
+    const people = new Map<string, Person>();
+    const addPerson = (u: {
+      id: string;
+      name?: string | null;
+      displayName?: string | null;
+      email?: string | null;
+    }) => {
+      if (!people.has(u.id)) {
+        people.set(u.id, {
+          id: u.id,
+          name: u.displayName ?? u.name ?? u.id,
+          email: u.email ?? undefined,
+          openIssues: 0,
+          points: 0,
+          byStateType: {},
+          byPriority: {},
+          items: [],
+        });
+      }
+      return people.get(u.id) as Person;
+    };
+    for (const u of candidates) {
+      addPerson(u);
+    }
+
+    const totals = { issues: 0, points: 0, unestimated: 0 };
+    const unassigned = { issues: 0, points: 0, highPriority: [] as WorkloadIssue[] };
+
+    for (const issue of open.nodes) {
+      const points = issue.estimate ?? 0;
+      totals.issues += 1;
+      totals.points += points;
+      if (issue.estimate === undefined || issue.estimate === null) {
+        totals.unestimated += 1;
+      }
+
+      if (!issue.assignee) {
+        unassigned.issues += 1;
+        unassigned.points += points;
+        if (issue.priority === 1 || issue.priority === 2) {
+          unassigned.highPriority.push(toWorkloadIssue(issue));
+        }
+        continue;
+      }
+
+      const person = addPerson(issue.assignee);
+      person.openIssues += 1;
+      person.points += points;
+      addTo(person.byStateType, issue.state?.type ?? 'unknown', points);
+      addTo(person.byPriority, PRIORITY_KEYS[issue.priority ?? 0] ?? 'none', points);
+      person.items.push(toWorkloadIssue(issue));
+    }
+
+    // Urgent first, then by estimate
+    unassigned.highPriority.sort(
+      (a, b) =>
+        (a.priority ?? 0) - (b.priority ?? 0) || (b.estimate ?? 0) - (a.estimate ?? 0),
+    );
+
+    const isOverloaded = (p: Person) =>
+      p.openIssues > maxIssuesPerPerson ||
+      (args.maxPointsPerPerson !== undefined && p.points > args.maxPointsPerPerson);
+
+    const peopleItems = [...people.values()]
+      .sort(
+        (a, b) =>
+          b.points - a.points ||
+          b.openIssues - a.openIssues ||
+          a.name.localeCompare(b.name),
+      )
+      .map((p) => {
+        const overloaded = isOverloaded(p);
+        return {
+          id: p.id,
+          name: p.name,
+          email: p.email,
+          openIssues: p.openIssues,
+          points: p.points,
+          byStateType: p.byStateType,
+          byPriority: p.byPriority,
+          overloaded,
+          // Reassignment candidates, least urgent and not yet started first
+          issues: overloaded
+            ? [...p.items]
+                .sort(
+                  (a, b) =>
+                    Number(a.stateType === 'started') -
+                      Number(b.stateType === 'started') ||
+                    (b.priority || 5) - (a.priority || 5),
+                )
+                .slice(0, 25)
+            : undefined,
+        };
+      });
+
+    const overloaded = peopleItems.filter((p) => p.overloaded);
+    const available = peopleItems
+      .filter((p) => !p.overloaded)
+      .sort((a, b) => a.points - b.points || a.openIssues - b.openIssues);
+
+    const meta = {
+      nextSteps: [
+        ...(overloaded.length > 0 || unassigned.highPriority.length > 0
+          ? [
+              'Propose reassignments to people with spare capacity, then apply them with update_issues (assigneeId).',
+            ]
+          : []),
+        ...(open.truncated
+          ? ['Narrow the scope or raise maxIssues for complete numbers.']
+          : []),
+        'Use list_issues with assignee filters to review one person in detail.',
+      ],
+      relatedTools: ['update_issues', 'list_issues', 'list_users'],
+    };
+
+    const structured = WorkloadOverviewOutputSchema.parse({
+      query: {
+        teamId: team?.id,
+        teamKey: team?.key,
+        projectId: args.projectId,
+        maxIssuesPerPerson,
+        maxPointsPerPerson: args.maxPointsPerPerson,
+      },
+      totals,
+      people: peopleItems,
+      unassigned,
+      truncated: open.truncated,
+      meta,
+    });
+
+    const scopeLabel = [
+      ...(team ? [team.key] : []),
+      ...(args.projectId ? [`project ${args.projectId}`] : []),
+    ];
+    const thresholdText = `more than ${maxIssuesPerPerson} issues${
+      args.maxPointsPerPerson !== undefined ? ` or ${args.maxPointsPerPerson} pts` : ''
+    }`;
+    const summaryLines = [
+      `Workload for ${scopeLabel.length > 0 ? scopeLabel.join(', ') : 'the workspace'}: ${
+        totals.issues
+      } open issue(s), ${totals.points} pts; ${unassigned.issues} unassigned (${
+        unassigned.highPriority.length
+      } high priority)${open.truncated ? ` (truncated at ${maxIssues})` : ''}.`,
+      overloaded.length > 0
+        ? `Overloaded (${thresholdText}): ${overloaded.map((p) => p.name).join(', ')}.`
+        : `Nobody has ${thresholdText}.`,
+    ];
+    if (available.length > 0) {
+      summaryLines.push(
+        `Most spare capacity: ${available
+          .slice(0, 5)
+          .map((p) => `${p.name} (${p.openIssues} issue(s), ${p.points} pts)`)
+          .join(', ')}.`,
+      );
+    }
+
+    const textParts = [summaryLines.join('\n')];
+
+    const personLines = peopleItems.map((p) => {
+      const breakdown = [
+        formatTallies(p.byStateType, [
+          'started',
+          'unstarted',
+          'backlog',
+          'triage',
+          'unknown',
+        ]),
+        formatTallies(p.byPriority, ['urgent', 'high']),
+      ].filter(Boolean);
+      return `- ${p.name}: ${p.openIssues} issue(s), ${p.points} pts${
+        breakdown.length > 0 ? ` (${breakdown.join('; ')})` : ''
+      }${p.overloaded ? ' — overloaded' : ''} → ${p.id}`;
+    });
+    if (personLines.length > 0) {
+      textParts.push(`People (heaviest first):\n${personLines.join('\n')}`);
+    }
+
+    for (const p of overloaded) {
+      textParts.push(
+        `Reassignment candidates from ${p.name}:\n${(p.issues ?? [])
+          .slice(0, 10)
+          .map(formatWorkloadIssue)
+          .join('\n')}`,
+      );
+    }
+
+    if (unassigned.highPriority.length > 0) {
+      textParts.push(
+        `Unassigned high-priority work:\n${unassigned.highPriority
+          .slice(0, 20)
+          .map(formatWorkloadIssue)
+          .join('\n')}`,
+      );
+    }
+
+    const text = textParts.join('\n\n');
+
+    const parts: Array<{ type: 'text'; text: string }> = [{ type: 'text', text }];
+
+    if (config.LINEAR_MCP_INCLUDE_JSON_IN_CONTENT) {
+      parts.push({ type: 'text', text: JSON.stringify(structured) });
+    }
+
+    return { content: parts, structuredContent: structured };
+  },
+});
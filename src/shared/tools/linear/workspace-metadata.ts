@@ -1,5 +1,5 @@
 /**
- * Workspace Metadata tool - discover IDs, teams, workflow states, labels, projects.
+ * Workspace Metadata tool - discover IDs, teams, workflow states, labels, projects, initiatives.
  */
 
 import { z } from 'zod';
@@ -9,6 +9,7 @@ import { getLinearClient } from '../../../services/linear/client.js';
 import { previewLinesFromItems, summarizeList } from '../../../utils/messages.js';
 import { defineTool, type ToolContext, type ToolResult } from '../types.js';
 import { config } from '../../../config/env.js';
+import { fetchInitiatives } from './shared/index.js';
 
 const InputSchema = z.object({
   include: z
@@ -20,6 +21,7 @@ const InputSchema = z.object({
         'labels',
         'projects',
         'favorites',
+        'initiatives',
       ]),
     )
     .optional()
@@ -30,7 +32,8 @@ const InputSchema = z.object({
         "'workflow_states' returns workflowStatesByTeam[teamId] with state id/name/type. " +
         "'labels' returns labelsByTeam[teamId]. " +
         "'projects' returns project list. " +
-        "'favorites' returns user favorites.",
+        "'favorites' returns user favorites. " +
+        "'initiatives' returns initiatives with their projectIds (not included by default).",
     ),
   teamIds: z
     .array(z.string())
@@ -236,6 +239,27 @@ export const workspaceMetadataTool = defineTool({
       }
     }
 
+    if (include.includes('initiatives')) {
+      try {
+        const { items } = await fetchInitiatives(client, {
+          first: 50,
+          projectLimit: args.project_limit ?? 10,
+        });
+        result.initiatives = items.map((i) => ({
+          id: i.id,
+          name: i.name,
+          status: i.status,
+          health: i.health,
+          targetDate: i.targetDate,
+          projectIds: i.projects.map((p) => p.id),
+          // projectIds stop at project_limit
+          projectsTruncated: i.hasMoreProjects || undefined,
+        }));
+      } catch {
+        // ignore initiatives errors; not available on every plan
+      }
+    }
+
     if (include.includes('projects')) {
       const limit = args.project_limit ?? 10;
       const projects: Array<Record<string, unknown>> = [];
@@ -268,6 +292,9 @@ export const workspaceMetadataTool = defineTool({
         0,
       ),
       projectCount: projectsLocalCount,
+      initiativeCount: Array.isArray(result.initiatives)
+        ? result.initiatives.length
+        : undefined,
     };
     result.summary = summary;
 
@@ -312,6 +339,11 @@ export const workspaceMetadataTool = defineTool({
         result.projects.map((p: { name: string; id: string }) => [p.name, p.id]),
       );
     }
+    if (result.initiatives && Array.isArray(result.initiatives)) {
+      quickLookup.initiativeIdByName = Object.fromEntries(
+        result.initiatives.map((i: { name: string; id: string }) => [i.name, i.id]),
+      );
+    }
     result.quickLookup = quickLookup;
 
     // Build meta
@@ -388,6 +420,30 @@ export const workspaceMetadataTool = defineTool({
       );
     }
 
+    if (Array.isArray(structured.initiatives) && structured.initiatives.length > 0) {
+      const initiativePreviewLines = structured.initiatives.map(
+        (i) =>
+          `${i.name} [${i.status ?? 'unknown'}] → ${i.id} (${i.projectIds.length}${
+            i.projectsTruncated ? '+' : ''
+          } project(s))`,
+      );
+      summaryLines.push(
+        summarizeList({
+          subject: 'Initiatives',
+          count: structured.initiatives.length,
+          previewLines: initiativePreviewLines,
+          nextSteps: [
+            ...(structured.initiatives.some((i) => i.projectsTruncated)
+              ? [
+                  'Some initiatives have more projects than project_limit; raise it or use list_initiatives.',
+                ]
+              : []),
+            'Use list_initiatives for project health and progress per initiative.',
+          ],
+        }),
+      );
+    }
+
     parts.push({
       type: 'text',
       text: `Loaded workspace bootstrap for ${viewerBit}${viewerIdBit}. ${summaryLines.join(' ')}`,
@@ -8,17 +8,64 @@ import {
   workspaceMetadataTool,
   listIssuesTool,
   getIssuesTool,
+  getIssueTreeTool,
+  getIssueHistoryTool,
   createIssuesTool,
+  listIssueTemplatesTool,
   updateIssuesTool,
+  manageIssueRelationsTool,
+  moveIssuesTool,
+  deleteIssuesTool,
+  restoreIssuesTool,
+  listAttachmentsTool,
+  linkAttachmentsTool,
+  removeAttachmentsTool,
+  createLabelsTool,
+  updateLabelsTool,
+  mergeLabelsTool,
+  manageWorkflowStatesTool,
+  triageQueueTool,
+  triageIssuesTool,
+  listNotificationsTool,
+  markNotificationsTool,
+  manageIssueSubscribersTool,
+  manageReactionsTool,
+  listCustomViewsTool,
+  createCustomViewsTool,
+  updateCustomViewsTool,
+  listCustomersTool,
+  addCustomerRequestsTool,
   listTeamsTool,
+  listTeamMembersTool,
+  manageTeamMembersTool,
+  updateTeamsTool,
   listUsersTool,
   listCommentsTool,
   addCommentsTool,
   updateCommentsTool,
+  deleteCommentsTool,
+  listDocumentsTool,
+  getDocumentsTool,
+  createDocumentsTool,
+  updateDocumentsTool,
   listCyclesTool,
+  createCyclesTool,
+  updateCyclesTool,
+  cycleReportTool,
+  flowMetricsTool,
+  workloadOverviewTool,
+  standupDigestTool,
+  generateChangelogTool,
   listProjectsTool,
   createProjectsTool,
   updateProjectsTool,
+  listProjectMilestonesTool,
+  createProjectMilestonesTool,
+  updateProjectMilestonesTool,
+  listProjectUpdatesTool,
+  createProjectUpdatesTool,
+  listInitiativesTool,
+  manageInitiativeProjectsTool,
 } from './linear/index.js';
 import type { ToolContext, ToolResult } from './types.js';
 
@@ -48,21 +95,77 @@ export const sharedTools: RegisteredTool[] = [
   // Linear tools - Issues
   listIssuesTool as unknown as RegisteredTool,
   getIssuesTool as unknown as RegisteredTool,
+  getIssueTreeTool as unknown as RegisteredTool,
+  getIssueHistoryTool as unknown as RegisteredTool,
   createIssuesTool as unknown as RegisteredTool,
+  listIssueTemplatesTool as unknown as RegisteredTool,
   updateIssuesTool as unknown as RegisteredTool,
+  manageIssueRelationsTool as unknown as RegisteredTool,
+  moveIssuesTool as unknown as RegisteredTool,
+  deleteIssuesTool as unknown as RegisteredTool,
+  restoreIssuesTool as unknown as RegisteredTool,
+  listAttachmentsTool as unknown as RegisteredTool,
+  linkAttachmentsTool as unknown as RegisteredTool,
+  removeAttachmentsTool as unknown as RegisteredTool,
+  // Linear tools - Labels
+  createLabelsTool as unknown as RegisteredTool,
+  updateLabelsTool as unknown as RegisteredTool,
+  mergeLabelsTool as unknown as RegisteredTool,
+  // Linear tools - Workflow States
+  manageWorkflowStatesTool as unknown as RegisteredTool,
+  // Linear tools - Triage
+  triageQueueTool as unknown as RegisteredTool,
+  triageIssuesTool as unknown as RegisteredTool,
+  // Linear tools - Notifications
+  listNotificationsTool as unknown as RegisteredTool,
+  markNotificationsTool as unknown as RegisteredTool,
+  // Linear tools - Subscriptions & Reactions
+  manageIssueSubscribersTool as unknown as RegisteredTool,
+  manageReactionsTool as unknown as RegisteredTool,
+  // Linear tools - Custom Views
+  listCustomViewsTool as unknown as RegisteredTool,
+  createCustomViewsTool as unknown as RegisteredTool,
+  updateCustomViewsTool as unknown as RegisteredTool,
+  // Linear tools - Customers
+  listCustomersTool as unknown as RegisteredTool,
+  addCustomerRequestsTool as unknown as RegisteredTool,
   // Linear tools - Teams & Users
   listTeamsTool as unknown as RegisteredTool,
+  listTeamMembersTool as unknown as RegisteredTool,
+  manageTeamMembersTool as unknown as RegisteredTool,
+  updateTeamsTool as unknown as RegisteredTool,
   listUsersTool as unknown as RegisteredTool,
   // Linear tools - Comments
   listCommentsTool as unknown as RegisteredTool,
   addCommentsTool as unknown as RegisteredTool,
   updateCommentsTool as unknown as RegisteredTool,
+  deleteCommentsTool as unknown as RegisteredTool,
+  // Linear tools - Documents
+  listDocumentsTool as unknown as RegisteredTool,
+  getDocumentsTool as unknown as RegisteredTool,
+  createDocumentsTool as unknown as RegisteredTool,
+  updateDocumentsTool as unknown as RegisteredTool,
   // Linear tools - Cycles
   listCyclesTool as unknown as RegisteredTool,
+  createCyclesTool as unknown as RegisteredTool,
+  updateCyclesTool as unknown as RegisteredTool,
+  cycleReportTool as unknown as RegisteredTool,
+  flowMetricsTool as unknown as RegisteredTool,
+  workloadOverviewTool as unknown as RegisteredTool,
+  standupDigestTool as unknown as RegisteredTool,
+  generateChangelogTool as unknown as RegisteredTool,
   // Linear tools - Projects
   listProjectsTool as unknown as RegisteredTool,
   createProjectsTool as unknown as RegisteredTool,
   updateProjectsTool as unknown as RegisteredTool,
+  listProjectMilestonesTool as unknown as RegisteredTool,
+  createProjectMilestonesTool as unknown as RegisteredTool,
+  updateProjectMilestonesTool as unknown as RegisteredTool,
+  listProjectUpdatesTool as unknown as RegisteredTool,
+  createProjectUpdatesTool as unknown as RegisteredTool,
+  // Linear tools - Initiatives
+  listInitiativesTool as unknown as RegisteredTool,
+  manageInitiativeProjectsTool as unknown as RegisteredTool,
 ];
 
 /**
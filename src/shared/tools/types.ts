@@ -5,6 +5,7 @@
  * Uses Zod for schema validation (works in both runtimes).
  */
 
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { z, ZodObject, ZodRawShape } from 'zod';
 
 /**
@@ -26,6 +27,11 @@ export interface ToolContext {
     progressToken?: string | number;
     requestId?: string;
   };
+  /**
+   * MCP server for server→client requests (elicitation, sampling).
+   * Node.js only - undefined in the Workers runtime.
+   */
+  server?: McpServer;
 
   // ─────────────────────────────────────────────────────────────────────────
   // Authentication
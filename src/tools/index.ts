@@ -13,7 +13,7 @@ export function registerTools(server: McpServer): void {
   // Register shared tools (work in both Node and Workers)
   for (const tool of sharedTools) {
     try {
-      const wrappedHandler = createWrappedHandler(tool.handler);
+      const wrappedHandler = createWrappedHandler(server, tool.handler);
 
       // Shared tools use Zod schemas - pass .shape for SDK compatibility
       server.registerTool(
@@ -50,6 +50,7 @@ export function registerTools(server: McpServer): void {
  * Adapts the shared ToolContext to the SDK's RequestHandlerExtra.
  */
 function createWrappedHandler(
+  server: McpServer,
   handler: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>,
 ) {
   return async (
@@ -74,6 +75,8 @@ function createWrappedHandler(
         progressToken: extra?._meta?.progressToken,
         requestId: requestId ? String(requestId) : undefined,
       },
+      // Enables elicitation/sampling from tool handlers
+      server,
       // Auth from context registry
       authStrategy: existingContext?.authStrategy,
       providerToken: existingContext?.providerToken,
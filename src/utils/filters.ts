@@ -129,6 +129,13 @@ export function normalizeIssueFilter(
     return true;
   };
   for (const [key, value] of Object.entries(input)) {
+    // Logical operators hold a list of sub-filters; normalize each instead of wrapping as `in`
+    if ((key === 'and' || key === 'or') && Array.isArray(value)) {
+      result[key] = value.map((sub) =>
+        isPlainObject(sub) ? (normalizeIssueFilter(sub) ?? {}) : sub,
+      );
+      continue;
+    }
     // Map common *Id filters to relation.id per Linear GraphQL
     if (key in idAliasMap) {
       setNested(result, idAliasMap[key]!, value);
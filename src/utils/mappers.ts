@@ -1,6 +1,8 @@
 import type {
+  ListAttachmentsOutput,
   ListCommentsOutput,
   ListIssuesOutput,
+  ListProjectMilestonesOutput,
   ListProjectsOutput,
   ListTeamsOutput,
   ListUsersOutput,
@@ -150,6 +152,7 @@ export async function mapIssueNodeToListItem(
 
 export function mapProjectNodeToListItem(
   node: unknown,
+  milestones?: ListProjectsOutput['items'][number]['milestones'],
 ): ListProjectsOutput['items'][number] {
   // Project class per SDK types
   const project = node as {
@@ -164,6 +167,12 @@ export function mapProjectNodeToListItem(
   // Try to get leadId if available
   const leadId = (node as { leadId?: string | null })?.leadId ?? undefined;
 
+  // Health of the latest project update (unset until the first update is posted)
+  const { health, healthUpdatedAt } = node as {
+    health?: string | null;
+    healthUpdatedAt?: Date | string | null;
+  };
+
   return {
     id: project.id,
     name: project.name,
@@ -172,6 +181,60 @@ export function mapProjectNodeToListItem(
     leadId,
     targetDate: project.targetDate ?? undefined,
     description: project.description ?? undefined,
+    health: health ?? undefined,
+    healthUpdatedAt: healthUpdatedAt
+      ? new Date(healthUpdatedAt).toISOString()
+      : undefined,
+    milestones,
+  };
+}
+
+export function mapProjectMilestoneNode(
+  node: unknown,
+): ListProjectMilestonesOutput['items'][number] {
+  const milestone = node as {
+    id: string;
+    name: string;
+    description?: string | null;
+    targetDate?: string | null;
+    sortOrder?: number | null;
+    progress?: number | null;
+  };
+
+  return {
+    id: milestone.id,
+    name: milestone.name,
+    description: milestone.description ?? undefined,
+    targetDate: milestone.targetDate ?? undefined,
+    sortOrder: milestone.sortOrder ?? undefined,
+    // Linear reports progress as a 0-1 fraction
+    progress:
+      typeof milestone.progress === 'number'
+        ? Math.round(milestone.progress * 100)
+        : undefined,
+  };
+}
+
+// Does not read creator: on SDK attachments it is a lazy fetch per node
+export function mapAttachmentNode(node: unknown): ListAttachmentsOutput['items'][number] {
+  const attachment = node as {
+    id: string;
+    title: string;
+    subtitle?: string | null;
+    url: string;
+    sourceType?: string | null;
+    createdAt?: Date | string | null;
+  };
+
+  return {
+    id: attachment.id,
+    title: attachment.title,
+    subtitle: attachment.subtitle ?? undefined,
+    url: attachment.url,
+    sourceType: attachment.sourceType ?? undefined,
+    createdAt: attachment.createdAt
+      ? new Date(attachment.createdAt).toISOString()
+      : undefined,
   };
 }
 
@@ -3,7 +3,7 @@
  * Allows using "High" instead of 2, "Done" instead of UUID, etc.
  */
 
-import type { LinearClient } from '@linear/sdk';
+import type { LinearClient, LinearDocument } from '@linear/sdk';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Priority Resolution
@@ -193,22 +193,37 @@ export interface LabelInfo {
   name: string;
 }
 
+export interface ResolveLabelsOptions {
+  /** Create team labels for names that don't match instead of failing */
+  createMissing?: boolean;
+}
+
 /**
- * Resolve label names to IDs within a team
+ * Resolve label names to IDs usable in a team: its own labels plus workspace labels
  */
 export async function resolveLabels(
   client: LinearClient,
   teamId: string,
   labelNames: string[],
+  options: ResolveLabelsOptions = {},
 ): Promise<ResolverResult<string[]>> {
   if (labelNames.length === 0) {
     return { success: true, value: [] };
   }
 
   try {
-    const team = await client.team(teamId);
-    const labels = await team.labels();
-    const labelList = labels.nodes as LabelInfo[];
+    // Page through every team and workspace label so nothing is missed or duplicated
+    const labelList: LabelInfo[] = [];
+    let after: string | undefined;
+    do {
+      const page = await client.issueLabels({
+        first: 250,
+        after,
+        filter: { or: [{ team: { id: { eq: teamId } } }, { team: { null: true } }] },
+      });
+      labelList.push(...(page.nodes as LabelInfo[]));
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+    } while (after);
 
     const resolved: string[] = [];
     const notFound: string[] = [];
@@ -224,11 +239,37 @@ export async function resolveLabels(
       }
     }
 
+    if (notFound.length > 0 && options.createMissing) {
+      // The same missing name may appear more than once; create it once
+      const created = new Map<string, string>();
+      for (const name of notFound) {
+        const normalized = name.toLowerCase().trim();
+        const existing = created.get(normalized);
+        if (existing) {
+          resolved.push(existing);
+          continue;
+        }
+        const payload = await client.createIssueLabel({ name: name.trim(), teamId });
+        if (!payload.issueLabelId) {
+          return { success: false, error: `Failed to create label: ${name}` };
+        }
+        created.set(normalized, payload.issueLabelId);
+        resolved.push(payload.issueLabelId);
+      }
+      return { success: true, value: [...new Set(resolved)] };
+    }
+
     if (notFound.length > 0) {
       return {
         success: false,
         error: `Labels not found: ${notFound.join(', ')}`,
-        suggestions: [`Available labels: ${labelList.map((l) => l.name).join(', ')}`],
+        suggestions: [
+          `Available labels: ${labelList
+            .slice(0, 50)
+            .map((l) => l.name)
+            .join(', ')}${labelList.length > 50 ? ', …' : ''}`,
+          'Set createMissingLabels=true to create missing labels, or use create_labels.',
+        ],
       };
     }
 
@@ -236,7 +277,47 @@ export async function resolveLabels(
   } catch (e) {
     return {
       success: false,
-      error: `Failed to fetch team labels: ${(e as Error).message}`,
+      error: `Failed to resolve labels: ${(e as Error).message}`,
+    };
+  }
+}
+
+/**
+ * Resolve a label group by name. Team groups when teamId is given, otherwise workspace groups.
+ */
+export async function resolveLabelGroup(
+  client: LinearClient,
+  groupName: string,
+  teamId?: string,
+): Promise<ResolverResult<string>> {
+  try {
+    const groups = await client.issueLabels({
+      first: 10,
+      filter: {
+        name: { eqIgnoreCase: groupName.trim() },
+        isGroup: { eq: true },
+        team: teamId ? { id: { eq: teamId } } : { null: true },
+      },
+    });
+
+    const match = groups.nodes[0];
+    if (!match) {
+      return {
+        success: false,
+        error: `Label group not found: ${groupName}`,
+        suggestions: [
+          teamId
+            ? 'Label groups are team-scoped; check the teamId or create the group with isGroup=true.'
+            : 'Omitting teamId looks up workspace label groups; pass teamId for a team group.',
+        ],
+      };
+    }
+
+    return { success: true, value: match.id };
+  } catch (e) {
+    return {
+      success: false,
+      error: `Failed to fetch label groups: ${(e as Error).message}`,
     };
   }
 }
@@ -285,3 +366,386 @@ export async function resolveProject(
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Cycle Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CycleInput = number | string;
+
+const RELATIVE_CYCLES = ['current', 'next', 'previous'] as const;
+
+// How far back "available cycles" suggestions look
+const RECENT_CYCLES_MS = 120 * 24 * 60 * 60 * 1000;
+
+export interface CycleInfo {
+  id: string;
+  name?: string;
+  number: number;
+  startsAt: Date | string;
+  endsAt: Date | string;
+}
+
+/**
+ * Resolve cycle within a team
+ * Accepts: "current", "next", "previous", a cycle number (12 or "12"), or a cycle name
+ */
+export async function resolveCycle(
+  client: LinearClient,
+  teamId: string,
+  input: CycleInput,
+): Promise<ResolverResult<string>> {
+  try {
+    const team = await client.team(teamId);
+    const cyclesEnabled = (team as unknown as { cyclesEnabled?: boolean }).cyclesEnabled;
+    if (cyclesEnabled === false) {
+      return {
+        success: false,
+        error: 'Cycles are disabled for this team',
+        suggestions: ['Use workspace_metadata to find teams with cyclesEnabled=true'],
+      };
+    }
+
+    // Filter on the server: long-lived teams have more cycles than fit in one page
+    const fetchCycles = async (filter: Record<string, unknown>, first = 10) => {
+      const cycles = await team.cycles({
+        first,
+        filter: filter as LinearDocument.CycleFilter,
+      });
+      return (cycles.nodes as unknown as CycleInfo[])
+        .slice()
+        .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+    };
+
+    const describe = (c: CycleInfo) => `#${c.number}${c.name ? ` ${c.name}` : ''}`;
+    const available = async () => {
+      // Cycles that ended recently or have not ended yet
+      const recent = await fetchCycles(
+        { endsAt: { gte: new Date(Date.now() - RECENT_CYCLES_MS).toISOString() } },
+        50,
+      );
+      return recent.length > 0
+        ? [`Available cycles: ${recent.slice(-5).map(describe).join(', ')}`]
+        : ['Use list_cycles to see the team cycles, or create_cycles to add one'];
+    };
+
+    const normalized = typeof input === 'string' ? input.toLowerCase().trim() : input;
+
+    // Relative cycles
+    if (typeof normalized === 'string' && (RELATIVE_CYCLES as readonly string[]).includes(normalized)) {
+      const now = Date.now();
+      const starts = (c: CycleInfo) => new Date(c.startsAt).getTime();
+      const ends = (c: CycleInfo) => new Date(c.endsAt).getTime();
+
+      const match =
+        normalized === 'current'
+          ? (await fetchCycles({ isActive: { eq: true } })).find(
+              (c) => starts(c) <= now && now < ends(c),
+            )
+          : normalized === 'next'
+            ? (await fetchCycles({ isNext: { eq: true } })).find((c) => starts(c) > now)
+            : (await fetchCycles({ isPrevious: { eq: true } }))
+                .filter((c) => ends(c) <= now)
+                .pop();
+
+      if (match) {
+        return { success: true, value: match.id };
+      }
+      return {
+        success: false,
+        error: `No ${normalized} cycle found in team`,
+        suggestions: await available(),
+      };
+    }
+
+    // Cycle number (12 or "12")
+    const asNumber =
+      typeof normalized === 'number'
+        ? normalized
+        : /^#?\d+$/.test(normalized)
+          ? Number(normalized.replace('#', ''))
+          : undefined;
+    if (asNumber !== undefined) {
+      const match = (await fetchCycles({ number: { eq: asNumber } })).find(
+        (c) => c.number === asNumber,
+      );
+      if (match) {
+        return { success: true, value: match.id };
+      }
+      return {
+        success: false,
+        error: `Cycle #${asNumber} not found in team`,
+        suggestions: await available(),
+      };
+    }
+
+    // Cycle name (exact, case-insensitive)
+    const match = (await fetchCycles({ name: { eqIgnoreCase: normalized } })).find(
+      (c) => c.name?.toLowerCase() === normalized,
+    );
+    if (match) {
+      return { success: true, value: match.id };
+    }
+    return {
+      success: false,
+      error: `Cycle "${String(input)}" not found in team`,
+      suggestions: [`Use "current", "next", "previous" or a cycle number`, ...(await available())],
+    };
+  } catch (e) {
+    return {
+      success: false,
+      error: `Failed to fetch team cycles: ${(e as Error).message}`,
+    };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Project Milestone Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve project milestone name to ID within a project
+ */
+export async function resolveProjectMilestone(
+  client: LinearClient,
+  projectId: string,
+  milestoneName: string,
+): Promise<ResolverResult<string>> {
+  try {
+    const project = await client.project(projectId);
+    const milestones = await project.projectMilestones({ first: 100 });
+    const normalized = milestoneName.toLowerCase().trim();
+
+    const exactMatch = milestones.nodes.find(
+      (m) => m.name.toLowerCase() === normalized,
+    );
+
+    if (exactMatch) {
+      return { success: true, value: exactMatch.id };
+    }
+
+    const available = milestones.nodes.map((m) => m.name).slice(0, 10);
+
+    return {
+      success: false,
+      error: `Milestone "${milestoneName}" not found in project`,
+      suggestions: available.length > 0
+        ? [`Available milestones: ${available.join(', ')}`]
+        : ['Use create_project_milestones to add milestones to the project'],
+    };
+  } catch (e) {
+    return {
+      success: false,
+      error: `Failed to fetch project milestones: ${(e as Error).message}`,
+    };
+  }
+}
+
+/**
+ * Get project ID from an issue (for update operations)
+ */
+export async function getIssueProjectId(client: LinearClient, issueId: string): Promise<string | null> {
+  try {
+    const issue = await client.issue(issueId);
+    const project = await issue.project;
+    return project?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Custom View Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CustomViewInfo {
+  id: string;
+  name: string;
+  filterData: Record<string, unknown>;
+}
+
+/**
+ * Resolve an issue custom view by ID or name, including its saved filter
+ */
+export async function resolveCustomView(
+  client: LinearClient,
+  input: { viewId?: string; viewName?: string },
+): Promise<ResolverResult<CustomViewInfo>> {
+  if (!input.viewId && !input.viewName) {
+    return { success: false, error: 'Must provide viewId or viewName' };
+  }
+
+  try {
+    let view: { id: string; name: string; modelName?: string; filterData?: unknown } | undefined;
+
+    if (input.viewId) {
+      view = await client.customView(input.viewId);
+    } else {
+      const views = await client.customViews({ first: 100 });
+      const normalized = (input.viewName as string).toLowerCase().trim();
+      view = views.nodes.find((v) => v.name.toLowerCase() === normalized);
+
+      if (!view) {
+        const similar = views.nodes
+          .filter((v) => v.name.toLowerCase().includes(normalized))
+          .map((v) => v.name)
+          .slice(0, 5);
+        return {
+          success: false,
+          error: `Custom view "${input.viewName}" not found`,
+          suggestions: similar.length > 0
+            ? [`Similar views: ${similar.join(', ')}`]
+            : ['Use list_custom_views to list available views'],
+        };
+      }
+    }
+
+    if (!view) {
+      return { success: false, error: `Custom view "${input.viewId}" not found` };
+    }
+
+    if (view.modelName && view.modelName !== 'Issue') {
+      return {
+        success: false,
+        error: `"${view.name}" is a ${view.modelName.toLowerCase()} view, not an issue view`,
+        suggestions: ['Only issue views can be applied to list_issues'],
+      };
+    }
+
+    return {
+      success: true,
+      value: {
+        id: view.id,
+        name: view.name,
+        filterData: (view.filterData as Record<string, unknown> | undefined) ?? {},
+      },
+    };
+  } catch (e) {
+    return {
+      success: false,
+      error: `Failed to fetch custom view: ${(e as Error).message}`,
+    };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Customer Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve a customer by ID, name, domain (e.g. "acme.com") or external ID
+ */
+export async function resolveCustomer(
+  client: LinearClient,
+  input: {
+    customerId?: string;
+    customerName?: string;
+    customerDomain?: string;
+    customerExternalId?: string;
+  },
+): Promise<ResolverResult<{ id: string; name: string }>> {
+  if (
+    !input.customerId &&
+    !input.customerName &&
+    !input.customerDomain &&
+    !input.customerExternalId
+  ) {
+    return {
+      success: false,
+      error:
+        'Must provide customerId, customerName, customerDomain or customerExternalId',
+    };
+  }
+
+  const notFound = (
+    suggestions: string[],
+  ): ResolverResult<{ id: string; name: string }> => ({
+    success: false,
+    error: `Customer "${input.customerId ?? input.customerExternalId ?? input.customerDomain ?? input.customerName}" not found`,
+    suggestions,
+  });
+
+  try {
+    if (input.customerId) {
+      const customer = await client.customer(input.customerId).catch(() => undefined);
+      if (!customer) return notFound(['Use list_customers to find customers']);
+      return { success: true, value: { id: customer.id, name: customer.name } };
+    }
+
+    const name = input.customerName?.trim();
+    const domain = input.customerDomain
+      ?.toLowerCase()
+      .trim()
+      .replace(/^https?:\/\//, '')
+      .replace(/^www\./, '')
+      .replace(/\/.*$/, '');
+
+    const filter: LinearDocument.CustomerFilter = input.customerExternalId
+      ? { externalIds: { some: { eq: input.customerExternalId } } }
+      : domain
+        ? { domains: { some: { eqIgnoreCase: domain } } }
+        : { name: { eqIgnoreCase: name } };
+    const customers = await client.customers({ first: 1, filter });
+    const match = customers.nodes[0];
+
+    if (!match) {
+      const similar = name
+        ? await client.customers({
+            first: 5,
+            filter: { name: { containsIgnoreCase: name } },
+          })
+        : undefined;
+      const similarNames = similar?.nodes.map((c) => c.name) ?? [];
+      return notFound(
+        similarNames.length > 0
+          ? [`Similar customers: ${similarNames.join(', ')}`]
+          : ['Use list_customers to find customers'],
+      );
+    }
+
+    return { success: true, value: { id: match.id, name: match.name } };
+  } catch (e) {
+    return {
+      success: false,
+      error: `Failed to fetch customers: ${(e as Error).message}`,
+    };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Team Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve a team by ID or key (e.g. "ENG")
+ */
+export async function resolveTeam(
+  client: LinearClient,
+  input: { teamId?: string; teamKey?: string },
+): Promise<ResolverResult<{ id: string; key: string }>> {
+  if (!input.teamId && !input.teamKey) {
+    return { success: false, error: 'Must provide teamId or teamKey' };
+  }
+
+  try {
+    const teams = await client.teams({ first: 250 });
+    const normalized = input.teamKey?.toUpperCase().trim();
+    const match = teams.nodes.find((t) =>
+      input.teamId ? t.id === input.teamId : t.key.toUpperCase() === normalized,
+    );
+
+    if (!match) {
+      return {
+        success: false,
+        error: `Team "${input.teamId ?? input.teamKey}" not found`,
+        suggestions: [`Available teams: ${teams.nodes.map((t) => t.key).join(', ')}`],
+      };
+    }
+
+    return { success: true, value: { id: match.id, key: match.key } };
+  } catch (e) {
+    return {
+      success: false,
+      error: `Failed to fetch teams: ${(e as Error).message}`,
+    };
+  }
+}
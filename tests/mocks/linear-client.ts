@@ -30,10 +30,12 @@ export interface MockTeam {
   issueEstimationAllowZero?: boolean;
   issueEstimationExtended?: boolean;
   issueEstimationType?: string;
+  defaultIssueStateId?: string;
+  markedAsDuplicateWorkflowStateId?: string;
   states: () => Promise<{ nodes: MockWorkflowState[] }>;
   labels: (args: { first: number }) => Promise<{ nodes: MockLabel[] }>;
   projects: (args: { first: number }) => Promise<{ nodes: MockProject[] }>;
-  cycles: (args?: { first?: number; after?: string; includeArchived?: boolean; orderBy?: unknown }) => Promise<{ nodes: MockCycle[]; pageInfo: MockPageInfo }>;
+  cycles: (args?: { first?: number; after?: string; includeArchived?: boolean; orderBy?: unknown; filter?: Record<string, unknown> }) => Promise<{ nodes: MockCycle[]; pageInfo: MockPageInfo }>;
 }
 
 export interface MockWorkflowState {
@@ -47,6 +49,10 @@ export interface MockLabel {
   name: string;
   color?: string;
   description?: string;
+  // Omitted for workspace labels
+  teamId?: string;
+  isGroup?: boolean;
+  parentId?: string;
 }
 
 export interface MockProject {
@@ -58,6 +64,8 @@ export interface MockProject {
   teamId?: string;
   targetDate?: string;
   createdAt?: Date | string;
+  health?: string;
+  healthUpdatedAt?: Date;
 }
 
 export interface MockIssue {
@@ -80,6 +88,13 @@ export interface MockIssue {
   attachments: () => Promise<{ nodes: unknown[] }>;
   comments: (args?: { first?: number; after?: string }) => Promise<{ nodes: MockComment[]; pageInfo: MockPageInfo }>;
   team?: { id: string } | (() => Promise<{ id: string }>);
+  parentId?: string;
+  snoozedUntilAt?: Date;
+  cycleId?: string;
+  addedToCycleAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  canceledAt?: Date;
 }
 
 export interface MockUser {
@@ -88,6 +103,10 @@ export interface MockUser {
   email?: string;
   displayName?: string;
   avatarUrl?: string;
+  admin?: boolean;
+  guest?: boolean;
+  active?: boolean;
+  app?: boolean;
 }
 
 export interface MockComment {
@@ -97,6 +116,8 @@ export interface MockComment {
   createdAt: Date;
   updatedAt?: Date;
   user?: { id: string; name?: string };
+  // Only needed for workspace-wide comment queries
+  issueId?: string;
 }
 
 export interface MockCycle {
@@ -107,6 +128,154 @@ export interface MockCycle {
   endsAt?: Date;
   completedAt?: Date;
   team: { id: string };
+  completedScopeHistory?: number[];
+  completedIssueCountHistory?: number[];
+  // Issues moved out of the cycle when it closed
+  uncompletedIssueIds?: string[];
+}
+
+export interface MockRelation {
+  id: string;
+  type: 'blocks' | 'duplicate' | 'related';
+  issueId: string;
+  relatedIssueId: string;
+}
+
+export interface MockHistoryEntry {
+  id: string;
+  issueId: string;
+  createdAt: string;
+  actor?: { id: string; name?: string };
+  [field: string]: unknown;
+}
+
+export interface MockProjectMilestone {
+  id: string;
+  projectId: string;
+  name: string;
+  description?: string;
+  targetDate?: string;
+  sortOrder?: number;
+  progress?: number;
+}
+
+export interface MockProjectUpdate {
+  id: string;
+  projectId: string;
+  body: string;
+  health?: string;
+  createdAt: string;
+  url?: string;
+  user?: { id: string; name?: string };
+}
+
+export interface MockInitiative {
+  id: string;
+  name: string;
+  description?: string;
+  status?: string;
+  health?: string;
+  targetDate?: string;
+  url?: string;
+  owner?: { id: string; name?: string };
+  projectIds: string[];
+}
+
+export interface MockDocument {
+  id: string;
+  title: string;
+  content?: string;
+  url?: string;
+  icon?: string;
+  projectId?: string;
+  creator?: { id: string; name?: string };
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface MockAttachment {
+  id: string;
+  issueId: string;
+  title: string;
+  subtitle?: string;
+  url: string;
+  sourceType?: string;
+  createdAt: string;
+  creator?: { id: string; name?: string };
+}
+
+export interface MockNotification {
+  id: string;
+  type: string;
+  createdAt: string;
+  readAt?: string;
+  snoozedUntilAt?: string;
+  actor?: { id: string; name?: string };
+  issueId?: string;
+  comment?: { id: string; body: string };
+}
+
+export interface MockReaction {
+  id: string;
+  emoji: string;
+  userId: string;
+  issueId?: string;
+  commentId?: string;
+}
+
+export interface MockCustomView {
+  id: string;
+  name: string;
+  description?: string;
+  modelName?: string;
+  shared?: boolean;
+  filterData?: Record<string, unknown>;
+  teamId?: string;
+  owner?: { id: string; name: string };
+  updatedAt?: string;
+}
+
+export interface MockTemplate {
+  id: string;
+  name: string;
+  type?: string;
+  description?: string;
+  templateData?: Record<string, unknown>;
+  teamId?: string;
+}
+
+export interface MockTeamMembership {
+  id: string;
+  teamId: string;
+  userId: string;
+  owner?: boolean;
+  createdAt?: string;
+}
+
+export interface MockCustomer {
+  id: string;
+  name: string;
+  domains?: string[];
+  externalIds?: string[];
+  tier?: string;
+  status?: string;
+  revenue?: number;
+  size?: number;
+  owner?: { id: string; name: string };
+}
+
+export interface MockCustomerNeed {
+  id: string;
+  customerId: string;
+  issueId?: string;
+  body?: string;
+  priority?: number;
+}
+
+export interface MockInitiativeToProject {
+  id: string;
+  initiativeId: string;
+  projectId: string;
 }
 
 export interface MockPageInfo {
@@ -157,6 +326,8 @@ export const defaultMockProjects: MockProject[] = [
     teamId: 'team-eng',
     targetDate: '2025-03-31',
     createdAt: new Date('2024-12-01T00:00:00Z'),
+    health: 'atRisk',
+    healthUpdatedAt: new Date('2024-12-16T09:00:00Z'),
   },
   {
     id: 'project-002',
@@ -182,7 +353,10 @@ export const defaultMockTeams: MockTeam[] = [
     projects: () => Promise.resolve({ nodes: defaultMockProjects }),
     cycles: (args) => {
       const limit = args?.first ?? defaultMockCycles.length;
-      const cyclesForTeam = defaultMockCycles.filter((c) => c.team.id === 'team-eng');
+      const cyclesForTeam = filterMockCycles(
+        defaultMockCycles.filter((c) => c.team.id === 'team-eng'),
+        args?.filter,
+      );
       return Promise.resolve({
         nodes: cyclesForTeam.slice(0, limit),
         pageInfo: {
@@ -314,6 +488,48 @@ export const defaultMockUsers: MockUser[] = [
   { id: 'user-003', name: 'Bob Smith', email: 'bob@example.com', displayName: 'Bob' },
 ];
 
+/**
+ * Apply the CycleFilter fields used by resolveCycle (number, name, isActive/isNext/isPrevious, endsAt)
+ */
+export function filterMockCycles(
+  cycles: MockCycle[],
+  filter?: Record<string, unknown>,
+): MockCycle[] {
+  if (!filter) return cycles;
+  const now = Date.now();
+  const f = filter as {
+    number?: { eq?: number };
+    name?: { eqIgnoreCase?: string };
+    isActive?: { eq?: boolean };
+    isNext?: { eq?: boolean };
+    isPrevious?: { eq?: boolean };
+    endsAt?: { gte?: string };
+  };
+  const byStart = cycles
+    .slice()
+    .sort((a, b) => (a.startsAt?.getTime() ?? 0) - (b.startsAt?.getTime() ?? 0));
+  const next = byStart.find((c) => (c.startsAt?.getTime() ?? 0) > now);
+  const previous = byStart.filter((c) => (c.endsAt?.getTime() ?? 0) <= now).pop();
+
+  return cycles.filter((c) => {
+    if (f.number?.eq !== undefined && c.number !== f.number.eq) return false;
+    if (f.name?.eqIgnoreCase && c.name?.toLowerCase() !== f.name.eqIgnoreCase.toLowerCase()) {
+      return false;
+    }
+    if (f.isActive?.eq) {
+      const starts = c.startsAt?.getTime() ?? 0;
+      const ends = c.endsAt?.getTime() ?? 0;
+      if (!(starts <= now && now < ends)) return false;
+    }
+    if (f.isNext?.eq && c !== next) return false;
+    if (f.isPrevious?.eq && c !== previous) return false;
+    if (f.endsAt?.gte && (c.endsAt?.getTime() ?? 0) < new Date(f.endsAt.gte).getTime()) {
+      return false;
+    }
+    return true;
+  });
+}
+
 export const defaultMockCycles: MockCycle[] = [
   {
     id: 'cycle-001',
@@ -333,6 +549,43 @@ export const defaultMockCycles: MockCycle[] = [
   },
 ];
 
+export const defaultMockMilestones: MockProjectMilestone[] = [
+  {
+    id: 'milestone-001',
+    projectId: 'project-001',
+    name: 'Beta',
+    targetDate: '2025-02-14',
+    sortOrder: 1,
+    progress: 0.6,
+  },
+  {
+    id: 'milestone-002',
+    projectId: 'project-001',
+    name: 'GA',
+    targetDate: '2025-03-31',
+    sortOrder: 2,
+    progress: 0.1,
+  },
+];
+
+export const defaultMockInitiatives: MockInitiative[] = [
+  {
+    id: 'initiative-001',
+    name: 'Platform 2025',
+    status: 'Active',
+    health: 'onTrack',
+    targetDate: '2025-06-30',
+    owner: { id: 'user-001', name: 'Test User' },
+    projectIds: ['project-001', 'project-002'],
+  },
+  {
+    id: 'initiative-002',
+    name: 'Mobile Launch',
+    status: 'Planned',
+    projectIds: [],
+  },
+];
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Mock Client Factory
 // ─────────────────────────────────────────────────────────────────────────────
@@ -346,25 +599,83 @@ export interface MockLinearClientConfig {
   projects?: MockProject[];
   comments?: MockComment[];
   favorites?: unknown[];
+  relations?: MockRelation[];
+  history?: MockHistoryEntry[];
+  milestones?: MockProjectMilestone[];
+  projectUpdates?: MockProjectUpdate[];
+  initiatives?: MockInitiative[];
+  documents?: MockDocument[];
+  attachments?: MockAttachment[];
+  labels?: MockLabel[];
+  notifications?: MockNotification[];
+  // Issue id → subscribed user ids
+  subscribers?: Record<string, string[]>;
+  reactions?: MockReaction[];
+  customViews?: MockCustomView[];
+  templates?: MockTemplate[];
+  teamMemberships?: MockTeamMembership[];
+  customers?: MockCustomer[];
+  customerNeeds?: MockCustomerNeed[];
 }
 
 export interface MockLinearClient {
   viewer: Promise<MockViewer>;
   teams: (args?: { first?: number }) => Promise<MockConnection<MockTeam>>;
-  team: (id: string) => Promise<MockTeam | null>;
+  team: (id: string) => Promise<(MockTeam & { members: (args?: { first?: number; after?: string }) => Promise<MockConnection<MockUser>> }) | null>;
   issues: (args?: Record<string, unknown>) => Promise<MockConnection<MockIssue>>;
   issue: (id: string) => Promise<MockIssue | null>;
   users: (args?: { first?: number }) => Promise<MockConnection<MockUser>>;
   favorites: (args?: { first?: number }) => Promise<MockConnection<unknown>>;
   projects: (args?: { first?: number; after?: string; filter?: Record<string, unknown> }) => Promise<MockConnection<MockProject>>;
+  project: (id: string) => Promise<MockProject & { projectMilestones: (args?: { first?: number }) => Promise<MockConnection<MockProjectMilestone>> }>;
   cycles: (args?: { first?: number; after?: string; filter?: Record<string, unknown> }) => Promise<MockConnection<MockCycle>>;
   comments: (issueId: string, args?: { first?: number; after?: string }) => Promise<MockConnection<MockComment>>;
   createIssue: (input: Record<string, unknown>) => Promise<{ success: boolean; issue?: { id: string; identifier: string } }>;
   updateIssue: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean; issue?: { id: string; identifier: string } }>;
   createProject: (input: Record<string, unknown>) => Promise<{ success: boolean; project?: { id: string; name: string } }>;
   updateProject: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean; project?: { id: string; name: string } }>;
+  createCycle: (input: Record<string, unknown>) => Promise<{ success: boolean; cycle?: Promise<{ id: string; number: number; name?: string }> }>;
+  updateCycle: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean; cycle?: Promise<{ id: string }> }>;
+  createProjectMilestone: (input: Record<string, unknown>) => Promise<{ success: boolean; projectMilestone?: Promise<{ id: string; name: string }> }>;
+  updateProjectMilestone: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean; projectMilestone?: Promise<{ id: string; name: string }> }>;
+  createProjectUpdate: (input: Record<string, unknown>) => Promise<{ success: boolean; projectUpdate?: Promise<{ id: string; url: string }> }>;
+  createInitiativeToProject: (input: Record<string, unknown>) => Promise<{ success: boolean; initiativeToProject?: Promise<{ id: string }> }>;
+  deleteInitiativeToProject: (id: string) => Promise<{ success: boolean }>;
+  createDocument: (input: Record<string, unknown>) => Promise<{ success: boolean; document?: Promise<{ id: string; title: string; url: string }> }>;
+  updateDocument: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean; document?: Promise<{ id: string }> }>;
+  createAttachment: (input: Record<string, unknown>) => Promise<{ success: boolean; attachment?: Promise<{ id: string }> }>;
+  deleteAttachment: (id: string) => Promise<{ success: boolean }>;
+  issueLabels: (args?: { first?: number; after?: string; filter?: Record<string, unknown> }) => Promise<MockConnection<MockLabel>>;
+  createIssueLabel: (input: Record<string, unknown>) => Promise<{ success: boolean; issueLabelId?: string }>;
+  updateIssueLabel: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean; issueLabelId?: string }>;
+  deleteIssueLabel: (id: string) => Promise<{ success: boolean }>;
+  createWorkflowState: (input: Record<string, unknown>) => Promise<{ success: boolean; workflowStateId?: string }>;
+  updateWorkflowState: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean; workflowStateId?: string }>;
+  archiveWorkflowState: (id: string) => Promise<{ success: boolean }>;
+  updateNotification: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean }>;
+  archiveNotification: (id: string) => Promise<{ success: boolean }>;
+  issueSubscribe: (id: string, variables?: { userId?: string }) => Promise<{ success: boolean }>;
+  issueUnsubscribe: (id: string, variables?: { userId?: string }) => Promise<{ success: boolean }>;
+  createReaction: (input: Record<string, unknown>) => Promise<{ success: boolean; reaction?: { id: string } }>;
+  deleteReaction: (id: string) => Promise<{ success: boolean }>;
+  customView: (id: string) => Promise<MockCustomView>;
+  customViews: (args?: { first?: number }) => Promise<MockConnection<MockCustomView>>;
+  createCustomView: (input: Record<string, unknown>) => Promise<{ success: boolean; customViewId?: string }>;
+  updateCustomView: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean; customViewId?: string }>;
   createComment: (input: Record<string, unknown>) => Promise<{ success: boolean; comment?: { id: string } }>;
   updateComment: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean; comment?: { id: string } }>;
+  createIssueRelation: (input: Record<string, unknown>) => Promise<{ success: boolean; issueRelation?: Promise<{ id: string }> }>;
+  deleteIssueRelation: (id: string) => Promise<{ success: boolean }>;
+  deleteIssue: (id: string) => Promise<{ success: boolean; entityId?: string }>;
+  unarchiveIssue: (id: string) => Promise<{ success: boolean; entityId?: string }>;
+  deleteComment: (id: string) => Promise<{ success: boolean; entityId: string }>;
+  createTeamMembership: (input: Record<string, unknown>) => Promise<{ success: boolean; teamMembership?: Promise<{ id: string }> }>;
+  updateTeamMembership: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean }>;
+  deleteTeamMembership: (id: string) => Promise<{ success: boolean }>;
+  updateTeam: (id: string, input: Record<string, unknown>) => Promise<{ success: boolean }>;
+  customer: (id: string) => Promise<{ id: string; name: string; domains: string[]; externalIds: string[] }>;
+  customers: (args?: { first?: number; filter?: Record<string, unknown> }) => Promise<MockConnection<{ id: string; name: string; domains: string[]; externalIds: string[] }>>;
+  createCustomerNeed: (input: Record<string, unknown>) => Promise<{ success: boolean; need?: Promise<{ id: string }> }>;
   /** Raw GraphQL client for rawRequest calls */
   client: {
     rawRequest: (query: string, variables?: Record<string, unknown>) => Promise<{ data: unknown }>;
@@ -389,8 +700,33 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
     projects = defaultMockProjects,
     comments = [],
     favorites = [],
+    relations = [],
+    history = [],
+    milestones = defaultMockMilestones,
+    projectUpdates = [],
+    initiatives = defaultMockInitiatives,
+    documents = [],
+    attachments = [],
+    labels = defaultMockLabels.map((l) => ({ ...l, teamId: 'team-eng' })),
+    notifications = [],
+    subscribers = {},
+    reactions = [],
+    customViews = [],
+    templates = [],
+    teamMemberships = [],
+    customers = [],
+    customerNeeds = [],
   } = config;
 
+  // Join records derived from initiative.projectIds (initiativeToProjects)
+  const initiativeLinks: MockInitiativeToProject[] = initiatives.flatMap((i) =>
+    i.projectIds.map((projectId) => ({
+      id: `link-${i.id}-${projectId}`,
+      initiativeId: i.id,
+      projectId,
+    })),
+  );
+
   const calls = {
     issues: [] as Array<Record<string, unknown>>,
     createIssue: [] as Array<Record<string, unknown>>,
@@ -407,7 +743,28 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
     })),
 
     team: vi.fn(async (id: string) => {
-      return teams.find((t) => t.id === id) ?? null;
+      const found = teams.find((t) => t.id === id);
+      if (!found) return null;
+      return {
+        ...found,
+        // Team members come from teamMemberships, paged like the SDK connection
+        members: async (args?: { first?: number; after?: string }) => {
+          const members = teamMemberships
+            .filter((m) => m.teamId === id)
+            .map((m) => users.find((u) => u.id === m.userId))
+            .filter((u): u is MockUser => !!u);
+          const first = args?.first ?? 50;
+          const offset = args?.after ? Number(args.after.replace('member-cursor-', '')) : 0;
+          const hasNextPage = members.length > offset + first;
+          return {
+            nodes: members.slice(offset, offset + first),
+            pageInfo: {
+              hasNextPage,
+              endCursor: hasNextPage ? `member-cursor-${offset + first}` : undefined,
+            },
+          };
+        },
+      };
     }),
 
     issues: vi.fn(async (args?: Record<string, unknown>) => {
@@ -421,7 +778,26 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
 
     issue: vi.fn(async (id: string) => {
       // Support both UUID and identifier lookup
-      return issues.find((i) => i.id === id || i.identifier === id) ?? null;
+      const found = issues.find((i) => i.id === id || i.identifier === id) ?? null;
+      if (!found) return null;
+      const issueAttachments = attachments.filter((a) => a.issueId === found.id);
+      const subscriberIds = subscribers[found.id] ?? [];
+      return {
+        ...found,
+        ...(issueAttachments.length > 0
+          ? {
+              attachments: () =>
+                Promise.resolve({
+                  nodes: issueAttachments.map(({ issueId: _issueId, creator: _creator, ...a }) => ({
+                    ...a,
+                    createdAt: new Date(a.createdAt),
+                  })),
+                }),
+            }
+          : {}),
+        subscribers: () =>
+          Promise.resolve({ nodes: users.filter((u) => subscriberIds.includes(u.id)) }),
+      };
     }),
 
     users: vi.fn(async (args?: { first?: number }) => ({
@@ -442,6 +818,21 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
       };
     }),
 
+    project: vi.fn(async (id: string) => {
+      const found = projects.find((p) => p.id === id);
+      if (!found) {
+        throw new Error(`Entity not found: Project - ${id}`);
+      }
+      const projectMilestones = milestones.filter((m) => m.projectId === id);
+      return {
+        ...found,
+        projectMilestones: async (args?: { first?: number }) => ({
+          nodes: projectMilestones.slice(0, args?.first ?? projectMilestones.length),
+          pageInfo: { hasNextPage: false },
+        }),
+      };
+    }),
+
     cycles: vi.fn(async (args?: { first?: number; after?: string; filter?: Record<string, unknown> }) => {
       const limit = args?.first ?? cycles.length;
       const filtered = args?.filter?.team?.id?.eq
@@ -490,6 +881,163 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
       project: { id, name: (input.name as string) ?? 'Updated Project' },
     })),
 
+    createCycle: vi.fn(async (input: Record<string, unknown>) => ({
+      success: true,
+      cycle: Promise.resolve({
+        id: `cycle-new-${Date.now()}`,
+        number: cycles.length + 1,
+        name: input.name as string | undefined,
+      }),
+    })),
+
+    updateCycle: vi.fn(async (id: string) => ({
+      success: true,
+      cycle: Promise.resolve({ id }),
+    })),
+
+    createProjectMilestone: vi.fn(async (input: Record<string, unknown>) => ({
+      success: true,
+      projectMilestone: Promise.resolve({
+        id: `milestone-new-${Date.now()}`,
+        name: input.name as string,
+      }),
+    })),
+
+    updateProjectMilestone: vi.fn(async (id: string, input: Record<string, unknown>) => ({
+      success: true,
+      projectMilestone: Promise.resolve({ id, name: (input.name as string) ?? 'Updated Milestone' }),
+    })),
+
+    createProjectUpdate: vi.fn(async () => {
+      const id = `update-new-${Date.now()}`;
+      return {
+        success: true,
+        projectUpdate: Promise.resolve({ id, url: `https://linear.app/project/updates/${id}` }),
+      };
+    }),
+
+    createInitiativeToProject: vi.fn(async () => ({
+      success: true,
+      initiativeToProject: Promise.resolve({ id: `link-new-${Date.now()}` }),
+    })),
+
+    deleteInitiativeToProject: vi.fn(async () => ({ success: true })),
+
+    createAttachment: vi.fn(async () => ({
+      success: true,
+      attachment: Promise.resolve({ id: `attachment-new-${Date.now()}` }),
+    })),
+
+    deleteAttachment: vi.fn(async () => ({ success: true })),
+
+    issueLabels: vi.fn(
+      async (args?: { first?: number; after?: string; filter?: Record<string, unknown> }) => {
+        type LabelFilter = {
+          name?: { eqIgnoreCase?: string };
+          isGroup?: { eq?: boolean };
+          team?: { id?: { eq?: string }; null?: boolean };
+          or?: LabelFilter[];
+        };
+        const matches = (l: MockLabel, f?: LabelFilter): boolean =>
+          (!f?.name?.eqIgnoreCase ||
+            l.name.toLowerCase() === f.name.eqIgnoreCase.toLowerCase()) &&
+          (f?.isGroup?.eq === undefined || Boolean(l.isGroup) === f.isGroup.eq) &&
+          (!f?.team?.id?.eq || l.teamId === f.team.id.eq) &&
+          (!f?.team?.null || !l.teamId) &&
+          (!f?.or || f.or.some((sub) => matches(l, sub)));
+        const filtered = labels.filter((l) => matches(l, args?.filter as LabelFilter));
+        const limit = args?.first ?? 50;
+        const offset = args?.after ? Number(args.after.replace('label-cursor-', '')) : 0;
+        const hasNextPage = filtered.length > offset + limit;
+        return {
+          nodes: filtered.slice(offset, offset + limit),
+          pageInfo: {
+            hasNextPage,
+            endCursor: hasNextPage ? `label-cursor-${offset + limit}` : undefined,
+          },
+        };
+      },
+    ),
+
+    createIssueLabel: vi.fn(async () => ({
+      success: true,
+      issueLabelId: `label-new-${Date.now()}`,
+    })),
+
+    updateIssueLabel: vi.fn(async (id: string) => ({ success: true, issueLabelId: id })),
+
+    deleteIssueLabel: vi.fn(async () => ({ success: true })),
+
+    createWorkflowState: vi.fn(async () => ({
+      success: true,
+      workflowStateId: `state-new-${Date.now()}`,
+    })),
+
+    updateWorkflowState: vi.fn(async (id: string) => ({ success: true, workflowStateId: id })),
+
+    archiveWorkflowState: vi.fn(async () => ({ success: true })),
+
+    updateNotification: vi.fn(async (id: string) => ({
+      success: notifications.some((n) => n.id === id),
+    })),
+
+    archiveNotification: vi.fn(async (id: string) => ({
+      success: notifications.some((n) => n.id === id),
+    })),
+
+    issueSubscribe: vi.fn(async () => ({ success: true })),
+
+    issueUnsubscribe: vi.fn(async () => ({ success: true })),
+
+    createReaction: vi.fn(async () => ({
+      success: true,
+      reaction: { id: `reaction-new-${Date.now()}` },
+    })),
+
+    deleteReaction: vi.fn(async (id: string) => ({
+      success: reactions.some((r) => r.id === id),
+    })),
+
+    customView: vi.fn(async (id: string) => {
+      const found = customViews.find((v) => v.id === id);
+      if (!found) {
+        throw new Error(`Entity not found: CustomView - ${id}`);
+      }
+      return found;
+    }),
+
+    customViews: vi.fn(async (args?: { first?: number }) => ({
+      nodes: customViews.slice(0, args?.first ?? 50),
+      pageInfo: { hasNextPage: false },
+    })),
+
+    createCustomView: vi.fn(async () => ({
+      success: true,
+      customViewId: `view-new-${Date.now()}`,
+    })),
+
+    updateCustomView: vi.fn(async (id: string) => ({
+      success: customViews.some((v) => v.id === id),
+      customViewId: id,
+    })),
+
+    createDocument: vi.fn(async (input: Record<string, unknown>) => {
+      const id = `document-new-${Date.now()}`;
+      return {
+        success: true,
+        document: Promise.resolve({
+          id,
+          title: input.title as string,
+          url: `https://linear.app/test/document/${id}`,
+        }),
+      };
+    }),
+
+    updateDocument: vi.fn(async (id: string) => ({
+      success: true,
+      document: Promise.resolve({ id }),
+    })),
+
     createComment: vi.fn(async (input: Record<string, unknown>) => ({
       success: true,
       comment: { id: `comment-new-${Date.now()}` },
@@ -500,6 +1048,94 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
       comment: { id },
     })),
 
+    createIssueRelation: vi.fn(async (_input: Record<string, unknown>) => ({
+      success: true,
+      issueRelation: Promise.resolve({ id: `relation-new-${Date.now()}` }),
+    })),
+
+    deleteIssueRelation: vi.fn(async (id: string) => ({
+      success: relations.some((r) => r.id === id),
+    })),
+
+    deleteIssue: vi.fn(async (id: string) => {
+      const existing = issues.find((i) => i.id === id || i.identifier === id);
+      return { success: !!existing, entityId: existing?.id };
+    }),
+
+    unarchiveIssue: vi.fn(async (id: string) => {
+      const existing = issues.find((i) => i.id === id || i.identifier === id);
+      return { success: !!existing, entityId: existing?.id };
+    }),
+
+    deleteComment: vi.fn(async (id: string) => ({
+      success: comments.some((c) => c.id === id),
+      entityId: id,
+    })),
+
+    createTeamMembership: vi.fn(async (input: Record<string, unknown>) => ({
+      success: teams.some((t) => t.id === input.teamId),
+      teamMembership: Promise.resolve({ id: `membership-new-${Date.now()}` }),
+    })),
+
+    updateTeamMembership: vi.fn(async (id: string) => ({
+      success: teamMemberships.some((m) => m.id === id),
+    })),
+
+    deleteTeamMembership: vi.fn(async (id: string) => ({
+      success: teamMemberships.some((m) => m.id === id),
+    })),
+
+    updateTeam: vi.fn(async (id: string) => ({
+      success: teams.some((t) => t.id === id),
+    })),
+
+    customer: vi.fn(async (id: string) => {
+      const found = customers.find((c) => c.id === id);
+      if (!found) {
+        throw new Error(`Entity not found: Customer - ${id}`);
+      }
+      return { ...found, domains: found.domains ?? [], externalIds: found.externalIds ?? [] };
+    }),
+
+    customers: vi.fn(
+      async (args?: { first?: number; filter?: Record<string, unknown> }) => {
+        type Comparator = { eq?: string; eqIgnoreCase?: string; containsIgnoreCase?: string };
+        const compare = (value: string, c?: Comparator): boolean =>
+          (!c?.eq || value === c.eq) &&
+          (!c?.eqIgnoreCase || value.toLowerCase() === c.eqIgnoreCase.toLowerCase()) &&
+          (!c?.containsIgnoreCase ||
+            value.toLowerCase().includes(c.containsIgnoreCase.toLowerCase()));
+        const filter = args?.filter as
+          | {
+              name?: Comparator;
+              domains?: { some?: Comparator };
+              externalIds?: { some?: Comparator };
+            }
+          | undefined;
+        const filtered = customers.filter(
+          (c) =>
+            (!filter?.name || compare(c.name, filter.name)) &&
+            (!filter?.domains?.some ||
+              (c.domains ?? []).some((d) => compare(d, filter.domains?.some))) &&
+            (!filter?.externalIds?.some ||
+              (c.externalIds ?? []).some((e) => compare(e, filter.externalIds?.some))),
+        );
+        return {
+          nodes: filtered.slice(0, args?.first ?? 50).map((c) => ({
+            ...c,
+            domains: c.domains ?? [],
+            externalIds: c.externalIds ?? [],
+          })),
+          pageInfo: { hasNextPage: false },
+        };
+      },
+    ),
+
+    createCustomerNeed: vi.fn(async (input: Record<string, unknown>) => ({
+      success: customers.some((c) => c.id === input.customerId),
+      need: Promise.resolve({ id: `need-new-${Date.now()}` }),
+    })),
+
     // Raw GraphQL client for rawRequest calls (used by list-issues, list-my-issues, etc.)
     client: {
       rawRequest: vi.fn(async (query: string, variables?: Record<string, unknown>) => {
@@ -537,6 +1173,10 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
                   }
                 }
               }
+              const stateIdFilter = stateFilter.id as { eq?: string } | undefined;
+              if (stateIdFilter?.eq && stateData?.id !== stateIdFilter.eq) {
+                matches = false;
+              }
             }
 
             // Team filter
@@ -576,9 +1216,33 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
               }
             }
 
-            // Title keyword filter (OR logic)
+            // Parent filter (sub-issues)
+            if (filter.parent && typeof filter.parent === 'object') {
+              const parentFilter = filter.parent as Record<string, unknown>;
+              if (parentFilter.id && typeof parentFilter.id === 'object') {
+                const idFilter = parentFilter.id as Record<string, unknown>;
+                if (Array.isArray(idFilter.in) && !idFilter.in.includes(issue.parentId)) {
+                  matches = false;
+                }
+              }
+            }
+
+            // Title keyword / snooze filter (OR logic)
             if (filter.or && Array.isArray(filter.or)) {
               const orMatches = filter.or.some((orFilter: Record<string, unknown>) => {
+                if (orFilter.snoozedUntilAt && typeof orFilter.snoozedUntilAt === 'object') {
+                  const snoozeFilter = orFilter.snoozedUntilAt as {
+                    null?: boolean;
+                    lt?: string;
+                  };
+                  if (snoozeFilter.null) return !issue.snoozedUntilAt;
+                  if (snoozeFilter.lt) {
+                    return (
+                      !!issue.snoozedUntilAt &&
+                      issue.snoozedUntilAt < new Date(snoozeFilter.lt)
+                    );
+                  }
+                }
                 if (orFilter.title && typeof orFilter.title === 'object') {
                   const titleFilter = orFilter.title as Record<string, unknown>;
                   if (titleFilter.containsIgnoreCase) {
@@ -594,6 +1258,17 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
               }
             }
 
+            // Label filter
+            if (filter.labels && typeof filter.labels === 'object') {
+              const labelFilter = filter.labels as { id?: { eq?: string } };
+              if (labelFilter.id?.eq) {
+                const issueLabels = await issue.labels();
+                if (!issueLabels.nodes.some((l) => l.id === labelFilter.id?.eq)) {
+                  matches = false;
+                }
+              }
+            }
+
             // Date filters
             if (filter.updatedAt && typeof filter.updatedAt === 'object') {
               const dateFilter = filter.updatedAt as Record<string, unknown>;
@@ -610,6 +1285,25 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
                 }
               }
             }
+            if (filter.cycle && typeof filter.cycle === 'object') {
+              const cycleFilter = filter.cycle as { id?: { eq?: string } };
+              if (cycleFilter.id?.eq && issue.cycleId !== cycleFilter.id.eq) {
+                matches = false;
+              }
+            }
+            if (filter.completedAt && typeof filter.completedAt === 'object') {
+              const dateFilter = filter.completedAt as Record<string, unknown>;
+              if (!issue.completedAt) {
+                matches = false;
+              } else {
+                if (dateFilter.gte && issue.completedAt < new Date(dateFilter.gte as string)) {
+                  matches = false;
+                }
+                if (dateFilter.lte && issue.completedAt > new Date(dateFilter.lte as string)) {
+                  matches = false;
+                }
+              }
+            }
 
             if (matches) {
               results.push(issue);
@@ -626,6 +1320,8 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
               const stateData = await issue.state;
               const projectData = await issue.project;
               const assigneeData = await issue.assignee;
+              const teamData = typeof issue.team === 'function' ? await issue.team() : issue.team;
+              const team = teams.find((t) => t.id === teamData?.id);
 
               return {
                 id: issue.id,
@@ -640,15 +1336,612 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
                 createdAt: issue.createdAt.toISOString(),
                 updatedAt: issue.updatedAt.toISOString(),
                 archivedAt: issue.archivedAt?.toISOString() ?? null,
+                startedAt: issue.startedAt?.toISOString() ?? null,
+                completedAt: issue.completedAt?.toISOString() ?? null,
+                canceledAt: issue.canceledAt?.toISOString() ?? null,
                 dueDate: issue.dueDate ?? null,
                 url: issue.url ?? null,
-                labels: { nodes: [] },
+                snoozedUntilAt: issue.snoozedUntilAt?.toISOString() ?? null,
+                team: teamData ? { id: teamData.id, key: team?.key, name: team?.name } : null,
+                labels: { nodes: (await issue.labels()).nodes.map((l) => ({ id: l.id, name: l.name })) },
+                parent: issue.parentId ? { id: issue.parentId } : null,
+                children: {
+                  nodes: issues
+                    .filter((child) => child.parentId === issue.id)
+                    .slice(0, 1)
+                    .map((child) => ({ id: child.id })),
+                },
+                cycle: (() => {
+                  const c = cycles.find((cy) => cy.id === issue.cycleId);
+                  return c ? { id: c.id, number: c.number, name: c.name ?? null } : null;
+                })(),
+                // One page of 50, only when the query selects it
+                needs: (() => {
+                  if (!query.includes('needs(')) return undefined;
+                  const issueNeeds = customerNeeds.filter((n) => n.issueId === issue.id);
+                  return {
+                    nodes: issueNeeds
+                      .slice(0, 50)
+                      .map((n) => ({ id: n.id, customer: { id: n.customerId } })),
+                    pageInfo: { hasNextPage: issueNeeds.length > 50 },
+                  };
+                })(),
+                history: {
+                  nodes: history
+                    .filter((h) => h.issueId === issue.id)
+                    .map(({ issueId: _issueId, ...h }) => h),
+                },
+                comments: {
+                  nodes: ((await issue.comments?.())?.nodes ?? []).map((c) => ({
+                    id: c.id,
+                    createdAt: c.createdAt.toISOString(),
+                    user: c.user ?? null,
+                  })),
+                },
+                inverseRelations: {
+                  nodes: await Promise.all(
+                    relations
+                      .filter((r) => r.relatedIssueId === issue.id)
+                      .map(async (r) => {
+                        const other = issues.find((i) => i.id === r.issueId);
+                        return {
+                          id: r.id,
+                          type: r.type,
+                          issue: other
+                            ? {
+                                id: other.id,
+                                identifier: other.identifier,
+                                title: other.title,
+                                url: other.url ?? null,
+                                state: await other.state,
+                              }
+                            : null,
+                        };
+                      }),
+                  ),
+                },
               };
             }),
           );
         };
 
         // Detect query type and return appropriate mock data
+        if (query.includes('inverseRelations(') && !query.includes('issues(')) {
+          // Issue relations query (shared/relations.ts)
+          const issueId = variables?.id as string;
+          const summarize = (id: string) => {
+            const found = issues.find((i) => i.id === id);
+            return { id, identifier: found?.identifier, title: found?.title, url: found?.url };
+          };
+          return {
+            data: {
+              issue: {
+                id: issueId,
+                relations: {
+                  nodes: relations
+                    .filter((r) => r.issueId === issueId)
+                    .map((r) => ({ id: r.id, type: r.type, relatedIssue: summarize(r.relatedIssueId) })),
+                },
+                inverseRelations: {
+                  nodes: relations
+                    .filter((r) => r.relatedIssueId === issueId)
+                    .map((r) => ({ id: r.id, type: r.type, issue: summarize(r.issueId) })),
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('history(') && !query.includes('issues(')) {
+          // Issue history query (get_issue_history)
+          const issueId = variables?.id as string;
+          const found = issues.find((i) => i.id === issueId || i.identifier === issueId);
+          if (!found) return { data: { issue: null } };
+          const limit = (variables?.first as number) ?? 50;
+          const entries = history
+            .filter((h) => h.issueId === found.id)
+            .map(({ issueId: _issueId, ...h }) => h);
+          return {
+            data: {
+              issue: {
+                id: found.id,
+                identifier: found.identifier,
+                title: found.title,
+                url: found.url,
+                history: {
+                  nodes: entries.slice(0, limit),
+                  pageInfo: {
+                    hasNextPage: entries.length > limit,
+                    endCursor: entries.length > limit ? 'history-cursor' : null,
+                  },
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('projectUpdates(')) {
+          // Project status updates (list_project_updates)
+          const found = projects.find((p) => p.id === variables?.projectId);
+          if (!found) return { data: { project: null } };
+          const limit = (variables?.first as number) ?? 10;
+          const nodes = projectUpdates
+            .filter((u) => u.projectId === found.id)
+            .map(({ projectId: _projectId, ...u }) => u);
+          return {
+            data: {
+              project: {
+                id: found.id,
+                name: found.name,
+                health: found.health ?? null,
+                projectUpdates: {
+                  nodes: nodes.slice(0, limit),
+                  pageInfo: {
+                    hasNextPage: nodes.length > limit,
+                    endCursor: nodes.length > limit ? 'update-cursor' : null,
+                  },
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('projectMilestones(')) {
+          // Project milestones: batched per project page (list_projects) or one project
+          const toNodes = (projectId: string) =>
+            milestones
+              .filter((m) => m.projectId === projectId)
+              .map(({ projectId: _projectId, ...m }) => m);
+          if (variables?.ids) {
+            return {
+              data: {
+                projects: {
+                  nodes: (variables.ids as string[]).map((id) => ({
+                    id,
+                    projectMilestones: { nodes: toNodes(id) },
+                  })),
+                },
+              },
+            };
+          }
+          const found = projects.find((p) => p.id === variables?.projectId);
+          if (!found) return { data: { project: null } };
+          const limit = (variables?.first as number) ?? 50;
+          const nodes = toNodes(found.id);
+          return {
+            data: {
+              project: {
+                id: found.id,
+                name: found.name,
+                projectMilestones: {
+                  nodes: nodes.slice(0, limit),
+                  pageInfo: {
+                    hasNextPage: nodes.length > limit,
+                    endCursor: nodes.length > limit ? 'milestone-cursor' : null,
+                  },
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('attachments(')) {
+          // Issue attachments (list_attachments)
+          const issueId = variables?.id as string;
+          const found = issues.find((i) => i.id === issueId || i.identifier === issueId);
+          if (!found) return { data: { issue: null } };
+          const limit = (variables?.first as number) ?? 50;
+          const nodes = attachments
+            .filter((a) => a.issueId === found.id)
+            .map(({ issueId: _issueId, ...a }) => a);
+          return {
+            data: {
+              issue: {
+                id: found.id,
+                identifier: found.identifier,
+                title: found.title,
+                url: found.url,
+                attachments: {
+                  nodes: nodes.slice(0, limit),
+                  pageInfo: {
+                    hasNextPage: nodes.length > limit,
+                    endCursor: nodes.length > limit ? 'attachment-cursor' : null,
+                  },
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('reactions {')) {
+          // Reaction target (manage_reactions): issue or comment with its reactions
+          const id = variables?.id as string;
+          const toNodes = (match: (r: MockReaction) => boolean) =>
+            reactions
+              .filter(match)
+              .map((r) => ({ id: r.id, emoji: r.emoji, user: { id: r.userId } }));
+          if (variables?.isComment) {
+            const found = comments.find((c) => c.id === id);
+            return {
+              data: {
+                comment: found
+                  ? { id: found.id, reactions: toNodes((r) => r.commentId === found.id) }
+                  : null,
+              },
+            };
+          }
+          const found = issues.find((i) => i.id === id || i.identifier === id);
+          return {
+            data: {
+              issue: found
+                ? {
+                    id: found.id,
+                    identifier: found.identifier,
+                    reactions: toNodes((r) => r.issueId === found.id),
+                  }
+                : null,
+            },
+          };
+        }
+
+        if (query.includes('memberships(')) {
+          // Team members (list_team_members, manage_team_members)
+          const members = teamMemberships.filter((m) => m.teamId === variables?.id);
+          const first = (variables?.first as number) ?? 50;
+          const offset = variables?.after
+            ? Number(String(variables.after).replace('membership-cursor-', ''))
+            : 0;
+          const hasNextPage = members.length > offset + first;
+          return {
+            data: {
+              team: {
+                memberships: {
+                  nodes: members
+                    .slice(offset, offset + first)
+                    .map((m) => {
+                      const user = users.find((u) => u.id === m.userId);
+                      return {
+                        id: m.id,
+                        owner: m.owner ?? false,
+                        createdAt: m.createdAt ?? '2024-01-01T00:00:00Z',
+                        user: user
+                          ? {
+                              ...user,
+                              admin: user.admin ?? false,
+                              guest: user.guest ?? false,
+                              active: user.active ?? true,
+                            }
+                          : null,
+                      };
+                    }),
+                  pageInfo: {
+                    hasNextPage,
+                    endCursor: hasNextPage ? `membership-cursor-${offset + first}` : undefined,
+                  },
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('customers(')) {
+          // Customers (list_customers), filtered by name and domain
+          const filter = variables?.filter as
+            | {
+                name?: { containsIgnoreCase?: string };
+                domains?: { some?: { eqIgnoreCase?: string } };
+              }
+            | undefined;
+          const name = filter?.name?.containsIgnoreCase?.toLowerCase();
+          const domain = filter?.domains?.some?.eqIgnoreCase?.toLowerCase();
+          const limit = (variables?.first as number) ?? 50;
+          const filtered = customers.filter(
+            (c) =>
+              (!name || c.name.toLowerCase().includes(name)) &&
+              (!domain || (c.domains ?? []).some((d) => d.toLowerCase() === domain)),
+          );
+          return {
+            data: {
+              customers: {
+                nodes: filtered.slice(0, limit).map((c) => ({
+                  id: c.id,
+                  name: c.name,
+                  domains: c.domains ?? [],
+                  externalIds: c.externalIds ?? [],
+                  revenue: c.revenue ?? null,
+                  size: c.size ?? null,
+                  approximateNeedCount: customerNeeds.filter((n) => n.customerId === c.id)
+                    .length,
+                  status: c.status ? { name: c.status, displayName: c.status } : null,
+                  tier: c.tier ? { name: c.tier, displayName: c.tier } : null,
+                  owner: c.owner ?? null,
+                })),
+                pageInfo: {
+                  hasNextPage: filtered.length > limit,
+                  endCursor: filtered.length > limit ? 'customer-cursor' : null,
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('templates {')) {
+          // Templates (list_issue_templates, create_issues templateId/templateName)
+          return {
+            data: {
+              templates: templates.map(({ teamId, ...t }) => {
+                const team = teams.find((tm) => tm.id === teamId);
+                return {
+                  ...t,
+                  type: t.type ?? 'issue',
+                  description: t.description ?? null,
+                  templateData: t.templateData ?? {},
+                  team: team ? { id: team.id, key: team.key } : null,
+                };
+              }),
+            },
+          };
+        }
+
+        if (query.includes('customViews(')) {
+          // Saved views (list_custom_views), filtered by team and name
+          const filter = variables?.filter as
+            | { team?: { id?: { eq?: string } }; name?: { containsIgnoreCase?: string } }
+            | undefined;
+          const teamId = filter?.team?.id?.eq;
+          const name = filter?.name?.containsIgnoreCase?.toLowerCase();
+          const limit = (variables?.first as number) ?? 50;
+          const filtered = customViews.filter(
+            (v) =>
+              (!teamId || v.teamId === teamId) &&
+              (!name || v.name.toLowerCase().includes(name)),
+          );
+          return {
+            data: {
+              customViews: {
+                nodes: filtered.slice(0, limit).map(({ teamId: viewTeamId, ...v }) => {
+                  const team = teams.find((t) => t.id === viewTeamId);
+                  return {
+                    ...v,
+                    modelName: v.modelName ?? 'Issue',
+                    team: team ? { id: team.id, key: team.key } : null,
+                    owner: v.owner ?? null,
+                  };
+                }),
+                pageInfo: {
+                  hasNextPage: filtered.length > limit,
+                  endCursor: filtered.length > limit ? 'view-cursor' : null,
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('notifications(')) {
+          // Inbox notifications (list_notifications), newest first
+          const typeIn = (variables?.filter as { type?: { in?: string[] } } | undefined)?.type?.in;
+          const limit = (variables?.first as number) ?? 50;
+          const offset = variables?.after
+            ? Number(String(variables.after).replace('notification-cursor-', ''))
+            : 0;
+          const filtered = notifications
+            .filter((n) => !typeIn || typeIn.includes(n.type))
+            .slice(offset);
+          return {
+            data: {
+              notifications: {
+                nodes: filtered.slice(0, limit).map(({ issueId, comment, ...n }) => {
+                  const issue = issues.find((i) => i.id === issueId);
+                  return {
+                    ...n,
+                    readAt: n.readAt ?? null,
+                    snoozedUntilAt: n.snoozedUntilAt ?? null,
+                    archivedAt: null,
+                    issue: issue
+                      ? { id: issue.id, identifier: issue.identifier, title: issue.title, url: issue.url }
+                      : undefined,
+                    comment: comment ?? undefined,
+                  };
+                }),
+                pageInfo: {
+                  hasNextPage: filtered.length > limit,
+                  endCursor:
+                    filtered.length > limit ? `notification-cursor-${offset + limit}` : null,
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('documents(') || query.includes('document(id: $id)')) {
+          // Documents: list (list_documents) or single with content (get_documents)
+          const toNode = (d: MockDocument) => {
+            const { projectId, ...rest } = d;
+            const project = projects.find((p) => p.id === projectId);
+            return {
+              ...rest,
+              project: projectId ? { id: projectId, name: project?.name ?? null } : null,
+            };
+          };
+          if (query.includes('document(id: $id)')) {
+            const found = documents.find((d) => d.id === variables?.id);
+            return { data: { document: found ? toNode(found) : null } };
+          }
+          const filter = variables?.filter as
+            | { project?: { id?: { eq?: string } }; title?: { containsIgnoreCase?: string } }
+            | undefined;
+          const projectId = filter?.project?.id?.eq;
+          const title = filter?.title?.containsIgnoreCase?.toLowerCase();
+          const limit = (variables?.first as number) ?? 50;
+          const filtered = documents
+            .filter((d) => !projectId || d.projectId === projectId)
+            .filter((d) => !title || d.title.toLowerCase().includes(title));
+          return {
+            data: {
+              documents: {
+                nodes: filtered.slice(0, limit).map(({ content: _content, ...d }) => toNode(d)),
+                pageInfo: {
+                  hasNextPage: filtered.length > limit,
+                  endCursor: filtered.length > limit ? 'document-cursor' : null,
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('initiativeToProjects(')) {
+          // Initiative ↔ project join records (manage_initiative_projects unlink)
+          return {
+            data: {
+              initiativeToProjects: {
+                nodes: initiativeLinks.map((l) => ({
+                  id: l.id,
+                  initiative: { id: l.initiativeId },
+                  project: { id: l.projectId },
+                })),
+                pageInfo: { hasNextPage: false, endCursor: null },
+              },
+            },
+          };
+        }
+
+        if (query.includes('initiatives(')) {
+          // Initiatives with inline projects (list_initiatives, workspace_metadata)
+          const limit = (variables?.first as number) ?? 50;
+          const projectLimit = (variables?.projectLimit as number) ?? 25;
+          const status = (variables?.filter as { status?: { eq?: string } } | undefined)
+            ?.status?.eq;
+          const filtered = initiatives.filter((i) => !status || i.status === status);
+          return {
+            data: {
+              initiatives: {
+                nodes: filtered.slice(0, limit).map(({ projectIds, ...i }) => ({
+                  ...i,
+                  projects: {
+                    nodes: projectIds.slice(0, projectLimit).map((id) => {
+                      const p = projects.find((proj) => proj.id === id);
+                      return {
+                        id,
+                        name: p?.name ?? id,
+                        state: p?.state ?? null,
+                        health: p?.health ?? null,
+                        progress: 0.5,
+                      };
+                    }),
+                    pageInfo: { hasNextPage: projectIds.length > projectLimit },
+                  },
+                })),
+                pageInfo: {
+                  hasNextPage: filtered.length > limit,
+                  endCursor: filtered.length > limit ? 'initiative-cursor' : null,
+                },
+              },
+            },
+          };
+        }
+
+        if (query.includes('workflowState(id: $id)')) {
+          // Single workflow state lookup (manage_workflow_states)
+          const stateId = variables?.id as string;
+          for (const team of teams) {
+            const { nodes } = await team.states();
+            const index = nodes.findIndex((s) => s.id === stateId);
+            if (index >= 0) {
+              return {
+                data: {
+                  workflowState: {
+                    ...nodes[index],
+                    position: index,
+                    team: { id: team.id, key: team.key },
+                  },
+                },
+              };
+            }
+          }
+          return { data: { workflowState: null } };
+        }
+
+        if (query.includes('cycle(id: $id)')) {
+          // Cycle with its issues or carried-over issues (cycle_report)
+          const found = cycles.find((c) => c.id === variables?.id);
+          if (!found) {
+            return { data: { cycle: null } };
+          }
+          const carried = new Set(found.uncompletedIssueIds ?? []);
+          const members = query.includes('uncompletedIssuesUponClose(')
+            ? issues.filter((i) => carried.has(i.id))
+            : issues.filter((i) => i.cycleId === found.id);
+          const nodes = await Promise.all(
+            members.map(async (issue) => ({
+              id: issue.id,
+              identifier: issue.identifier,
+              title: issue.title,
+              url: issue.url ?? null,
+              estimate: issue.estimate ?? null,
+              createdAt: issue.createdAt.toISOString(),
+              addedToCycleAt: issue.addedToCycleAt?.toISOString() ?? null,
+              completedAt: issue.completedAt?.toISOString() ?? null,
+              canceledAt: issue.canceledAt?.toISOString() ?? null,
+              state: { type: (await issue.state).type },
+            })),
+          );
+          const conn = { nodes, pageInfo: { hasNextPage: false, endCursor: null } };
+          return {
+            data: {
+              cycle: {
+                id: found.id,
+                number: found.number,
+                name: found.name ?? null,
+                startsAt: found.startsAt?.toISOString(),
+                endsAt: found.endsAt?.toISOString(),
+                completedAt: found.completedAt?.toISOString() ?? null,
+                issues: conn,
+                uncompletedIssuesUponClose: conn,
+              },
+            },
+          };
+        }
+
+        if (query.includes('cycles(')) {
+          // Team cycles with completion history (cycle_report velocity)
+          const filter = variables?.filter as
+            | {
+                team?: { id?: { eq?: string } };
+                number?: { gt?: number; lte?: number };
+                isPast?: { eq?: boolean };
+              }
+            | undefined;
+          const filtered = cycles.filter(
+            (c) =>
+              (!filter?.team?.id?.eq || c.team.id === filter.team.id.eq) &&
+              (filter?.number?.gt === undefined || (c.number ?? 0) > filter.number.gt) &&
+              (filter?.number?.lte === undefined || (c.number ?? 0) <= filter.number.lte) &&
+              (!filter?.isPast?.eq || !!c.completedAt),
+          );
+          return {
+            data: {
+              cycles: {
+                nodes: filtered.slice(0, (variables?.first as number) ?? 50).map((c) => ({
+                  id: c.id,
+                  number: c.number,
+                  name: c.name ?? null,
+                  completedAt: c.completedAt?.toISOString() ?? null,
+                  completedScopeHistory: c.completedScopeHistory ?? [],
+                  completedIssueCountHistory: c.completedIssueCountHistory ?? [],
+                })),
+              },
+            },
+          };
+        }
+
+        if (query.includes('issue(id: $id)')) {
+          // Single issue query (get_issue_tree root)
+          const issueId = variables?.id as string;
+          const found = issues.find((i) => i.id === issueId || i.identifier === issueId);
+          const [node] = found ? await formatIssueNodes([found]) : [null];
+          return { data: { issue: node } };
+        }
+
         if (query.includes('assignedIssues(')) {
           // list_my_issues query (viewer.assignedIssues)
           const limit = (variables?.first as number) ?? 20;
@@ -670,20 +1963,61 @@ export function createMockLinearClient(config: MockLinearClientConfig = {}): Moc
           };
         }
 
+        if (query.includes('comments(') && !query.includes('issues(')) {
+          // Workspace-wide comments query (standup_digest)
+          const filter = (variables?.filter ?? {}) as {
+            user?: { id?: { eq?: string } };
+            createdAt?: { gte?: string; lte?: string };
+          };
+          const matching = comments.filter(
+            (c) =>
+              (!filter.user?.id?.eq || c.user?.id === filter.user.id.eq) &&
+              (!filter.createdAt?.gte || c.createdAt >= new Date(filter.createdAt.gte)) &&
+              (!filter.createdAt?.lte || c.createdAt <= new Date(filter.createdAt.lte)),
+          );
+          return {
+            data: {
+              comments: {
+                nodes: await Promise.all(
+                  matching.map(async (c) => {
+                    const found = issues.find((i) => i.id === c.issueId);
+                    return {
+                      id: c.id,
+                      createdAt: c.createdAt.toISOString(),
+                      issue: found
+                        ? {
+                            id: found.id,
+                            identifier: found.identifier,
+                            title: found.title,
+                            url: found.url ?? null,
+                            state: await found.state,
+                          }
+                        : null,
+                    };
+                  }),
+                ),
+                pageInfo: { hasNextPage: false, endCursor: null },
+              },
+            },
+          };
+        }
+
         if (query.includes('issues(')) {
-          // list_issues query
+          // list_issues query; cursors are "cursor-<offset>"
           const limit = (variables?.first as number) ?? 25;
+          const offset = Number(String(variables?.after ?? '').replace('cursor-', '')) || 0;
           const filtered = await applyFilters(issues);
-          const limited = filtered.slice(0, limit);
+          const limited = filtered.slice(offset, offset + limit);
           const issueNodes = await formatIssueNodes(limited);
+          const hasNextPage = filtered.length > offset + limit;
 
           return {
             data: {
               issues: {
                 nodes: issueNodes,
                 pageInfo: {
-                  hasNextPage: filtered.length > limit,
-                  endCursor: filtered.length > limit ? 'cursor-next' : null,
+                  hasNextPage,
+                  endCursor: hasNextPage ? `cursor-${offset + limit}` : null,
                 },
               },
             },
@@ -724,7 +2058,48 @@ export function resetMockCalls(client: MockLinearClient): void {
   (client.updateIssue as ReturnType<typeof vi.fn>).mockClear();
   (client.createProject as ReturnType<typeof vi.fn>).mockClear();
   (client.updateProject as ReturnType<typeof vi.fn>).mockClear();
+  (client.createCycle as ReturnType<typeof vi.fn>).mockClear();
+  (client.updateCycle as ReturnType<typeof vi.fn>).mockClear();
+  (client.project as ReturnType<typeof vi.fn>).mockClear();
+  (client.createProjectMilestone as ReturnType<typeof vi.fn>).mockClear();
+  (client.updateProjectMilestone as ReturnType<typeof vi.fn>).mockClear();
+  (client.createProjectUpdate as ReturnType<typeof vi.fn>).mockClear();
+  (client.createInitiativeToProject as ReturnType<typeof vi.fn>).mockClear();
+  (client.deleteInitiativeToProject as ReturnType<typeof vi.fn>).mockClear();
+  (client.createDocument as ReturnType<typeof vi.fn>).mockClear();
+  (client.createAttachment as ReturnType<typeof vi.fn>).mockClear();
+  (client.deleteAttachment as ReturnType<typeof vi.fn>).mockClear();
+  (client.issueLabels as ReturnType<typeof vi.fn>).mockClear();
+  (client.createIssueLabel as ReturnType<typeof vi.fn>).mockClear();
+  (client.updateIssueLabel as ReturnType<typeof vi.fn>).mockClear();
+  (client.deleteIssueLabel as ReturnType<typeof vi.fn>).mockClear();
+  (client.createWorkflowState as ReturnType<typeof vi.fn>).mockClear();
+  (client.updateWorkflowState as ReturnType<typeof vi.fn>).mockClear();
+  (client.archiveWorkflowState as ReturnType<typeof vi.fn>).mockClear();
+  (client.updateNotification as ReturnType<typeof vi.fn>).mockClear();
+  (client.archiveNotification as ReturnType<typeof vi.fn>).mockClear();
+  (client.issueSubscribe as ReturnType<typeof vi.fn>).mockClear();
+  (client.issueUnsubscribe as ReturnType<typeof vi.fn>).mockClear();
+  (client.createReaction as ReturnType<typeof vi.fn>).mockClear();
+  (client.deleteReaction as ReturnType<typeof vi.fn>).mockClear();
+  (client.customView as ReturnType<typeof vi.fn>).mockClear();
+  (client.customViews as ReturnType<typeof vi.fn>).mockClear();
+  (client.createCustomView as ReturnType<typeof vi.fn>).mockClear();
+  (client.updateCustomView as ReturnType<typeof vi.fn>).mockClear();
+  (client.updateDocument as ReturnType<typeof vi.fn>).mockClear();
   (client.createComment as ReturnType<typeof vi.fn>).mockClear();
+  (client.createIssueRelation as ReturnType<typeof vi.fn>).mockClear();
+  (client.deleteIssueRelation as ReturnType<typeof vi.fn>).mockClear();
+  (client.deleteIssue as ReturnType<typeof vi.fn>).mockClear();
+  (client.unarchiveIssue as ReturnType<typeof vi.fn>).mockClear();
+  (client.deleteComment as ReturnType<typeof vi.fn>).mockClear();
+  (client.createTeamMembership as ReturnType<typeof vi.fn>).mockClear();
+  (client.updateTeamMembership as ReturnType<typeof vi.fn>).mockClear();
+  (client.deleteTeamMembership as ReturnType<typeof vi.fn>).mockClear();
+  (client.updateTeam as ReturnType<typeof vi.fn>).mockClear();
+  (client.customer as ReturnType<typeof vi.fn>).mockClear();
+  (client.customers as ReturnType<typeof vi.fn>).mockClear();
+  (client.createCustomerNeed as ReturnType<typeof vi.fn>).mockClear();
   (client.client.rawRequest as ReturnType<typeof vi.fn>).mockClear();
 }
 
@@ -0,0 +1,231 @@
+/**
+ * Tests for attachment tools (list, link, remove).
+ * Verifies: issue lookup, URL validation, batch link/remove, output shapes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  listAttachmentsTool,
+  linkAttachmentsTool,
+  removeAttachmentsTool,
+} from '../../src/shared/tools/linear/attachments.js';
+import {
+  LinkAttachmentsOutputSchema,
+  ListAttachmentsOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockAttachment,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockAttachments: MockAttachment[] = [
+  {
+    id: 'attachment-001',
+    issueId: 'issue-001',
+    title: 'TypeError: token is undefined',
+    subtitle: '42 events',
+    url: 'https://sentry.io/issues/123',
+    sourceType: 'sentry',
+    createdAt: '2024-12-11T08:00:00.000Z',
+    creator: { id: 'user-002', name: 'Jane Doe' },
+  },
+  {
+    id: 'attachment-002',
+    issueId: 'issue-001',
+    title: 'Fix token refresh #42',
+    url: 'https://github.com/acme/app/pull/42',
+    sourceType: 'github',
+    createdAt: '2024-12-12T08:00:00.000Z',
+  },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ attachments: mockAttachments });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// List Attachments Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_attachments tool', () => {
+  describe('metadata', () => {
+    it('has correct name and title', () => {
+      expect(listAttachmentsTool.name).toBe('list_attachments');
+      expect(listAttachmentsTool.title).toBe('List Attachments');
+    });
+
+    it('has readOnlyHint annotation', () => {
+      expect(listAttachmentsTool.annotations?.readOnlyHint).toBe(true);
+    });
+  });
+
+  describe('handler behavior', () => {
+    it('lists attachments by issue identifier', async () => {
+      const result = await listAttachmentsTool.handler(
+        { issueId: 'ENG-123' },
+        baseContext,
+      );
+
+      expect(result.isError).toBeFalsy();
+      const structured = result.structuredContent as Record<string, unknown>;
+      const items = structured.items as Array<Record<string, unknown>>;
+
+      expect(structured.issue).toMatchObject({
+        id: 'issue-001',
+        identifier: 'ENG-123',
+      });
+      expect(items).toHaveLength(2);
+      expect(items[0]).toEqual({
+        id: 'attachment-001',
+        title: 'TypeError: token is undefined',
+        subtitle: '42 events',
+        url: 'https://sentry.io/issues/123',
+        sourceType: 'sentry',
+        createdAt: '2024-12-11T08:00:00.000Z',
+        creator: { id: 'user-002', name: 'Jane Doe' },
+      });
+      expect(result.content[0].text).toContain(
+        '[TypeError: token is undefined](https://sentry.io/issues/123) [sentry] — 42 events (attachment-001)',
+      );
+    });
+
+    it('returns an error for an unknown issue', async () => {
+      const result = await listAttachmentsTool.handler(
+        { issueId: 'ENG-999' },
+        baseContext,
+      );
+
+      expect(result.isError).toBe(true);
+      expect((result.structuredContent as Record<string, unknown>).error).toBe(
+        'ISSUE_NOT_FOUND',
+      );
+    });
+  });
+
+  describe('output shape', () => {
+    it('matches ListAttachmentsOutputSchema', async () => {
+      const result = await listAttachmentsTool.handler(
+        { issueId: 'ENG-123' },
+        baseContext,
+      );
+
+      const parsed = ListAttachmentsOutputSchema.safeParse(result.structuredContent);
+      expect(parsed.success).toBe(true);
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Link Attachments Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('link_attachments tool', () => {
+  it('rejects invalid URLs', () => {
+    const result = linkAttachmentsTool.inputSchema.safeParse({
+      items: [{ issueId: 'ENG-123', url: 'not a url' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('links URLs with title and subtitle', async () => {
+    const result = await linkAttachmentsTool.handler(
+      {
+        items: [
+          {
+            issueId: 'ENG-123',
+            url: 'https://sentry.io/issues/456',
+            title: 'Crash in checkout',
+            subtitle: 'TypeError',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createAttachment).toHaveBeenCalledWith({
+      issueId: 'ENG-123',
+      url: 'https://sentry.io/issues/456',
+      title: 'Crash in checkout',
+      subtitle: 'TypeError',
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 1, succeeded: 1, failed: 0 });
+    expect(LinkAttachmentsOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain('ENG-123 ← https://sentry.io/issues/456');
+  });
+
+  it('defaults the title to the URL', async () => {
+    await linkAttachmentsTool.handler(
+      { items: [{ issueId: 'ENG-123', url: 'https://figma.com/file/abc' }] },
+      baseContext,
+    );
+
+    expect(mockClient.createAttachment).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'https://figma.com/file/abc' }),
+    );
+  });
+
+  it('reports API failures per item', async () => {
+    (mockClient.createAttachment as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new Error('Entity not found: Issue'),
+    );
+
+    const result = await linkAttachmentsTool.handler(
+      { items: [{ issueId: 'ENG-999', url: 'https://sentry.io/issues/1' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0]?.success).toBe(false);
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe(
+      'LINEAR_CREATE_ERROR',
+    );
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Remove Attachments Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('remove_attachments tool', () => {
+  it('is marked destructive', () => {
+    expect(removeAttachmentsTool.annotations?.destructiveHint).toBe(true);
+  });
+
+  it('removes attachments by id', async () => {
+    const result = await removeAttachmentsTool.handler(
+      { ids: ['attachment-001', 'attachment-002'] },
+      baseContext,
+    );
+
+    expect(mockClient.deleteAttachment).toHaveBeenCalledTimes(2);
+    expect(mockClient.deleteAttachment).toHaveBeenCalledWith('attachment-001');
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+    expect(result.content[0].text).toContain('Removed attachments');
+  });
+});
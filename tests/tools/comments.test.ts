@@ -483,8 +483,8 @@ describe('update_comments tool', () => {
       expect(updateCommentsTool.annotations?.destructiveHint).toBe(false);
     });
 
-    it('description mentions no delete', () => {
-      expect(updateCommentsTool.description).toContain('Cannot delete');
+    it('description points to delete_comments', () => {
+      expect(updateCommentsTool.description).toContain('delete_comments');
     });
   });
 
@@ -573,3 +573,69 @@ describe('update_comments tool', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// delete_comments Tool Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { deleteCommentsTool } from '../../src/shared/tools/linear/comments.js';
+import { defaultMockComments } from '../mocks/linear-client.js';
+
+/** Fake MCP server whose client supports elicitation and answers with `response` */
+function elicitingServer(response: Record<string, unknown>) {
+  return {
+    getClientCapabilities: () => ({ elicitation: {} }),
+    request: vi.fn(async () => response),
+  };
+}
+
+describe('delete_comments tool', () => {
+  beforeEach(() => {
+    mockClient = createMockLinearClient({ comments: defaultMockComments });
+    resetMockCalls(mockClient);
+  });
+
+  it('is marked destructive', () => {
+    expect(deleteCommentsTool.name).toBe('delete_comments');
+    expect(deleteCommentsTool.annotations?.destructiveHint).toBe(true);
+  });
+
+  it('deletes without asking when the client cannot elicit', async () => {
+    const result = await deleteCommentsTool.handler(
+      { ids: ['comment-001', 'comment-002'] },
+      baseContext,
+    );
+
+    expect(mockClient.deleteComment).toHaveBeenCalledTimes(2);
+    const summary = (result.structuredContent as Record<string, unknown>).summary as {
+      succeeded: number;
+    };
+    expect(summary.succeeded).toBe(2);
+    expect(result.content[0].text).toContain('Deleted comments: 2 / 2');
+  });
+
+  it('deletes after the user confirms', async () => {
+    const server = elicitingServer({ action: 'accept', content: { confirmed: true } });
+    await deleteCommentsTool.handler(
+      { ids: ['comment-001'] },
+      { ...baseContext, server: server as unknown as McpServer },
+    );
+
+    expect(server.request).toHaveBeenCalledTimes(1);
+    expect(mockClient.deleteComment).toHaveBeenCalledWith('comment-001');
+  });
+
+  it('deletes nothing when the user declines', async () => {
+    const server = elicitingServer({ action: 'decline' });
+    const result = await deleteCommentsTool.handler(
+      { ids: ['comment-001'] },
+      { ...baseContext, server: server as unknown as McpServer },
+    );
+
+    expect(mockClient.deleteComment).not.toHaveBeenCalled();
+    const results = (result.structuredContent as Record<string, unknown>).results as Array<{
+      error?: { code: string };
+    }>;
+    expect(results[0]?.error?.code).toBe('CANCELLED');
+  });
+});
@@ -3,9 +3,15 @@
  * Verifies: input validation, batch creation, dry run, error handling.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createIssuesTool } from '../../src/shared/tools/linear/create-issues.js';
-import { createMockLinearClient, resetMockCalls, type MockLinearClient } from '../mocks/linear-client.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockLabel,
+  type MockLinearClient,
+  type MockTemplate,
+} from '../mocks/linear-client.js';
 import type { ToolContext } from '../../src/shared/tools/types.js';
 import createIssuesFixtures from '../fixtures/tool-inputs/create-issues.json';
 
@@ -309,6 +315,418 @@ describe('create_issues handler', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Cycle Resolution Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_issues cycle resolution', () => {
+  beforeEach(() => {
+    // Inside Sprint 2 (2024-12-23 → 2025-01-05)
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-12-30T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves cycleName "current" and "previous"', async () => {
+    await createIssuesTool.handler(
+      {
+        items: [
+          { teamId: 'team-eng', title: 'This sprint', cycleName: 'current' },
+          { teamId: 'team-eng', title: 'Last sprint', cycleName: 'previous' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createIssue).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ cycleId: 'cycle-002' }),
+    );
+    expect(mockClient.createIssue).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ cycleId: 'cycle-001' }),
+    );
+  });
+
+  it('fails the item for teams with cycles disabled', async () => {
+    const result = await createIssuesTool.handler(
+      { items: [{ teamId: 'team-design', title: 'Design work', cycleName: 'current' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('CYCLE_RESOLUTION_FAILED');
+    expect(mockClient.createIssue).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Milestone Resolution Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_issues milestone resolution', () => {
+  it('resolves projectMilestoneName within projectName', async () => {
+    await createIssuesTool.handler(
+      {
+        items: [
+          {
+            teamId: 'team-eng',
+            title: 'Ship GA checklist',
+            projectName: 'Q1 Release',
+            projectMilestoneName: 'GA',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createIssue).toHaveBeenCalledWith(
+      expect.objectContaining({ projectId: 'project-001', projectMilestoneId: 'milestone-002' }),
+    );
+  });
+
+  it('requires a project for projectMilestoneName', async () => {
+    const result = await createIssuesTool.handler(
+      { items: [{ teamId: 'team-eng', title: 'Orphan', projectMilestoneName: 'GA' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('MILESTONE_RESOLUTION_FAILED');
+    expect(mockClient.createIssue).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Label Resolution Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_issues label resolution', () => {
+  it('fails on unknown labelNames by default', async () => {
+    const result = await createIssuesTool.handler(
+      { items: [{ teamId: 'team-eng', title: 'Slow query', labelNames: ['Bug', 'Performance'] }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    const error = results[0]?.error as Record<string, unknown>;
+    expect(error?.code).toBe('LABEL_RESOLUTION_FAILED');
+    expect(String(error?.suggestions)).toContain('createMissingLabels');
+    expect(mockClient.createIssueLabel).not.toHaveBeenCalled();
+    expect(mockClient.createIssue).not.toHaveBeenCalled();
+  });
+
+  it('creates unknown labels with createMissingLabels', async () => {
+    await createIssuesTool.handler(
+      {
+        items: [{ teamId: 'team-eng', title: 'Slow query', labelNames: ['Bug', 'Performance'] }],
+        createMissingLabels: true,
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createIssueLabel).toHaveBeenCalledTimes(1);
+    expect(mockClient.createIssueLabel).toHaveBeenCalledWith({
+      name: 'Performance',
+      teamId: 'team-eng',
+    });
+    const input = mockClient._calls.createIssue[0] as Record<string, unknown>;
+    const labelIds = input.labelIds as string[];
+    expect(labelIds).toHaveLength(2);
+    expect(labelIds).toContain('label-bug');
+  });
+
+  it('matches workspace labels and labels beyond the first page before creating', async () => {
+    const labels: MockLabel[] = [
+      { id: 'label-ws-bug', name: 'Bug' },
+      ...Array.from({ length: 300 }, (_, i) => ({
+        id: `label-eng-${i}`,
+        name: `Area ${i}`,
+        teamId: 'team-eng',
+      })),
+      // Another team's label is not usable here
+      { id: 'label-des-brand', name: 'Brand', teamId: 'team-design' },
+    ];
+    mockClient = createMockLinearClient({ labels });
+
+    await createIssuesTool.handler(
+      {
+        items: [
+          {
+            teamId: 'team-eng',
+            title: 'Slow query',
+            labelNames: ['bug', 'Area 280', 'Brand', 'brand '],
+          },
+        ],
+        createMissingLabels: true,
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createIssueLabel).toHaveBeenCalledTimes(1);
+    expect(mockClient.createIssueLabel).toHaveBeenCalledWith({
+      name: 'Brand',
+      teamId: 'team-eng',
+    });
+    const input = mockClient._calls.createIssue[0] as Record<string, unknown>;
+    const labelIds = input.labelIds as string[];
+    expect(labelIds).toHaveLength(3);
+    expect(labelIds).toEqual(expect.arrayContaining(['label-ws-bug', 'label-eng-280']));
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Template Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_issues templates', () => {
+  const templates: MockTemplate[] = [
+    {
+      id: 'template-bug',
+      name: 'Bug report',
+      teamId: 'team-eng',
+      templateData: {
+        title: '[Bug]',
+        description: '## Steps to reproduce\n\n## Expected',
+        labelIds: ['label-bug'],
+        priority: 2,
+        estimate: 3,
+      },
+    },
+    {
+      id: 'template-incident',
+      name: 'Incident',
+      templateData: { title: 'Production incident', priority: 1 },
+    },
+    {
+      id: 'template-design',
+      name: 'Design review',
+      teamId: 'team-design',
+      templateData: { priority: 3 },
+    },
+  ];
+
+  beforeEach(() => {
+    mockClient = createMockLinearClient({ templates });
+  });
+
+  it('pre-fills fields from the template and prefixes the title', async () => {
+    const result = await createIssuesTool.handler(
+      { items: [{ teamId: 'team-eng', templateName: 'bug report', title: 'Login fails' }] },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient._calls.createIssue[0]).toMatchObject({
+      teamId: 'team-eng',
+      title: '[Bug] Login fails',
+      description: '## Steps to reproduce\n\n## Expected',
+      labelIds: ['label-bug'],
+      priority: 2,
+      estimate: 3,
+    });
+  });
+
+  it('lets explicit fields override template values', async () => {
+    await createIssuesTool.handler(
+      {
+        items: [
+          {
+            teamId: 'team-eng',
+            templateId: 'template-bug',
+            title: 'Crash on save',
+            description: 'Custom description',
+            labelIds: ['label-feature'],
+            priority: 'Urgent',
+            estimate: 5,
+          },
+          { teamId: 'team-eng', templateName: 'Incident' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient._calls.createIssue[0]).toMatchObject({
+      title: '[Bug] Crash on save',
+      description: 'Custom description',
+      labelIds: ['label-feature'],
+      priority: 1,
+      estimate: 5,
+    });
+    // Workspace template title is used as-is when no title is given
+    expect(mockClient._calls.createIssue[1]).toMatchObject({
+      title: 'Production incident',
+      priority: 1,
+    });
+  });
+
+  it('fails items with unknown or other-team templates', async () => {
+    const result = await createIssuesTool.handler(
+      {
+        items: [
+          { teamId: 'team-eng', templateName: 'Bug', title: 'A' },
+          { teamId: 'team-eng', templateName: 'Design review', title: 'B' },
+        ],
+      },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    const errors = results.map((r) => r.error as Record<string, unknown>);
+    expect(errors.map((e) => e?.code)).toEqual(['TEMPLATE_NOT_FOUND', 'TEMPLATE_NOT_FOUND']);
+    expect(String(errors[0]?.suggestions)).toContain('Bug report');
+    expect(String(errors[1]?.message)).toContain('belongs to team DES');
+    expect(mockClient.createIssue).not.toHaveBeenCalled();
+  });
+
+  it('requires a title when the template has none', async () => {
+    const result = await createIssuesTool.handler(
+      { items: [{ teamId: 'team-design', templateName: 'Design review' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('rejects items without title or template at the schema level', () => {
+    const parsed = createIssuesTool.inputSchema.safeParse({ items: [{ teamId: 'team-eng' }] });
+    expect(parsed.success).toBe(false);
+    expect(
+      createIssuesTool.inputSchema.safeParse({
+        items: [{ teamId: 'team-eng', templateName: 'Incident' }],
+      }).success,
+    ).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Decomposition (parentIndex) Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_issues decomposition', () => {
+  it('uses the created parent id for children via parentIndex', async () => {
+    (mockClient.createIssue as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce({ success: true, issue: { id: 'epic-id', identifier: 'ENG-200' } })
+      .mockResolvedValueOnce({ success: true, issue: { id: 'child-id', identifier: 'ENG-201' } })
+      .mockResolvedValueOnce({ success: true, issue: { id: 'grandchild-id', identifier: 'ENG-202' } });
+
+    const result = await createIssuesTool.handler(
+      {
+        items: [
+          { teamId: 'team-eng', title: 'Epic' },
+          { teamId: 'team-eng', title: 'Part A', parentIndex: 0 },
+          { teamId: 'team-eng', title: 'Part A.1', parentIndex: 1 },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createIssue).toHaveBeenNthCalledWith(
+      1,
+      expect.not.objectContaining({ parentId: expect.anything() }),
+    );
+    expect(mockClient.createIssue).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ parentId: 'epic-id' }),
+    );
+    expect(mockClient.createIssue).toHaveBeenNthCalledWith(
+      3,
+      expect.objectContaining({ parentId: 'child-id' }),
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results.map((r) => r.index)).toEqual([0, 1, 2]);
+  });
+
+  it('fails children with PARENT_NOT_CREATED when the parent fails', async () => {
+    (mockClient.createIssue as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+      new Error('Parent failed'),
+    );
+
+    const result = await createIssuesTool.handler(
+      {
+        items: [
+          { teamId: 'team-eng', title: 'Epic' },
+          { teamId: 'team-eng', title: 'Part A', parentIndex: 0 },
+          { teamId: 'team-eng', title: 'Standalone' },
+        ],
+      },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0].ok).toBe(false);
+    expect((results[1].error as Record<string, unknown>).code).toBe('PARENT_NOT_CREATED');
+    expect(results[2].ok).toBe(true);
+    expect(mockClient.createIssue).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects parentIndex pointing at the same or a later item', async () => {
+    const result = await createIssuesTool.handler(
+      {
+        items: [
+          { teamId: 'team-eng', title: 'Child first', parentIndex: 1 },
+          { teamId: 'team-eng', title: 'Parent' },
+        ],
+      },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0].error as Record<string, unknown>).code).toBe('VALIDATION_ERROR');
+    expect(results[1].ok).toBe(true);
+  });
+
+  it('rejects combining parentId and parentIndex', async () => {
+    const result = await createIssuesTool.handler(
+      {
+        items: [
+          { teamId: 'team-eng', title: 'Parent' },
+          { teamId: 'team-eng', title: 'Child', parentId: 'issue-001', parentIndex: 0 },
+        ],
+      },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[1].error as Record<string, unknown>).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('dry run flags invalid parentIndex', async () => {
+    const result = await createIssuesTool.handler(
+      {
+        items: [
+          { teamId: 'team-eng', title: 'Parent' },
+          { teamId: 'team-eng', title: 'Child', parentIndex: 0 },
+          { teamId: 'team-eng', title: 'Bad child', parentIndex: 5 },
+        ],
+        dry_run: true,
+      },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const summary = structured.summary as { ok: number; failed: number };
+    expect(summary).toEqual({ ok: 2, failed: 1 });
+    expect(result.content[0].text).toContain('item[2]');
+    expect(mockClient.createIssue).not.toHaveBeenCalled();
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Output Shape Tests
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,223 @@
+/**
+ * Tests for list_custom_views, create_custom_views and update_custom_views tools.
+ * Verifies: listing with team/name filters, filter validation and normalization, update guards.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createCustomViewsTool,
+  listCustomViewsTool,
+  updateCustomViewsTool,
+} from '../../src/shared/tools/linear/custom-views.js';
+import {
+  CreateCustomViewsOutputSchema,
+  ListCustomViewsOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockCustomView,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockViews: MockCustomView[] = [
+  {
+    id: 'view-001',
+    name: 'Bugs Triage',
+    shared: true,
+    teamId: 'team-eng',
+    filterData: { labels: { name: { eq: 'Bug' } } },
+    owner: { id: 'user-001', name: 'Test User' },
+  },
+  {
+    id: 'view-002',
+    name: 'Roadmap',
+    modelName: 'Project',
+    shared: true,
+  },
+  {
+    id: 'view-003',
+    name: 'My Bugs',
+    shared: false,
+    filterData: { assignee: { isMe: { eq: true } } },
+  },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ customViews: mockViews });
+  resetMockCalls(mockClient);
+});
+
+type Result = Record<string, unknown> & { error?: Record<string, unknown> };
+
+function resultsOf(structured: unknown): Result[] {
+  return (structured as Record<string, unknown>).results as Result[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Metadata Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('custom view tools metadata', () => {
+  it('has correct names and titles', () => {
+    expect(listCustomViewsTool.name).toBe('list_custom_views');
+    expect(listCustomViewsTool.title).toBe('List Custom Views');
+    expect(listCustomViewsTool.annotations?.readOnlyHint).toBe(true);
+    expect(createCustomViewsTool.name).toBe('create_custom_views');
+    expect(createCustomViewsTool.title).toBe('Create Custom Views (Batch)');
+    expect(updateCustomViewsTool.name).toBe('update_custom_views');
+    expect(updateCustomViewsTool.title).toBe('Update Custom Views (Batch)');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// list_custom_views Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_custom_views handler', () => {
+  it('lists views with team, model and visibility', async () => {
+    const result = await listCustomViewsTool.handler({}, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(ListCustomViewsOutputSchema.safeParse(structured).success).toBe(true);
+
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items).toHaveLength(3);
+    expect(items[0]).toMatchObject({
+      id: 'view-001',
+      modelName: 'Issue',
+      team: { id: 'team-eng', key: 'ENG' },
+      filterData: { labels: { name: { eq: 'Bug' } } },
+    });
+
+    const text = result.content[0].text;
+    expect(text).toContain('Custom views: 3');
+    expect(text).toContain('Bugs Triage (issues, team ENG, shared) → view-001');
+    expect(text).toContain('Roadmap (project, workspace, shared)');
+    expect(text).toContain('My Bugs (issues, workspace, personal)');
+  });
+
+  it('filters by team and name', async () => {
+    const result = await listCustomViewsTool.handler(
+      { teamId: 'team-eng', q: 'bugs' },
+      baseContext,
+    );
+
+    const call = mockClient._calls.rawRequest[0];
+    expect(call.variables?.filter).toEqual({
+      team: { id: { eq: 'team-eng' } },
+      name: { containsIgnoreCase: 'bugs' },
+    });
+    const items = (result.structuredContent as Record<string, unknown>)
+      .items as unknown[];
+    expect(items).toHaveLength(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// create_custom_views Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_custom_views handler', () => {
+  it('creates views with a normalized filter', async () => {
+    const result = await createCustomViewsTool.handler(
+      {
+        items: [
+          {
+            name: 'Urgent ENG',
+            teamId: 'team-eng',
+            shared: true,
+            filter: { priority: { eq: 1 }, assigneeId: { eq: 'user-002' } },
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createCustomView).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Urgent ENG',
+        teamId: 'team-eng',
+        shared: true,
+        filterData: {
+          priority: { eq: 1 },
+          assignee: { id: { eq: 'user-002' } },
+        },
+      }),
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 1, succeeded: 1, failed: 0 });
+    expect(CreateCustomViewsOutputSchema.safeParse(structured).success).toBe(true);
+    expect(resultsOf(structured)[0]?.id).toMatch(/^view-new-/);
+  });
+
+  it('rejects invalid filters without calling the API', async () => {
+    const result = await createCustomViewsTool.handler(
+      { items: [{ name: 'Broken', filter: { state: { type: 'started' } } }] },
+      baseContext,
+    );
+
+    expect(mockClient.createCustomView).not.toHaveBeenCalled();
+    expect(resultsOf(result.structuredContent)[0]?.error?.code).toBe('FILTER_INVALID');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// update_custom_views Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('update_custom_views handler', () => {
+  it('updates only the provided fields', async () => {
+    const result = await updateCustomViewsTool.handler(
+      {
+        items: [
+          {
+            id: 'view-003',
+            name: 'My Open Bugs',
+            filter: { state: { type: { neq: 'completed' } } },
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.updateCustomView).toHaveBeenCalledWith('view-003', {
+      name: 'My Open Bugs',
+      filterData: { state: { type: { neq: 'completed' } } },
+    });
+    expect(result.content[0].text).toContain('Updated view view-003: name, filterData');
+  });
+
+  it('fails items with nothing to update', async () => {
+    const result = await updateCustomViewsTool.handler(
+      { items: [{ id: 'view-001' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateCustomView).not.toHaveBeenCalled();
+    expect(resultsOf(result.structuredContent)[0]?.error?.code).toBe(
+      'VALIDATION_ERROR',
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Tests for customer tools.
+ * Verifies: customer listing and filters, customer resolution, request creation.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  addCustomerRequestsTool,
+  listCustomersTool,
+} from '../../src/shared/tools/linear/customers.js';
+import {
+  AddCustomerRequestsOutputSchema,
+  ListCustomersOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockCustomer,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockCustomers: MockCustomer[] = [
+  {
+    id: 'customer-001',
+    name: 'Acme Corp',
+    domains: ['acme.com'],
+    externalIds: ['crm-42'],
+    tier: 'Enterprise',
+    status: 'Active',
+  },
+  { id: 'customer-002', name: 'Globex', domains: ['globex.io'] },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({
+    customers: mockCustomers,
+    customerNeeds: [
+      { id: 'need-001', customerId: 'customer-001', issueId: 'issue-001' },
+      { id: 'need-002', customerId: 'customer-001', issueId: 'issue-002' },
+    ],
+  });
+  resetMockCalls(mockClient);
+});
+
+type Result = {
+  success: boolean;
+  identifier?: string;
+  error?: { code: string; suggestions?: string[] };
+};
+
+function resultsOf(structured: unknown): Result[] {
+  return (structured as Record<string, unknown>).results as Result[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// list_customers
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_customers tool', () => {
+  it('lists customers with tier, status and request counts', async () => {
+    const result = await listCustomersTool.handler({}, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(ListCustomersOutputSchema.safeParse(structured).success).toBe(true);
+
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({
+      name: 'Acme Corp',
+      tier: 'Enterprise',
+      status: 'Active',
+      requestCount: 2,
+    });
+
+    expect(result.content[0].text).toContain(
+      '- Acme Corp (acme.com; tier Enterprise; Active; 2 request(s)) → customer-001',
+    );
+  });
+
+  it('filters by name and domain', async () => {
+    await listCustomersTool.handler({ q: 'acme', domain: 'acme.com' }, baseContext);
+
+    expect(mockClient._calls.rawRequest[0]?.variables?.filter).toEqual({
+      name: { containsIgnoreCase: 'acme' },
+      domains: { some: { eqIgnoreCase: 'acme.com' } },
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// add_customer_requests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('add_customer_requests tool', () => {
+  it('links customers to issues by name, domain and external id', async () => {
+    const result = await addCustomerRequestsTool.handler(
+      {
+        items: [
+          {
+            issueId: 'ENG-123',
+            customerName: 'acme corp',
+            body: 'Needs SSO',
+            important: true,
+          },
+          { issueId: 'ENG-124', customerDomain: 'https://www.globex.io/' },
+          { issueId: 'ENG-124', customerExternalId: 'crm-42' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createCustomerNeed).toHaveBeenCalledTimes(3);
+    expect(mockClient.createCustomerNeed).toHaveBeenNthCalledWith(1, {
+      customerId: 'customer-001',
+      issueId: 'issue-001',
+      body: 'Needs SSO',
+      priority: 1,
+    });
+    expect(mockClient.createCustomerNeed).toHaveBeenNthCalledWith(2, {
+      customerId: 'customer-002',
+      issueId: 'issue-002',
+      priority: 0,
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(AddCustomerRequestsOutputSchema.safeParse(structured).success).toBe(true);
+    expect(resultsOf(structured).every((r) => r.success)).toBe(true);
+
+    const text = result.content[0].text;
+    expect(text).toContain('- Acme Corp → ENG-123 (important)');
+    expect(text).toContain('- Globex → ENG-124');
+  });
+
+  it('fails items with an unknown customer or issue', async () => {
+    const result = await addCustomerRequestsTool.handler(
+      {
+        items: [
+          { issueId: 'ENG-123', customerName: 'Acme' },
+          { issueId: 'ENG-999', customerId: 'customer-001' },
+          { issueId: 'ENG-123' },
+        ],
+      },
+      baseContext,
+    );
+
+    const results = resultsOf(result.structuredContent);
+    expect(results.map((r) => r.error?.code)).toEqual([
+      'CUSTOMER_NOT_FOUND',
+      'ISSUE_NOT_FOUND',
+      'VALIDATION_ERROR',
+    ]);
+    expect(results[0]?.error?.suggestions).toEqual(['Similar customers: Acme Corp']);
+    expect(mockClient.createCustomerNeed).not.toHaveBeenCalled();
+  });
+
+  it('finds customers beyond the first page and resolves each once per batch', async () => {
+    const filler: MockCustomer[] = Array.from({ length: 300 }, (_, i) => ({
+      id: `customer-filler-${i}`,
+      name: `Filler ${i}`,
+    }));
+    mockClient = createMockLinearClient({
+      customers: [...filler, ...mockCustomers],
+    });
+
+    const result = await addCustomerRequestsTool.handler(
+      {
+        items: [
+          { issueId: 'ENG-123', customerName: 'Globex' },
+          { issueId: 'ENG-124', customerName: 'globex' },
+          { issueId: 'ENG-123', customerId: 'customer-001' },
+          { issueId: 'ENG-124', customerId: 'customer-001' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent).every((r) => r.success)).toBe(true);
+    expect(mockClient.customers).toHaveBeenCalledTimes(1);
+    expect(mockClient.customers).toHaveBeenCalledWith({
+      first: 1,
+      filter: { name: { eqIgnoreCase: 'Globex' } },
+    });
+    expect(mockClient.customer).toHaveBeenCalledTimes(1);
+    expect(mockClient.customer).toHaveBeenCalledWith('customer-001');
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Tests for cycle_report tool.
+ * Verifies: scope and completion totals, carry-over, scope creep, burndown, velocity.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cycleReportTool } from '../../src/shared/tools/linear/cycle-report.js';
+import { CycleReportOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  defaultMockTeams,
+  resetMockCalls,
+  type MockCycle,
+  type MockIssue,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const reportCycles: MockCycle[] = [
+  {
+    id: 'cycle-1',
+    number: 1,
+    startsAt: new Date('2024-12-23T00:00:00Z'),
+    endsAt: new Date('2024-12-29T23:59:59Z'),
+    completedAt: new Date('2024-12-30T00:00:00Z'),
+    team: { id: 'team-eng' },
+    completedScopeHistory: [0, 2, 8],
+    completedIssueCountHistory: [0, 1, 4],
+  },
+  {
+    id: 'cycle-2',
+    number: 2,
+    startsAt: new Date('2024-12-30T00:00:00Z'),
+    endsAt: new Date('2025-01-05T23:59:59Z'),
+    completedAt: new Date('2025-01-06T00:00:00Z'),
+    team: { id: 'team-eng' },
+    completedScopeHistory: [0, 3, 6],
+    completedIssueCountHistory: [0, 1, 2],
+  },
+  {
+    id: 'cycle-3',
+    number: 3,
+    name: 'Launch',
+    startsAt: new Date('2025-01-06T00:00:00Z'),
+    endsAt: new Date('2025-01-12T23:59:59Z'),
+    completedAt: new Date('2025-01-13T00:00:00Z'),
+    team: { id: 'team-eng' },
+    completedScopeHistory: [0, 3, 5],
+    completedIssueCountHistory: [0, 1, 3],
+    uncompletedIssueIds: ['issue-b'],
+  },
+  {
+    id: 'cycle-4',
+    number: 4,
+    startsAt: new Date('2025-01-13T00:00:00Z'),
+    endsAt: new Date('2025-01-19T23:59:59Z'),
+    team: { id: 'team-eng' },
+  },
+];
+
+const states = {
+  started: { id: 'state-inprogress', name: 'In Progress', type: 'started' },
+  done: { id: 'state-done', name: 'Done', type: 'completed' },
+  canceled: { id: 'state-canceled', name: 'Canceled', type: 'canceled' },
+};
+
+function makeIssue(
+  id: string,
+  identifier: string,
+  state: { id: string; name: string; type: string },
+  fields: Partial<MockIssue>,
+): MockIssue {
+  return {
+    id,
+    identifier,
+    title: `Issue ${identifier}`,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-10T00:00:00Z'),
+    state: Promise.resolve(state),
+    project: Promise.resolve(null),
+    assignee: Promise.resolve(null),
+    labels: () => Promise.resolve({ nodes: [] }),
+    attachments: () => Promise.resolve({ nodes: [] }),
+    comments: () => Promise.resolve({ nodes: [], pageInfo: { hasNextPage: false } }),
+    team: { id: 'team-eng' },
+    ...fields,
+  };
+}
+
+const cycleStart = new Date('2025-01-06T00:00:00Z');
+
+const mockIssues: MockIssue[] = [
+  makeIssue('issue-a', 'ENG-1', states.done, {
+    cycleId: 'cycle-3',
+    estimate: 3,
+    addedToCycleAt: cycleStart,
+    completedAt: new Date('2025-01-08T10:00:00Z'),
+  }),
+  // Unfinished when cycle 3 closed; rolled into cycle 4, so addedToCycleAt is cycle 4's
+  makeIssue('issue-b', 'ENG-2', states.started, {
+    cycleId: 'cycle-4',
+    estimate: 5,
+    addedToCycleAt: new Date('2025-01-13T00:00:00Z'),
+  }),
+  // Added mid-cycle
+  makeIssue('issue-c', 'ENG-3', states.done, {
+    cycleId: 'cycle-3',
+    estimate: 2,
+    addedToCycleAt: new Date('2025-01-09T12:00:00Z'),
+    completedAt: new Date('2025-01-10T09:00:00Z'),
+  }),
+  makeIssue('issue-d', 'ENG-4', states.canceled, {
+    cycleId: 'cycle-3',
+    estimate: 1,
+    addedToCycleAt: cycleStart,
+    canceledAt: new Date('2025-01-07T09:00:00Z'),
+  }),
+  // Unestimated
+  makeIssue('issue-e', 'ENG-5', states.done, {
+    cycleId: 'cycle-3',
+    addedToCycleAt: cycleStart,
+    completedAt: new Date('2025-01-11T09:00:00Z'),
+  }),
+  makeIssue('issue-f', 'ENG-6', states.done, {
+    cycleId: 'cycle-4',
+    estimate: 3,
+    addedToCycleAt: new Date('2025-01-13T00:00:00Z'),
+    completedAt: new Date('2025-01-14T15:00:00Z'),
+  }),
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({
+    teams: [
+      {
+        ...defaultMockTeams[0],
+        cycles: () =>
+          Promise.resolve({ nodes: reportCycles, pageInfo: { hasNextPage: false } }),
+      },
+      defaultMockTeams[1],
+    ],
+    cycles: reportCycles,
+    issues: mockIssues,
+  });
+  resetMockCalls(mockClient);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// cycle_report
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('cycle_report tool', () => {
+  it('is read-only', () => {
+    expect(cycleReportTool.name).toBe('cycle_report');
+    expect(cycleReportTool.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it('reports scope, completion, carry-over and scope creep for a closed cycle', async () => {
+    const result = await cycleReportTool.handler(
+      { teamKey: 'ENG', cycle: 3 },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(CycleReportOutputSchema.safeParse(structured).success).toBe(true);
+
+    expect(structured).toMatchObject({
+      cycle: { number: 3, name: 'Launch', status: 'completed' },
+      scope: { issues: 4, points: 10, unestimated: 1 },
+      completed: { issues: 3, points: 5 },
+      completionRate: 0.5,
+      carryOver: { issues: 1, points: 5, items: [{ identifier: 'ENG-2' }] },
+      scopeCreep: { issues: 1, points: 2, items: [{ identifier: 'ENG-3' }] },
+      canceled: { issues: 1, points: 1 },
+    });
+
+    const text = result.content[0].text;
+    expect(text).toContain('Cycle report for ENG cycle #3 (Launch), completed');
+    expect(text).toContain('- Carried over: 5 pts, 1 issue(s)');
+    expect(text).toContain('- ENG-3 Issue ENG-3 (2 pts)');
+  });
+
+  it('builds a daily burndown that tracks added, canceled and completed work', async () => {
+    const result = await cycleReportTool.handler(
+      { teamKey: 'ENG', cycle: 3 },
+      baseContext,
+    );
+
+    const burndown = (result.structuredContent as Record<string, unknown>)
+      .burndown as Array<Record<string, number | string>>;
+    expect(burndown.map((d) => d.date)).toEqual([
+      '2025-01-06',
+      '2025-01-07',
+      '2025-01-08',
+      '2025-01-09',
+      '2025-01-10',
+      '2025-01-11',
+      '2025-01-12',
+    ]);
+    expect(burndown.map((d) => d.remaining)).toEqual([9, 8, 5, 7, 5, 5, 5]);
+    expect(burndown.map((d) => d.scope)).toEqual([9, 8, 8, 10, 10, 10, 10]);
+    expect(burndown.at(-1)?.ideal).toBe(0);
+  });
+
+  it('queries velocity for the cycles just before the reported one', async () => {
+    await cycleReportTool.handler(
+      { teamKey: 'ENG', cycle: 3, velocityCycles: 2 },
+      baseContext,
+    );
+
+    const rawRequest = mockClient.client.rawRequest as ReturnType<typeof vi.fn>;
+    const velocityCall = rawRequest.mock.calls.find(([query]) =>
+      String(query).includes('CycleReportVelocity'),
+    );
+    expect(velocityCall?.[1]).toMatchObject({
+      first: 3,
+      filter: { number: { gt: 0, lte: 3 } },
+    });
+  });
+
+  it('averages velocity over the last closed cycles', async () => {
+    const result = await cycleReportTool.handler(
+      { teamKey: 'ENG', cycle: 3, velocityCycles: 2 },
+      baseContext,
+    );
+
+    const velocity = (result.structuredContent as Record<string, unknown>).velocity;
+    expect(velocity).toMatchObject({
+      cycles: [
+        { number: 3, completedPoints: 5 },
+        { number: 2, completedPoints: 6 },
+      ],
+      averagePoints: 5.5,
+      averageIssues: 2.5,
+    });
+    expect(result.content[0].text).toContain(
+      '- Velocity (last 2 closed cycle(s)): 5.5 pts, 2.5 issue(s) on average — #3: 5, #2: 6',
+    );
+  });
+
+  it('reports open work for the current cycle up to today', async () => {
+    vi.useFakeTimers({ now: new Date('2025-01-15T12:00:00Z'), toFake: ['Date'] });
+
+    const result = await cycleReportTool.handler({ teamKey: 'ENG' }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured).toMatchObject({
+      cycle: { number: 4, status: 'active' },
+      scope: { points: 8 },
+      completed: { points: 3 },
+      carryOver: { points: 5 },
+    });
+    expect((structured.burndown as unknown[]).length).toBe(3);
+    expect(result.content[0].text).toContain('- Open: 5 pts, 1 issue(s)');
+  });
+
+  it('errors when the team has cycles disabled', async () => {
+    const result = await cycleReportTool.handler({ teamKey: 'DES' }, baseContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: 'CYCLES_DISABLED' });
+  });
+
+  it('errors on an unknown cycle', async () => {
+    const result = await cycleReportTool.handler(
+      { teamKey: 'ENG', cycle: 42 },
+      baseContext,
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Cycle #42 not found in team');
+  });
+});
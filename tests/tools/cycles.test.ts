@@ -1,10 +1,15 @@
 /**
- * Tests for list_cycles tool.
- * Verifies: cycle listing, team filtering, cyclesEnabled check, output shape.
+ * Tests for list_cycles, create_cycles and update_cycles tools.
+ * Verifies: cycle listing, team filtering, cyclesEnabled check, batch create/update, output shape.
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { listCyclesTool } from '../../src/shared/tools/linear/cycles.js';
+import {
+  createCyclesTool,
+  listCyclesTool,
+  updateCyclesTool,
+} from '../../src/shared/tools/linear/cycles.js';
+import { CreateCyclesOutputSchema } from '../../src/schemas/outputs.js';
 import {
   createMockLinearClient,
   resetMockCalls,
@@ -306,3 +311,144 @@ describe('list_cycles edge cases', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// create_cycles Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_cycles tool', () => {
+  it('has correct metadata', () => {
+    expect(createCyclesTool.name).toBe('create_cycles');
+    expect(createCyclesTool.annotations?.readOnlyHint).toBe(false);
+  });
+
+  it('requires teamId, startsAt and endsAt', () => {
+    const result = createCyclesTool.inputSchema.safeParse({
+      items: [{ teamId: 'team-eng', startsAt: '2025-01-06' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('creates a cycle with parsed dates', async () => {
+    const result = await createCyclesTool.handler(
+      {
+        items: [
+          {
+            teamId: 'team-eng',
+            startsAt: '2025-01-06',
+            endsAt: '2025-01-19',
+            name: 'Sprint 3',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createCycle).toHaveBeenCalledWith({
+      teamId: 'team-eng',
+      startsAt: new Date('2025-01-06'),
+      endsAt: new Date('2025-01-19'),
+      name: 'Sprint 3',
+      description: undefined,
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0]?.success).toBe(true);
+    expect(results[0]?.identifier).toBe('#3 Sprint 3');
+  });
+
+  it('rejects endsAt before startsAt', async () => {
+    const result = await createCyclesTool.handler(
+      { items: [{ teamId: 'team-eng', startsAt: '2025-01-19', endsAt: '2025-01-06' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('VALIDATION_ERROR');
+    expect(mockClient.createCycle).not.toHaveBeenCalled();
+  });
+
+  it('fails items for teams with cycles disabled', async () => {
+    const result = await createCyclesTool.handler(
+      {
+        items: [{ teamId: 'team-design', startsAt: '2025-01-06', endsAt: '2025-01-19' }],
+      },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('CYCLES_DISABLED');
+    expect(mockClient.createCycle).not.toHaveBeenCalled();
+  });
+
+  it('matches CreateCyclesOutputSchema', async () => {
+    const result = await createCyclesTool.handler(
+      { items: [{ teamId: 'team-eng', startsAt: '2025-01-06', endsAt: '2025-01-19' }] },
+      baseContext,
+    );
+
+    expect(CreateCyclesOutputSchema.safeParse(result.structuredContent).success).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// update_cycles Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('update_cycles tool', () => {
+  it('has correct metadata', () => {
+    expect(updateCyclesTool.name).toBe('update_cycles');
+    expect(updateCyclesTool.annotations?.readOnlyHint).toBe(false);
+  });
+
+  it('updates name and dates', async () => {
+    const result = await updateCyclesTool.handler(
+      { items: [{ id: 'cycle-002', name: 'Holiday Sprint', endsAt: '2025-01-12' }] },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.updateCycle).toHaveBeenCalledWith('cycle-002', {
+      name: 'Holiday Sprint',
+      endsAt: new Date('2025-01-12'),
+    });
+    expect(result.content[0].text).toContain('Updated cycles');
+  });
+
+  it('reports invalid dates without calling the API', async () => {
+    const result = await updateCyclesTool.handler(
+      { items: [{ id: 'cycle-002', completedAt: 'not-a-date' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('VALIDATION_ERROR');
+    expect(mockClient.updateCycle).not.toHaveBeenCalled();
+  });
+
+  it('rejects items without fields to update', async () => {
+    const result = await updateCyclesTool.handler(
+      { items: [{ id: 'cycle-002' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0]?.success).toBe(false);
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('VALIDATION_ERROR');
+    expect(mockClient.updateCycle).not.toHaveBeenCalled();
+  });
+
+  it('clears the description with an empty string', async () => {
+    await updateCyclesTool.handler(
+      { items: [{ id: 'cycle-002', description: '' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateCycle).toHaveBeenCalledWith('cycle-002', { description: '' });
+  });
+});
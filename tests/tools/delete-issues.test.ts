@@ -0,0 +1,142 @@
+/**
+ * Tests for delete_issues and restore_issues tools.
+ * Verifies: confirmation via elicitation, declined deletions, missing issues, restore.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  deleteIssuesTool,
+  restoreIssuesTool,
+} from '../../src/shared/tools/linear/delete-issues.js';
+import {
+  DeleteIssuesOutputSchema,
+  RestoreIssuesOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+/** Fake MCP server whose client supports elicitation and answers with `response` */
+function elicitingServer(response: Record<string, unknown>) {
+  return {
+    getClientCapabilities: () => ({ elicitation: {} }),
+    request: vi.fn(async (_req: { params: { message: string } }) => response),
+  };
+}
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient();
+  resetMockCalls(mockClient);
+});
+
+type Result = { success: boolean; identifier?: string; error?: { code: string } };
+
+function resultsOf(structured: unknown): Result[] {
+  return (structured as Record<string, unknown>).results as Result[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// delete_issues
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('delete_issues tool', () => {
+  it('is marked destructive', () => {
+    expect(deleteIssuesTool.name).toBe('delete_issues');
+    expect(deleteIssuesTool.title).toBe('Delete Issues (Batch)');
+    expect(deleteIssuesTool.annotations?.destructiveHint).toBe(true);
+  });
+
+  it('asks for confirmation listing the issues, then deletes', async () => {
+    const server = elicitingServer({ action: 'accept', content: { confirmed: true } });
+    const result = await deleteIssuesTool.handler(
+      { ids: ['ENG-123', 'ENG-124'] },
+      { ...baseContext, server: server as unknown as McpServer },
+    );
+
+    expect(server.request).toHaveBeenCalledTimes(1);
+    const message = server.request.mock.calls[0]?.[0].params.message;
+    expect(message).toContain('Delete 2 issue(s)?');
+    expect(message).toContain('- ENG-123: ');
+
+    expect(mockClient.deleteIssue).toHaveBeenCalledWith('issue-001');
+    expect(mockClient.deleteIssue).toHaveBeenCalledTimes(2);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(DeleteIssuesOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain(
+      'Deleted issues: 2 / 2. OK: ENG-123, ENG-124.',
+    );
+    expect(result.content[0].text).toContain('restore_issues');
+  });
+
+  it('deletes nothing when the user declines', async () => {
+    const server = elicitingServer({ action: 'accept', content: { confirmed: false } });
+    const result = await deleteIssuesTool.handler(
+      { ids: ['ENG-123'] },
+      { ...baseContext, server: server as unknown as McpServer },
+    );
+
+    expect(mockClient.deleteIssue).not.toHaveBeenCalled();
+    expect(resultsOf(result.structuredContent)[0]).toMatchObject({
+      success: false,
+      identifier: 'ENG-123',
+      error: { code: 'CANCELLED' },
+    });
+  });
+
+  it('deletes without asking when the client cannot elicit', async () => {
+    await deleteIssuesTool.handler({ ids: ['ENG-123'] }, baseContext);
+
+    expect(mockClient.deleteIssue).toHaveBeenCalledWith('issue-001');
+  });
+
+  it('reports missing issues and keeps input order', async () => {
+    const result = await deleteIssuesTool.handler(
+      { ids: ['ENG-999', 'ENG-123'] },
+      baseContext,
+    );
+
+    const results = resultsOf(result.structuredContent);
+    expect(results.map((r) => r.error?.code)).toEqual(['ISSUE_NOT_FOUND', undefined]);
+    expect(mockClient.deleteIssue).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// restore_issues
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('restore_issues tool', () => {
+  it('restores trashed issues', async () => {
+    const result = await restoreIssuesTool.handler({ ids: ['ENG-123'] }, baseContext);
+
+    expect(mockClient.unarchiveIssue).toHaveBeenCalledWith('ENG-123');
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(RestoreIssuesOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain('Restored issues: 1 / 1. OK: ENG-123.');
+  });
+
+  it('is not destructive', () => {
+    expect(restoreIssuesTool.annotations?.destructiveHint).toBe(false);
+  });
+});
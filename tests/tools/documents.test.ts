@@ -0,0 +1,307 @@
+/**
+ * Tests for document tools (list, get, create, update).
+ * Verifies: project scoping, content truncation with offsets, batch create/update, output shapes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  listDocumentsTool,
+  getDocumentsTool,
+  createDocumentsTool,
+  updateDocumentsTool,
+} from '../../src/shared/tools/linear/documents.js';
+import {
+  CreateDocumentsOutputSchema,
+  GetDocumentsOutputSchema,
+  ListDocumentsOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockDocument,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockDocuments: MockDocument[] = [
+  {
+    id: 'doc-001',
+    title: 'Q1 Release Spec',
+    content: '# Goals\n\nShip the release.\n\n## Scope\n\n- Login\n- Billing',
+    url: 'https://linear.app/test/document/q1-release-spec-abc123',
+    projectId: 'project-001',
+    creator: { id: 'user-001', name: 'Test User' },
+    createdAt: '2024-12-01T10:00:00.000Z',
+    updatedAt: '2024-12-10T12:00:00.000Z',
+  },
+  {
+    id: 'doc-002',
+    title: 'Infra Runbook',
+    content: 'x'.repeat(1200),
+    projectId: 'project-002',
+    createdAt: '2024-12-02T10:00:00.000Z',
+  },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ documents: mockDocuments });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// List Documents Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_documents tool', () => {
+  describe('metadata', () => {
+    it('has correct name and title', () => {
+      expect(listDocumentsTool.name).toBe('list_documents');
+      expect(listDocumentsTool.title).toBe('List Documents');
+    });
+
+    it('has readOnlyHint annotation', () => {
+      expect(listDocumentsTool.annotations?.readOnlyHint).toBe(true);
+    });
+  });
+
+  describe('handler behavior', () => {
+    it('scopes documents by project', async () => {
+      const result = await listDocumentsTool.handler(
+        { projectId: 'project-001' },
+        baseContext,
+      );
+
+      expect(result.isError).toBeFalsy();
+      expect(mockClient._calls.rawRequest[0]?.variables).toMatchObject({
+        filter: { project: { id: { eq: 'project-001' } } },
+      });
+
+      const structured = result.structuredContent as Record<string, unknown>;
+      const items = structured.items as Array<Record<string, unknown>>;
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({
+        id: 'doc-001',
+        title: 'Q1 Release Spec',
+        project: { id: 'project-001', name: 'Q1 Release' },
+        creator: { id: 'user-001', name: 'Test User' },
+      });
+      expect(items[0]).not.toHaveProperty('content');
+      expect(result.content[0].text).toContain(
+        'project Q1 Release — updated 2024-12-10',
+      );
+    });
+
+    it('filters by title', async () => {
+      await listDocumentsTool.handler({ query: 'runbook' }, baseContext);
+
+      expect(mockClient._calls.rawRequest[0]?.variables?.filter).toEqual({
+        title: { containsIgnoreCase: 'runbook' },
+      });
+    });
+
+    it('omits the filter when no scope is given', async () => {
+      const result = await listDocumentsTool.handler({}, baseContext);
+
+      expect(mockClient._calls.rawRequest[0]?.variables?.filter).toBeUndefined();
+      const structured = result.structuredContent as Record<string, unknown>;
+      expect(structured.items).toHaveLength(2);
+    });
+  });
+
+  describe('output shape', () => {
+    it('matches ListDocumentsOutputSchema', async () => {
+      const result = await listDocumentsTool.handler({}, baseContext);
+
+      const parsed = ListDocumentsOutputSchema.safeParse(result.structuredContent);
+      expect(parsed.success).toBe(true);
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Get Documents Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('get_documents tool', () => {
+  it('rejects maxChars below 500', () => {
+    const result = getDocumentsTool.inputSchema.safeParse({
+      ids: ['doc-001'],
+      maxChars: 100,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('returns full markdown content in structured and text output', async () => {
+    const result = await getDocumentsTool.handler({ ids: ['doc-001'] }, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0]?.document).toMatchObject({
+      id: 'doc-001',
+      content: mockDocuments[0]?.content,
+      contentLength: mockDocuments[0]?.content?.length,
+      offset: 0,
+      truncated: false,
+    });
+
+    const text = result.content[0].text;
+    expect(text).toContain(
+      '## [Q1 Release Spec](https://linear.app/test/document/q1-release-spec-abc123)',
+    );
+    expect(text).toContain('## Scope\n\n- Login\n- Billing');
+  });
+
+  it('truncates long content and continues from offset', async () => {
+    const first = await getDocumentsTool.handler(
+      { ids: ['doc-002'], maxChars: 500 },
+      baseContext,
+    );
+
+    const firstDoc = (
+      (first.structuredContent as Record<string, unknown>).results as Array<
+        Record<string, unknown>
+      >
+    )[0]?.document as Record<string, unknown>;
+    expect(firstDoc).toMatchObject({
+      contentLength: 1200,
+      truncated: true,
+      nextOffset: 500,
+    });
+    expect(String(firstDoc.content)).toHaveLength(500);
+    expect(first.content[0].text).toContain(
+      '[Truncated. Characters 0–500 of 1200. Call get_documents with offset=500 to continue.]',
+    );
+
+    const last = await getDocumentsTool.handler(
+      { ids: ['doc-002'], maxChars: 1000, offset: 500 },
+      baseContext,
+    );
+    const lastDoc = (
+      (last.structuredContent as Record<string, unknown>).results as Array<
+        Record<string, unknown>
+      >
+    )[0]?.document as Record<string, unknown>;
+    expect(String(lastDoc.content)).toHaveLength(700);
+    expect(lastDoc.truncated).toBe(false);
+    expect(lastDoc.nextOffset).toBeUndefined();
+  });
+
+  it('reports missing documents per id', async () => {
+    const result = await getDocumentsTool.handler(
+      { ids: ['doc-001', 'doc-999'] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toEqual({ succeeded: 1, failed: 1 });
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[1]?.error as Record<string, unknown>)?.code).toBe('NOT_FOUND');
+    expect(GetDocumentsOutputSchema.safeParse(structured).success).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Create Documents Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_documents tool', () => {
+  it('requires projectId and title', () => {
+    const result = createDocumentsTool.inputSchema.safeParse({
+      items: [{ title: 'Spec' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('creates documents in batch', async () => {
+    const result = await createDocumentsTool.handler(
+      {
+        items: [
+          { projectId: 'project-001', title: 'RFC: Auth', content: '# Auth' },
+          { projectId: 'project-002', title: 'Notes' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createDocument).toHaveBeenCalledTimes(2);
+    expect(mockClient.createDocument).toHaveBeenCalledWith({
+      projectId: 'project-001',
+      title: 'RFC: Auth',
+      content: '# Auth',
+      icon: undefined,
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+    expect(CreateDocumentsOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain('Created documents');
+  });
+
+  it('reports API failures per item', async () => {
+    (mockClient.createDocument as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new Error('Project not found'),
+    );
+
+    const result = await createDocumentsTool.handler(
+      { items: [{ projectId: 'bad', title: 'Spec' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe(
+      'LINEAR_CREATE_ERROR',
+    );
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Update Documents Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('update_documents tool', () => {
+  it('sends only provided fields', async () => {
+    const result = await updateDocumentsTool.handler(
+      { items: [{ id: 'doc-001', content: '# Goals v2' }] },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.updateDocument).toHaveBeenCalledWith('doc-001', {
+      content: '# Goals v2',
+    });
+    expect(result.content[0].text).toContain('Updated documents');
+  });
+
+  it('rejects items with nothing to update', async () => {
+    const result = await updateDocumentsTool.handler(
+      { items: [{ id: 'doc-001' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateDocument).not.toHaveBeenCalled();
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe(
+      'VALIDATION_ERROR',
+    );
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Tests for flow_metrics tool.
+ * Verifies: lead/cycle time percentiles, weekly throughput, WIP aging, pagination.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { flowMetricsTool } from '../../src/shared/tools/linear/flow-metrics.js';
+import { FlowMetricsOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockIssue,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const states = {
+  started: { id: 'state-inprogress', name: 'In Progress', type: 'started' },
+  review: { id: 'state-review', name: 'In Review', type: 'started' },
+  done: { id: 'state-done', name: 'Done', type: 'completed' },
+};
+
+function makeIssue(
+  id: string,
+  identifier: string,
+  state: { id: string; name: string; type: string },
+  fields: Partial<MockIssue> & { assigneeName?: string },
+): MockIssue {
+  const { assigneeName, ...rest } = fields;
+  return {
+    id,
+    identifier,
+    title: `Issue ${identifier}`,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-10T00:00:00Z'),
+    state: Promise.resolve(state),
+    project: Promise.resolve(null),
+    assignee: Promise.resolve(
+      assigneeName ? { id: `user-${id}`, name: assigneeName } : null,
+    ),
+    labels: () => Promise.resolve({ nodes: [] }),
+    attachments: () => Promise.resolve({ nodes: [] }),
+    comments: () => Promise.resolve({ nodes: [], pageInfo: { hasNextPage: false } }),
+    team: { id: 'team-eng' },
+    ...rest,
+  };
+}
+
+const mockIssues: MockIssue[] = [
+  // Completed in range: lead 6d, cycle 2d
+  makeIssue('issue-a', 'ENG-1', states.done, {
+    estimate: 3,
+    startedAt: new Date('2025-01-05T00:00:00Z'),
+    completedAt: new Date('2025-01-07T00:00:00Z'),
+  }),
+  // Lead 10d, cycle 4d
+  makeIssue('issue-b', 'ENG-2', states.done, {
+    estimate: 2,
+    createdAt: new Date('2025-01-02T00:00:00Z'),
+    startedAt: new Date('2025-01-08T00:00:00Z'),
+    completedAt: new Date('2025-01-12T00:00:00Z'),
+  }),
+  // Lead 5d, cycle 1d, unestimated
+  makeIssue('issue-c', 'ENG-3', states.done, {
+    createdAt: new Date('2025-01-10T00:00:00Z'),
+    startedAt: new Date('2025-01-14T00:00:00Z'),
+    completedAt: new Date('2025-01-15T00:00:00Z'),
+  }),
+  // Lead 16d, never started
+  makeIssue('issue-d', 'ENG-4', states.done, {
+    createdAt: new Date('2025-01-05T00:00:00Z'),
+    completedAt: new Date('2025-01-21T00:00:00Z'),
+  }),
+  // Completed after the range
+  makeIssue('issue-e', 'ENG-5', states.done, {
+    startedAt: new Date('2025-01-20T00:00:00Z'),
+    completedAt: new Date('2025-01-30T00:00:00Z'),
+  }),
+  // Other team
+  makeIssue('issue-x', 'DES-1', states.done, {
+    team: { id: 'team-design' },
+    startedAt: new Date('2025-01-06T00:00:00Z'),
+    completedAt: new Date('2025-01-09T00:00:00Z'),
+  }),
+  // In progress: 1d, 3d and 12d old on 2025-02-01
+  makeIssue('issue-f', 'ENG-6', states.started, {
+    startedAt: new Date('2025-01-31T00:00:00Z'),
+  }),
+  makeIssue('issue-g', 'ENG-7', states.review, {
+    startedAt: new Date('2025-01-29T00:00:00Z'),
+  }),
+  makeIssue('issue-h', 'ENG-8', states.started, {
+    startedAt: new Date('2025-01-20T00:00:00Z'),
+    assigneeName: 'Jane Doe',
+  }),
+];
+
+const range = { from: '2025-01-06T00:00:00Z', to: '2025-01-26T23:59:59Z' };
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2025-02-01T00:00:00Z'), toFake: ['Date'] });
+  mockClient = createMockLinearClient({ issues: mockIssues });
+  resetMockCalls(mockClient);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// flow_metrics
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('flow_metrics tool', () => {
+  it('is read-only', () => {
+    expect(flowMetricsTool.name).toBe('flow_metrics');
+    expect(flowMetricsTool.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it('computes lead time and cycle time percentiles for completed issues', async () => {
+    const result = await flowMetricsTool.handler(
+      { teamKey: 'ENG', ...range },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(FlowMetricsOutputSchema.safeParse(structured).success).toBe(true);
+
+    expect(structured).toMatchObject({
+      query: { teamId: 'team-eng', teamKey: 'ENG' },
+      completedCount: 4,
+      leadTime: { count: 4, average: 9.3, p50: 6, p85: 16, p95: 16 },
+      cycleTime: { count: 3, average: 2.3, p50: 2, p85: 4, p95: 4 },
+      truncated: false,
+    });
+
+    const text = result.content[0].text;
+    expect(text).toContain(
+      'Flow metrics for ENG, 2025-01-06 → 2025-01-26: 4 completed issue(s).',
+    );
+    expect(text).toContain(
+      '- Cycle time (started → completed): median 2d, p85 4d, p95 4d (avg 2.3d, n=3)',
+    );
+  });
+
+  it('buckets throughput into Monday-start weeks, including empty ones', async () => {
+    const result = await flowMetricsTool.handler(
+      { teamKey: 'ENG', from: '2025-01-06T00:00:00Z', to: '2025-02-01T00:00:00Z' },
+      baseContext,
+    );
+
+    const throughput = (result.structuredContent as Record<string, unknown>).throughput;
+    expect(throughput).toEqual({
+      weeks: [
+        { weekStart: '2025-01-06', completed: 2, points: 5 },
+        { weekStart: '2025-01-13', completed: 1, points: 0 },
+        { weekStart: '2025-01-20', completed: 1, points: 0 },
+        { weekStart: '2025-01-27', completed: 1, points: 0 },
+      ],
+      averagePerWeek: 1.3,
+    });
+    expect(result.content[0].text).toContain('2025-01-06: 2 issue(s), 5 pts');
+  });
+
+  it('averages throughput over the range length, not partial week buckets', async () => {
+    const result = await flowMetricsTool.handler(
+      { teamKey: 'ENG', from: '2025-01-08', to: '2025-01-21' },
+      baseContext,
+    );
+
+    const throughput = (result.structuredContent as Record<string, unknown>)
+      .throughput as { weeks: unknown[]; averagePerWeek: number };
+    expect(throughput.weeks).toHaveLength(3);
+    expect(throughput.averagePerWeek).toBe(1.5);
+  });
+
+  it('includes the whole final day of a date-only range end', async () => {
+    mockClient = createMockLinearClient({
+      issues: [
+        ...mockIssues,
+        makeIssue('issue-late', 'ENG-9', states.done, {
+          startedAt: new Date('2025-01-26T09:00:00Z'),
+          completedAt: new Date('2025-01-26T18:00:00Z'),
+        }),
+      ],
+    });
+
+    const result = await flowMetricsTool.handler(
+      { teamKey: 'ENG', from: '2025-01-06', to: '2025-01-26' },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured).toMatchObject({
+      query: { to: '2025-01-26T23:59:59.999Z' },
+      completedCount: 5,
+      throughput: { averagePerWeek: 1.7 },
+    });
+  });
+
+  it('ranks in-progress issues by age against cycle time thresholds', async () => {
+    const result = await flowMetricsTool.handler(
+      { teamKey: 'ENG', ...range },
+      baseContext,
+    );
+
+    const aging = (result.structuredContent as Record<string, unknown>).aging as {
+      thresholds: Record<string, number>;
+      items: Array<Record<string, unknown>>;
+    };
+    expect(aging.thresholds).toEqual({ p50: 2, p85: 4, p95: 4 });
+    expect(aging.items.map((i) => [i.identifier, i.ageDays, i.above])).toEqual([
+      ['ENG-8', 12, 'p95'],
+      ['ENG-7', 3, 'p50'],
+      ['ENG-6', 1, undefined],
+    ]);
+    expect(aging.items[1]).toMatchObject({ stateName: 'In Review' });
+
+    const text = result.content[0].text;
+    expect(text).toContain(
+      'WIP aging, oldest first (cycle time p50 2d / p85 4d / p95 4d):',
+    );
+    expect(text).toContain(
+      '- ENG-8 Issue ENG-8 — 12d in In Progress; assignee Jane Doe; above p95',
+    );
+  });
+
+  it('follows pagination cursors and marks results truncated at maxIssues', async () => {
+    const many = Array.from({ length: 130 }, (_, i) =>
+      makeIssue(`bulk-${i}`, `ENG-${100 + i}`, states.done, {
+        startedAt: new Date('2025-01-07T00:00:00Z'),
+        completedAt: new Date('2025-01-08T00:00:00Z'),
+      }),
+    );
+    mockClient = createMockLinearClient({ issues: many });
+
+    const full = await flowMetricsTool.handler(
+      { teamKey: 'ENG', ...range },
+      baseContext,
+    );
+    expect((full.structuredContent as Record<string, unknown>).completedCount).toBe(
+      130,
+    );
+    expect(
+      mockClient._calls.rawRequest.some((c) => c.variables?.after === 'cursor-100'),
+    ).toBe(true);
+
+    const capped = await flowMetricsTool.handler(
+      { teamKey: 'ENG', ...range, maxIssues: 50 },
+      baseContext,
+    );
+    expect(capped.structuredContent).toMatchObject({
+      completedCount: 50,
+      truncated: true,
+    });
+    expect(capped.content[0].text).toContain('(truncated at 50)');
+  });
+
+  it('rejects an empty date range', async () => {
+    const result = await flowMetricsTool.handler(
+      { from: '2025-02-01', to: '2025-01-01' },
+      baseContext,
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: 'VALIDATION_ERROR' });
+  });
+
+  it('errors on an unknown team', async () => {
+    const result = await flowMetricsTool.handler({ teamKey: 'NOPE' }, baseContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: 'TEAM_NOT_FOUND' });
+  });
+});
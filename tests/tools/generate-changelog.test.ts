@@ -0,0 +1,337 @@
+/**
+ * Tests for generate_changelog tool.
+ * Verifies: label grouping, markdown links, cycle/project scope, sampling rewrite and fallback.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { generateChangelogTool } from '../../src/shared/tools/linear/generate-changelog.js';
+import { GenerateChangelogOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockIssue,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const states = {
+  started: { id: 'state-inprogress', name: 'In Progress', type: 'started' },
+  done: { id: 'state-done', name: 'Done', type: 'completed' },
+};
+
+const project = { id: 'project-001', name: 'Q1 Release' };
+
+function makeIssue(
+  id: string,
+  identifier: string,
+  title: string,
+  labels: string[],
+  fields: Partial<MockIssue> = {},
+): MockIssue {
+  return {
+    id,
+    identifier,
+    title,
+    url: `https://linear.app/test/issue/${identifier}`,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-10T00:00:00Z'),
+    state: Promise.resolve(states.done),
+    project: Promise.resolve(null),
+    assignee: Promise.resolve(null),
+    labels: () =>
+      Promise.resolve({ nodes: labels.map((name) => ({ id: `label-${name}`, name })) }),
+    attachments: () => Promise.resolve({ nodes: [] }),
+    comments: () => Promise.resolve({ nodes: [], pageInfo: { hasNextPage: false } }),
+    team: { id: 'team-eng' },
+    ...fields,
+  };
+}
+
+const mockIssues: MockIssue[] = [
+  makeIssue('issue-1', 'ENG-1', 'Add CSV export to reports', ['Feature'], {
+    completedAt: new Date('2025-01-08T10:00:00Z'),
+    cycleId: 'cycle-002',
+  }),
+  makeIssue('issue-2', 'ENG-2', 'Fix NPE in ReportSerializer', ['bug', 'Backend'], {
+    completedAt: new Date('2025-01-06T10:00:00Z'),
+    cycleId: 'cycle-002',
+  }),
+  makeIssue('issue-3', 'ENG-3', 'Speed up dashboard queries', ['Improvement'], {
+    completedAt: new Date('2025-01-09T10:00:00Z'),
+    project: Promise.resolve(project),
+  }),
+  makeIssue('issue-4', 'ENG-4', 'Bump dependencies', [], {
+    completedAt: new Date('2025-01-07T10:00:00Z'),
+    project: Promise.resolve(project),
+  }),
+  // Before the default range
+  makeIssue('issue-5', 'ENG-5', 'Old fix', ['Bug'], {
+    completedAt: new Date('2024-12-01T10:00:00Z'),
+  }),
+  // Not completed
+  makeIssue('issue-6', 'ENG-6', 'Work in progress', ['Feature'], {
+    state: Promise.resolve(states.started),
+    cycleId: 'cycle-002',
+  }),
+];
+
+function samplingServer(text: string) {
+  return {
+    getClientCapabilities: () => ({ sampling: {} }),
+    request: vi.fn(async (_req: unknown) => ({
+      model: 'test-model',
+      role: 'assistant',
+      content: { type: 'text', text },
+      stopReason: 'endTurn',
+    })),
+  };
+}
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2025-01-10T12:00:00Z'), toFake: ['Date'] });
+  mockClient = createMockLinearClient({ issues: mockIssues });
+  resetMockCalls(mockClient);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// generate_changelog
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('generate_changelog tool', () => {
+  it('is read-only', () => {
+    expect(generateChangelogTool.name).toBe('generate_changelog');
+    expect(generateChangelogTool.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it('groups issues completed in the last 14 days by label', async () => {
+    const result = await generateChangelogTool.handler({ teamKey: 'ENG' }, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(GenerateChangelogOutputSchema.safeParse(structured).success).toBe(true);
+    expect(structured.query).toEqual({
+      teamId: 'team-eng',
+      teamKey: 'ENG',
+      from: '2024-12-27T12:00:00.000Z',
+      to: '2025-01-10T12:00:00.000Z',
+    });
+    expect(structured.totalIssues).toBe(4);
+    expect(
+      (
+        structured.sections as Array<{
+          heading: string;
+          items: Array<{ identifier: string }>;
+        }>
+      ).map((s) => [s.heading, s.items.map((i) => i.identifier)]),
+    ).toEqual([
+      ['Features', ['ENG-1']],
+      ['Bug fixes', ['ENG-2']],
+      ['Improvements', ['ENG-3']],
+      ['Other changes', ['ENG-4']],
+    ]);
+    expect(result.content[0].text).toContain(
+      'Release notes — 2024-12-27 → 2025-01-10: 4 completed issue(s) — Features 1, Bug fixes 1, Improvements 1, Other changes 1.',
+    );
+  });
+
+  it('renders markdown with identifiers and links', async () => {
+    const result = await generateChangelogTool.handler(
+      { teamKey: 'ENG', title: 'v2.4.0' },
+      baseContext,
+    );
+
+    const markdown = (result.structuredContent as Record<string, unknown>).markdown;
+    expect(markdown).toContain('## v2.4.0');
+    expect(markdown).toContain(
+      '### Features\n- [ENG-1 — Add CSV export to reports](https://linear.app/test/issue/ENG-1)',
+    );
+    expect(markdown).toContain(
+      '### Bug fixes\n- [ENG-2 — Fix NPE in ReportSerializer](https://linear.app/test/issue/ENG-2)',
+    );
+  });
+
+  it('includes the whole final day of a date-only range end', async () => {
+    const result = await generateChangelogTool.handler(
+      { teamKey: 'ENG', from: '2025-01-06', to: '2025-01-08' },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.query).toMatchObject({ to: '2025-01-08T23:59:59.999Z' });
+    expect(structured.totalIssues).toBe(3);
+    expect(structured.markdown).toContain('ENG-1 — Add CSV export to reports');
+  });
+
+  it('scopes to a cycle or a project without a date range', async () => {
+    const cycle = await generateChangelogTool.handler(
+      { teamKey: 'ENG', cycle: 2 },
+      baseContext,
+    );
+    const cycleStructured = cycle.structuredContent as Record<string, unknown>;
+    expect(cycleStructured.query).toEqual({
+      teamId: 'team-eng',
+      teamKey: 'ENG',
+      cycleId: 'cycle-002',
+    });
+    expect(cycleStructured.title).toBe('Release notes — cycle 2 (Sprint 2)');
+    expect(cycleStructured.totalIssues).toBe(2);
+
+    const byProject = await generateChangelogTool.handler(
+      { projectId: 'project-001' },
+      baseContext,
+    );
+    const projectStructured = byProject.structuredContent as Record<string, unknown>;
+    expect(projectStructured.title).toBe('Release notes — Q1 Release');
+    expect(projectStructured.totalIssues).toBe(2);
+  });
+
+  it('rewrites titles through client sampling when requested', async () => {
+    const server = samplingServer(
+      'Here you go:\n{"ENG-1": "Export reports as CSV", "ENG-2": "Reports no longer fail to load", "ENG-99": "Unknown"}',
+    );
+    const result = await generateChangelogTool.handler(
+      { teamKey: 'ENG', rewrite: true },
+      { ...baseContext, server: server as unknown as McpServer },
+    );
+
+    expect(server.request).toHaveBeenCalledTimes(1);
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.rewrite).toEqual({ requested: true, applied: true });
+    const items = (
+      structured.sections as Array<{ items: Array<Record<string, unknown>> }>
+    ).flatMap((s) => s.items);
+    expect(items.find((i) => i.identifier === 'ENG-1')).toMatchObject({
+      title: 'Add CSV export to reports',
+      userFacingTitle: 'Export reports as CSV',
+    });
+    expect(
+      items.find((i) => i.identifier === 'ENG-3')?.userFacingTitle,
+    ).toBeUndefined();
+    expect(structured.markdown).toContain(
+      '- [ENG-2 — Reports no longer fail to load](https://linear.app/test/issue/ENG-2)',
+    );
+    expect(structured.markdown).toContain(
+      '- [ENG-3 — Speed up dashboard queries](https://linear.app/test/issue/ENG-3)',
+    );
+  });
+
+  it('rewrites titles in batches and keeps originals only for a failed batch', async () => {
+    const many = Array.from({ length: 120 }, (_, i) =>
+      makeIssue(`bulk-${i}`, `ENG-${100 + i}`, `Internal title ${i}`, [], {
+        completedAt: new Date(Date.UTC(2025, 0, 9, 0, i)),
+      }),
+    );
+    mockClient = createMockLinearClient({ issues: many });
+
+    let calls = 0;
+    const server = {
+      getClientCapabilities: () => ({ sampling: {} }),
+      request: vi.fn(
+        async (req: { params: { messages: Array<{ content: { text: string } }> } }) => {
+          calls += 1;
+          if (calls === 2) throw new Error('Context window exceeded');
+          const identifiers = req.params.messages[0].content.text
+            .split('\n')
+            .map((line) => line.match(/^(ENG-\d+):/)?.[1])
+            .filter((id): id is string => !!id);
+          return {
+            model: 'test-model',
+            role: 'assistant',
+            content: {
+              type: 'text',
+              text: JSON.stringify(
+                Object.fromEntries(identifiers.map((id) => [id, `Rewritten ${id}`])),
+              ),
+            },
+            stopReason: 'endTurn',
+          };
+        },
+      ),
+    };
+
+    const result = await generateChangelogTool.handler(
+      { teamKey: 'ENG', rewrite: true },
+      { ...baseContext, server: server as unknown as McpServer },
+    );
+
+    expect(server.request).toHaveBeenCalledTimes(3);
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.rewrite).toEqual({
+      requested: true,
+      applied: true,
+      reason:
+        'Rewrite failed for 1 of 3 batch(es) (Context window exceeded); their original titles kept.',
+    });
+    const items = (
+      structured.sections as Array<{ items: Array<Record<string, unknown>> }>
+    ).flatMap((s) => s.items);
+    const rewritten = items.filter((i) => i.userFacingTitle !== undefined);
+    expect(rewritten).toHaveLength(70);
+    expect(items.find((i) => i.identifier === 'ENG-100')?.userFacingTitle).toBe(
+      'Rewritten ENG-100',
+    );
+    expect(
+      items.find((i) => i.identifier === 'ENG-150')?.userFacingTitle,
+    ).toBeUndefined();
+  });
+
+  it('keeps original titles when sampling is unavailable or fails', async () => {
+    const unsupported = await generateChangelogTool.handler(
+      { teamKey: 'ENG', rewrite: true },
+      baseContext,
+    );
+    expect(unsupported.isError).toBeFalsy();
+    expect((unsupported.structuredContent as Record<string, unknown>).rewrite).toEqual({
+      requested: true,
+      applied: false,
+      reason: 'The client does not support sampling; original titles kept.',
+    });
+
+    const garbled = await generateChangelogTool.handler(
+      { teamKey: 'ENG', rewrite: true },
+      { ...baseContext, server: samplingServer('not json') as unknown as McpServer },
+    );
+    const structured = garbled.structuredContent as Record<string, unknown>;
+    expect(structured.rewrite).toMatchObject({ requested: true, applied: false });
+    expect(structured.markdown).toContain('ENG-1 — Add CSV export to reports');
+  });
+
+  it('errors on an unknown team, disabled cycles and an invalid range', async () => {
+    const team = await generateChangelogTool.handler({ teamKey: 'NOPE' }, baseContext);
+    expect(team.structuredContent).toMatchObject({ error: 'TEAM_NOT_FOUND' });
+
+    const cycles = await generateChangelogTool.handler(
+      { teamKey: 'DES', cycle: 'current' },
+      baseContext,
+    );
+    expect(cycles.structuredContent).toMatchObject({ error: 'CYCLES_DISABLED' });
+
+    const range = await generateChangelogTool.handler(
+      { from: '2025-02-01', to: '2025-01-01' },
+      baseContext,
+    );
+    expect(range.isError).toBe(true);
+    expect(range.structuredContent).toMatchObject({ error: 'VALIDATION_ERROR' });
+  });
+});
@@ -149,6 +149,60 @@ describe('get_issues handler', () => {
     expect(summary.succeeded).toBe(2);
     expect(summary.failed).toBe(0);
   });
+
+  it('includes attachment summaries', async () => {
+    mockClient = createMockLinearClient({
+      attachments: [
+        {
+          id: 'attachment-001',
+          issueId: 'issue-001',
+          title: 'TypeError: token is undefined',
+          subtitle: '42 events',
+          url: 'https://sentry.io/issues/123',
+          sourceType: 'sentry',
+          createdAt: '2024-12-11T08:00:00.000Z',
+        },
+      ],
+    });
+
+    const result = await getIssuesTool.handler({ ids: ['ENG-123'] }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    const issue = results[0].issue as Record<string, unknown>;
+
+    expect(issue.attachments).toEqual([
+      {
+        id: 'attachment-001',
+        title: 'TypeError: token is undefined',
+        subtitle: '42 events',
+        url: 'https://sentry.io/issues/123',
+        sourceType: 'sentry',
+        createdAt: '2024-12-11T08:00:00.000Z',
+      },
+    ]);
+    expect(result.content[0].text).toContain(
+      'attachments: [TypeError: token is undefined](https://sentry.io/issues/123)',
+    );
+  });
+
+  it('includes subscribers', async () => {
+    mockClient = createMockLinearClient({
+      subscribers: { 'issue-001': ['user-001', 'user-003'] },
+    });
+
+    const result = await getIssuesTool.handler({ ids: ['ENG-123'] }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    const issue = results[0].issue as Record<string, unknown>;
+
+    expect(issue.subscribers).toEqual([
+      { id: 'user-001', name: 'Test User' },
+      { id: 'user-003', name: 'Bob Smith' },
+    ]);
+    expect(result.content[0].text).toContain('subscribers: Test User, Bob Smith');
+  });
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -232,6 +286,7 @@ describe('get_issues error handling', () => {
         assignee: Promise.resolve(null),
         labels: () => Promise.resolve({ nodes: [] }),
         attachments: () => Promise.resolve({ nodes: [] }),
+        subscribers: () => Promise.resolve({ nodes: [] }),
       });
 
     const result = await getIssuesTool.handler(
@@ -261,5 +316,28 @@ describe('get_issues error handling', () => {
     expect(results[0].success).toBe(false);
     expect((results[0].error as Record<string, unknown>).message).toContain('Network error');
   });
+
+  it('returns the issue without relations when the relations query fails', async () => {
+    const rawRequest = mockClient.client.rawRequest as ReturnType<typeof vi.fn>;
+    const original = rawRequest.getMockImplementation();
+    rawRequest.mockImplementation(
+      async (query: string, variables?: Record<string, unknown>) => {
+        if (query.includes('IssueRelations')) throw new Error('Network error');
+        return original?.(query, variables);
+      },
+    );
+
+    const result = await getIssuesTool.handler({ ids: ['issue-001'] }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0].success).toBe(true);
+    expect(results[0].issue).toMatchObject({
+      id: 'issue-001',
+      relationsError: 'Network error',
+    });
+    expect((results[0].issue as Record<string, unknown>).relations).toBeUndefined();
+    expect(result.content[0].text).toContain('relations unavailable');
+  });
 });
 
@@ -0,0 +1,255 @@
+/**
+ * Tests for initiative tools (list, manage project links).
+ * Verifies: status filter, projects per initiative, link/unlink, output shapes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  listInitiativesTool,
+  manageInitiativeProjectsTool,
+} from '../../src/shared/tools/linear/initiatives.js';
+import {
+  ListInitiativesOutputSchema,
+  ManageInitiativeProjectsOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient();
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// List Initiatives Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_initiatives tool', () => {
+  describe('metadata', () => {
+    it('has correct name and title', () => {
+      expect(listInitiativesTool.name).toBe('list_initiatives');
+      expect(listInitiativesTool.title).toBe('List Initiatives');
+    });
+
+    it('has readOnlyHint annotation', () => {
+      expect(listInitiativesTool.annotations?.readOnlyHint).toBe(true);
+    });
+  });
+
+  describe('input validation', () => {
+    it('rejects unknown status', () => {
+      const result = listInitiativesTool.inputSchema.safeParse({ status: 'Paused' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('handler behavior', () => {
+    it('returns initiatives with their projects', async () => {
+      const result = await listInitiativesTool.handler({}, baseContext);
+
+      expect(result.isError).toBeFalsy();
+      const structured = result.structuredContent as Record<string, unknown>;
+      const items = structured.items as Array<Record<string, unknown>>;
+
+      expect(items.map((i) => i.name)).toEqual(['Platform 2025', 'Mobile Launch']);
+      expect(items[0]).toMatchObject({
+        status: 'Active',
+        ownerName: 'Test User',
+        hasMoreProjects: false,
+      });
+      expect(items[0]?.projects).toEqual([
+        {
+          id: 'project-001',
+          name: 'Q1 Release',
+          state: 'started',
+          health: 'atRisk',
+          progress: 50,
+        },
+        { id: 'project-002', name: 'Infrastructure', state: 'planned', progress: 50 },
+      ]);
+    });
+
+    it('renders projects indented under each initiative', async () => {
+      const result = await listInitiativesTool.handler({}, baseContext);
+
+      const text = result.content[0].text;
+      expect(text).toContain(
+        '- Platform 2025 (initiative-001) — Active, health onTrack, target 2025-06-30, owner Test User',
+      );
+      expect(text).toContain(
+        '  • Q1 Release (project-001) — started, health atRisk, 50%',
+      );
+      expect(text).toContain(
+        '- Mobile Launch (initiative-002) — Planned\n  • no linked projects',
+      );
+    });
+
+    it('passes status filter and limits', async () => {
+      await listInitiativesTool.handler(
+        { status: 'Planned', limit: 5, projectLimit: 10, cursor: 'prev' },
+        baseContext,
+      );
+
+      expect(mockClient._calls.rawRequest[0]?.variables).toEqual({
+        first: 5,
+        after: 'prev',
+        filter: { status: { eq: 'Planned' } },
+        includeArchived: undefined,
+        projectLimit: 10,
+      });
+    });
+
+    it('flags initiatives with more projects than projectLimit', async () => {
+      const result = await listInitiativesTool.handler(
+        { projectLimit: 1 },
+        baseContext,
+      );
+
+      const structured = result.structuredContent as Record<string, unknown>;
+      const items = structured.items as Array<Record<string, unknown>>;
+      expect(items[0]?.hasMoreProjects).toBe(true);
+      expect(result.content[0].text).toContain('more projects (raise projectLimit)');
+    });
+  });
+
+  describe('output shape', () => {
+    it('matches ListInitiativesOutputSchema', async () => {
+      const result = await listInitiativesTool.handler({}, baseContext);
+
+      const parsed = ListInitiativesOutputSchema.safeParse(result.structuredContent);
+      expect(parsed.success).toBe(true);
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Manage Initiative Projects Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_initiative_projects tool', () => {
+  it('has correct name and annotations', () => {
+    expect(manageInitiativeProjectsTool.name).toBe('manage_initiative_projects');
+    expect(manageInitiativeProjectsTool.annotations?.readOnlyHint).toBe(false);
+  });
+
+  it('rejects unknown action', () => {
+    const result = manageInitiativeProjectsTool.inputSchema.safeParse({
+      items: [
+        { action: 'move', initiativeId: 'initiative-001', projectId: 'project-001' },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('links a project to an initiative', async () => {
+    const result = await manageInitiativeProjectsTool.handler(
+      {
+        items: [
+          { action: 'link', initiativeId: 'initiative-002', projectId: 'project-001' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createInitiativeToProject).toHaveBeenCalledWith({
+      initiativeId: 'initiative-002',
+      projectId: 'project-001',
+    });
+    expect(result.content[0].text).toContain(
+      '- Linked: project project-001 ↔ initiative initiative-002',
+    );
+  });
+
+  it('unlinks using the existing join record and loads links once', async () => {
+    const result = await manageInitiativeProjectsTool.handler(
+      {
+        items: [
+          {
+            action: 'unlink',
+            initiativeId: 'initiative-001',
+            projectId: 'project-001',
+          },
+          {
+            action: 'unlink',
+            initiativeId: 'initiative-001',
+            projectId: 'project-002',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.deleteInitiativeToProject).toHaveBeenCalledWith(
+      'link-initiative-001-project-001',
+    );
+    expect(mockClient.deleteInitiativeToProject).toHaveBeenCalledWith(
+      'link-initiative-001-project-002',
+    );
+    expect(mockClient._calls.rawRequest).toHaveLength(1);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+    expect(ManageInitiativeProjectsOutputSchema.safeParse(structured).success).toBe(
+      true,
+    );
+  });
+
+  it('reports LINK_NOT_FOUND when unlinking a project that is not linked', async () => {
+    const result = await manageInitiativeProjectsTool.handler(
+      {
+        items: [
+          {
+            action: 'unlink',
+            initiativeId: 'initiative-002',
+            projectId: 'project-001',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.deleteInitiativeToProject).not.toHaveBeenCalled();
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0]?.success).toBe(false);
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('LINK_NOT_FOUND');
+  });
+
+  it('reports API failures per item', async () => {
+    (
+      mockClient.createInitiativeToProject as ReturnType<typeof vi.fn>
+    ).mockRejectedValue(new Error('Initiative not found'));
+
+    const result = await manageInitiativeProjectsTool.handler(
+      { items: [{ action: 'link', initiativeId: 'bad', projectId: 'project-001' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe(
+      'LINEAR_CREATE_ERROR',
+    );
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for get_issue_history tool.
+ * Verifies: input validation, change mapping, before → after rendering, pagination.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getIssueHistoryTool } from '../../src/shared/tools/linear/issue-history.js';
+import { GetIssueHistoryOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockHistoryEntry,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockHistory: MockHistoryEntry[] = [
+  {
+    id: 'hist-003',
+    issueId: 'issue-001',
+    createdAt: '2024-12-14T09:15:00.000Z',
+    actor: { id: 'user-002', name: 'Jane Doe' },
+    fromState: { id: 'state-todo', name: 'Todo' },
+    toState: { id: 'state-inprogress', name: 'In Progress' },
+    fromAssignee: null,
+    toAssignee: { id: 'user-001', name: 'Test User' },
+  },
+  {
+    id: 'hist-002',
+    issueId: 'issue-001',
+    createdAt: '2024-12-12T16:00:00.000Z',
+    actor: { id: 'user-001', name: 'Test User' },
+    fromPriority: 3,
+    toPriority: 1,
+    fromEstimate: null,
+    toEstimate: 3,
+    addedLabels: [{ id: 'label-bug', name: 'Bug' }],
+    removedLabels: [{ id: 'label-feature', name: 'Feature' }],
+  },
+  {
+    // Description-only edit: not a tracked field
+    id: 'hist-001',
+    issueId: 'issue-001',
+    createdAt: '2024-12-10T10:05:00.000Z',
+    actor: { id: 'user-001', name: 'Test User' },
+  },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ history: mockHistory });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tool Metadata Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('get_issue_history tool metadata', () => {
+  it('has correct name and title', () => {
+    expect(getIssueHistoryTool.name).toBe('get_issue_history');
+    expect(getIssueHistoryTool.title).toBe('Get Issue History');
+  });
+
+  it('is read-only', () => {
+    expect(getIssueHistoryTool.annotations?.readOnlyHint).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Input Validation Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('get_issue_history input validation', () => {
+  it('requires id', () => {
+    expect(getIssueHistoryTool.inputSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('rejects limit above 100', () => {
+    const result = getIssueHistoryTool.inputSchema.safeParse({
+      id: 'ENG-123',
+      limit: 101,
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler Behavior Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('get_issue_history handler', () => {
+  it('maps state and assignee transitions with actor', async () => {
+    const result = await getIssueHistoryTool.handler({ id: 'ENG-123' }, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    const items = structured.items as Array<Record<string, unknown>>;
+
+    expect(items[0]).toMatchObject({
+      id: 'hist-003',
+      actorName: 'Jane Doe',
+      changes: {
+        state: { before: 'Todo', after: 'In Progress' },
+        assignee: { before: '—', after: 'Test User' },
+      },
+    });
+  });
+
+  it('maps priority, estimate and label changes', async () => {
+    const result = await getIssueHistoryTool.handler({ id: 'ENG-123' }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const items = structured.items as Array<Record<string, unknown>>;
+
+    expect(items[1]?.changes).toEqual({
+      priority: { before: 3, after: 1 },
+      estimate: { before: '—', after: 3 },
+      labels: { added: ['Bug'], removed: ['Feature'] },
+    });
+  });
+
+  it('skips entries without tracked changes', async () => {
+    const result = await getIssueHistoryTool.handler({ id: 'ENG-123' }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items.map((i) => i.id)).toEqual(['hist-003', 'hist-002']);
+  });
+
+  it('renders before → after lines like update diffs', async () => {
+    const result = await getIssueHistoryTool.handler({ id: 'ENG-123' }, baseContext);
+
+    const text = result.content[0].text;
+    expect(text).toContain(
+      '- 2024-12-14 09:15 — Jane Doe\n  State: Todo → In Progress',
+    );
+    expect(text).toContain('Priority: 3 → 1');
+    expect(text).toContain('Labels: +Bug; −Feature');
+  });
+
+  it('passes pagination variables and returns next cursor', async () => {
+    const result = await getIssueHistoryTool.handler(
+      { id: 'ENG-123', limit: 1, cursor: 'prev-cursor' },
+      baseContext,
+    );
+
+    const call = mockClient._calls.rawRequest[0];
+    expect(call?.variables).toMatchObject({
+      id: 'ENG-123',
+      first: 1,
+      after: 'prev-cursor',
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const pagination = structured.pagination as Record<string, unknown>;
+    expect(pagination.hasMore).toBe(true);
+    expect(pagination.nextCursor).toBe('history-cursor');
+  });
+
+  it('returns an error for an unknown issue', async () => {
+    const result = await getIssueHistoryTool.handler({ id: 'ENG-999' }, baseContext);
+
+    expect(result.isError).toBe(true);
+    expect((result.structuredContent as Record<string, unknown>).error).toBe(
+      'ISSUE_NOT_FOUND',
+    );
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Output Shape Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('get_issue_history output shape', () => {
+  it('matches GetIssueHistoryOutputSchema', async () => {
+    const result = await getIssueHistoryTool.handler({ id: 'ENG-123' }, baseContext);
+
+    const parsed = GetIssueHistoryOutputSchema.safeParse(result.structuredContent);
+    expect(parsed.success).toBe(true);
+  });
+});
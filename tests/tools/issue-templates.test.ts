@@ -0,0 +1,142 @@
+/**
+ * Tests for list_issue_templates tool.
+ * Verifies: team/workspace scoping, name filter, non-issue templates hidden, defaults parsing.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { listIssueTemplatesTool } from '../../src/shared/tools/linear/issue-templates.js';
+import { ListIssueTemplatesOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockLinearClient,
+  type MockTemplate,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockTemplates: MockTemplate[] = [
+  {
+    id: 'template-bug',
+    name: 'Bug report',
+    description: 'Report a defect',
+    teamId: 'team-eng',
+    templateData: {
+      title: '[Bug]',
+      descriptionData: { type: 'doc' },
+      description: '## Steps to reproduce',
+      labelIds: ['label-bug'],
+      priority: 2,
+    },
+  },
+  {
+    id: 'template-incident',
+    name: 'Incident',
+    templateData: { title: 'Incident:', priority: 1, estimate: 1 },
+  },
+  {
+    id: 'template-design',
+    name: 'Design review',
+    teamId: 'team-design',
+    templateData: {},
+  },
+  {
+    id: 'template-project',
+    name: 'Project kickoff',
+    type: 'project',
+    templateData: { name: 'Kickoff' },
+  },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ templates: mockTemplates });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Metadata Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_issue_templates tool metadata', () => {
+  it('has correct name and title', () => {
+    expect(listIssueTemplatesTool.name).toBe('list_issue_templates');
+    expect(listIssueTemplatesTool.title).toBe('List Issue Templates');
+    expect(listIssueTemplatesTool.annotations?.readOnlyHint).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_issue_templates handler', () => {
+  it('lists issue templates with the fields they pre-fill', async () => {
+    const result = await listIssueTemplatesTool.handler({}, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(ListIssueTemplatesOutputSchema.safeParse(structured).success).toBe(true);
+
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items.map((t) => t.id)).toEqual([
+      'template-bug',
+      'template-incident',
+      'template-design',
+    ]);
+    expect(items[0]).toMatchObject({
+      team: { id: 'team-eng', key: 'ENG' },
+      defaults: {
+        title: '[Bug]',
+        description: '## Steps to reproduce',
+        labelIds: ['label-bug'],
+        priority: 2,
+      },
+    });
+
+    const text = result.content[0].text;
+    expect(text).toContain('Issue templates: 3');
+    expect(text).toContain(
+      'Bug report (team ENG) → template-bug — pre-fills title "[Bug]", priority 2, 1 label, description',
+    );
+    expect(text).toContain('Incident (workspace)');
+    expect(text).toContain(
+      'Design review (team DES) → template-design — pre-fills nothing',
+    );
+  });
+
+  it('scopes to a team plus workspace templates', async () => {
+    const result = await listIssueTemplatesTool.handler(
+      { teamId: 'team-eng' },
+      baseContext,
+    );
+
+    const items = (result.structuredContent as Record<string, unknown>).items as Array<
+      Record<string, unknown>
+    >;
+    expect(items.map((t) => t.id)).toEqual(['template-bug', 'template-incident']);
+  });
+
+  it('filters by name', async () => {
+    const result = await listIssueTemplatesTool.handler({ q: 'incid' }, baseContext);
+
+    const items = (result.structuredContent as Record<string, unknown>).items as Array<
+      Record<string, unknown>
+    >;
+    expect(items.map((t) => t.id)).toEqual(['template-incident']);
+  });
+});
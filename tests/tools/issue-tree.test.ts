@@ -0,0 +1,212 @@
+/**
+ * Tests for get_issue_tree tool.
+ * Verifies: input validation, recursive walk, depth limit, rollups, output shape.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getIssueTreeTool } from '../../src/shared/tools/linear/issue-tree.js';
+import { GetIssueTreeOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  defaultMockIssues,
+  resetMockCalls,
+  type MockIssue,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+// ENG-123 → ENG-124 (→ ENG-126), ENG-125
+const withParent = (issue: MockIssue, parentId?: string): MockIssue => ({
+  ...issue,
+  parentId,
+});
+const treeIssues: MockIssue[] = [
+  withParent(defaultMockIssues[0] as MockIssue),
+  withParent(defaultMockIssues[1] as MockIssue, 'issue-001'),
+  withParent(defaultMockIssues[2] as MockIssue, 'issue-001'),
+  withParent(defaultMockIssues[3] as MockIssue, 'issue-002'),
+  withParent(defaultMockIssues[4] as MockIssue),
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ issues: treeIssues });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tool Metadata Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('get_issue_tree tool metadata', () => {
+  it('has correct name and title', () => {
+    expect(getIssueTreeTool.name).toBe('get_issue_tree');
+    expect(getIssueTreeTool.title).toBe('Get Issue Tree');
+  });
+
+  it('is read-only', () => {
+    expect(getIssueTreeTool.annotations?.readOnlyHint).toBe(true);
+    expect(getIssueTreeTool.annotations?.destructiveHint).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Input Validation Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('get_issue_tree input validation', () => {
+  it('requires id', () => {
+    expect(getIssueTreeTool.inputSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('accepts identifier with depth', () => {
+    const result = getIssueTreeTool.inputSchema.safeParse({
+      id: 'ENG-123',
+      maxDepth: 2,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects maxDepth above 5', () => {
+    const result = getIssueTreeTool.inputSchema.safeParse({
+      id: 'ENG-123',
+      maxDepth: 6,
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler Behavior Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('get_issue_tree handler', () => {
+  it('walks all levels and attaches children to parents', async () => {
+    const result = await getIssueTreeTool.handler({ id: 'ENG-123' }, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    const nodes = structured.nodes as Array<Record<string, unknown>>;
+
+    expect(nodes.map((n) => [n.identifier, n.parentId, n.depth])).toEqual([
+      ['ENG-124', 'issue-001', 1],
+      ['ENG-125', 'issue-001', 1],
+      ['ENG-126', 'issue-002', 2],
+    ]);
+    expect((structured.root as Record<string, unknown>).childCount).toBe(2);
+  });
+
+  it('queries one level at a time filtered by parent ids', async () => {
+    await getIssueTreeTool.handler({ id: 'ENG-123' }, baseContext);
+
+    const levelCalls = mockClient._calls.rawRequest.filter((c) =>
+      c.query.includes('IssueTreeChildren'),
+    );
+    expect(levelCalls[0]?.variables?.filter).toEqual({
+      parent: { id: { in: ['issue-001'] } },
+    });
+    expect(levelCalls[1]?.variables?.filter).toEqual({
+      parent: { id: { in: ['issue-002', 'issue-003'] } },
+    });
+  });
+
+  it('rolls up state and estimate counts into ancestors', async () => {
+    const result = await getIssueTreeTool.handler({ id: 'ENG-123' }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.rollup).toEqual({
+      total: 3,
+      completed: 1,
+      byStateType: { unstarted: 1, backlog: 1, completed: 1 },
+      estimateTotal: 0,
+      estimateCompleted: 0,
+    });
+
+    const nodes = structured.nodes as Array<Record<string, unknown>>;
+    const child = nodes.find((n) => n.identifier === 'ENG-124');
+    expect(child?.rollup).toMatchObject({ total: 1, completed: 1 });
+  });
+
+  it('stops at maxDepth and suggests going deeper', async () => {
+    const result = await getIssueTreeTool.handler(
+      { id: 'ENG-123', maxDepth: 1 },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const nodes = structured.nodes as Array<Record<string, unknown>>;
+    expect(nodes.map((n) => n.identifier)).toEqual(['ENG-124', 'ENG-125']);
+
+    const meta = structured.meta as { nextSteps: string[] };
+    expect(meta.nextSteps.some((s) => s.includes('maxDepth'))).toBe(true);
+  });
+
+  it('does not suggest going deeper when the deepest level has no sub-issues', async () => {
+    const result = await getIssueTreeTool.handler(
+      { id: 'ENG-123', maxDepth: 2 },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect((structured.nodes as unknown[]).length).toBe(3);
+    const meta = structured.meta as { nextSteps: string[] };
+    expect(meta.nextSteps.some((s) => s.includes('maxDepth'))).toBe(false);
+  });
+
+  it('truncates at maxNodes', async () => {
+    const result = await getIssueTreeTool.handler(
+      { id: 'ENG-123', maxNodes: 1 },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.truncated).toBe(true);
+    expect((structured.nodes as unknown[]).length).toBe(1);
+  });
+
+  it('renders an indented tree with rollups', async () => {
+    const result = await getIssueTreeTool.handler({ id: 'ENG-123' }, baseContext);
+
+    const text = result.content[0].text;
+    expect(text).toContain('3 sub-issue(s) across 2 level(s)');
+    expect(text).toContain('\n    - ENG-126');
+    expect(text.indexOf('ENG-126')).toBeLessThan(text.indexOf('ENG-125'));
+  });
+
+  it('returns an error for an unknown root issue', async () => {
+    const result = await getIssueTreeTool.handler({ id: 'ENG-999' }, baseContext);
+
+    expect(result.isError).toBe(true);
+    expect((result.structuredContent as Record<string, unknown>).error).toBe(
+      'ISSUE_NOT_FOUND',
+    );
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Output Shape Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('get_issue_tree output shape', () => {
+  it('matches GetIssueTreeOutputSchema', async () => {
+    const result = await getIssueTreeTool.handler({ id: 'ENG-123' }, baseContext);
+
+    const parsed = GetIssueTreeOutputSchema.safeParse(result.structuredContent);
+    expect(parsed.success).toBe(true);
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Tests for label tools (create, update, merge).
+ * Verifies: workspace/team scope, label groups, rename/delete with confirmation, merge relabeling, output shapes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createLabelsTool,
+  updateLabelsTool,
+  mergeLabelsTool,
+} from '../../src/shared/tools/linear/labels.js';
+import {
+  CreateLabelsOutputSchema,
+  MergeLabelsOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  defaultMockLabels,
+  resetMockCalls,
+  type MockLabel,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockLabels: MockLabel[] = [
+  ...defaultMockLabels.map((l) => ({ ...l, teamId: 'team-eng' })),
+  { id: 'group-area', name: 'Area', isGroup: true, teamId: 'team-eng' },
+  { id: 'group-type', name: 'Type', isGroup: true },
+];
+
+/** Fake MCP server whose client supports elicitation and answers with `response` */
+function elicitingServer(response: Record<string, unknown>) {
+  return {
+    getClientCapabilities: () => ({ elicitation: {} }),
+    request: vi.fn(async (_req: { params: { message: string } }) => response),
+  };
+}
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ labels: mockLabels });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Create Labels Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_labels tool', () => {
+  it('has correct name and title', () => {
+    expect(createLabelsTool.name).toBe('create_labels');
+    expect(createLabelsTool.title).toBe('Create Labels (Batch)');
+  });
+
+  it('rejects non-hex colors', () => {
+    const result = createLabelsTool.inputSchema.safeParse({
+      items: [{ name: 'Perf', color: 'red' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('creates workspace and team labels', async () => {
+    const result = await createLabelsTool.handler(
+      {
+        items: [
+          { name: 'Customer', color: '#aa00aa' },
+          { name: 'Backend', teamId: 'team-eng', isGroup: true },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createIssueLabel).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Customer',
+        teamId: undefined,
+        color: '#aa00aa',
+      }),
+    );
+    expect(mockClient.createIssueLabel).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Backend', teamId: 'team-eng', isGroup: true }),
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+    expect(CreateLabelsOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain('Created labels');
+  });
+
+  it('resolves parentName within the team', async () => {
+    await createLabelsTool.handler(
+      { items: [{ name: 'Auth', teamId: 'team-eng', parentName: 'area' }] },
+      baseContext,
+    );
+
+    expect(mockClient.createIssueLabel).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Auth', parentId: 'group-area' }),
+    );
+  });
+
+  it('resolves workspace groups when teamId is omitted', async () => {
+    await createLabelsTool.handler(
+      { items: [{ name: 'Chore', parentName: 'Type' }] },
+      baseContext,
+    );
+
+    expect(mockClient.createIssueLabel).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Chore', parentId: 'group-type' }),
+    );
+  });
+
+  it('fails the item when the group does not exist', async () => {
+    const result = await createLabelsTool.handler(
+      { items: [{ name: 'Auth', parentName: 'Area' }] },
+      baseContext,
+    );
+
+    expect(mockClient.createIssueLabel).not.toHaveBeenCalled();
+    const results = (result.structuredContent as Record<string, unknown>)
+      .results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe(
+      'LABEL_GROUP_RESOLUTION_FAILED',
+    );
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Update Labels Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('update_labels tool', () => {
+  it('renames labels', async () => {
+    const result = await updateLabelsTool.handler(
+      { items: [{ id: 'label-docs', name: 'Docs' }] },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.updateIssueLabel).toHaveBeenCalledWith('label-docs', {
+      name: 'Docs',
+    });
+    expect(result.content[0].text).toContain('Updated labels');
+  });
+
+  it('is marked destructive because it can delete labels', () => {
+    expect(updateLabelsTool.annotations?.destructiveHint).toBe(true);
+  });
+
+  it('deletes labels after confirmation', async () => {
+    const server = elicitingServer({ action: 'accept', content: { confirmed: true } });
+    const result = await updateLabelsTool.handler(
+      { items: [{ id: 'label-docs', delete: true }] },
+      { ...baseContext, server: server as unknown as McpServer },
+    );
+
+    expect(server.request.mock.calls[0]?.[0].params.message).toContain(
+      'Permanently delete 1 label(s)?',
+    );
+    expect(mockClient.deleteIssueLabel).toHaveBeenCalledWith('label-docs');
+    expect(mockClient.updateIssueLabel).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain('label-docs (deleted)');
+  });
+
+  it('keeps labels when the deletion is declined but applies other updates', async () => {
+    const server = elicitingServer({ action: 'accept', content: { confirmed: false } });
+    const result = await updateLabelsTool.handler(
+      {
+        items: [
+          { id: 'label-docs', delete: true },
+          { id: 'label-bug', name: 'Defect' },
+        ],
+      },
+      { ...baseContext, server: server as unknown as McpServer },
+    );
+
+    expect(mockClient.deleteIssueLabel).not.toHaveBeenCalled();
+    expect(mockClient.updateIssueLabel).toHaveBeenCalledWith('label-bug', {
+      name: 'Defect',
+    });
+    const results = (result.structuredContent as Record<string, unknown>)
+      .results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('CANCELLED');
+    expect(results[1]?.success).toBe(true);
+  });
+
+  it('rejects delete combined with other fields', async () => {
+    const result = await updateLabelsTool.handler(
+      { items: [{ id: 'label-docs', name: 'Docs', delete: true }] },
+      baseContext,
+    );
+
+    expect(mockClient.deleteIssueLabel).not.toHaveBeenCalled();
+    const results = (result.structuredContent as Record<string, unknown>)
+      .results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe(
+      'VALIDATION_ERROR',
+    );
+  });
+
+  it('rejects items with nothing to update', async () => {
+    const result = await updateLabelsTool.handler(
+      { items: [{ id: 'label-docs' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssueLabel).not.toHaveBeenCalled();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ succeeded: 0, failed: 1 });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Merge Labels Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('merge_labels tool', () => {
+  it('is marked destructive', () => {
+    expect(mergeLabelsTool.annotations?.destructiveHint).toBe(true);
+  });
+
+  it('moves every issue to the target label and deletes the source', async () => {
+    const result = await mergeLabelsTool.handler(
+      { items: [{ sourceLabelId: 'label-bug', targetLabelId: 'label-feature' }] },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient._calls.rawRequest[0]?.variables).toMatchObject({
+      filter: { labels: { id: { eq: 'label-bug' } } },
+    });
+    expect(mockClient.updateIssue).toHaveBeenCalledTimes(2);
+    expect(mockClient.updateIssue).toHaveBeenCalledWith('issue-001', {
+      addedLabelIds: ['label-feature'],
+      removedLabelIds: ['label-bug'],
+    });
+    expect(mockClient.deleteIssueLabel).toHaveBeenCalledWith('label-bug');
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0]).toMatchObject({
+      success: true,
+      movedIssues: 2,
+      sourceDeleted: true,
+    });
+    expect(MergeLabelsOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain(
+      'label-bug → label-feature: moved 2 issue(s), source deleted',
+    );
+  });
+
+  it('keeps the source label when deleteSource is false', async () => {
+    await mergeLabelsTool.handler(
+      {
+        items: [
+          {
+            sourceLabelId: 'label-bug',
+            targetLabelId: 'label-feature',
+            deleteSource: false,
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssue).toHaveBeenCalledTimes(2);
+    expect(mockClient.deleteIssueLabel).not.toHaveBeenCalled();
+  });
+
+  it('keeps the source label when an issue fails to move', async () => {
+    (mockClient.updateIssue as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+      new Error('Label belongs to another team'),
+    );
+
+    const result = await mergeLabelsTool.handler(
+      { items: [{ sourceLabelId: 'label-bug', targetLabelId: 'label-feature' }] },
+      baseContext,
+    );
+
+    expect(mockClient.deleteIssueLabel).not.toHaveBeenCalled();
+    const results = (result.structuredContent as Record<string, unknown>)
+      .results as Array<Record<string, unknown>>;
+    expect(results[0]).toMatchObject({
+      success: false,
+      movedIssues: 1,
+      failedIssues: ['ENG-123'],
+      sourceDeleted: false,
+    });
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('PARTIAL_MERGE');
+  });
+
+  it('changes nothing when the merge is declined', async () => {
+    const server = elicitingServer({ action: 'decline' });
+    const result = await mergeLabelsTool.handler(
+      { items: [{ sourceLabelId: 'label-bug', targetLabelId: 'label-feature' }] },
+      { ...baseContext, server: server as unknown as McpServer },
+    );
+
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    expect(mockClient.deleteIssueLabel).not.toHaveBeenCalled();
+    const results = (result.structuredContent as Record<string, unknown>)
+      .results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('CANCELLED');
+  });
+
+  it('rejects merging a label into itself', async () => {
+    const result = await mergeLabelsTool.handler(
+      { items: [{ sourceLabelId: 'label-bug', targetLabelId: 'label-bug' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    const results = (result.structuredContent as Record<string, unknown>)
+      .results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe(
+      'VALIDATION_ERROR',
+    );
+  });
+});
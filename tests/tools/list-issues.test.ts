@@ -5,7 +5,12 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { listIssuesTool } from '../../src/shared/tools/linear/list-issues.js';
-import { createMockLinearClient, resetMockCalls, type MockLinearClient } from '../mocks/linear-client.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockCustomView,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
 import type { ToolContext } from '../../src/shared/tools/types.js';
 import listIssuesFixtures from '../fixtures/tool-inputs/list-issues.json';
 
@@ -224,6 +229,139 @@ describe('list_issues handler', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Custom View Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_issues custom views', () => {
+  const bugsTriage: MockCustomView = {
+    id: 'view-001',
+    name: 'Bugs Triage',
+    shared: true,
+    filterData: {
+      labels: { name: { eq: 'Bug' } },
+      state: { type: { eq: 'triage' } },
+    },
+  };
+  const projectView: MockCustomView = {
+    id: 'view-002',
+    name: 'Roadmap',
+    modelName: 'Project',
+    filterData: {},
+  };
+
+  beforeEach(() => {
+    mockClient = createMockLinearClient({ customViews: [bugsTriage, projectView] });
+  });
+
+  it('applies the view filter by name', async () => {
+    const result = await listIssuesTool.handler({ viewName: 'bugs triage' }, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const call = mockClient._calls.rawRequest[0];
+    expect(call.variables?.filter).toEqual(bugsTriage.filterData);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect((structured.query as Record<string, unknown>).view).toEqual({
+      id: 'view-001',
+      name: 'Bugs Triage',
+    });
+    expect(result.content[0].text).toContain('Issues in view "Bugs Triage"');
+  });
+
+  it('narrows the view with other filters by id', async () => {
+    const result = await listIssuesTool.handler(
+      { viewId: 'view-001', teamId: 'team-eng' },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.customView).toHaveBeenCalledWith('view-001');
+    const call = mockClient._calls.rawRequest[0];
+    expect(call.variables?.filter).toEqual({
+      and: [bugsTriage.filterData, { team: { id: { eq: 'team-eng' } } }],
+    });
+  });
+
+  it('returns an error for unknown views', async () => {
+    const result = await listIssuesTool.handler({ viewName: 'Bugs' }, baseContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Custom view "Bugs" not found');
+    expect(result.content[0].text).toContain('Bugs Triage');
+    expect(mockClient._calls.rawRequest).toHaveLength(0);
+  });
+
+  it('rejects views that are not issue views', async () => {
+    const result = await listIssuesTool.handler({ viewId: 'view-002' }, baseContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('not an issue view');
+  });
+});
+
+describe('list_issues customer demand', () => {
+  beforeEach(() => {
+    mockClient = createMockLinearClient({
+      customers: [
+        { id: 'customer-001', name: 'Acme' },
+        { id: 'customer-002', name: 'Globex' },
+      ],
+      customerNeeds: [
+        { id: 'need-001', customerId: 'customer-001', issueId: 'issue-001' },
+        { id: 'need-002', customerId: 'customer-001', issueId: 'issue-001' },
+        { id: 'need-003', customerId: 'customer-002', issueId: 'issue-001' },
+      ],
+    });
+  });
+
+  it('counts distinct customers and their requests per issue', async () => {
+    const result = await listIssuesTool.handler({ includeCustomers: true }, baseContext);
+
+    const items = (result.structuredContent as Record<string, unknown>).items as Array<
+      Record<string, unknown>
+    >;
+    const requested = items.find((i) => i.id === 'issue-001');
+    expect(requested).toMatchObject({ customerCount: 2, customerRequestCount: 3 });
+    expect(items.find((i) => i.id !== 'issue-001')?.customerCount).toBeUndefined();
+
+    expect(result.content[0].text).toContain('customers 2');
+  });
+
+  it('only selects customer requests when asked', async () => {
+    const result = await listIssuesTool.handler({ limit: 100 }, baseContext);
+
+    expect(mockClient._calls.rawRequest[0]?.query).not.toContain('needs(');
+    const items = (result.structuredContent as Record<string, unknown>).items as Array<
+      Record<string, unknown>
+    >;
+    expect(items.every((i) => i.customerCount === undefined)).toBe(true);
+  });
+
+  it('marks counts as lower bounds when an issue has more requests than one page', async () => {
+    mockClient = createMockLinearClient({
+      customers: [{ id: 'customer-001', name: 'Acme' }],
+      customerNeeds: Array.from({ length: 60 }, (_, i) => ({
+        id: `need-${i}`,
+        customerId: 'customer-001',
+        issueId: 'issue-001',
+      })),
+    });
+
+    const result = await listIssuesTool.handler({ includeCustomers: true }, baseContext);
+
+    const items = (result.structuredContent as Record<string, unknown>).items as Array<
+      Record<string, unknown>
+    >;
+    expect(items.find((i) => i.id === 'issue-001')).toMatchObject({
+      customerCount: 1,
+      customerRequestCount: 50,
+      customerCountTruncated: true,
+    });
+    expect(result.content[0].text).toContain('customers 1+');
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Output Shape Tests
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,271 @@
+/**
+ * Tests for move_issues tool.
+ * Verifies: state remapping by type, label remapping by name, unmapped reporting, dry run.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { moveIssuesTool } from '../../src/shared/tools/linear/move-issues.js';
+import { MoveIssuesOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  defaultMockTeams,
+  resetMockCalls,
+  type MockIssue,
+  type MockLabel,
+  type MockLinearClient,
+  type MockTeam,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+// Destination team: no backlog state, "Doing" before "In Progress", only a Bug label
+const opsTeam: MockTeam = {
+  id: 'team-ops',
+  key: 'OPS',
+  name: 'Operations',
+  states: () =>
+    Promise.resolve({
+      nodes: [
+        { id: 'ops-todo', name: 'Todo', type: 'unstarted' },
+        { id: 'ops-doing', name: 'Doing', type: 'started' },
+        { id: 'ops-inprogress', name: 'In Progress', type: 'started' },
+        { id: 'ops-done', name: 'Done', type: 'completed' },
+      ],
+    }),
+  labels: () =>
+    Promise.resolve({ nodes: [{ id: 'ops-bug', name: 'bug', teamId: 'team-ops' }] }),
+  projects: () => Promise.resolve({ nodes: [] }),
+  cycles: () => Promise.resolve({ nodes: [], pageInfo: { hasNextPage: false } }),
+};
+
+function makeIssue(
+  id: string,
+  identifier: string,
+  state: { id: string; name: string; type: string },
+): MockIssue {
+  return {
+    id,
+    identifier,
+    title: `Issue ${identifier}`,
+    createdAt: new Date('2024-12-01T00:00:00Z'),
+    updatedAt: new Date('2024-12-02T00:00:00Z'),
+    state: Promise.resolve(state),
+    project: Promise.resolve(null),
+    assignee: Promise.resolve(null),
+    labels: () =>
+      Promise.resolve({
+        nodes: [
+          { id: 'label-bug', name: 'Bug', teamId: 'team-eng' },
+          { id: 'label-frontend', name: 'Frontend', teamId: 'team-eng' },
+          { id: 'label-security', name: 'Security' },
+        ],
+      }),
+    attachments: () => Promise.resolve({ nodes: [] }),
+    comments: () => Promise.resolve({ nodes: [], pageInfo: { hasNextPage: false } }),
+    team: { id: 'team-eng' },
+  };
+}
+
+// Team labels of ENG and OPS, plus a workspace label
+const mockLabels: MockLabel[] = [
+  { id: 'ops-bug', name: 'bug', teamId: 'team-ops' },
+  { id: 'label-bug', name: 'Bug', teamId: 'team-eng' },
+  { id: 'label-frontend', name: 'Frontend', teamId: 'team-eng' },
+  { id: 'label-security', name: 'Security' },
+];
+
+const mockIssues: MockIssue[] = [
+  makeIssue('issue-101', 'ENG-201', {
+    id: 'state-inprogress',
+    name: 'In Progress',
+    type: 'started',
+  }),
+  makeIssue('issue-102', 'ENG-202', {
+    id: 'state-backlog',
+    name: 'Backlog',
+    type: 'backlog',
+  }),
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({
+    teams: [...defaultMockTeams, opsTeam],
+    issues: mockIssues,
+    labels: mockLabels,
+  });
+  resetMockCalls(mockClient);
+});
+
+type Result = Record<string, unknown> & { error?: Record<string, unknown> };
+
+function resultsOf(structured: unknown): Result[] {
+  return (structured as Record<string, unknown>).results as Result[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Metadata Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('move_issues tool metadata', () => {
+  it('has correct name and title', () => {
+    expect(moveIssuesTool.name).toBe('move_issues');
+    expect(moveIssuesTool.title).toBe('Move Issues (Batch)');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('move_issues handler', () => {
+  it('remaps state by type and labels by name', async () => {
+    const result = await moveIssuesTool.handler(
+      { items: [{ id: 'ENG-201', teamKey: 'ops' }] },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    // Same name wins over the first started state; workspace label kept, Frontend dropped
+    expect(mockClient._calls.updateIssue[0]).toEqual({
+      id: 'issue-101',
+      input: {
+        teamId: 'team-ops',
+        stateId: 'ops-inprogress',
+        labelIds: ['ops-bug', 'label-security'],
+      },
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(MoveIssuesOutputSchema.safeParse(structured).success).toBe(true);
+    expect(resultsOf(structured)[0]).toMatchObject({
+      success: true,
+      identifier: 'ENG-201',
+      toTeam: 'OPS',
+      state: { from: 'In Progress', to: 'In Progress' },
+      labels: { kept: ['Security'], remapped: ['Bug'], created: [] },
+      unmapped: ['label "Frontend"'],
+    });
+    expect(result.content[0].text).toContain('not mapped: label "Frontend"');
+  });
+
+  it('reports states with no matching type and lets the team default apply', async () => {
+    const result = await moveIssuesTool.handler(
+      { items: [{ id: 'ENG-202', teamId: 'team-ops' }] },
+      baseContext,
+    );
+
+    const input = mockClient._calls.updateIssue[0]?.input as Record<string, unknown>;
+    expect(input.stateId).toBeUndefined();
+    expect(resultsOf(result.structuredContent)[0]?.unmapped).toEqual([
+      'state "Backlog" [backlog]',
+      'label "Frontend"',
+    ]);
+  });
+
+  it('uses an explicit target state', async () => {
+    await moveIssuesTool.handler(
+      { items: [{ id: 'ENG-202', teamKey: 'OPS', stateName: 'Doing' }] },
+      baseContext,
+    );
+
+    expect(mockClient._calls.updateIssue[0]?.input).toMatchObject({
+      stateId: 'ops-doing',
+    });
+  });
+
+  it('creates missing team labels when asked', async () => {
+    const result = await moveIssuesTool.handler(
+      { items: [{ id: 'ENG-201', teamKey: 'OPS' }], createMissingLabels: true },
+      baseContext,
+    );
+
+    expect(mockClient.createIssueLabel).toHaveBeenCalledWith({
+      name: 'Frontend',
+      teamId: 'team-ops',
+    });
+    const [first] = resultsOf(result.structuredContent);
+    expect(first?.unmapped).toBeUndefined();
+    expect(first?.labels).toMatchObject({ created: ['Frontend'] });
+  });
+
+  it('pages through destination labels beyond the first page', async () => {
+    const filler: MockLabel[] = Array.from({ length: 300 }, (_, i) => ({
+      id: `ops-filler-${i}`,
+      name: `Filler ${i}`,
+      teamId: 'team-ops',
+    }));
+    mockClient = createMockLinearClient({
+      teams: [...defaultMockTeams, opsTeam],
+      issues: mockIssues,
+      labels: [
+        ...filler,
+        ...mockLabels,
+        { id: 'ops-frontend', name: 'frontend', teamId: 'team-ops' },
+      ],
+    });
+
+    const result = await moveIssuesTool.handler(
+      { items: [{ id: 'ENG-201', teamKey: 'OPS' }], createMissingLabels: true },
+      baseContext,
+    );
+
+    expect(mockClient.issueLabels).toHaveBeenCalledTimes(2);
+    expect(mockClient.createIssueLabel).not.toHaveBeenCalled();
+    const [first] = resultsOf(result.structuredContent);
+    expect(first?.labels).toMatchObject({ remapped: ['Bug', 'Frontend'], created: [] });
+    expect(mockClient._calls.updateIssue[0]?.input).toMatchObject({
+      labelIds: ['ops-bug', 'ops-frontend', 'label-security'],
+    });
+  });
+
+  it('previews the mapping in dry run without moving', async () => {
+    const result = await moveIssuesTool.handler(
+      { items: [{ id: 'ENG-201', teamKey: 'OPS' }], dry_run: true },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.dryRun).toBe(true);
+    expect(result.content[0].text).toContain(
+      'Would move ENG-201 to OPS (In Progress → In Progress); not mapped: label "Frontend"',
+    );
+  });
+
+  it('fails unknown teams, unknown issues and same-team moves', async () => {
+    const result = await moveIssuesTool.handler(
+      {
+        items: [
+          { id: 'ENG-201', teamKey: 'NOPE' },
+          { id: 'ENG-999', teamKey: 'OPS' },
+          { id: 'ENG-201', teamKey: 'ENG' },
+          { id: 'ENG-201' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent).map((r) => r.error?.code)).toEqual([
+      'TEAM_NOT_FOUND',
+      'ISSUE_NOT_FOUND',
+      'VALIDATION_ERROR',
+      'VALIDATION_ERROR',
+    ]);
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Tests for notification tools (list_notifications, mark_notifications).
+ * Verifies: read-state filtering, grouping by issue, comment snippets, read/snooze/archive actions.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  listNotificationsTool,
+  markNotificationsTool,
+} from '../../src/shared/tools/linear/notifications.js';
+import {
+  ListNotificationsOutputSchema,
+  MarkNotificationsOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockLinearClient,
+  type MockNotification,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockNotifications: MockNotification[] = [
+  {
+    id: 'notif-1',
+    type: 'issueCommentMention',
+    createdAt: '2025-01-15T09:30:00.000Z',
+    actor: { id: 'user-002', name: 'Jane Doe' },
+    issueId: 'issue-001',
+    comment: {
+      id: 'comment-9',
+      body: '\n@test can you take a look at the token refresh?\nMore details below.',
+    },
+  },
+  {
+    id: 'notif-2',
+    type: 'issueAssignedToYou',
+    createdAt: '2025-01-15T08:00:00.000Z',
+    actor: { id: 'user-002', name: 'Jane Doe' },
+    issueId: 'issue-002',
+  },
+  {
+    id: 'notif-3',
+    type: 'issueStatusChanged',
+    createdAt: '2025-01-14T17:00:00.000Z',
+    readAt: '2025-01-14T18:00:00.000Z',
+    actor: { id: 'user-003', name: 'Bob Smith' },
+    issueId: 'issue-001',
+  },
+  {
+    id: 'notif-4',
+    type: 'issueNewComment',
+    createdAt: '2025-01-14T12:00:00.000Z',
+    actor: { id: 'user-003', name: 'Bob Smith' },
+    issueId: 'issue-001',
+    comment: { id: 'comment-8', body: 'Deployed the fix to staging.' },
+  },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ notifications: mockNotifications });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// List Notifications Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_notifications tool', () => {
+  it('has correct name and is read-only', () => {
+    expect(listNotificationsTool.name).toBe('list_notifications');
+    expect(listNotificationsTool.title).toBe('List Notifications');
+    expect(listNotificationsTool.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it('lists unread notifications grouped by issue', async () => {
+    const result = await listNotificationsTool.handler({}, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items.map((n) => n.id)).toEqual(['notif-1', 'notif-2', 'notif-4']);
+    expect(items[0]).toMatchObject({
+      actor: { id: 'user-002', name: 'Jane Doe' },
+      issue: { id: 'issue-001', identifier: 'ENG-123' },
+      comment: {
+        id: 'comment-9',
+        snippet: '@test can you take a look at the token refresh?',
+      },
+    });
+    expect(structured.groups).toEqual([
+      {
+        issue: expect.objectContaining({ identifier: 'ENG-123' }),
+        notificationIds: ['notif-1', 'notif-4'],
+        unread: 2,
+      },
+      {
+        issue: expect.objectContaining({ identifier: 'ENG-124' }),
+        notificationIds: ['notif-2'],
+        unread: 1,
+      },
+    ]);
+    expect(ListNotificationsOutputSchema.safeParse(structured).success).toBe(true);
+
+    const text = result.content[0].text;
+    expect(text).toContain('Unread notifications: 3');
+    expect(text).toContain(
+      'Jane Doe mentioned you in a comment: "@test can you take a look at the token refresh?" [unread]',
+    );
+    expect(text).toContain('Jane Doe assigned you [unread]');
+  });
+
+  it('returns read notifications and filters by type', async () => {
+    const result = await listNotificationsTool.handler(
+      { status: 'read', types: ['issueStatusChanged'] },
+      baseContext,
+    );
+
+    expect(mockClient._calls.rawRequest[0]?.variables).toMatchObject({
+      filter: { type: { in: ['issueStatusChanged'] } },
+    });
+    const items = (result.structuredContent as Record<string, unknown>).items as Array<
+      Record<string, unknown>
+    >;
+    expect(items.map((n) => n.id)).toEqual(['notif-3']);
+    expect(result.content[0].text).toContain('Bob Smith changed the status');
+  });
+
+  it('keeps reading pages until limit unread notifications are found', async () => {
+    const read = (i: number): MockNotification => ({
+      id: `notif-read-${i}`,
+      type: 'issueNewComment',
+      createdAt: '2025-01-13T09:00:00.000Z',
+      readAt: '2025-01-13T10:00:00.000Z',
+      issueId: 'issue-002',
+    });
+    mockClient = createMockLinearClient({
+      notifications: [
+        mockNotifications[0],
+        read(1),
+        read(2),
+        mockNotifications[1],
+        read(3),
+        mockNotifications[3],
+        read(4),
+      ],
+    });
+
+    const result = await listNotificationsTool.handler({ limit: 2 }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items.map((n) => n.id)).toEqual(['notif-1', 'notif-2']);
+    expect(mockClient._calls.rawRequest.map((c) => c.variables?.first)).toEqual([
+      2, 1, 1,
+    ]);
+    expect(structured.nextCursor).toBe('notification-cursor-4');
+
+    const next = await listNotificationsTool.handler(
+      { limit: 2, cursor: structured.nextCursor as string },
+      baseContext,
+    );
+    const nextItems = (next.structuredContent as Record<string, unknown>)
+      .items as Array<Record<string, unknown>>;
+    expect(nextItems.map((n) => n.id)).toEqual(['notif-4']);
+  });
+
+  it('explains an empty inbox', async () => {
+    mockClient = createMockLinearClient({ notifications: [] });
+
+    const result = await listNotificationsTool.handler({}, baseContext);
+
+    expect(result.content[0].text).toContain('Unread notifications: 0');
+    expect(result.content[0].text).toContain('status="all"');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Mark Notifications Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('mark_notifications tool', () => {
+  it('has correct name and title', () => {
+    expect(markNotificationsTool.name).toBe('mark_notifications');
+    expect(markNotificationsTool.title).toBe('Mark Notifications (Batch)');
+  });
+
+  it('marks read, snoozes and archives', async () => {
+    const result = await markNotificationsTool.handler(
+      {
+        items: [
+          { id: 'notif-1', action: 'read' },
+          { id: 'notif-2', action: 'snooze', snoozeUntil: '2025-01-20T09:00:00Z' },
+          { id: 'notif-4', action: 'archive' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.updateNotification).toHaveBeenCalledWith('notif-1', {
+      readAt: expect.any(Date),
+    });
+    expect(mockClient.updateNotification).toHaveBeenCalledWith('notif-2', {
+      snoozedUntilAt: new Date('2025-01-20T09:00:00Z'),
+    });
+    expect(mockClient.archiveNotification).toHaveBeenCalledWith('notif-4');
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 3, succeeded: 3, failed: 0 });
+    expect(MarkNotificationsOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain('1 marked read, 1 snoozed, 1 archived');
+  });
+
+  it('requires a valid snoozeUntil', async () => {
+    const result = await markNotificationsTool.handler(
+      {
+        items: [
+          { id: 'notif-1', action: 'snooze' },
+          { id: 'notif-2', action: 'snooze', snoozeUntil: 'tomorrow' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.updateNotification).not.toHaveBeenCalled();
+    const results = (result.structuredContent as Record<string, unknown>)
+      .results as Array<Record<string, unknown>>;
+    expect(results.map((r) => (r.error as Record<string, unknown>)?.code)).toEqual([
+      'VALIDATION_ERROR',
+      'VALIDATION_ERROR',
+    ]);
+  });
+
+  it('reports unknown notifications as failures', async () => {
+    const result = await markNotificationsTool.handler(
+      { items: [{ id: 'notif-missing', action: 'read' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ succeeded: 0, failed: 1 });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Tests for project milestone tools (list, create, update).
+ * Verifies: roadmap ordering, progress mapping, batch create/update, output shapes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  listProjectMilestonesTool,
+  createProjectMilestonesTool,
+  updateProjectMilestonesTool,
+} from '../../src/shared/tools/linear/project-milestones.js';
+import {
+  CreateProjectMilestonesOutputSchema,
+  ListProjectMilestonesOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  defaultMockMilestones,
+  resetMockCalls,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  // Reverse so the tool has to restore roadmap order
+  mockClient = createMockLinearClient({
+    milestones: [...defaultMockMilestones].reverse(),
+  });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// List Project Milestones Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_project_milestones tool', () => {
+  describe('metadata', () => {
+    it('has correct name and title', () => {
+      expect(listProjectMilestonesTool.name).toBe('list_project_milestones');
+      expect(listProjectMilestonesTool.title).toBe('List Project Milestones');
+    });
+
+    it('has readOnlyHint annotation', () => {
+      expect(listProjectMilestonesTool.annotations?.readOnlyHint).toBe(true);
+    });
+  });
+
+  describe('input validation', () => {
+    it('requires projectId', () => {
+      expect(listProjectMilestonesTool.inputSchema.safeParse({}).success).toBe(false);
+    });
+  });
+
+  describe('handler behavior', () => {
+    it('returns milestones in roadmap order with progress as a percentage', async () => {
+      const result = await listProjectMilestonesTool.handler(
+        { projectId: 'project-001' },
+        baseContext,
+      );
+
+      expect(result.isError).toBeFalsy();
+      const structured = result.structuredContent as Record<string, unknown>;
+      const items = structured.items as Array<Record<string, unknown>>;
+
+      expect(items.map((m) => [m.name, m.progress])).toEqual([
+        ['Beta', 60],
+        ['GA', 10],
+      ]);
+      expect(result.content[0].text).toContain(
+        'Beta (milestone-001) — target 2025-02-14 — 60% done',
+      );
+    });
+
+    it('passes pagination variables', async () => {
+      await listProjectMilestonesTool.handler(
+        { projectId: 'project-001', limit: 10, cursor: 'prev' },
+        baseContext,
+      );
+
+      expect(mockClient._calls.rawRequest[0]?.variables).toEqual({
+        projectId: 'project-001',
+        first: 10,
+        after: 'prev',
+      });
+    });
+
+    it('returns an error for an unknown project', async () => {
+      const result = await listProjectMilestonesTool.handler(
+        { projectId: 'project-999' },
+        baseContext,
+      );
+
+      expect(result.isError).toBe(true);
+      expect((result.structuredContent as Record<string, unknown>).error).toBe(
+        'PROJECT_NOT_FOUND',
+      );
+    });
+  });
+
+  describe('output shape', () => {
+    it('matches ListProjectMilestonesOutputSchema', async () => {
+      const result = await listProjectMilestonesTool.handler(
+        { projectId: 'project-001' },
+        baseContext,
+      );
+
+      const parsed = ListProjectMilestonesOutputSchema.safeParse(
+        result.structuredContent,
+      );
+      expect(parsed.success).toBe(true);
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Create Project Milestones Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_project_milestones tool', () => {
+  it('requires projectId and name', () => {
+    const result = createProjectMilestonesTool.inputSchema.safeParse({
+      items: [{ name: 'Beta' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('creates milestones in batch', async () => {
+    const result = await createProjectMilestonesTool.handler(
+      {
+        items: [
+          { projectId: 'project-001', name: 'RC', targetDate: '2025-03-15' },
+          { projectId: 'project-002', name: 'Cutover' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createProjectMilestone).toHaveBeenCalledTimes(2);
+    expect(mockClient.createProjectMilestone).toHaveBeenCalledWith({
+      projectId: 'project-001',
+      name: 'RC',
+      description: undefined,
+      targetDate: '2025-03-15',
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+    expect(CreateProjectMilestonesOutputSchema.safeParse(structured).success).toBe(
+      true,
+    );
+  });
+
+  it('reports API failures per item', async () => {
+    (mockClient.createProjectMilestone as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new Error('Project not found'),
+    );
+
+    const result = await createProjectMilestonesTool.handler(
+      { items: [{ projectId: 'bad', name: 'Beta' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0]?.success).toBe(false);
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe(
+      'LINEAR_CREATE_ERROR',
+    );
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Update Project Milestones Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('update_project_milestones tool', () => {
+  it('sends only provided fields', async () => {
+    const result = await updateProjectMilestonesTool.handler(
+      { items: [{ id: 'milestone-002', targetDate: '2025-04-15' }] },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.updateProjectMilestone).toHaveBeenCalledWith('milestone-002', {
+      targetDate: '2025-04-15',
+    });
+    expect(result.content[0].text).toContain('Updated project milestones');
+  });
+});
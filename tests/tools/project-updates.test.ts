@@ -0,0 +1,186 @@
+/**
+ * Tests for project update tools (list, create).
+ * Verifies: update listing, health values, batch posting, output shapes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  listProjectUpdatesTool,
+  createProjectUpdatesTool,
+} from '../../src/shared/tools/linear/project-updates.js';
+import {
+  CreateProjectUpdatesOutputSchema,
+  ListProjectUpdatesOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockLinearClient,
+  type MockProjectUpdate,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockUpdates: MockProjectUpdate[] = [
+  {
+    id: 'update-002',
+    projectId: 'project-001',
+    body: '\nBeta slipped a week: auth migration blocked on ENG-125.\n\nNext: unblock and re-plan GA.',
+    health: 'atRisk',
+    createdAt: '2024-12-16T09:00:00.000Z',
+    url: 'https://linear.app/project/updates/update-002',
+    user: { id: 'user-002', name: 'Jane Doe' },
+  },
+  {
+    id: 'update-001',
+    projectId: 'project-001',
+    body: 'Kickoff done, scope agreed.',
+    health: 'onTrack',
+    createdAt: '2024-12-09T09:00:00.000Z',
+    user: { id: 'user-001', name: 'Test User' },
+  },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ projectUpdates: mockUpdates });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// List Project Updates Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_project_updates tool', () => {
+  describe('metadata', () => {
+    it('has correct name and title', () => {
+      expect(listProjectUpdatesTool.name).toBe('list_project_updates');
+      expect(listProjectUpdatesTool.title).toBe('List Project Updates');
+    });
+
+    it('has readOnlyHint annotation', () => {
+      expect(listProjectUpdatesTool.annotations?.readOnlyHint).toBe(true);
+    });
+  });
+
+  describe('handler behavior', () => {
+    it('returns updates with health, author and current project health', async () => {
+      const result = await listProjectUpdatesTool.handler(
+        { projectId: 'project-001' },
+        baseContext,
+      );
+
+      expect(result.isError).toBeFalsy();
+      const structured = result.structuredContent as Record<string, unknown>;
+      expect(structured.project).toEqual({
+        id: 'project-001',
+        name: 'Q1 Release',
+        health: 'atRisk',
+      });
+
+      const items = structured.items as Array<Record<string, unknown>>;
+      expect(items.map((u) => [u.id, u.health])).toEqual([
+        ['update-002', 'atRisk'],
+        ['update-001', 'onTrack'],
+      ]);
+      expect(items[0]?.user).toEqual({ id: 'user-002', name: 'Jane Doe' });
+    });
+
+    it('previews the first non-empty line of each update', async () => {
+      const result = await listProjectUpdatesTool.handler(
+        { projectId: 'project-001' },
+        baseContext,
+      );
+
+      expect(result.content[0].text).toContain(
+        '2024-12-16 — At risk — Jane Doe: Beta slipped a week: auth migration blocked on ENG-125.',
+      );
+    });
+
+    it('returns an error for an unknown project', async () => {
+      const result = await listProjectUpdatesTool.handler(
+        { projectId: 'project-999' },
+        baseContext,
+      );
+
+      expect(result.isError).toBe(true);
+      expect((result.structuredContent as Record<string, unknown>).error).toBe(
+        'PROJECT_NOT_FOUND',
+      );
+    });
+  });
+
+  describe('output shape', () => {
+    it('matches ListProjectUpdatesOutputSchema', async () => {
+      const result = await listProjectUpdatesTool.handler(
+        { projectId: 'project-001' },
+        baseContext,
+      );
+
+      const parsed = ListProjectUpdatesOutputSchema.safeParse(result.structuredContent);
+      expect(parsed.success).toBe(true);
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Create Project Updates Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('create_project_updates tool', () => {
+  it('rejects unknown health values', () => {
+    const result = createProjectUpdatesTool.inputSchema.safeParse({
+      items: [{ projectId: 'project-001', body: 'Weekly update', health: 'green' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('requires a non-empty body', () => {
+    const result = createProjectUpdatesTool.inputSchema.safeParse({
+      items: [{ projectId: 'project-001', body: '' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('posts markdown body with health', async () => {
+    const result = await createProjectUpdatesTool.handler(
+      {
+        items: [
+          {
+            projectId: 'project-001',
+            body: '## Week 51\n- Beta back on track',
+            health: 'onTrack',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createProjectUpdate).toHaveBeenCalledWith({
+      projectId: 'project-001',
+      body: '## Week 51\n- Beta back on track',
+      health: 'onTrack',
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0]?.success).toBe(true);
+    expect(results[0]?.url).toContain('https://linear.app/project/updates/');
+    expect(CreateProjectUpdatesOutputSchema.safeParse(structured).success).toBe(true);
+  });
+});
@@ -167,6 +167,41 @@ describe('list_projects tool', () => {
       const hasMetadata = items.some((p) => p.leadId !== undefined || p.teamId !== undefined);
       expect(hasMetadata).toBe(true);
     });
+
+    it('includes latest project update health', async () => {
+      const result = await listProjectsTool.handler({}, baseContext);
+
+      const structured = result.structuredContent as Record<string, unknown>;
+      const items = structured.items as Array<Record<string, unknown>>;
+
+      expect(items[0]).toMatchObject({
+        health: 'atRisk',
+        healthUpdatedAt: '2024-12-16T09:00:00.000Z',
+      });
+      expect(items[1]?.health).toBeUndefined();
+      expect(result.content[0].text).toContain('Q1 Release (project-001) — state started — health atRisk');
+    });
+
+    it('includes milestone progress fetched in one batched request', async () => {
+      const result = await listProjectsTool.handler({}, baseContext);
+
+      const structured = result.structuredContent as Record<string, unknown>;
+      const items = structured.items as Array<Record<string, unknown>>;
+
+      expect(items[0]?.milestones).toEqual([
+        { id: 'milestone-001', name: 'Beta', targetDate: '2025-02-14', progress: 60 },
+        { id: 'milestone-002', name: 'GA', targetDate: '2025-03-31', progress: 10 },
+      ]);
+      expect(items[1]?.milestones).toEqual([]);
+
+      const milestoneCalls = mockClient._calls.rawRequest.filter((c) =>
+        c.query.includes('projectMilestones('),
+      );
+      expect(milestoneCalls).toHaveLength(1);
+      expect(milestoneCalls[0]?.variables).toEqual({ ids: ['project-001', 'project-002'] });
+
+      expect(result.content[0].text).toContain('milestones: Beta 60%, GA 10%');
+    });
   });
 });
 
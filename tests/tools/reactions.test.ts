@@ -0,0 +1,171 @@
+/**
+ * Tests for manage_reactions tool.
+ * Verifies: issue/comment targets, emoji normalization, idempotent add, removing own reactions only.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { manageReactionsTool } from '../../src/shared/tools/linear/reactions.js';
+import { ManageReactionsOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockComment,
+  type MockLinearClient,
+  type MockReaction,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockComments: MockComment[] = [
+  {
+    id: 'comment-001',
+    body: 'Deployed to staging.',
+    createdAt: new Date('2024-12-12T10:00:00Z'),
+    user: { id: 'user-002', name: 'Jane Doe' },
+  },
+];
+
+const mockReactions: MockReaction[] = [
+  { id: 'reaction-1', emoji: 'eyes', userId: 'user-001', issueId: 'issue-001' },
+  { id: 'reaction-2', emoji: 'thumbsup', userId: 'user-002', commentId: 'comment-001' },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({
+    comments: mockComments,
+    reactions: mockReactions,
+  });
+  resetMockCalls(mockClient);
+});
+
+type Result = Record<string, unknown> & { error?: Record<string, unknown> };
+
+function resultsOf(structured: unknown): Result[] {
+  return (structured as Record<string, unknown>).results as Result[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Metadata Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_reactions tool metadata', () => {
+  it('has correct name and title', () => {
+    expect(manageReactionsTool.name).toBe('manage_reactions');
+    expect(manageReactionsTool.title).toBe('Manage Reactions (Batch)');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_reactions handler', () => {
+  it('requires exactly one target', async () => {
+    const result = await manageReactionsTool.handler(
+      {
+        items: [
+          { action: 'add', emoji: 'eyes' },
+          {
+            action: 'add',
+            issueId: 'ENG-123',
+            commentId: 'comment-001',
+            emoji: 'eyes',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent).map((r) => r.error?.code)).toEqual([
+      'VALIDATION_ERROR',
+      'VALIDATION_ERROR',
+    ]);
+    expect(mockClient.createReaction).not.toHaveBeenCalled();
+  });
+
+  it('reacts to issues and comments', async () => {
+    const result = await manageReactionsTool.handler(
+      {
+        items: [
+          { action: 'add', issueId: 'ENG-123', emoji: ':rocket:' },
+          { action: 'add', commentId: 'comment-001', emoji: 'thumbsup' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createReaction).toHaveBeenCalledWith({
+      emoji: 'rocket',
+      issueId: 'issue-001',
+    });
+    // Another user's thumbsup does not count as ours
+    expect(mockClient.createReaction).toHaveBeenCalledWith({
+      emoji: 'thumbsup',
+      commentId: 'comment-001',
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+    expect(ManageReactionsOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain('Added :rocket: on ENG-123');
+  });
+
+  it('treats an existing reaction as already added', async () => {
+    const result = await manageReactionsTool.handler(
+      { items: [{ action: 'add', issueId: 'ENG-123', emoji: 'eyes' }] },
+      baseContext,
+    );
+
+    expect(mockClient.createReaction).not.toHaveBeenCalled();
+    expect(resultsOf(result.structuredContent)[0]).toMatchObject({
+      success: true,
+      id: 'reaction-1',
+    });
+    expect(result.content[0].text).toContain('Already reacted :eyes: on ENG-123');
+  });
+
+  it('removes own reactions only', async () => {
+    const result = await manageReactionsTool.handler(
+      {
+        items: [
+          { action: 'remove', issueId: 'ENG-123', emoji: 'eyes' },
+          { action: 'remove', commentId: 'comment-001', emoji: 'thumbsup' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.deleteReaction).toHaveBeenCalledTimes(1);
+    expect(mockClient.deleteReaction).toHaveBeenCalledWith('reaction-1');
+    const results = resultsOf(result.structuredContent);
+    expect(results[0]?.success).toBe(true);
+    expect(results[1]?.error?.code).toBe('REACTION_NOT_FOUND');
+  });
+
+  it('reports unknown comments', async () => {
+    const result = await manageReactionsTool.handler(
+      { items: [{ action: 'add', commentId: 'comment-missing', emoji: 'eyes' }] },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent)[0]?.error?.code).toBe(
+      'COMMENT_NOT_FOUND',
+    );
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Tests for manage_issue_relations tool and relation data in get_issues.
+ * Verifies: input validation, add/remove semantics, blocked_by inversion, output shape.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { manageIssueRelationsTool } from '../../src/shared/tools/linear/relations.js';
+import { getIssuesTool } from '../../src/shared/tools/linear/get-issues.js';
+import { formatIssueDetails } from '../../src/shared/tools/linear/shared/index.js';
+import { ManageIssueRelationsOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockLinearClient,
+  type MockRelation,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockRelations: MockRelation[] = [
+  { id: 'rel-001', type: 'blocks', issueId: 'issue-002', relatedIssueId: 'issue-001' },
+  { id: 'rel-002', type: 'related', issueId: 'issue-001', relatedIssueId: 'issue-003' },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ relations: mockRelations });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tool Metadata Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_issue_relations tool metadata', () => {
+  it('has correct name and title', () => {
+    expect(manageIssueRelationsTool.name).toBe('manage_issue_relations');
+    expect(manageIssueRelationsTool.title).toBe('Manage Issue Relations (Batch)');
+  });
+
+  it('is a non-read-only tool', () => {
+    expect(manageIssueRelationsTool.annotations?.readOnlyHint).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Input Validation Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_issue_relations input validation', () => {
+  it('requires at least one item', () => {
+    const result = manageIssueRelationsTool.inputSchema.safeParse({ items: [] });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts identifiers and all relation types', () => {
+    for (const type of ['blocks', 'blocked_by', 'duplicate', 'related']) {
+      const result = manageIssueRelationsTool.inputSchema.safeParse({
+        items: [{ action: 'add', issueId: 'ENG-123', type, relatedIssueId: 'ENG-124' }],
+      });
+      expect(result.success).toBe(true);
+    }
+  });
+
+  it('rejects unknown relation type', () => {
+    const result = manageIssueRelationsTool.inputSchema.safeParse({
+      items: [
+        {
+          action: 'add',
+          issueId: 'ENG-123',
+          type: 'parent',
+          relatedIssueId: 'ENG-124',
+        },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects unknown action', () => {
+    const result = manageIssueRelationsTool.inputSchema.safeParse({
+      items: [
+        {
+          action: 'toggle',
+          issueId: 'ENG-123',
+          type: 'blocks',
+          relatedIssueId: 'ENG-124',
+        },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler Behavior Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_issue_relations handler', () => {
+  it('adds a blocks relation using resolved UUIDs', async () => {
+    const result = await manageIssueRelationsTool.handler(
+      {
+        items: [
+          {
+            action: 'add',
+            issueId: 'ENG-123',
+            type: 'blocks',
+            relatedIssueId: 'ENG-125',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createIssueRelation).toHaveBeenCalledWith({
+      issueId: 'issue-001',
+      relatedIssueId: 'issue-003',
+      type: 'blocks',
+    });
+    expect(result.content[0].text).toContain('ENG-123 blocks ENG-125');
+  });
+
+  it('inverts blocked_by into a blocks relation from the other issue', async () => {
+    await manageIssueRelationsTool.handler(
+      {
+        items: [
+          {
+            action: 'add',
+            issueId: 'ENG-123',
+            type: 'blocked_by',
+            relatedIssueId: 'ENG-126',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createIssueRelation).toHaveBeenCalledWith({
+      issueId: 'issue-004',
+      relatedIssueId: 'issue-001',
+      type: 'blocks',
+    });
+  });
+
+  it('removes an existing blocked_by relation', async () => {
+    const result = await manageIssueRelationsTool.handler(
+      {
+        items: [
+          {
+            action: 'remove',
+            issueId: 'ENG-123',
+            type: 'blocked_by',
+            relatedIssueId: 'ENG-124',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.deleteIssueRelation).toHaveBeenCalledWith('rel-001');
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0].success).toBe(true);
+    expect(results[0].id).toBe('rel-001');
+  });
+
+  it('removes a related relation from either side', async () => {
+    await manageIssueRelationsTool.handler(
+      {
+        items: [
+          {
+            action: 'remove',
+            issueId: 'ENG-125',
+            type: 'related',
+            relatedIssueId: 'ENG-123',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.deleteIssueRelation).toHaveBeenCalledWith('rel-002');
+  });
+
+  it('reports RELATION_NOT_FOUND when removing a missing relation', async () => {
+    const result = await manageIssueRelationsTool.handler(
+      {
+        items: [
+          {
+            action: 'remove',
+            issueId: 'ENG-123',
+            type: 'duplicate',
+            relatedIssueId: 'ENG-124',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect(results[0].success).toBe(false);
+    expect((results[0].error as Record<string, unknown>).code).toBe(
+      'RELATION_NOT_FOUND',
+    );
+    expect(mockClient.deleteIssueRelation).not.toHaveBeenCalled();
+  });
+
+  it('reports a Linear error, not RELATION_NOT_FOUND, when relations cannot be read', async () => {
+    const rawRequest = mockClient.client.rawRequest as ReturnType<typeof vi.fn>;
+    const original = rawRequest.getMockImplementation();
+    rawRequest.mockImplementation(
+      async (query: string, variables?: Record<string, unknown>) => {
+        if (query.includes('IssueRelations')) throw new Error('Network error');
+        return original?.(query, variables);
+      },
+    );
+
+    const result = await manageIssueRelationsTool.handler(
+      {
+        items: [
+          {
+            action: 'remove',
+            issueId: 'ENG-123',
+            type: 'blocked_by',
+            relatedIssueId: 'ENG-124',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    const results = (result.structuredContent as Record<string, unknown>)
+      .results as Array<Record<string, unknown>>;
+    expect(results[0].error).toMatchObject({
+      code: 'LINEAR_UPDATE_ERROR',
+      message: 'Network error',
+    });
+    expect(mockClient.deleteIssueRelation).not.toHaveBeenCalled();
+  });
+
+  it('reports ISSUE_NOT_FOUND for unknown identifiers and continues batch', async () => {
+    const result = await manageIssueRelationsTool.handler(
+      {
+        items: [
+          {
+            action: 'add',
+            issueId: 'ENG-999',
+            type: 'related',
+            relatedIssueId: 'ENG-123',
+          },
+          {
+            action: 'add',
+            issueId: 'ENG-124',
+            type: 'duplicate',
+            relatedIssueId: 'ENG-123',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0].error as Record<string, unknown>).code).toBe('ISSUE_NOT_FOUND');
+    expect(results[1].success).toBe(true);
+    expect(structured.summary).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+  });
+
+  it('rejects self-relations', async () => {
+    const result = await manageIssueRelationsTool.handler(
+      {
+        items: [
+          {
+            action: 'add',
+            issueId: 'ENG-123',
+            type: 'related',
+            relatedIssueId: 'issue-001',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0].error as Record<string, unknown>).code).toBe('VALIDATION_ERROR');
+    expect(mockClient.createIssueRelation).not.toHaveBeenCalled();
+  });
+
+  it('matches ManageIssueRelationsOutputSchema', async () => {
+    const result = await manageIssueRelationsTool.handler(
+      {
+        items: [
+          {
+            action: 'add',
+            issueId: 'ENG-123',
+            type: 'related',
+            relatedIssueId: 'ENG-124',
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    const parsed = ManageIssueRelationsOutputSchema.safeParse(result.structuredContent);
+    expect(parsed.success).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Relation Data in get_issues / formatIssueDetails
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('relations in issue details', () => {
+  it('get_issues returns relations from both directions', async () => {
+    const result = await getIssuesTool.handler({ ids: ['ENG-123'] }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    const issue = results[0].issue as Record<string, unknown>;
+    const relations = issue.relations as Array<Record<string, unknown>>;
+
+    expect(relations).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          id: 'rel-001',
+          type: 'blocked_by',
+          identifier: 'ENG-124',
+        }),
+        expect.objectContaining({
+          id: 'rel-002',
+          type: 'related',
+          identifier: 'ENG-125',
+        }),
+      ]),
+    );
+    expect(result.content[0].text).toContain('blocked by: ENG-124');
+  });
+
+  it('formatIssueDetails lists relations at full detail only', () => {
+    const issue = {
+      id: 'issue-001',
+      identifier: 'ENG-123',
+      title: 'Fix authentication bug',
+      stateId: 'state-inprogress',
+      stateName: 'In Progress',
+      createdAt: '2024-12-10T10:00:00Z',
+      updatedAt: '2024-12-15T14:30:00Z',
+      labels: [],
+      relations: [
+        {
+          id: 'rel-001',
+          type: 'blocked_by' as const,
+          issueId: 'issue-002',
+          identifier: 'ENG-124',
+        },
+        {
+          id: 'rel-003',
+          type: 'blocked_by' as const,
+          issueId: 'issue-004',
+          identifier: 'ENG-126',
+        },
+      ],
+    };
+
+    expect(formatIssueDetails(issue, { detail: 'full' })).toContain(
+      'blocked by: ENG-124, ENG-126',
+    );
+    expect(formatIssueDetails(issue, { detail: 'standard' })).not.toContain(
+      'blocked by',
+    );
+  });
+});
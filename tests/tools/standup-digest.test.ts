@@ -0,0 +1,285 @@
+/**
+ * Tests for standup_digest tool.
+ * Verifies: viewer-timezone window, Yesterday / Today / Blocked grouping, team scope.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { standupDigestTool } from '../../src/shared/tools/linear/standup-digest.js';
+import { StandupDigestOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockComment,
+  type MockHistoryEntry,
+  type MockIssue,
+  type MockLinearClient,
+  type MockRelation,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const states = {
+  todo: { id: 'state-todo', name: 'Todo', type: 'unstarted' },
+  started: { id: 'state-inprogress', name: 'In Progress', type: 'started' },
+  review: { id: 'state-review', name: 'In Review', type: 'started' },
+  done: { id: 'state-done', name: 'Done', type: 'completed' },
+};
+
+const viewer = { id: 'user-001', name: 'Test User' };
+const jane = { id: 'user-002', name: 'Jane Doe' };
+
+function makeIssue(
+  id: string,
+  identifier: string,
+  state: { id: string; name: string; type: string },
+  assignee: { id: string; name: string },
+  fields: Partial<MockIssue> = {},
+): MockIssue {
+  return {
+    id,
+    identifier,
+    title: `Issue ${identifier}`,
+    url: `https://linear.app/test/issue/${identifier}`,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-05T00:00:00Z'),
+    state: Promise.resolve(state),
+    project: Promise.resolve(null),
+    assignee: Promise.resolve(assignee),
+    labels: () => Promise.resolve({ nodes: [] }),
+    attachments: () => Promise.resolve({ nodes: [] }),
+    comments: () => Promise.resolve({ nodes: [], pageInfo: { hasNextPage: false } }),
+    team: { id: 'team-eng' },
+    ...fields,
+  };
+}
+
+const mockIssues: MockIssue[] = [
+  makeIssue('issue-1', 'ENG-1', states.done, viewer, {
+    updatedAt: new Date('2025-01-10T09:00:00Z'),
+  }),
+  makeIssue('issue-2', 'ENG-2', states.started, viewer, {
+    updatedAt: new Date('2025-01-10T13:00:00Z'),
+  }),
+  // Blocked by ENG-4
+  makeIssue('issue-3', 'ENG-3', states.started, viewer),
+  makeIssue('issue-4', 'ENG-4', states.review, jane, {
+    updatedAt: new Date('2025-01-12T15:00:00Z'),
+    comments: () =>
+      Promise.resolve({
+        nodes: [
+          {
+            id: 'comment-jane',
+            createdAt: new Date('2025-01-12T15:00:00Z'),
+            user: { id: jane.id, name: jane.name },
+          },
+        ],
+        pageInfo: { hasNextPage: false },
+      }),
+  }),
+  makeIssue('issue-5', 'ENG-5', states.todo, jane),
+  // Urgent; its blocker ENG-1 is already done
+  makeIssue('issue-6', 'ENG-6', states.started, viewer, { priority: 1 }),
+];
+
+const mockHistory: MockHistoryEntry[] = [
+  // Before the window
+  {
+    id: 'h-0',
+    issueId: 'issue-1',
+    createdAt: '2025-01-08T09:00:00Z',
+    fromState: { name: 'Todo' },
+    toState: { name: 'In Progress' },
+  },
+  {
+    id: 'h-1',
+    issueId: 'issue-1',
+    createdAt: '2025-01-10T09:00:00Z',
+    fromState: { name: 'In Progress' },
+    toState: { name: 'Done' },
+  },
+  {
+    id: 'h-2',
+    issueId: 'issue-2',
+    createdAt: '2025-01-10T12:00:00Z',
+    toAssignee: { id: viewer.id, name: viewer.name },
+  },
+  {
+    id: 'h-3',
+    issueId: 'issue-2',
+    createdAt: '2025-01-10T13:00:00Z',
+    fromState: { name: 'Todo' },
+    toState: { name: 'In Progress' },
+  },
+];
+
+const mockRelations: MockRelation[] = [
+  { id: 'rel-1', type: 'blocks', issueId: 'issue-4', relatedIssueId: 'issue-3' },
+  { id: 'rel-2', type: 'blocks', issueId: 'issue-1', relatedIssueId: 'issue-6' },
+];
+
+// Workspace-wide comments by the viewer
+const mockComments: MockComment[] = [
+  {
+    id: 'comment-viewer',
+    createdAt: new Date('2025-01-12T08:00:00Z'),
+    user: { id: viewer.id, name: viewer.name },
+    issueId: 'issue-5',
+  },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  // Monday 11:00 in Europe/Warsaw
+  vi.useFakeTimers({ now: new Date('2025-01-13T10:00:00Z'), toFake: ['Date'] });
+  mockClient = createMockLinearClient({
+    issues: mockIssues,
+    history: mockHistory,
+    relations: mockRelations,
+    comments: mockComments,
+  });
+  resetMockCalls(mockClient);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// standup_digest
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('standup_digest tool', () => {
+  it('is read-only', () => {
+    expect(standupDigestTool.name).toBe('standup_digest');
+    expect(standupDigestTool.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it('covers the viewer since Friday in the viewer timezone on Mondays', async () => {
+    const result = await standupDigestTool.handler({}, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(StandupDigestOutputSchema.safeParse(structured).success).toBe(true);
+    expect(structured.scope).toEqual({ userId: 'user-001', userName: 'Test User' });
+    expect(structured.window).toEqual({
+      since: '2025-01-09T23:00:00.000Z',
+      until: '2025-01-13T10:00:00.000Z',
+      timezone: 'Europe/Warsaw',
+    });
+    expect(result.content[0].text).toContain(
+      'Standup for Test User: 2025-01-10 00:00 → 2025-01-13 11:00 (Europe/Warsaw). 3 updated, 2 in progress, 1 blocked.',
+    );
+  });
+
+  it('groups state changes, comments and new assignments under Yesterday', async () => {
+    const result = await standupDigestTool.handler({}, baseContext);
+
+    const yesterday = (result.structuredContent as Record<string, unknown>)
+      .yesterday as Array<Record<string, unknown>>;
+    expect(yesterday).toEqual([
+      expect.objectContaining({
+        identifier: 'ENG-1',
+        stateChanges: [{ at: '2025-01-10T09:00:00Z', from: 'In Progress', to: 'Done' }],
+        comments: 0,
+      }),
+      expect.objectContaining({
+        identifier: 'ENG-2',
+        stateChanges: [{ at: '2025-01-10T13:00:00Z', from: 'Todo', to: 'In Progress' }],
+        assignedAt: '2025-01-10T12:00:00Z',
+      }),
+      expect.objectContaining({ identifier: 'ENG-5', stateChanges: [], comments: 1 }),
+    ]);
+
+    const markdown = (result.structuredContent as Record<string, unknown>).markdown;
+    expect(markdown).toContain(
+      '**Yesterday**\n- [ENG-1](https://linear.app/test/issue/ENG-1) Issue ENG-1 — In Progress → Done',
+    );
+    expect(markdown).toContain(
+      '- [ENG-2](https://linear.app/test/issue/ENG-2) Issue ENG-2 — Todo → In Progress; newly assigned',
+    );
+    expect(markdown).toContain(
+      '- [ENG-5](https://linear.app/test/issue/ENG-5) Issue ENG-5 — 1 comment(s)',
+    );
+  });
+
+  it('lists in-progress work under Today and open blockers under Blocked', async () => {
+    const result = await standupDigestTool.handler({}, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(
+      (structured.today as Array<Record<string, unknown>>).map((i) => i.identifier),
+    ).toEqual(['ENG-6', 'ENG-2']);
+    expect(structured.blocked).toEqual([
+      expect.objectContaining({
+        identifier: 'ENG-3',
+        blockedBy: [
+          expect.objectContaining({ identifier: 'ENG-4', stateName: 'In Review' }),
+        ],
+      }),
+    ]);
+    expect(structured.markdown).toContain(
+      '**Blocked**\n- [ENG-3](https://linear.app/test/issue/ENG-3) Issue ENG-3 — blocked by [ENG-4](https://linear.app/test/issue/ENG-4) Issue ENG-4 (In Review)',
+    );
+  });
+
+  it('covers the whole team with assignee names when only a team is given', async () => {
+    const result = await standupDigestTool.handler({ teamKey: 'ENG' }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.scope).toEqual({ teamId: 'team-eng', teamKey: 'ENG' });
+    expect(
+      (structured.yesterday as Array<Record<string, unknown>>).map((i) => [
+        i.identifier,
+        i.comments,
+      ]),
+    ).toEqual([
+      ['ENG-1', 0],
+      ['ENG-2', 0],
+      ['ENG-4', 1],
+    ]);
+    expect(structured.markdown).toContain('Issue ENG-4 (In Review, Jane Doe)');
+    expect(result.content[0].text).toContain('Standup for ENG:');
+  });
+
+  it('starts from yesterday midweek and honors an explicit window', async () => {
+    vi.setSystemTime(new Date('2025-01-15T10:00:00Z'));
+    const midweek = await standupDigestTool.handler({}, baseContext);
+    expect((midweek.structuredContent as Record<string, unknown>).window).toMatchObject(
+      {
+        since: '2025-01-13T23:00:00.000Z',
+      },
+    );
+
+    const explicit = await standupDigestTool.handler(
+      { since: '2025-01-10T10:00:00Z', until: '2025-01-10T23:00:00Z', timezone: 'UTC' },
+      baseContext,
+    );
+    const yesterday = (explicit.structuredContent as Record<string, unknown>)
+      .yesterday as Array<Record<string, unknown>>;
+    expect(yesterday.map((i) => i.identifier)).toEqual(['ENG-2']);
+  });
+
+  it('rejects an unknown timezone', async () => {
+    const result = await standupDigestTool.handler(
+      { timezone: 'Mars/Olympus' },
+      baseContext,
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: 'VALIDATION_ERROR' });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for manage_issue_subscribers tool.
+ * Verifies: current-user default, user resolution, unsubscribe, unknown issues, output shape.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { manageIssueSubscribersTool } from '../../src/shared/tools/linear/subscriptions.js';
+import { ManageIssueSubscribersOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient();
+  resetMockCalls(mockClient);
+});
+
+type Result = Record<string, unknown> & { error?: Record<string, unknown> };
+
+function resultsOf(structured: unknown): Result[] {
+  return (structured as Record<string, unknown>).results as Result[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Metadata Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_issue_subscribers tool metadata', () => {
+  it('has correct name and title', () => {
+    expect(manageIssueSubscribersTool.name).toBe('manage_issue_subscribers');
+    expect(manageIssueSubscribersTool.title).toBe('Manage Issue Subscribers (Batch)');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_issue_subscribers handler', () => {
+  it('subscribes the current user when no user is given', async () => {
+    const result = await manageIssueSubscribersTool.handler(
+      { items: [{ action: 'subscribe', issueId: 'ENG-123' }] },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.issueSubscribe).toHaveBeenCalledWith('issue-001', undefined);
+    expect(result.content[0].text).toContain('Subscribed you to ENG-123');
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 1, succeeded: 1, failed: 0 });
+    expect(ManageIssueSubscribersOutputSchema.safeParse(structured).success).toBe(true);
+  });
+
+  it('resolves users by name and email', async () => {
+    const result = await manageIssueSubscribersTool.handler(
+      {
+        items: [
+          { action: 'subscribe', issueId: 'ENG-123', userName: 'Jane' },
+          { action: 'unsubscribe', issueId: 'ENG-124', userEmail: 'bob@example.com' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.issueSubscribe).toHaveBeenCalledWith('issue-001', {
+      userId: 'user-002',
+    });
+    expect(mockClient.issueUnsubscribe).toHaveBeenCalledWith('issue-002', {
+      userId: 'user-003',
+    });
+    const text = result.content[0].text;
+    expect(text).toContain('Subscribed Jane Doe to ENG-123');
+    expect(text).toContain('Unsubscribed Bob Smith from ENG-124');
+  });
+
+  it('fails the item when the user cannot be resolved', async () => {
+    const result = await manageIssueSubscribersTool.handler(
+      { items: [{ action: 'subscribe', issueId: 'ENG-123', userName: 'Nobody Here' }] },
+      baseContext,
+    );
+
+    expect(mockClient.issueSubscribe).not.toHaveBeenCalled();
+    const [first] = resultsOf(result.structuredContent);
+    expect(first?.success).toBe(false);
+    expect(first?.error?.code).toBeDefined();
+  });
+
+  it('reports unknown issues', async () => {
+    const result = await manageIssueSubscribersTool.handler(
+      { items: [{ action: 'subscribe', issueId: 'ENG-999' }] },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent)[0]?.error?.code).toBe('ISSUE_NOT_FOUND');
+  });
+});
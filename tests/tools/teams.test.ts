@@ -0,0 +1,265 @@
+/**
+ * Tests for team member and team settings tools.
+ * Verifies: member roles, add/remove idempotency, owner changes, settings updates.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  listTeamMembersTool,
+  manageTeamMembersTool,
+  updateTeamsTool,
+} from '../../src/shared/tools/linear/teams.js';
+import {
+  ListTeamMembersOutputSchema,
+  ManageTeamMembersOutputSchema,
+  UpdateTeamsOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  defaultMockUsers,
+  resetMockCalls,
+  type MockLinearClient,
+  type MockTeamMembership,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const mockMemberships: MockTeamMembership[] = [
+  { id: 'membership-001', teamId: 'team-eng', userId: 'user-001', owner: true },
+  { id: 'membership-002', teamId: 'team-eng', userId: 'user-002' },
+  { id: 'membership-003', teamId: 'team-eng', userId: 'user-003' },
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({
+    users: [
+      { ...defaultMockUsers[0], admin: true },
+      defaultMockUsers[1],
+      { ...defaultMockUsers[2], active: false },
+    ],
+    teamMemberships: mockMemberships,
+  });
+  resetMockCalls(mockClient);
+});
+
+type Result = { success: boolean; id?: string; error?: { code: string } };
+
+function resultsOf(structured: unknown): Result[] {
+  return (structured as Record<string, unknown>).results as Result[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// list_team_members
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('list_team_members tool', () => {
+  it('lists active members with team and workspace roles', async () => {
+    const result = await listTeamMembersTool.handler({ teamKey: 'eng' }, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(ListTeamMembersOutputSchema.safeParse(structured).success).toBe(true);
+
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({
+      user: { id: 'user-001', name: 'Test User' },
+      role: 'owner',
+      workspaceRole: 'admin',
+    });
+    expect(items[1]).toMatchObject({ role: 'member', workspaceRole: 'member' });
+
+    const text = result.content[0].text;
+    expect(text).toContain(
+      'Test User <test@example.com> (team owner, workspace admin)',
+    );
+    expect(text).toContain('Jane Doe <jane@example.com> → user-002');
+  });
+
+  it('includes deactivated users when asked', async () => {
+    const result = await listTeamMembersTool.handler(
+      { teamId: 'team-eng', includeInactive: true },
+      baseContext,
+    );
+
+    const items = (result.structuredContent as Record<string, unknown>).items as Array<
+      Record<string, unknown>
+    >;
+    expect(items).toHaveLength(3);
+    expect(items[2]).toMatchObject({ active: false });
+  });
+
+  it('errors on an unknown team', async () => {
+    const result = await listTeamMembersTool.handler({ teamKey: 'NOPE' }, baseContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Available teams: ENG, DES');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// manage_team_members
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_team_members tool', () => {
+  it('onboards a user to several teams in one call', async () => {
+    const result = await manageTeamMembersTool.handler(
+      {
+        items: [
+          { action: 'add', teamKey: 'DES', userEmail: 'jane@example.com' },
+          { action: 'add', teamKey: 'ENG', userEmail: 'jane@example.com' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createTeamMembership).toHaveBeenCalledTimes(1);
+    expect(mockClient.createTeamMembership).toHaveBeenCalledWith({
+      teamId: 'team-design',
+      userId: 'user-002',
+    });
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(ManageTeamMembersOutputSchema.safeParse(structured).success).toBe(true);
+    expect(resultsOf(structured).every((r) => r.success)).toBe(true);
+
+    const text = result.content[0].text;
+    expect(text).toContain('- Added Jane Doe to DES');
+    expect(text).toContain('- Jane Doe is already in ENG');
+  });
+
+  it('changes the owner flag of an existing member', async () => {
+    const result = await manageTeamMembersTool.handler(
+      { items: [{ action: 'add', teamKey: 'ENG', userId: 'user-002', owner: true }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateTeamMembership).toHaveBeenCalledWith('membership-002', {
+      owner: true,
+    });
+    expect(result.content[0].text).toContain('user-002 is now an owner of ENG');
+  });
+
+  it('removes members and treats non-members as done', async () => {
+    const result = await manageTeamMembersTool.handler(
+      {
+        items: [
+          { action: 'remove', teamKey: 'ENG', userId: 'user-003' },
+          { action: 'remove', teamKey: 'DES', userId: 'user-003' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.deleteTeamMembership).toHaveBeenCalledTimes(1);
+    expect(mockClient.deleteTeamMembership).toHaveBeenCalledWith('membership-003');
+    expect(resultsOf(result.structuredContent).every((r) => r.success)).toBe(true);
+    expect(result.content[0].text).toContain('user-003 is not a member of DES');
+  });
+
+  it('finds memberships beyond the first page on large teams', async () => {
+    mockClient = createMockLinearClient({
+      teamMemberships: [
+        ...Array.from({ length: 300 }, (_, i) => ({
+          id: `membership-bulk-${i}`,
+          teamId: 'team-eng',
+          userId: `user-bulk-${i}`,
+        })),
+        { id: 'membership-late', teamId: 'team-eng', userId: 'user-002' },
+      ],
+    });
+
+    const result = await manageTeamMembersTool.handler(
+      {
+        items: [
+          { action: 'add', teamKey: 'ENG', userId: 'user-002' },
+          { action: 'remove', teamKey: 'ENG', userId: 'user-002' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createTeamMembership).not.toHaveBeenCalled();
+    expect(mockClient.deleteTeamMembership).toHaveBeenCalledWith('membership-late');
+    expect(result.content[0].text).toContain('is already in ENG');
+  });
+
+  it('fails items without a user or with an unknown team', async () => {
+    const result = await manageTeamMembersTool.handler(
+      {
+        items: [
+          { action: 'add', teamKey: 'ENG' },
+          { action: 'add', teamKey: 'NOPE', userId: 'user-002' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent).map((r) => r.error?.code)).toEqual([
+      'VALIDATION_ERROR',
+      'TEAM_NOT_FOUND',
+    ]);
+    expect(mockClient.createTeamMembership).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// update_teams
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('update_teams tool', () => {
+  it('updates cycle and estimation settings', async () => {
+    const result = await updateTeamsTool.handler(
+      {
+        items: [
+          {
+            teamKey: 'ENG',
+            cyclesEnabled: true,
+            cycleDuration: 2,
+            issueEstimationType: 'fibonacci',
+            issueEstimationAllowZero: true,
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.updateTeam).toHaveBeenCalledWith('team-eng', {
+      cyclesEnabled: true,
+      cycleDuration: 2,
+      issueEstimationType: 'fibonacci',
+      issueEstimationAllowZero: true,
+    });
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(UpdateTeamsOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain(
+      '- Updated ENG: cyclesEnabled=true, cycleDuration=2, issueEstimationType="fibonacci", issueEstimationAllowZero=true',
+    );
+  });
+
+  it('rejects items with nothing to update', async () => {
+    const result = await updateTeamsTool.handler(
+      { items: [{ teamKey: 'ENG' }] },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent)[0]?.error?.code).toBe(
+      'VALIDATION_ERROR',
+    );
+    expect(mockClient.updateTeam).not.toHaveBeenCalled();
+  });
+});
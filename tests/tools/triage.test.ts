@@ -0,0 +1,337 @@
+/**
+ * Tests for triage tools (triage_queue, triage_issues).
+ * Verifies: triage filter, snoozed hiding, team grouping, per-action state changes, duplicates, comments.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  triageQueueTool,
+  triageIssuesTool,
+} from '../../src/shared/tools/linear/triage.js';
+import {
+  TriageIssuesOutputSchema,
+  TriageQueueOutputSchema,
+} from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  defaultMockIssues,
+  defaultMockLabels,
+  defaultMockStates,
+  defaultMockTeams,
+  resetMockCalls,
+  type MockIssue,
+  type MockLinearClient,
+  type MockTeam,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const triageStates = [
+  { id: 'state-triage', name: 'Triage', type: 'triage' },
+  ...defaultMockStates,
+  { id: 'state-duplicate', name: 'Duplicate', type: 'canceled' },
+];
+
+const mockTeams: MockTeam[] = [
+  {
+    ...(defaultMockTeams[0] as MockTeam),
+    defaultIssueStateId: 'state-backlog',
+    markedAsDuplicateWorkflowStateId: 'state-duplicate',
+    states: () => Promise.resolve({ nodes: triageStates }),
+  },
+  ...defaultMockTeams.slice(1),
+];
+
+function triageIssue(
+  id: string,
+  identifier: string,
+  teamId: string,
+  extra: Partial<MockIssue> = {},
+): MockIssue {
+  return {
+    id,
+    identifier,
+    title: `Reported problem ${identifier}`,
+    priority: 0,
+    createdAt: new Date('2025-01-10T09:00:00Z'),
+    updatedAt: new Date('2025-01-10T09:00:00Z'),
+    url: `https://linear.app/team/issue/${identifier}`,
+    state: Promise.resolve({ id: 'state-triage', name: 'Triage', type: 'triage' }),
+    project: Promise.resolve(null),
+    assignee: Promise.resolve(null),
+    labels: () => Promise.resolve({ nodes: [] }),
+    attachments: () => Promise.resolve({ nodes: [] }),
+    comments: () => Promise.resolve({ nodes: [], pageInfo: { hasNextPage: false } }),
+    team: { id: teamId },
+    ...extra,
+  };
+}
+
+const mockIssues: MockIssue[] = [
+  ...defaultMockIssues,
+  triageIssue('issue-t1', 'ENG-201', 'team-eng', {
+    priority: 2,
+    labels: () => Promise.resolve({ nodes: [{ id: 'label-bug', name: 'Bug' }] }),
+  }),
+  triageIssue('issue-t2', 'DES-10', 'team-design'),
+  triageIssue('issue-t3', 'ENG-202', 'team-eng', {
+    snoozedUntilAt: new Date('2099-01-01T00:00:00Z'),
+  }),
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({ teams: mockTeams, issues: mockIssues });
+  resetMockCalls(mockClient);
+});
+
+type Result = Record<string, unknown> & { error?: Record<string, unknown> };
+
+function resultsOf(structured: unknown): Result[] {
+  return (structured as Record<string, unknown>).results as Result[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Triage Queue Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('triage_queue tool', () => {
+  it('has correct name and is read-only', () => {
+    expect(triageQueueTool.name).toBe('triage_queue');
+    expect(triageQueueTool.title).toBe('Triage Queue');
+    expect(triageQueueTool.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it('lists triage issues grouped by team and hides snoozed ones', async () => {
+    const result = await triageQueueTool.handler({}, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const filter = mockClient._calls.rawRequest[0]?.variables?.filter as Record<
+      string,
+      unknown
+    >;
+    expect(filter).toMatchObject({
+      state: { type: { eq: 'triage' } },
+      or: [
+        { snoozedUntilAt: { null: true } },
+        { snoozedUntilAt: { lt: expect.any(String) } },
+      ],
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items.map((i) => i.identifier)).toEqual(['ENG-201', 'DES-10']);
+    expect(items[0]).toMatchObject({
+      team: { id: 'team-eng', key: 'ENG' },
+      labels: [{ id: 'label-bug', name: 'Bug' }],
+    });
+    expect(TriageQueueOutputSchema.safeParse(structured).success).toBe(true);
+
+    const text = result.content[0].text;
+    expect(text).toContain('Issues awaiting triage: 2');
+    expect(text).toContain('ENG (1):');
+    expect(text).toContain('DES (1):');
+    expect(text).toContain('priority High; labels Bug');
+  });
+
+  it('fills the page with visible issues when snoozed ones come first', async () => {
+    mockClient = createMockLinearClient({
+      teams: mockTeams,
+      issues: [
+        triageIssue('issue-s1', 'ENG-301', 'team-eng', {
+          snoozedUntilAt: new Date('2099-01-01T00:00:00Z'),
+        }),
+        triageIssue('issue-s2', 'ENG-302', 'team-eng', {
+          snoozedUntilAt: new Date('2099-01-01T00:00:00Z'),
+        }),
+        triageIssue('issue-s3', 'ENG-303', 'team-eng', {
+          snoozedUntilAt: new Date('2020-01-01T00:00:00Z'),
+        }),
+        triageIssue('issue-v1', 'ENG-304', 'team-eng'),
+      ],
+    });
+
+    const result = await triageQueueTool.handler({ limit: 2 }, baseContext);
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items.map((i) => i.identifier)).toEqual(['ENG-303', 'ENG-304']);
+    expect(result.content[0].text).toContain('Issues awaiting triage: 2');
+  });
+
+  it('includes snoozed issues on request', async () => {
+    const result = await triageQueueTool.handler(
+      { teamId: 'team-eng', includeSnoozed: true },
+      baseContext,
+    );
+
+    expect(mockClient._calls.rawRequest[0]?.variables).toMatchObject({
+      filter: { team: { id: { eq: 'team-eng' } } },
+    });
+    const structured = result.structuredContent as Record<string, unknown>;
+    const items = structured.items as Array<Record<string, unknown>>;
+    expect(items.map((i) => i.identifier)).toEqual(['ENG-201', 'ENG-202']);
+    expect(
+      (mockClient._calls.rawRequest[0]?.variables?.filter as Record<string, unknown>)
+        .or,
+    ).toBeUndefined();
+    expect(result.content[0].text).toContain('snoozed until 2099-01-01');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Triage Issues Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('triage_issues tool', () => {
+  it('has correct name and title', () => {
+    expect(triageIssuesTool.name).toBe('triage_issues');
+    expect(triageIssuesTool.title).toBe('Triage Issues (Batch)');
+  });
+
+  it('validates the fields each action needs', async () => {
+    const result = await triageIssuesTool.handler(
+      {
+        items: [
+          { id: 'ENG-201', action: 'duplicate' },
+          { id: 'ENG-201', action: 'snooze' },
+          { id: 'ENG-201', action: 'snooze', snoozeUntil: 'next week' },
+          { id: 'ENG-201', action: 'decline', stateType: 'backlog' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent).map((r) => r.error?.code)).toEqual([
+      'VALIDATION_ERROR',
+      'VALIDATION_ERROR',
+      'VALIDATION_ERROR',
+      'VALIDATION_ERROR',
+    ]);
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+  });
+
+  it("accepts into the team's default state with assignment, priority and labels", async () => {
+    const result = await triageIssuesTool.handler(
+      {
+        items: [
+          {
+            id: 'ENG-201',
+            action: 'accept',
+            assigneeId: 'user-001',
+            priority: 'Urgent',
+            labelNames: [defaultMockLabels[1]?.name as string],
+          },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.updateIssue).toHaveBeenCalledWith('issue-t1', {
+      stateId: 'state-backlog',
+      assigneeId: 'user-001',
+      priority: 1,
+      addedLabelIds: ['label-feature'],
+    });
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.summary).toMatchObject({ total: 1, succeeded: 1, failed: 0 });
+    expect(TriageIssuesOutputSchema.safeParse(structured).success).toBe(true);
+    expect(result.content[0].text).toContain('ENG-201 accepted');
+  });
+
+  it('accepts into an explicit state type', async () => {
+    await triageIssuesTool.handler(
+      { items: [{ id: 'ENG-201', action: 'accept', stateType: 'started' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssue).toHaveBeenCalledWith('issue-t1', {
+      stateId: 'state-inprogress',
+    });
+  });
+
+  it('declines into a canceled state other than the duplicate state and comments', async () => {
+    const result = await triageIssuesTool.handler(
+      { items: [{ id: 'ENG-201', action: 'decline', comment: 'Works as intended.' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssue).toHaveBeenCalledWith('issue-t1', {
+      stateId: 'state-canceled',
+    });
+    expect(mockClient.createComment).toHaveBeenCalledWith({
+      issueId: 'issue-t1',
+      body: 'Works as intended.',
+    });
+    expect(result.content[0].text).toContain('ENG-201 declined (commented)');
+  });
+
+  it('marks duplicates with a relation and the duplicate state', async () => {
+    const result = await triageIssuesTool.handler(
+      { items: [{ id: 'ENG-201', action: 'duplicate', duplicateOfId: 'ENG-123' }] },
+      baseContext,
+    );
+
+    expect(mockClient.createIssueRelation).toHaveBeenCalledWith({
+      issueId: 'issue-t1',
+      relatedIssueId: 'issue-001',
+      type: 'duplicate',
+    });
+    expect(mockClient.updateIssue).toHaveBeenCalledWith('issue-t1', {
+      stateId: 'state-duplicate',
+    });
+    expect(result.content[0].text).toContain('ENG-201 marked duplicate (of ENG-123)');
+  });
+
+  it('snoozes without changing the state', async () => {
+    await triageIssuesTool.handler(
+      { items: [{ id: 'ENG-201', action: 'snooze', snoozeUntil: '2025-02-01' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssue).toHaveBeenCalledWith('issue-t1', {
+      snoozedUntilAt: new Date('2025-02-01'),
+    });
+  });
+
+  it('reports a failed comment after the issue was triaged', async () => {
+    (mockClient.createComment as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new Error('Comment too long'),
+    );
+
+    const result = await triageIssuesTool.handler(
+      { items: [{ id: 'ENG-201', action: 'decline', comment: 'No.' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssue).toHaveBeenCalledTimes(1);
+    const [first] = resultsOf(result.structuredContent);
+    expect(first?.error?.code).toBe('COMMENT_FAILED');
+    expect(first?.error?.message).toContain('Issue declined but the comment failed');
+  });
+
+  it('reports unknown issues', async () => {
+    const result = await triageIssuesTool.handler(
+      { items: [{ id: 'ENG-999', action: 'accept' }] },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent)[0]?.error?.code).toBe('ISSUE_NOT_FOUND');
+  });
+});
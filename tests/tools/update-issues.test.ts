@@ -3,9 +3,16 @@
  * Verifies: input validation, batch updates, state/label changes, error handling.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { updateIssuesTool } from '../../src/shared/tools/linear/update-issues.js';
-import { createMockLinearClient, resetMockCalls, type MockLinearClient } from '../mocks/linear-client.js';
+import {
+  createMockLinearClient,
+  defaultMockTeams,
+  filterMockCycles,
+  resetMockCalls,
+  type MockCycle,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
 import type { ToolContext } from '../../src/shared/tools/types.js';
 import updateIssuesFixtures from '../fixtures/tool-inputs/update-issues.json';
 
@@ -288,6 +295,180 @@ describe('update_issues label operations', () => {
       expect(labelIds).not.toContain('label-bug');
     }
   });
+
+  it('creates unknown addLabelNames with createMissingLabels', async () => {
+    const result = await updateIssuesTool.handler(
+      {
+        items: [{ id: 'issue-001', addLabelNames: ['Regression'] }],
+        createMissingLabels: true,
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createIssueLabel).toHaveBeenCalledWith({
+      name: 'Regression',
+      teamId: 'team-eng',
+    });
+  });
+
+  it('never creates labels for removeLabelNames', async () => {
+    const result = await updateIssuesTool.handler(
+      {
+        items: [{ id: 'issue-001', removeLabelNames: ['Regression'] }],
+        createMissingLabels: true,
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createIssueLabel).not.toHaveBeenCalled();
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('LABEL_RESOLUTION_FAILED');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cycle Resolution Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('update_issues cycle resolution', () => {
+  beforeEach(() => {
+    // Inside Sprint 1 (2024-12-09 → 2024-12-22)
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-12-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves cycleName "current" by date', async () => {
+    await updateIssuesTool.handler(
+      { items: [{ id: 'issue-001', cycleName: 'current' }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssue).toHaveBeenCalledWith(
+      'issue-001',
+      expect.objectContaining({ cycleId: 'cycle-001' }),
+    );
+  });
+
+  it('resolves cycleName "next" and cycle numbers', async () => {
+    await updateIssuesTool.handler(
+      {
+        items: [
+          { id: 'issue-001', cycleName: 'next' },
+          { id: 'issue-002', cycleName: 1 },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(mockClient.updateIssue).toHaveBeenCalledWith(
+      'issue-001',
+      expect.objectContaining({ cycleId: 'cycle-002' }),
+    );
+    expect(mockClient.updateIssue).toHaveBeenCalledWith(
+      'issue-002',
+      expect.objectContaining({ cycleId: 'cycle-001' }),
+    );
+  });
+
+  it('filters team cycles on the server for teams with long cycle histories', async () => {
+    // 150 weekly cycles, oldest first; cycle 150 is the current one
+    const manyCycles: MockCycle[] = Array.from({ length: 150 }, (_, i) => ({
+      id: `cycle-many-${i + 1}`,
+      number: i + 1,
+      startsAt: new Date(Date.UTC(2022, 1, 2 + i * 7)),
+      endsAt: new Date(Date.UTC(2022, 1, 9 + i * 7)),
+      team: { id: 'team-eng' },
+    }));
+    const cycles = vi.fn(
+      async (args?: { first?: number; filter?: Record<string, unknown> }) => {
+        const filtered = filterMockCycles(manyCycles, args?.filter);
+        const limit = args?.first ?? 50;
+        return {
+          nodes: filtered.slice(0, limit),
+          pageInfo: { hasNextPage: filtered.length > limit },
+        };
+      },
+    );
+    mockClient = createMockLinearClient({
+      teams: [{ ...defaultMockTeams[0], cycles }, defaultMockTeams[1]],
+    });
+
+    await updateIssuesTool.handler(
+      {
+        items: [
+          { id: 'issue-001', cycleName: 'current' },
+          { id: 'issue-002', cycleName: 149 },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(cycles).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { isActive: { eq: true } } }),
+    );
+    expect(cycles).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: { number: { eq: 149 } } }),
+    );
+    expect(mockClient.updateIssue).toHaveBeenCalledWith(
+      'issue-001',
+      expect.objectContaining({ cycleId: 'cycle-many-150' }),
+    );
+    expect(mockClient.updateIssue).toHaveBeenCalledWith(
+      'issue-002',
+      expect.objectContaining({ cycleId: 'cycle-many-149' }),
+    );
+  });
+
+  it('fails the item when the cycle cannot be resolved', async () => {
+    const result = await updateIssuesTool.handler(
+      { items: [{ id: 'issue-001', cycleName: 'previous' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    expect((results[0]?.error as Record<string, unknown>)?.code).toBe('CYCLE_RESOLUTION_FAILED');
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Milestone Resolution Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('update_issues milestone resolution', () => {
+  it('resolves projectMilestoneName within the issue\'s current project', async () => {
+    await updateIssuesTool.handler(
+      { items: [{ id: 'issue-001', projectMilestoneName: 'beta' }] },
+      baseContext,
+    );
+
+    expect(mockClient.project).toHaveBeenCalledWith('project-001');
+    expect(mockClient.updateIssue).toHaveBeenCalledWith(
+      'issue-001',
+      expect.objectContaining({ projectMilestoneId: 'milestone-001' }),
+    );
+  });
+
+  it('fails the item when the milestone is not in the project', async () => {
+    const result = await updateIssuesTool.handler(
+      { items: [{ id: 'issue-001', projectMilestoneName: 'Launch' }] },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const results = structured.results as Array<Record<string, unknown>>;
+    const error = results[0]?.error as { code: string; suggestions?: string[] };
+    expect(error.code).toBe('MILESTONE_RESOLUTION_FAILED');
+    expect(error.suggestions?.[0]).toContain('Beta, GA');
+    expect(mockClient.updateIssue).not.toHaveBeenCalled();
+  });
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
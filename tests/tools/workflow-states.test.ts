@@ -0,0 +1,208 @@
+/**
+ * Tests for manage_workflow_states tool.
+ * Verifies: per-action validation, create defaults, rename/reorder, archive issue counts, dry run.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { manageWorkflowStatesTool } from '../../src/shared/tools/linear/workflow-states.js';
+import { ManageWorkflowStatesOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  resetMockCalls,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient();
+  resetMockCalls(mockClient);
+});
+
+type Result = Record<string, unknown> & { error?: Record<string, unknown> };
+
+function resultsOf(structured: unknown): Result[] {
+  return (structured as Record<string, unknown>).results as Result[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Metadata Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_workflow_states tool metadata', () => {
+  it('has correct name and title', () => {
+    expect(manageWorkflowStatesTool.name).toBe('manage_workflow_states');
+    expect(manageWorkflowStatesTool.title).toBe('Manage Workflow States (Batch)');
+  });
+
+  it('is marked destructive', () => {
+    expect(manageWorkflowStatesTool.annotations?.destructiveHint).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_workflow_states handler', () => {
+  it('validates the fields each action needs', async () => {
+    const result = await manageWorkflowStatesTool.handler(
+      {
+        items: [
+          { action: 'create', teamId: 'team-eng', name: 'In Review' },
+          { action: 'archive' },
+          { action: 'update', id: 'state-todo', type: 'started' },
+        ],
+      },
+      baseContext,
+    );
+
+    const results = resultsOf(result.structuredContent);
+    expect(results.map((r) => r.error?.code)).toEqual([
+      'VALIDATION_ERROR',
+      'VALIDATION_ERROR',
+      'VALIDATION_ERROR',
+    ]);
+    expect(mockClient.createWorkflowState).not.toHaveBeenCalled();
+  });
+
+  it('creates states with the default color for the type', async () => {
+    const result = await manageWorkflowStatesTool.handler(
+      {
+        items: [
+          { action: 'create', teamId: 'team-eng', name: 'In Review', type: 'started' },
+        ],
+      },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(mockClient.createWorkflowState).toHaveBeenCalledWith(
+      expect.objectContaining({
+        teamId: 'team-eng',
+        name: 'In Review',
+        type: 'started',
+        color: '#f2c94c',
+      }),
+    );
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.dryRun).toBe(false);
+    expect(ManageWorkflowStatesOutputSchema.safeParse(structured).success).toBe(true);
+  });
+
+  it('renames and reorders states', async () => {
+    const result = await manageWorkflowStatesTool.handler(
+      { items: [{ action: 'update', id: 'state-todo', name: 'Ready', position: 0.5 }] },
+      baseContext,
+    );
+
+    expect(mockClient.updateWorkflowState).toHaveBeenCalledWith('state-todo', {
+      name: 'Ready',
+      position: 0.5,
+    });
+    expect(result.content[0].text).toContain('rename to "Ready", position 0.5');
+  });
+
+  it('archives empty states', async () => {
+    const result = await manageWorkflowStatesTool.handler(
+      { items: [{ action: 'archive', id: 'state-canceled' }] },
+      baseContext,
+    );
+
+    expect(mockClient.archiveWorkflowState).toHaveBeenCalledWith('state-canceled');
+    expect(resultsOf(result.structuredContent)[0]).toMatchObject({
+      success: true,
+      issueCount: 0,
+    });
+    expect(result.content[0].text).toContain('Archived "Canceled" [canceled] in ENG');
+  });
+
+  it('refuses to archive states that still have issues', async () => {
+    const result = await manageWorkflowStatesTool.handler(
+      { items: [{ action: 'archive', id: 'state-todo' }] },
+      baseContext,
+    );
+
+    expect(mockClient.archiveWorkflowState).not.toHaveBeenCalled();
+    const [first] = resultsOf(result.structuredContent);
+    expect(first).toMatchObject({ success: false, issueCount: 1 });
+    expect(first?.error?.code).toBe('STATE_NOT_EMPTY');
+  });
+
+  it('reports unknown states', async () => {
+    const result = await manageWorkflowStatesTool.handler(
+      { items: [{ action: 'archive', id: 'state-missing' }] },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent)[0]?.error?.code).toBe('STATE_NOT_FOUND');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Dry Run Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('manage_workflow_states dry run', () => {
+  it('previews changes and issue counts without writing', async () => {
+    const result = await manageWorkflowStatesTool.handler(
+      {
+        items: [
+          { action: 'create', teamId: 'team-eng', name: 'In Review', type: 'started' },
+          { action: 'update', id: 'state-todo', position: 5 },
+          { action: 'archive', id: 'state-inprogress' },
+          { action: 'archive', id: 'state-canceled' },
+        ],
+        dry_run: true,
+      },
+      baseContext,
+    );
+
+    expect(mockClient.createWorkflowState).not.toHaveBeenCalled();
+    expect(mockClient.updateWorkflowState).not.toHaveBeenCalled();
+    expect(mockClient.archiveWorkflowState).not.toHaveBeenCalled();
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(structured.dryRun).toBe(true);
+    const results = resultsOf(structured);
+    expect(results.map((r) => r.success)).toEqual([true, true, false, true]);
+    expect(results[2]?.issueCount).toBe(1);
+
+    const text = result.content[0].text;
+    expect(text).toContain('Would create "In Review" [started] in ENG');
+    expect(text).toContain('Would update "Todo" [unstarted] in ENG: position 1 → 5');
+    expect(text).toContain(
+      'Cannot archive "In Progress" [started] in ENG: 1 issue(s) still in it',
+    );
+    expect(text).toContain('Would archive "Canceled" [canceled] in ENG (no issues)');
+  });
+
+  it('flags duplicate state names on create', async () => {
+    const result = await manageWorkflowStatesTool.handler(
+      {
+        items: [
+          { action: 'create', teamId: 'team-eng', name: 'done', type: 'completed' },
+        ],
+        dry_run: true,
+      },
+      baseContext,
+    );
+
+    expect(resultsOf(result.structuredContent)[0]?.error?.code).toBe('STATE_EXISTS');
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Tests for workload_overview tool.
+ * Verifies: per-assignee tallies, overload flags, reassignment candidates, unassigned work.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { workloadOverviewTool } from '../../src/shared/tools/linear/workload-overview.js';
+import { WorkloadOverviewOutputSchema } from '../../src/schemas/outputs.js';
+import {
+  createMockLinearClient,
+  defaultMockUsers,
+  resetMockCalls,
+  type MockIssue,
+  type MockLinearClient,
+} from '../mocks/linear-client.js';
+import type { ToolContext } from '../../src/shared/tools/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let mockClient: MockLinearClient;
+
+const baseContext: ToolContext = {
+  sessionId: 'test-session',
+  providerToken: 'test-token',
+  authStrategy: 'bearer',
+};
+
+const states = {
+  backlog: { id: 'state-backlog', name: 'Backlog', type: 'backlog' },
+  todo: { id: 'state-todo', name: 'Todo', type: 'unstarted' },
+  started: { id: 'state-inprogress', name: 'In Progress', type: 'started' },
+  done: { id: 'state-done', name: 'Done', type: 'completed' },
+};
+
+const jane = { id: 'user-002', name: 'Jane Doe' };
+const testUser = { id: 'user-001', name: 'Test User' };
+const bob = { id: 'user-003', name: 'Bob Smith' };
+
+function makeIssue(
+  id: string,
+  identifier: string,
+  state: { id: string; name: string; type: string },
+  assignee: { id: string; name: string } | null,
+  fields: Partial<MockIssue> = {},
+): MockIssue {
+  return {
+    id,
+    identifier,
+    title: `Issue ${identifier}`,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-10T00:00:00Z'),
+    state: Promise.resolve(state),
+    project: Promise.resolve(null),
+    assignee: Promise.resolve(assignee),
+    labels: () => Promise.resolve({ nodes: [] }),
+    attachments: () => Promise.resolve({ nodes: [] }),
+    comments: () => Promise.resolve({ nodes: [], pageInfo: { hasNextPage: false } }),
+    team: { id: 'team-eng' },
+    ...fields,
+  };
+}
+
+const mockIssues: MockIssue[] = [
+  makeIssue('issue-1', 'ENG-1', states.started, jane, { estimate: 5, priority: 2 }),
+  makeIssue('issue-2', 'ENG-2', states.todo, jane, { estimate: 3, priority: 4 }),
+  makeIssue('issue-3', 'ENG-3', states.backlog, jane, { estimate: 2, priority: 0 }),
+  makeIssue('issue-4', 'ENG-4', states.started, testUser, { estimate: 2, priority: 3 }),
+  makeIssue('issue-5', 'ENG-5', states.todo, null, { estimate: 1, priority: 1 }),
+  makeIssue('issue-6', 'ENG-6', states.backlog, null, { priority: 2 }),
+  makeIssue('issue-7', 'ENG-7', states.backlog, null, { estimate: 3, priority: 4 }),
+  // Completed work does not count
+  makeIssue('issue-8', 'ENG-8', states.done, bob, { estimate: 8, priority: 1 }),
+  // Other team
+  makeIssue('issue-9', 'DES-1', states.started, bob, {
+    estimate: 8,
+    team: { id: 'team-design' },
+  }),
+];
+
+vi.mock('../../src/services/linear/client.js', () => ({
+  getLinearClient: vi.fn(() => Promise.resolve(mockClient)),
+}));
+
+const engMemberships = ['user-001', 'user-002', 'user-003'].map((userId) => ({
+  id: `membership-${userId}`,
+  teamId: 'team-eng',
+  userId,
+}));
+
+beforeEach(() => {
+  mockClient = createMockLinearClient({
+    issues: mockIssues,
+    teamMemberships: engMemberships,
+  });
+  resetMockCalls(mockClient);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// workload_overview
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('workload_overview tool', () => {
+  it('is read-only', () => {
+    expect(workloadOverviewTool.name).toBe('workload_overview');
+    expect(workloadOverviewTool.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it('groups open issues by assignee, heaviest first, including idle users', async () => {
+    const result = await workloadOverviewTool.handler({ teamKey: 'ENG' }, baseContext);
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(WorkloadOverviewOutputSchema.safeParse(structured).success).toBe(true);
+
+    expect(structured.totals).toEqual({ issues: 7, points: 16, unestimated: 1 });
+    const people = structured.people as Array<Record<string, unknown>>;
+    expect(people.map((p) => [p.id, p.openIssues, p.points])).toEqual([
+      ['user-002', 3, 10],
+      ['user-001', 1, 2],
+      ['user-003', 0, 0],
+    ]);
+    expect(people[0]).toMatchObject({
+      name: 'Jane',
+      byStateType: {
+        started: { issues: 1, points: 5 },
+        unstarted: { issues: 1, points: 3 },
+        backlog: { issues: 1, points: 2 },
+      },
+      byPriority: {
+        high: { issues: 1, points: 5 },
+        low: { issues: 1, points: 3 },
+        none: { issues: 1, points: 2 },
+      },
+      overloaded: false,
+    });
+
+    const text = result.content[0].text;
+    expect(text).toContain(
+      'Workload for ENG: 7 open issue(s), 16 pts; 3 unassigned (2 high priority).',
+    );
+    expect(text).toContain('Nobody has more than 10 issues.');
+    expect(text).toContain(
+      '- Jane: 3 issue(s), 10 pts (started 1, unstarted 1, backlog 1; high 1) → user-002',
+    );
+  });
+
+  it('flags people above the issue threshold with reassignment candidates', async () => {
+    const result = await workloadOverviewTool.handler(
+      { teamKey: 'ENG', maxIssuesPerPerson: 2 },
+      baseContext,
+    );
+
+    const people = (result.structuredContent as Record<string, unknown>)
+      .people as Array<Record<string, unknown>>;
+    expect(people[0].overloaded).toBe(true);
+    // Not started and least urgent first
+    expect(
+      (people[0].issues as Array<Record<string, unknown>>).map((i) => i.identifier),
+    ).toEqual(['ENG-3', 'ENG-2', 'ENG-1']);
+    expect(people[1].overloaded).toBe(false);
+    expect(people[1].issues).toBeUndefined();
+
+    const text = result.content[0].text;
+    expect(text).toContain('Overloaded (more than 2 issues): Jane.');
+    expect(text).toContain(
+      'Most spare capacity: Bob (0 issue(s), 0 pts), Test User (1 issue(s), 2 pts).',
+    );
+    expect(text).toContain(
+      'Reassignment candidates from Jane:\n- ENG-3 Issue ENG-3 (2 pts; Backlog)',
+    );
+  });
+
+  it('flags people above the points threshold', async () => {
+    const result = await workloadOverviewTool.handler(
+      { teamKey: 'ENG', maxPointsPerPerson: 1 },
+      baseContext,
+    );
+
+    const people = (result.structuredContent as Record<string, unknown>)
+      .people as Array<Record<string, unknown>>;
+    expect(people.filter((p) => p.overloaded).map((p) => p.id)).toEqual([
+      'user-002',
+      'user-001',
+    ]);
+    expect(result.content[0].text).toContain(
+      'Overloaded (more than 10 issues or 1 pts)',
+    );
+  });
+
+  it('lists unassigned high-priority work, urgent first', async () => {
+    const result = await workloadOverviewTool.handler({ teamKey: 'ENG' }, baseContext);
+
+    const unassigned = (result.structuredContent as Record<string, unknown>)
+      .unassigned as {
+      issues: number;
+      points: number;
+      highPriority: Array<Record<string, unknown>>;
+    };
+    expect(unassigned.issues).toBe(3);
+    expect(unassigned.points).toBe(4);
+    expect(unassigned.highPriority.map((i) => i.identifier)).toEqual([
+      'ENG-5',
+      'ENG-6',
+    ]);
+    expect(result.content[0].text).toContain(
+      'Unassigned high-priority work:\n- ENG-5 Issue ENG-5 (Urgent; 1 pts; Todo) → issue-5',
+    );
+  });
+
+  it('only offers active, human team members as spare capacity', async () => {
+    mockClient = createMockLinearClient({
+      issues: mockIssues,
+      users: [
+        ...defaultMockUsers,
+        { id: 'user-004', name: 'Outsider', displayName: 'Outsider' },
+        { id: 'user-005', name: 'Former', displayName: 'Former', active: false },
+        { id: 'user-006', name: 'Triage Bot', displayName: 'Triage Bot', app: true },
+      ],
+      teamMemberships: [
+        ...engMemberships,
+        { id: 'membership-user-005', teamId: 'team-eng', userId: 'user-005' },
+        { id: 'membership-user-006', teamId: 'team-eng', userId: 'user-006' },
+      ],
+    });
+
+    const result = await workloadOverviewTool.handler({ teamKey: 'ENG' }, baseContext);
+
+    const people = (result.structuredContent as Record<string, unknown>)
+      .people as Array<Record<string, unknown>>;
+    expect(people.map((p) => p.id)).toEqual(['user-002', 'user-001', 'user-003']);
+    expect(result.content[0].text).not.toContain('Outsider');
+  });
+
+  it('counts every team when no scope is given', async () => {
+    const result = await workloadOverviewTool.handler({}, baseContext);
+
+    const people = (result.structuredContent as Record<string, unknown>)
+      .people as Array<Record<string, unknown>>;
+    expect(people.find((p) => p.id === 'user-003')).toMatchObject({
+      openIssues: 1,
+      points: 8,
+    });
+    expect(result.content[0].text).toContain(
+      'Workload for the workspace: 8 open issue(s)',
+    );
+  });
+
+  it('errors on an unknown team', async () => {
+    const result = await workloadOverviewTool.handler({ teamKey: 'NOPE' }, baseContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: 'TEAM_NOT_FOUND' });
+  });
+});
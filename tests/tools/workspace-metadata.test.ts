@@ -196,6 +196,53 @@ describe('workspace_metadata handler', () => {
     expect(structured.projects).toBeDefined();
     // favorites is NOT included by default
     expect(structured.favorites).toBeUndefined();
+    expect(structured.initiatives).toBeUndefined();
+  });
+
+  it('returns initiatives with projectIds when include contains "initiatives"', async () => {
+    const result = await workspaceMetadataTool.handler(
+      { include: ['initiatives'] },
+      baseContext,
+    );
+
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+
+    expect(structured.initiatives).toEqual([
+      {
+        id: 'initiative-001',
+        name: 'Platform 2025',
+        status: 'Active',
+        health: 'onTrack',
+        targetDate: '2025-06-30',
+        projectIds: ['project-001', 'project-002'],
+      },
+      { id: 'initiative-002', name: 'Mobile Launch', status: 'Planned', projectIds: [] },
+    ]);
+    const quickLookup = structured.quickLookup as Record<string, unknown>;
+    expect(quickLookup.initiativeIdByName).toEqual({
+      'Platform 2025': 'initiative-001',
+      'Mobile Launch': 'initiative-002',
+    });
+    expect((structured.summary as Record<string, number>).initiativeCount).toBe(2);
+    expect(result.content[0].text).toContain('Platform 2025 [Active] → initiative-001');
+  });
+
+  it('flags initiatives with more projects than project_limit', async () => {
+    const result = await workspaceMetadataTool.handler(
+      { include: ['initiatives'], project_limit: 1 },
+      baseContext,
+    );
+
+    const structured = result.structuredContent as Record<string, unknown>;
+    const initiatives = structured.initiatives as Array<Record<string, unknown>>;
+    expect(initiatives[0]).toMatchObject({
+      projectIds: ['project-001'],
+      projectsTruncated: true,
+    });
+    expect(initiatives[1].projectsTruncated).toBeUndefined();
+    expect(result.content[0].text).toContain('→ initiative-001 (1+ project(s))');
+    expect(result.content[0].text).toContain('raise it or use list_initiatives');
   });
 
   it('filters teams by teamIds when provided', async () => {